@@ -0,0 +1,13 @@
+-- Adaptive TDEE
+-- Records which energy expenditure each set of nutrition goals was built on: the
+-- formula estimate (BMR x activity multiplier) or the adaptive estimate derived from
+-- logged intake and the weigh-in trend (see src/lib/adaptiveTdee.ts).
+
+-- 1. NUTRITION GOALS
+-- ============================================
+alter table public.nutrition_goals add column if not exists tdee numeric;
+alter table public.nutrition_goals add column if not exists tdee_source text not null default 'formula';
+
+alter table public.nutrition_goals drop constraint if exists nutrition_goals_tdee_source_check;
+alter table public.nutrition_goals add constraint nutrition_goals_tdee_source_check
+  check (tdee_source in ('formula', 'adaptive'));
@@ -0,0 +1,14 @@
+-- Apple Health Export Import
+-- Workouts imported from an Apple Health export.xml carry a stable external id (the
+-- workout's start time and type), so importing a newer export updates the existing
+-- exercise_sessions rows instead of adding duplicates. Day totals are already one
+-- activity_data row per user and date (see src/lib/appleHealthImport.ts).
+-- Run after database-activity-schema.sql.
+
+-- 1. EXERCISE SESSIONS
+-- ============================================
+alter table public.exercise_sessions add column if not exists external_id text;
+
+-- Non-partial so it can serve as the upsert conflict target; manual sessions leave it null
+create unique index if not exists exercise_sessions_user_external_id_key
+  on public.exercise_sessions(user_id, external_id);
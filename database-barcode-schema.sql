@@ -0,0 +1,19 @@
+-- Barcode Import for Packaged Foods
+-- Scanned products are stored as food_items with their barcode and serving size,
+-- so a second scan of the same product is a local lookup.
+
+-- 1. FOOD ITEMS
+-- ============================================
+alter table public.food_items add column if not exists barcode text; -- EAN-13 / EAN-8 / UPC-A digits
+alter table public.food_items add column if not exists brand text;
+alter table public.food_items add column if not exists serving_size_g numeric check (serving_size_g > 0);
+alter table public.food_items add column if not exists serving_description text; -- e.g. "1 bar (40 g)"
+alter table public.food_items add column if not exists source text; -- product source id, e.g. 'local_off_dump'
+
+-- Imported products are custom foods (RLS only lets users insert those),
+-- so a barcode is unique per owner rather than globally.
+create unique index if not exists food_items_barcode_owner_idx
+  on public.food_items(barcode, coalesce(created_by, '00000000-0000-0000-0000-000000000000'::uuid))
+  where barcode is not null;
+
+create index if not exists food_items_barcode_idx on public.food_items(barcode) where barcode is not null;
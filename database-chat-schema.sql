@@ -0,0 +1,89 @@
+-- Chat History for the Nutrition Assistant
+-- Conversations are stored as threads of messages so they survive navigation
+-- and earlier turns can be sent back to the model as context.
+
+-- 1. CHAT THREADS TABLE
+-- ============================================
+create table public.chat_threads (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  title text not null default 'New conversation',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now() -- bumped on every new message, orders the thread list
+);
+
+alter table public.chat_threads enable row level security;
+
+create policy "Users can read their own chat threads"
+  on public.chat_threads for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own chat threads"
+  on public.chat_threads for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own chat threads"
+  on public.chat_threads for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own chat threads"
+  on public.chat_threads for delete
+  using (auth.uid() = user_id);
+
+create index chat_threads_user_updated_idx on public.chat_threads(user_id, updated_at desc);
+
+-- 2. CHAT MESSAGES TABLE
+-- ============================================
+create table public.chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid references public.chat_threads(id) on delete cascade not null,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  role text not null check (role in ('user', 'bot')),
+  content text not null,
+  suggestions jsonb, -- follow-up question chips
+  food_analysis jsonb, -- plate analysis, so the review card can be reopened
+  image_url text, -- storage URL only; local previews are not persisted
+  action_type text,
+  created_at timestamptz default now()
+);
+
+alter table public.chat_messages enable row level security;
+
+create policy "Users can read their own chat messages"
+  on public.chat_messages for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own chat messages"
+  on public.chat_messages for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.chat_threads t
+      where t.id = thread_id and t.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete their own chat messages"
+  on public.chat_messages for delete
+  using (auth.uid() = user_id);
+
+create index chat_messages_thread_created_idx on public.chat_messages(thread_id, created_at);
+
+-- 3. KEEP THREADS ORDERED BY ACTIVITY
+-- ============================================
+create or replace function public.touch_chat_thread()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  update public.chat_threads
+  set updated_at = now()
+  where id = NEW.thread_id;
+  return NEW;
+end;
+$$;
+
+create trigger on_chat_message_insert
+  after insert on public.chat_messages
+  for each row execute procedure public.touch_chat_thread();
@@ -0,0 +1,12 @@
+-- Assistant Tool Calls
+-- The assistant can propose changes to the food log and targets. Each proposal is
+-- stored on its chat message with a status, so a confirmed card can't be applied twice.
+
+-- 1. CHAT MESSAGES: { "name": "log_meal", "arguments": { ... }, "status": "pending" }
+-- ============================================
+alter table public.chat_messages add column if not exists tool_call jsonb;
+
+-- Confirming or cancelling a proposal updates its status
+create policy "Users can update their own chat messages"
+  on public.chat_messages for update
+  using (auth.uid() = user_id);
@@ -0,0 +1,28 @@
+-- Dietary Restrictions and Allergens
+-- Stores the restrictions collected during onboarding on the profile, and allergen tags on
+-- foods so conflicting foods can be flagged when searching and logging
+-- (see src/lib/dietaryRestrictions.ts for the tag and restriction keys).
+
+-- 1. PROFILE RESTRICTIONS
+-- ============================================
+-- Preset keys: vegetarian, vegan, halal, gluten_free, nut_allergy, lactose_intolerant
+alter table public.profiles add column if not exists dietary_restrictions text[] not null default '{}';
+-- Free-text foods or ingredients to avoid, e.g. 'sesame', 'mushrooms'
+alter table public.profiles add column if not exists custom_dietary_tags text[] not null default '{}';
+alter table public.profiles add column if not exists medication text;
+
+-- 2. ALLERGEN TAGS ON FOOD ITEMS
+-- ============================================
+alter table public.food_items add column if not exists allergens text[] not null default '{}';
+
+-- Backfill the seeded system foods
+update public.food_items set allergens = '{poultry}' where name = 'Chicken Breast (cooked)' and is_custom = false;
+update public.food_items set allergens = '{egg}' where name = 'Egg (boiled)' and is_custom = false;
+update public.food_items set allergens = '{gluten}' where name = 'Oats (dry)' and is_custom = false; -- usually cross-contaminated
+update public.food_items set allergens = '{fish}' where name = 'Salmon (cooked)' and is_custom = false;
+update public.food_items set allergens = '{tree_nuts}' where name = 'Almonds' and is_custom = false;
+
+-- 3. ALLERGEN TAGS ON MEAL LOGS
+-- ============================================
+-- Copied from the food at log time, like glycemic_index
+alter table public.meal_logs add column if not exists allergens text[] not null default '{}';
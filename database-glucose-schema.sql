@@ -0,0 +1,59 @@
+-- Blood Glucose Journal and Glycemic Data
+-- Glucose readings logged alongside meal_logs, plus glycemic index on foods
+-- so a per-meal glycemic load can be computed.
+
+-- 1. GLYCEMIC INDEX ON FOOD ITEMS (0-100, glucose = 100, null = unknown)
+-- ============================================
+alter table public.food_items add column if not exists glycemic_index numeric check (glycemic_index between 0 and 100);
+
+-- Backfill the seeded system foods (values from the International GI Tables)
+update public.food_items set glycemic_index = 73 where name = 'Rice (white, cooked)' and is_custom = false;
+update public.food_items set glycemic_index = 0 where name = 'Chicken Breast (cooked)' and is_custom = false;
+update public.food_items set glycemic_index = 15 where name = 'Broccoli (cooked)' and is_custom = false;
+update public.food_items set glycemic_index = 51 where name = 'Banana' and is_custom = false;
+update public.food_items set glycemic_index = 0 where name = 'Egg (boiled)' and is_custom = false;
+update public.food_items set glycemic_index = 55 where name = 'Oats (dry)' and is_custom = false;
+update public.food_items set glycemic_index = 0 where name = 'Salmon (cooked)' and is_custom = false;
+update public.food_items set glycemic_index = 63 where name = 'Sweet Potato (cooked)' and is_custom = false;
+update public.food_items set glycemic_index = 0 where name = 'Almonds' and is_custom = false;
+update public.food_items set glycemic_index = 36 where name = 'Apple' and is_custom = false;
+
+-- 2. GLYCEMIC INDEX ON MEAL LOGS
+-- ============================================
+-- Copied from the food at log time; glycemic load is derived from it and
+-- the meal's carbs, so it never goes stale when a meal is edited.
+alter table public.meal_logs add column if not exists glycemic_index numeric check (glycemic_index between 0 and 100);
+
+-- 3. GLUCOSE READINGS TABLE
+-- ============================================
+create table public.glucose_readings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  value_mgdl numeric not null check (value_mgdl > 0 and value_mgdl < 1000),
+  reading_type text not null check (reading_type in ('fasting', 'pre_meal', 'post_meal', 'bedtime', 'random')),
+  -- Optional explicit link; otherwise post-meal readings are matched to the preceding meal by time
+  meal_log_id uuid references public.meal_logs(id) on delete set null,
+  notes text,
+  measured_at timestamptz not null default now(),
+  created_at timestamptz default now()
+);
+
+alter table public.glucose_readings enable row level security;
+
+create policy "Users can read their own glucose readings"
+  on public.glucose_readings for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own glucose readings"
+  on public.glucose_readings for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own glucose readings"
+  on public.glucose_readings for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own glucose readings"
+  on public.glucose_readings for delete
+  using (auth.uid() = user_id);
+
+create index glucose_readings_user_measured_idx on public.glucose_readings(user_id, measured_at desc);
@@ -0,0 +1,16 @@
+-- Goal History and Scheduled Targets
+-- nutrition_goals is versioned: each row takes effect on its calculation_date (in the
+-- user's timezone) and lasts until the next row. Rows dated after today are scheduled
+-- changes, which users may cancel before they start; past versions stay as recorded.
+-- Run after database-timezone-schema.sql (uses public.user_timezone).
+
+-- 1. CANCELLING SCHEDULED GOALS
+-- ============================================
+drop policy if exists "Users can delete their own scheduled nutrition goals" on public.nutrition_goals;
+create policy "Users can delete their own scheduled nutrition goals"
+  on public.nutrition_goals for delete
+  using (
+    auth.uid() = user_id
+    and calculation_date > (now() at time zone public.user_timezone(user_id))::date
+  );
+
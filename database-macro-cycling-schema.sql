@@ -0,0 +1,25 @@
+-- Training-Day and Rest-Day Macro Cycling
+-- Shifts carbs (and the calories that come with them) from rest days to training days
+-- while the weekly total stays on the goal. Training days come either from a fixed weekly
+-- schedule or from whether activity_data has exercise sessions that day; the split itself
+-- is worked out in the app (see src/lib/macroCycling.ts).
+
+-- 1. PROFILE SETTINGS
+-- ============================================
+-- 'off', 'schedule' (fixed weekdays) or 'activity' (days with logged exercise sessions)
+alter table public.profiles add column if not exists macro_cycling text not null default 'off';
+-- Weekdays trained on in 'schedule' mode, 0 = Sunday
+alter table public.profiles add column if not exists training_days smallint[] not null default '{}';
+-- Expected training days in a typical week, used to balance 'activity' mode
+alter table public.profiles add column if not exists training_days_per_week smallint not null default 3;
+-- How much higher training-day carbs are than the daily goal
+alter table public.profiles add column if not exists carb_cycling_percent smallint not null default 20;
+
+alter table public.profiles drop constraint if exists profiles_macro_cycling_check;
+alter table public.profiles add constraint profiles_macro_cycling_check
+  check (
+    macro_cycling in ('off', 'schedule', 'activity')
+    and training_days <@ '{0,1,2,3,4,5,6}'::smallint[]
+    and training_days_per_week between 0 and 7
+    and carb_cycling_percent between 0 and 50
+  );
@@ -0,0 +1,75 @@
+-- Medication Schedule and Dose History
+-- Medications with the local times they are taken at, and a record of each scheduled dose
+-- the user checked off or skipped. Reminders are shown by the browser's service worker
+-- (public/medication-sw.js) from this schedule.
+
+-- 1. MEDICATIONS TABLE
+-- ============================================
+create table public.medications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  dose text, -- free text, e.g. '500 mg' or '10 units'
+  -- 'HH:MM' on the user's clock, e.g. '{08:00,20:00}'
+  times text[] not null default '{}' check (array_to_string(times, ',') ~ '^((([01][0-9]|2[0-3]):[0-5][0-9])(,|$))*$'),
+  with_meal boolean not null default false, -- take with food
+  reminders_enabled boolean not null default true,
+  active boolean not null default true, -- inactive medications keep their history but leave the schedule
+  notes text,
+  created_at timestamptz default now()
+);
+
+alter table public.medications enable row level security;
+
+create policy "Users can read their own medications"
+  on public.medications for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own medications"
+  on public.medications for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own medications"
+  on public.medications for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own medications"
+  on public.medications for delete
+  using (auth.uid() = user_id);
+
+create index medications_user_idx on public.medications(user_id);
+
+-- 2. MEDICATION DOSES TABLE
+-- ============================================
+-- One row per scheduled dose the user acted on; doses without a row are still due or missed
+create table public.medication_doses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  medication_id uuid references public.medications(id) on delete cascade not null,
+  scheduled_date date not null, -- the user's local day
+  scheduled_time text not null, -- 'HH:MM' on the user's clock, one of medications.times
+  status text not null default 'taken' check (status in ('taken', 'skipped')),
+  taken_at timestamptz not null default now(),
+  created_at timestamptz default now(),
+  unique (medication_id, scheduled_date, scheduled_time)
+);
+
+alter table public.medication_doses enable row level security;
+
+create policy "Users can read their own medication doses"
+  on public.medication_doses for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own medication doses"
+  on public.medication_doses for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own medication doses"
+  on public.medication_doses for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own medication doses"
+  on public.medication_doses for delete
+  using (auth.uid() = user_id);
+
+create index medication_doses_user_date_idx on public.medication_doses(user_id, scheduled_date desc);
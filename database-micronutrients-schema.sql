@@ -0,0 +1,45 @@
+-- Micronutrient Tracking
+-- Adds fiber, sugar, sodium, vitamin C, calcium and iron to foods, meal logs
+-- and daily summaries. Grams for fiber/sugar, milligrams for the rest.
+
+-- 1. FOOD ITEMS (per 100g, nullable = unknown)
+-- ============================================
+alter table public.food_items add column if not exists fiber_per_100g numeric;
+alter table public.food_items add column if not exists sugar_per_100g numeric;
+alter table public.food_items add column if not exists sodium_per_100g numeric;
+alter table public.food_items add column if not exists vitamin_c_per_100g numeric;
+alter table public.food_items add column if not exists calcium_per_100g numeric;
+alter table public.food_items add column if not exists iron_per_100g numeric;
+
+-- Backfill the seeded system foods
+update public.food_items set fiber_per_100g = 0.4, sugar_per_100g = 0.1, sodium_per_100g = 1, vitamin_c_per_100g = 0, calcium_per_100g = 10, iron_per_100g = 0.2 where name = 'Rice (white, cooked)' and is_custom = false;
+update public.food_items set fiber_per_100g = 0, sugar_per_100g = 0, sodium_per_100g = 74, vitamin_c_per_100g = 0, calcium_per_100g = 15, iron_per_100g = 1 where name = 'Chicken Breast (cooked)' and is_custom = false;
+update public.food_items set fiber_per_100g = 3.3, sugar_per_100g = 1.4, sodium_per_100g = 41, vitamin_c_per_100g = 65, calcium_per_100g = 40, iron_per_100g = 0.7 where name = 'Broccoli (cooked)' and is_custom = false;
+update public.food_items set fiber_per_100g = 2.6, sugar_per_100g = 12, sodium_per_100g = 1, vitamin_c_per_100g = 8.7, calcium_per_100g = 5, iron_per_100g = 0.3 where name = 'Banana' and is_custom = false;
+update public.food_items set fiber_per_100g = 0, sugar_per_100g = 1.1, sodium_per_100g = 124, vitamin_c_per_100g = 0, calcium_per_100g = 50, iron_per_100g = 1.2 where name = 'Egg (boiled)' and is_custom = false;
+update public.food_items set fiber_per_100g = 10, sugar_per_100g = 1, sodium_per_100g = 2, vitamin_c_per_100g = 0, calcium_per_100g = 54, iron_per_100g = 4.7 where name = 'Oats (dry)' and is_custom = false;
+update public.food_items set fiber_per_100g = 0, sugar_per_100g = 0, sodium_per_100g = 61, vitamin_c_per_100g = 0, calcium_per_100g = 15, iron_per_100g = 0.3 where name = 'Salmon (cooked)' and is_custom = false;
+update public.food_items set fiber_per_100g = 3.3, sugar_per_100g = 6.5, sodium_per_100g = 36, vitamin_c_per_100g = 19.6, calcium_per_100g = 38, iron_per_100g = 0.7 where name = 'Sweet Potato (cooked)' and is_custom = false;
+update public.food_items set fiber_per_100g = 12.5, sugar_per_100g = 4.4, sodium_per_100g = 1, vitamin_c_per_100g = 0, calcium_per_100g = 269, iron_per_100g = 3.7 where name = 'Almonds' and is_custom = false;
+update public.food_items set fiber_per_100g = 2.4, sugar_per_100g = 10, sodium_per_100g = 1, vitamin_c_per_100g = 4.6, calcium_per_100g = 6, iron_per_100g = 0.1 where name = 'Apple' and is_custom = false;
+
+-- 2. MEAL LOGS (totals for the logged portion)
+-- ============================================
+alter table public.meal_logs add column if not exists fiber numeric;
+alter table public.meal_logs add column if not exists sugar numeric;
+alter table public.meal_logs add column if not exists sodium numeric;
+alter table public.meal_logs add column if not exists vitamin_c numeric;
+alter table public.meal_logs add column if not exists calcium numeric;
+alter table public.meal_logs add column if not exists iron numeric;
+
+-- 3. DAILY NUTRITION SUMMARY
+-- ============================================
+alter table public.daily_nutrition_summary add column if not exists total_fiber numeric default 0;
+alter table public.daily_nutrition_summary add column if not exists total_sugar numeric default 0;
+alter table public.daily_nutrition_summary add column if not exists total_sodium numeric default 0;
+alter table public.daily_nutrition_summary add column if not exists total_vitamin_c numeric default 0;
+alter table public.daily_nutrition_summary add column if not exists total_calcium numeric default 0;
+alter table public.daily_nutrition_summary add column if not exists total_iron numeric default 0;
+
+-- The summary trigger that totals these lives in database-timezone-schema.sql,
+-- which must run after this file
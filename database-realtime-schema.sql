@@ -0,0 +1,42 @@
+-- Realtime Sync
+-- Publishes the tables src/hooks/useRealtimeSync.ts listens to, so changes made on one
+-- device reach the others. Deletes can't be filtered by user and, on tables with RLS,
+-- carry only the primary key whatever the replica identity; the app matches them by id
+-- against the rows it has cached.
+-- Run after every other schema file, once all the tables exist.
+
+-- 1. PUBLICATION
+-- ============================================
+do $$
+declare
+  synced_table text;
+begin
+  foreach synced_table in array array[
+    'meal_logs',
+    'daily_nutrition_summary',
+    'nutrition_goals',
+    'activity_data',
+    'weigh_ins',
+    'medications',
+    'medication_doses'
+  ] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = synced_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', synced_table);
+    end if;
+  end loop;
+end $$;
+
+-- 2. REPLICA IDENTITY
+-- ============================================
+-- Full old rows for updates, so a change that moves a row (e.g. a meal to another day)
+-- still lets RLS check the row it left
+alter table public.meal_logs replica identity full;
+alter table public.daily_nutrition_summary replica identity full;
+alter table public.nutrition_goals replica identity full;
+alter table public.activity_data replica identity full;
+alter table public.weigh_ins replica identity full;
+alter table public.medications replica identity full;
+alter table public.medication_doses replica identity full;
@@ -0,0 +1,165 @@
+-- Recipe Tables for Multi-Item Meal Composition
+-- Saved recipes built from food_items, logged as one grouped meal entry
+
+-- 1. RECIPES TABLE
+-- ============================================
+create table public.recipes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  servings numeric not null default 1 check (servings > 0),
+  total_grams numeric not null default 0,
+  -- Per-serving values, computed client-side from the ingredients
+  calories_per_serving numeric not null default 0,
+  carbs_per_serving numeric not null default 0,
+  fats_per_serving numeric not null default 0,
+  proteins_per_serving numeric not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique(user_id, name)
+);
+
+alter table public.recipes enable row level security;
+
+create policy "Users can read their own recipes"
+  on public.recipes for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own recipes"
+  on public.recipes for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own recipes"
+  on public.recipes for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own recipes"
+  on public.recipes for delete
+  using (auth.uid() = user_id);
+
+create index recipes_user_id_idx on public.recipes(user_id);
+
+-- 2. RECIPE INGREDIENTS TABLE
+-- ============================================
+create table public.recipe_ingredients (
+  id uuid primary key default gen_random_uuid(),
+  recipe_id uuid references public.recipes(id) on delete cascade not null,
+  food_item_id uuid references public.food_items(id) on delete set null,
+  food_name text not null,
+  grams numeric not null check (grams > 0),
+  -- Totals for the ingredient amount (not per 100g)
+  calories numeric not null,
+  carbs numeric not null,
+  fats numeric not null,
+  proteins numeric not null,
+  position integer default 0
+);
+
+alter table public.recipe_ingredients enable row level security;
+
+create policy "Users can read their own recipe ingredients"
+  on public.recipe_ingredients for select
+  using (exists (
+    select 1 from public.recipes r
+    where r.id = recipe_id and r.user_id = auth.uid()
+  ));
+
+create policy "Users can manage their own recipe ingredients"
+  on public.recipe_ingredients for all
+  using (exists (
+    select 1 from public.recipes r
+    where r.id = recipe_id and r.user_id = auth.uid()
+  ));
+
+create index recipe_ingredients_recipe_id_idx on public.recipe_ingredients(recipe_id);
+
+-- Micronutrients for the ingredient amount, in the units meal_logs uses (g for fiber
+-- and sugar, mg for the rest); null when the food doesn't know them
+alter table public.recipe_ingredients add column if not exists fiber numeric;
+alter table public.recipe_ingredients add column if not exists sugar numeric;
+alter table public.recipe_ingredients add column if not exists sodium numeric;
+alter table public.recipe_ingredients add column if not exists vitamin_c numeric;
+alter table public.recipe_ingredients add column if not exists calcium numeric;
+alter table public.recipe_ingredients add column if not exists iron numeric;
+
+-- 3. LINK MEAL LOGS TO RECIPES
+-- ============================================
+-- A recipe meal is still a single meal_logs row so the daily summary
+-- trigger keeps working; the ingredient snapshot lets MealCard expand it
+-- even if the recipe is later edited or deleted.
+alter table public.meal_logs add column if not exists recipe_id uuid references public.recipes(id) on delete set null;
+alter table public.meal_logs add column if not exists servings numeric;
+alter table public.meal_logs add column if not exists ingredients jsonb;
+
+-- 4. ATOMIC SAVE
+-- ============================================
+-- Writes the recipe row and replaces its ingredient list in one transaction, so a
+-- failed save never leaves a recipe with duplicated or missing ingredients.
+-- Returns the saved recipe with its ingredients, in the shape the app reads.
+-- Runs with the caller's rights, so the policies above still apply.
+create or replace function public.save_recipe(
+  p_recipe_id uuid,
+  p_recipe jsonb,
+  p_ingredients jsonb
+)
+returns jsonb
+language plpgsql
+security invoker set search_path = public
+as $$
+declare
+  r public.recipes := jsonb_populate_record(null::public.recipes, p_recipe);
+  v_recipe_id uuid;
+begin
+  if p_recipe_id is null then
+    insert into public.recipes (
+      user_id, name, servings, total_grams,
+      calories_per_serving, carbs_per_serving, fats_per_serving, proteins_per_serving
+    )
+    values (
+      auth.uid(), r.name, r.servings, r.total_grams,
+      r.calories_per_serving, r.carbs_per_serving, r.fats_per_serving, r.proteins_per_serving
+    )
+    returning id into v_recipe_id;
+  else
+    update public.recipes
+    set name = r.name,
+        servings = r.servings,
+        total_grams = r.total_grams,
+        calories_per_serving = r.calories_per_serving,
+        carbs_per_serving = r.carbs_per_serving,
+        fats_per_serving = r.fats_per_serving,
+        proteins_per_serving = r.proteins_per_serving,
+        updated_at = now()
+    where id = p_recipe_id and user_id = auth.uid()
+    returning id into v_recipe_id;
+
+    if v_recipe_id is null then
+      raise exception 'Recipe not found';
+    end if;
+
+    delete from public.recipe_ingredients where recipe_id = v_recipe_id;
+  end if;
+
+  insert into public.recipe_ingredients (
+    recipe_id, food_item_id, food_name, grams, calories, carbs, fats, proteins,
+    fiber, sugar, sodium, vitamin_c, calcium, iron, position
+  )
+  select v_recipe_id, i.food_item_id, i.food_name, i.grams, i.calories, i.carbs, i.fats, i.proteins,
+    i.fiber, i.sugar, i.sodium, i.vitamin_c, i.calcium, i.iron, (t.ord - 1)::integer
+  from jsonb_array_elements(p_ingredients) with ordinality as t(item, ord)
+  cross join lateral jsonb_populate_record(null::public.recipe_ingredients, t.item) as i;
+
+  return (
+    select to_jsonb(saved) || jsonb_build_object(
+      'ingredients',
+      coalesce((
+        select jsonb_agg(to_jsonb(ri) order by ri.position)
+        from public.recipe_ingredients ri
+        where ri.recipe_id = saved.id
+      ), '[]'::jsonb)
+    )
+    from public.recipes saved
+    where saved.id = v_recipe_id
+  );
+end;
+$$;
@@ -0,0 +1,25 @@
+-- Serving Units and Household Measures
+-- Foods define units like "1 medium" or "cup" with a gram equivalent; meal logs
+-- remember the unit the user picked. portion_size stays the gram total.
+
+-- 1. FOOD ITEMS: [{ "name": "medium", "grams": 118 }, ...]
+-- ============================================
+alter table public.food_items add column if not exists units jsonb not null default '[]'::jsonb;
+
+-- Backfill the seeded system foods (USDA household measures)
+update public.food_items set units = '[{"name":"cup","grams":158},{"name":"tbsp","grams":10}]' where name = 'Rice (white, cooked)' and is_custom = false;
+update public.food_items set units = '[{"name":"breast","grams":172},{"name":"oz","grams":28}]' where name = 'Chicken Breast (cooked)' and is_custom = false;
+update public.food_items set units = '[{"name":"cup","grams":156},{"name":"spear","grams":37}]' where name = 'Broccoli (cooked)' and is_custom = false;
+update public.food_items set units = '[{"name":"medium","grams":118},{"name":"small","grams":101},{"name":"large","grams":136},{"name":"cup","grams":150}]' where name = 'Banana' and is_custom = false;
+update public.food_items set units = '[{"name":"large","grams":50},{"name":"medium","grams":44}]' where name = 'Egg (boiled)' and is_custom = false;
+update public.food_items set units = '[{"name":"cup","grams":81},{"name":"tbsp","grams":5}]' where name = 'Oats (dry)' and is_custom = false;
+update public.food_items set units = '[{"name":"fillet","grams":154},{"name":"oz","grams":28}]' where name = 'Salmon (cooked)' and is_custom = false;
+update public.food_items set units = '[{"name":"medium","grams":114},{"name":"cup","grams":200}]' where name = 'Sweet Potato (cooked)' and is_custom = false;
+update public.food_items set units = '[{"name":"piece","grams":1.2},{"name":"oz","grams":28},{"name":"cup","grams":143}]' where name = 'Almonds' and is_custom = false;
+update public.food_items set units = '[{"name":"medium","grams":182},{"name":"small","grams":149},{"name":"large","grams":223},{"name":"cup","grams":125}]' where name = 'Apple' and is_custom = false;
+
+-- 2. MEAL LOGS
+-- ============================================
+-- Grams per unit is portion_size / unit_quantity, so edits can keep the unit.
+alter table public.meal_logs add column if not exists unit text; -- null = grams
+alter table public.meal_logs add column if not exists unit_quantity numeric check (unit_quantity > 0);
@@ -15,6 +15,14 @@ create table public.profiles (
   weight numeric,
   target_weight numeric,
   user_type text,
+  timezone text, -- IANA zone, e.g. 'Europe/Berlin'; null = not set yet, treated as UTC
+  dietary_restrictions text[] not null default '{}',
+  custom_dietary_tags text[] not null default '{}',
+  medication text,
+  macro_cycling text not null default 'off', -- 'off', 'schedule' or 'activity'
+  training_days smallint[] not null default '{}', -- weekdays, 0 = Sunday
+  training_days_per_week smallint not null default 3,
+  carb_cycling_percent smallint not null default 20,
   created_at timestamptz default now()
 );
 
@@ -62,6 +70,8 @@ create table public.nutrition_goals (
   daily_carbs numeric not null,
   daily_fats numeric not null,
   daily_proteins numeric not null,
+  tdee numeric, -- expenditure the targets were built on
+  tdee_source text not null default 'formula' check (tdee_source in ('formula', 'adaptive')),
   calculation_date date default current_date,
   created_at timestamptz default now(),
   unique(user_id, calculation_date)
@@ -192,53 +202,9 @@ create policy "Users can update their own daily summaries"
   on public.daily_nutrition_summary for update
   using (auth.uid() = user_id);
 
--- Trigger function to update daily summary
-create or replace function public.update_daily_summary()
-returns trigger
-language plpgsql
-security definer set search_path = public
-as $$
-declare
-  summary_date date;
-  target_user_id uuid;
-begin
-  if TG_OP = 'DELETE' then
-    summary_date := OLD.logged_at::date;
-    target_user_id := OLD.user_id;
-  else
-    summary_date := NEW.logged_at::date;
-    target_user_id := NEW.user_id;
-  end if;
-
-  insert into public.daily_nutrition_summary (user_id, date, total_calories, total_carbs, total_fats, total_proteins, meals_logged, updated_at)
-  select 
-    target_user_id,
-    summary_date,
-    COALESCE(sum(calories), 0),
-    COALESCE(sum(carbs), 0),
-    COALESCE(sum(fats), 0),
-    COALESCE(sum(proteins), 0),
-    count(*),
-    now()
-  from public.meal_logs
-  where user_id = target_user_id
-    and logged_at::date = summary_date
-  on conflict (user_id, date)
-  do update set
-    total_calories = EXCLUDED.total_calories,
-    total_carbs = EXCLUDED.total_carbs,
-    total_fats = EXCLUDED.total_fats,
-    total_proteins = EXCLUDED.total_proteins,
-    meals_logged = EXCLUDED.meals_logged,
-    updated_at = now();
-
-  return COALESCE(NEW, OLD);
-end;
-$$;
-
-create trigger on_meal_log_change
-  after insert or update or delete on public.meal_logs
-  for each row execute procedure public.update_daily_summary();
+-- Totals are kept up to date by the on_meal_log_change trigger, defined once in
+-- database-timezone-schema.sql together with the micronutrient columns it sums
+-- (see "Database setup" in README.md for the order to run the files in)
 
 create index daily_nutrition_summary_user_id_date_idx on public.daily_nutrition_summary(user_id, date desc);
 
@@ -0,0 +1,184 @@
+-- Timezone-Correct Day Boundaries
+-- Stores each user's IANA timezone on their profile and counts meals towards the day
+-- they were eaten on the user's own calendar instead of the UTC day.
+-- Owns the one daily summary trigger (macros and micronutrients, recounting both days when a
+-- meal moves), so it must run after database-micronutrients-schema.sql.
+
+-- 1. PROFILE TIMEZONE
+-- ============================================
+alter table public.profiles add column if not exists timezone text;
+
+create or replace function public.user_timezone(p_user_id uuid)
+returns text
+language sql
+stable
+security definer set search_path = public
+as $$
+  select coalesce((select timezone from public.profiles where id = p_user_id), 'UTC');
+$$;
+
+-- Reject names Postgres can't resolve, so the summary trigger never fails on a bad zone
+create or replace function public.validate_profile_timezone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if NEW.timezone is not null
+     and not exists (select 1 from pg_timezone_names where name = NEW.timezone) then
+    raise exception 'Unknown timezone: %', NEW.timezone;
+  end if;
+  return NEW;
+end;
+$$;
+
+drop trigger if exists validate_profile_timezone on public.profiles;
+create trigger validate_profile_timezone
+  before insert or update of timezone on public.profiles
+  for each row execute procedure public.validate_profile_timezone();
+
+-- 2. SUMMARY TRIGGER IN THE USER'S ZONE
+-- ============================================
+-- Recount one day's summary from its meals, in the user's zone
+create or replace function public.refresh_daily_summary(p_user_id uuid, p_date date)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  user_tz text := public.user_timezone(p_user_id);
+begin
+  insert into public.daily_nutrition_summary (
+    user_id, date, total_calories, total_carbs, total_fats, total_proteins,
+    total_fiber, total_sugar, total_sodium, total_vitamin_c, total_calcium, total_iron,
+    meals_logged, updated_at
+  )
+  select
+    p_user_id,
+    p_date,
+    COALESCE(sum(calories), 0),
+    COALESCE(sum(carbs), 0),
+    COALESCE(sum(fats), 0),
+    COALESCE(sum(proteins), 0),
+    COALESCE(sum(fiber), 0),
+    COALESCE(sum(sugar), 0),
+    COALESCE(sum(sodium), 0),
+    COALESCE(sum(vitamin_c), 0),
+    COALESCE(sum(calcium), 0),
+    COALESCE(sum(iron), 0),
+    count(*),
+    now()
+  from public.meal_logs
+  where user_id = p_user_id
+    and logged_at >= p_date::timestamp at time zone user_tz
+    and logged_at < (p_date + 1)::timestamp at time zone user_tz
+  on conflict (user_id, date)
+  do update set
+    total_calories = EXCLUDED.total_calories,
+    total_carbs = EXCLUDED.total_carbs,
+    total_fats = EXCLUDED.total_fats,
+    total_proteins = EXCLUDED.total_proteins,
+    total_fiber = EXCLUDED.total_fiber,
+    total_sugar = EXCLUDED.total_sugar,
+    total_sodium = EXCLUDED.total_sodium,
+    total_vitamin_c = EXCLUDED.total_vitamin_c,
+    total_calcium = EXCLUDED.total_calcium,
+    total_iron = EXCLUDED.total_iron,
+    meals_logged = EXCLUDED.meals_logged,
+    updated_at = now();
+end;
+$$;
+
+-- Trigger function: recount the day a meal left as well as the day it landed on
+create or replace function public.update_daily_summary()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  old_date date;
+  new_date date;
+begin
+  if TG_OP <> 'INSERT' then
+    old_date := (OLD.logged_at at time zone public.user_timezone(OLD.user_id))::date;
+    perform public.refresh_daily_summary(OLD.user_id, old_date);
+  end if;
+
+  if TG_OP <> 'DELETE' then
+    new_date := (NEW.logged_at at time zone public.user_timezone(NEW.user_id))::date;
+    -- An edit that keeps the meal on its day was already recounted above
+    if TG_OP = 'INSERT' then
+      perform public.refresh_daily_summary(NEW.user_id, new_date);
+    elsif NEW.user_id is distinct from OLD.user_id or new_date <> old_date then
+      perform public.refresh_daily_summary(NEW.user_id, new_date);
+    end if;
+  end if;
+
+  return COALESCE(NEW, OLD);
+end;
+$$;
+
+drop trigger if exists on_meal_log_change on public.meal_logs;
+create trigger on_meal_log_change
+  after insert or update or delete on public.meal_logs
+  for each row execute procedure public.update_daily_summary();
+
+-- 3. REBUILDING SUMMARIES
+-- ============================================
+-- Recount every day for one user, e.g. after their timezone changed
+create or replace function public.rebuild_daily_summaries(p_user_id uuid)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  user_tz text := public.user_timezone(p_user_id);
+begin
+  delete from public.daily_nutrition_summary where user_id = p_user_id;
+
+  insert into public.daily_nutrition_summary (
+    user_id, date, total_calories, total_carbs, total_fats, total_proteins,
+    total_fiber, total_sugar, total_sodium, total_vitamin_c, total_calcium, total_iron,
+    meals_logged, updated_at
+  )
+  select
+    p_user_id,
+    (logged_at at time zone user_tz)::date,
+    COALESCE(sum(calories), 0),
+    COALESCE(sum(carbs), 0),
+    COALESCE(sum(fats), 0),
+    COALESCE(sum(proteins), 0),
+    COALESCE(sum(fiber), 0),
+    COALESCE(sum(sugar), 0),
+    COALESCE(sum(sodium), 0),
+    COALESCE(sum(vitamin_c), 0),
+    COALESCE(sum(calcium), 0),
+    COALESCE(sum(iron), 0),
+    count(*),
+    now()
+  from public.meal_logs
+  where user_id = p_user_id
+  group by (logged_at at time zone user_tz)::date;
+end;
+$$;
+
+create or replace function public.handle_profile_timezone_change()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  perform public.rebuild_daily_summaries(NEW.id);
+  return NEW;
+end;
+$$;
+
+drop trigger if exists on_profile_timezone_change on public.profiles;
+create trigger on_profile_timezone_change
+  after update of timezone on public.profiles
+  for each row
+  when (OLD.timezone is distinct from NEW.timezone)
+  execute procedure public.handle_profile_timezone_change();
+
+-- Existing summaries were counted in UTC days; users without a timezone stay on UTC
+-- until the app saves their device zone, which rebuilds them through the trigger above
+select public.rebuild_daily_summaries(id) from public.profiles where timezone is not null;
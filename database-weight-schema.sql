@@ -0,0 +1,44 @@
+-- Weight Tracking History
+-- A log of weigh-ins so progress toward profiles.target_weight can be followed over time.
+-- profiles.weight stays the weight the current nutrition goals were calculated from;
+-- the app prompts to update it when the smoothed trend moves away.
+
+-- 1. WEIGH-INS TABLE
+-- ============================================
+create table public.weigh_ins (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  weight_kg numeric not null check (weight_kg between 20 and 500),
+  measured_at timestamptz not null default now(),
+  notes text,
+  created_at timestamptz default now()
+);
+
+alter table public.weigh_ins enable row level security;
+
+create policy "Users can read their own weigh-ins"
+  on public.weigh_ins for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own weigh-ins"
+  on public.weigh_ins for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own weigh-ins"
+  on public.weigh_ins for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own weigh-ins"
+  on public.weigh_ins for delete
+  using (auth.uid() = user_id);
+
+create index weigh_ins_user_measured_idx on public.weigh_ins(user_id, measured_at desc);
+
+-- 2. BACKFILL
+-- ============================================
+-- Start every existing history with the weight already on the profile
+insert into public.weigh_ins (user_id, weight_kg, measured_at, notes)
+select id, weight, created_at, 'From profile'
+from public.profiles
+where weight is not null
+  and not exists (select 1 from public.weigh_ins w where w.user_id = profiles.id);
@@ -0,0 +1,16 @@
+-- Workout Nutrition Windows
+-- How long before and after an exercise session meals count towards fueling it; the
+-- per-workout targets and fueling score are worked out in the app
+-- (see src/lib/workoutNutrition.ts).
+
+-- 1. ACTIVITY GOALS
+-- ============================================
+alter table public.activity_goals add column if not exists pre_workout_window_minutes integer not null default 120;
+alter table public.activity_goals add column if not exists post_workout_window_minutes integer not null default 120;
+
+alter table public.activity_goals drop constraint if exists activity_goals_workout_windows_check;
+alter table public.activity_goals add constraint activity_goals_workout_windows_check
+  check (
+    pre_workout_window_minutes between 30 and 240
+    and post_workout_window_minutes between 30 and 240
+  );
@@ -0,0 +1,72 @@
+/**
+ * Medication reminder service worker
+ * Where the browser supports notification triggers, the app posts the next day of dose reminders
+ * (see src/lib/medicationReminders.ts) and they are handed to the OS, so they fire even when no
+ * tab is open. Elsewhere the open tab keeps the timers and calls showNotification itself; timers
+ * here would be lost as soon as the browser stops the idle worker.
+ */
+
+const TAG_PREFIX = 'medication-';
+
+const supportsTriggers = () =>
+  typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+const notificationOptions = (reminder, extra = {}) => ({
+  tag: reminder.tag,
+  body: reminder.body,
+  renotify: true,
+  requireInteraction: true,
+  data: { url: '/food-log' },
+  ...extra
+});
+
+async function clearReminders() {
+  if (!supportsTriggers()) return;
+
+  // Pending trigger notifications live with the OS until they are closed
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending
+    .filter(notification => notification.tag.startsWith(TAG_PREFIX) && notification.timestamp > Date.now())
+    .forEach(notification => notification.close());
+}
+
+async function scheduleReminders(reminders) {
+  if (!supportsTriggers()) return;
+  await clearReminders();
+  const now = Date.now();
+
+  for (const reminder of reminders) {
+    if (reminder.at <= now) continue;
+    await self.registration.showNotification(reminder.title, notificationOptions(reminder, { showTrigger: new TimestampTrigger(reminder.at) }));
+  }
+}
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+  const { type, reminders } = event.data || {};
+  if (type === 'schedule-reminders') {
+    event.waitUntil(scheduleReminders(Array.isArray(reminders) ? reminders : []));
+  } else if (type === 'clear-reminders') {
+    event.waitUntil(clearReminders());
+  }
+});
+
+// Open (or focus) the food log, where the dose can be checked off
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/food-log', self.location.origin).href;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const existing = windows.find(client => client.url === url) || windows[0];
+    if (existing) {
+      await existing.focus();
+      if (existing.url !== url && 'navigate' in existing) await existing.navigate(url);
+      return;
+    }
+    await self.clients.openWindow(url);
+  })());
+});
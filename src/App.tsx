@@ -7,10 +7,13 @@ import { Sidebar } from "@/components/Sidebar";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ProfileProvider } from "@/contexts/ProfileContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { RealtimeSync } from "@/components/RealtimeSync";
+import { MedicationReminders } from "@/components/MedicationReminders";
 
 // Pages
 import Dashboard from "./pages/Dashboard";
 import FoodLog from "./pages/FoodLog";
+import Insights from "./pages/Insights";
 import SmartDevice from "./pages/SmartDevice";
 import Chatbot from "./pages/Chatbot";
 import Profile from "./pages/Profile";
@@ -19,7 +22,15 @@ import Signup from "./pages/Signup";
 import Onboarding from "./pages/Onboarding";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Shared cache for the data hooks; realtime subscriptions and mutations keep it fresh
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      retry: 1
+    }
+  }
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -29,6 +40,8 @@ const App = () => (
       <BrowserRouter>
         <AuthProvider>
           <ProfileProvider>
+            <RealtimeSync />
+            <MedicationReminders />
             <div className="min-h-screen flex w-full gradient-primary">
               <Routes>
                 {/* Public routes - no sidebar */}
@@ -46,6 +59,7 @@ const App = () => (
                           <Route path="/" element={<Dashboard />} />
                           <Route path="/dashboard" element={<Dashboard />} />
                           <Route path="/food-log" element={<FoodLog />} />
+                          <Route path="/insights" element={<Insights />} />
                           <Route path="/smart-device" element={<SmartDevice />} />
                           <Route path="/chatbot" element={<Chatbot />} />
                           <Route path="/profile" element={<Profile />} />
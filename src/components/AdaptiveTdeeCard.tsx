@@ -0,0 +1,159 @@
+/**
+ * AdaptiveTdeeCard component for the Profile page
+ * Compares the formula TDEE with the one measured from intake and weight trend, and lets the
+ * user rebuild their nutrition goals on either.
+ */
+
+import { useState } from 'react';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useAdaptiveTDEE } from '@/hooks/useAdaptiveTDEE';
+import { useNutritionGoals } from '@/hooks/useNutritionGoals';
+import { calculateNutritionGoalsWithTDEE, type UserProfile as NutritionUserProfile } from '@/lib/nutritionCalculations';
+import { ADAPTIVE_WINDOW_DAYS, type TdeeConfidence, type TdeeSource } from '@/lib/adaptiveTdee';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Activity, Calculator, Loader2 } from "lucide-react";
+
+const CONFIDENCE_STYLES: Record<TdeeConfidence, { label: string; className: string }> = {
+  low: { label: 'Low confidence', className: 'bg-red-500/20 text-red-300' },
+  medium: { label: 'Medium confidence', className: 'bg-yellow-500/20 text-yellow-300' },
+  high: { label: 'High confidence', className: 'bg-green-500/20 text-green-300' }
+};
+
+export default function AdaptiveTdeeCard() {
+  const { toast } = useToast();
+  const { profile, isProfileComplete, calculateUserNutritionGoals, saveNutritionGoals } = useProfile();
+  const { goals, refetch: refetchGoals } = useNutritionGoals();
+  const { estimate, formulaTdee, loading, error } = useAdaptiveTDEE();
+  const [switching, setSwitching] = useState<TdeeSource | null>(null);
+
+  const currentSource: TdeeSource = goals?.tdee_source ?? 'formula';
+
+  const switchTo = async (source: TdeeSource) => {
+    if (!profile || !isProfileComplete) {
+      toast({
+        title: "Profile Incomplete",
+        description: "Please complete your profile first to calculate nutrition goals.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSwitching(source);
+    try {
+      const newGoals = source === 'adaptive' && estimate
+        ? calculateNutritionGoalsWithTDEE(profile as NutritionUserProfile, estimate.tdee, 'maintain')
+        : calculateUserNutritionGoals('maintain');
+      if (newGoals && await saveNutritionGoals(newGoals, source)) {
+        await refetchGoals();
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Failed to switch TDEE source:', err);
+      toast({
+        title: "Calculation Error",
+        description: errorMessage,
+        variant: "destructive"
+      });
+    } finally {
+      setSwitching(null);
+    }
+  };
+
+  return (
+    <Card className="fitness-card">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+          <Activity className="w-5 h-5 text-fitness-primary" />
+          Energy Expenditure
+        </CardTitle>
+        <Badge variant="outline" className="border-fitness-primary text-fitness-primary">
+          Goals use {currentSource === 'adaptive' ? 'adaptive' : 'formula'} TDEE
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-fitness-primary" />
+            <span className="ml-2 text-fitness-light">Estimating expenditure...</span>
+          </div>
+        ) : (
+          <>
+            {error && <p className="text-sm text-red-300">{error}</p>}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="p-4 rounded-lg bg-fitness-dark/50 space-y-1">
+                <div className="flex items-center gap-2 text-sm text-fitness-light">
+                  <Calculator className="w-4 h-4" />
+                  Formula estimate
+                </div>
+                <div className="text-2xl font-bold text-white">{formulaTdee ? `${formulaTdee} kcal` : '-'}</div>
+                <p className="text-xs text-fitness-muted">BMR × 1.55 activity multiplier</p>
+              </div>
+
+              <div className="p-4 rounded-lg bg-fitness-dark/50 space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm text-fitness-light">
+                  <span className="flex items-center gap-2">
+                    <Activity className="w-4 h-4" />
+                    Adaptive estimate
+                  </span>
+                  {estimate && (
+                    <Badge className={`${CONFIDENCE_STYLES[estimate.confidence].className} border-0 text-xs`}>
+                      {CONFIDENCE_STYLES[estimate.confidence].label}
+                    </Badge>
+                  )}
+                </div>
+                {estimate ? (
+                  <>
+                    <div className="text-2xl font-bold text-white">{estimate.tdee} kcal</div>
+                    <p className="text-xs text-fitness-muted">
+                      {estimate.avg_intake} kcal average intake over {estimate.days_logged} of {estimate.window_days} days,
+                      trend {estimate.weight_change_kg > 0 ? '+' : ''}{estimate.weight_change_kg} kg over {estimate.trend_span_days} days
+                      ({estimate.weigh_ins} weigh-ins)
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <div className="text-2xl font-bold text-white">-</div>
+                    <p className="text-xs text-fitness-muted">
+                      Needs at least a week of logged meals and two weeks of weigh-ins in the last {ADAPTIVE_WINDOW_DAYS} days
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button
+                onClick={() => switchTo('adaptive')}
+                disabled={!estimate || switching !== null}
+                className="fitness-button"
+              >
+                {switching === 'adaptive' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {currentSource === 'adaptive' ? 'Update from Adaptive TDEE' : 'Use Adaptive TDEE'}
+              </Button>
+              {currentSource === 'adaptive' && (
+                <Button
+                  variant="outline"
+                  onClick={() => switchTo('formula')}
+                  disabled={switching !== null}
+                  className="border-fitness-muted text-fitness-light hover:bg-fitness-muted/20"
+                >
+                  {switching === 'formula' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Back to Formula
+                </Button>
+              )}
+            </div>
+            {estimate?.confidence === 'low' && (
+              <p className="text-xs text-fitness-muted">
+                Log meals on more days and weigh in a few times a week to make the estimate more reliable.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
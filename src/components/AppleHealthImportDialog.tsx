@@ -0,0 +1,145 @@
+/**
+ * AppleHealthImportDialog component for the Smart Device page
+ * Imports the export.zip (or unzipped export.xml) from the iPhone Health app, with progress
+ * while the file is read and saved.
+ */
+
+import { useState } from 'react';
+import { useAppleHealthImport } from '@/hooks/useAppleHealthImport';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { addDays, formatDateKey, todayKey } from '@/lib/dateUtils';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Heart, Loader2, Upload } from "lucide-react";
+
+interface AppleHealthImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Days back from today; 'all' imports the whole history
+const RANGE_OPTIONS = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last year' },
+  { value: 'all', label: 'Everything' }
+];
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+    : `${Math.max(1, Math.round(bytes / (1024 * 1024)))} MB`;
+
+export default function AppleHealthImportDialog({ open, onOpenChange }: AppleHealthImportDialogProps) {
+  const timeZone = useTimeZone();
+  const { importing, progress, summary, importExport, cancel } = useAppleHealthImport();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [range, setRange] = useState('90');
+
+  const handleImport = async () => {
+    if (!file) return;
+    const since = range === 'all' ? undefined : addDays(todayKey(timeZone), -(Number(range) - 1));
+    if (await importExport(file, since)) {
+      setFile(null);
+    }
+  };
+
+  // Closing mid-import would leave it running unseen, so cancel it instead
+  const handleOpenChange = (next: boolean) => {
+    if (!next && importing) cancel();
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="fitness-card border-0">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <Heart className="w-5 h-5 text-red-500" />
+            Import Apple Health Data
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <ol className="text-sm text-fitness-light list-decimal list-inside space-y-1">
+            <li>Open the Health app on your iPhone and tap your profile picture</li>
+            <li>Tap <span className="text-white">Export All Health Data</span> and share the export.zip to this device</li>
+            <li>Choose the file below; it is read in your browser, only daily totals and workouts are saved</li>
+          </ol>
+
+          <div className="space-y-2">
+            <Label htmlFor="apple_health_file" className="text-white">Export file</Label>
+            <Input
+              id="apple_health_file"
+              type="file"
+              accept=".zip,.xml,application/zip,text/xml"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              disabled={importing}
+              className="fitness-input"
+            />
+            {file && <p className="text-xs text-fitness-muted">{file.name} · {formatBytes(file.size)}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-white">Import</Label>
+            <Select value={range} onValueChange={setRange} disabled={importing}>
+              <SelectTrigger className="fitness-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {progress && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span className="text-fitness-light">
+                  {progress.phase === 'reading' ? 'Reading export...' : 'Saving...'}
+                </span>
+                <span className="text-white">{Math.round(progress.fraction * 100)}%</span>
+              </div>
+              <Progress value={progress.fraction * 100} className="h-2" />
+              <p className="text-xs text-fitness-muted">
+                {progress.records.toLocaleString()} records · {progress.workouts.toLocaleString()} workouts
+              </p>
+            </div>
+          )}
+
+          {summary && !importing && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-green-500/10 text-sm">
+              <CheckCircle2 className="w-4 h-4 text-green-400 mt-0.5" />
+              <p className="text-fitness-light">
+                {summary.days} days and {summary.workouts} workouts imported
+                {summary.first_date && summary.last_date && (
+                  <> ({formatDateKey(summary.first_date, { month: 'short', day: 'numeric', year: 'numeric' })} –{' '}
+                  {formatDateKey(summary.last_date, { month: 'short', day: 'numeric', year: 'numeric' })})</>
+                )}
+              </p>
+            </div>
+          )}
+
+          {importing ? (
+            <Button variant="outline" onClick={cancel} className="w-full border-fitness-muted text-fitness-light hover:bg-fitness-muted/20">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Cancel Import
+            </Button>
+          ) : (
+            <Button onClick={handleImport} disabled={!file} className="w-full fitness-button">
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
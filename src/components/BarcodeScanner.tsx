@@ -0,0 +1,199 @@
+/**
+ * BarcodeScanner component for importing packaged foods by EAN/UPC code
+ * Scans camera frames, images from the ImageUpload pipeline, or a typed barcode
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useBarcodeImport } from '@/hooks/useBarcodeImport';
+import type { FoodItem } from '@/components/FoodSearch';
+import { decodeBarcode } from '@/lib/barcodeDecoder';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ScanBarcode,
+  Camera,
+  CameraOff,
+  Loader2,
+  Search
+} from "lucide-react";
+
+interface BarcodeScannerProps {
+  onProductFound: (food: FoodItem) => void;
+  imageFile?: File | null; // latest image from ImageUpload; ignored when it holds no barcode
+  disabled?: boolean;
+}
+
+const SCAN_INTERVAL_MS = 400;
+
+export default function BarcodeScanner({ onProductFound, imageFile, disabled }: BarcodeScannerProps) {
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [manualCode, setManualCode] = useState('');
+  const [lastCode, setLastCode] = useState<string | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const scanningRef = useRef(false);
+
+  const { toast } = useToast();
+  const { importing, importByBarcode } = useBarcodeImport();
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setIsCameraOn(false);
+  }, []);
+
+  const handleCode = useCallback(async (code: string) => {
+    setLastCode(code);
+    const food = await importByBarcode(code);
+    if (food) {
+      onProductFound(food);
+    }
+  }, [importByBarcode, onProductFound]);
+
+  const startCamera = useCallback(async () => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      toast({
+        title: "Camera Unavailable",
+        description: "This browser cannot access the camera. Upload a photo of the barcode instead.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' },
+        audio: false
+      });
+      streamRef.current = stream;
+      setIsCameraOn(true);
+    } catch (error) {
+      console.error('Camera access error:', error);
+      toast({
+        title: "Camera Access Denied",
+        description: "Allow camera access or upload a photo of the barcode.",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  // Attach the stream once the video element is rendered, then poll frames
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isCameraOn || !video || !streamRef.current) return;
+
+    video.srcObject = streamRef.current;
+    video.play().catch(error => console.error('Video playback error:', error));
+
+    const intervalId = setInterval(async () => {
+      if (scanningRef.current) return;
+      scanningRef.current = true;
+      try {
+        const code = await decodeBarcode(video);
+        if (code) {
+          stopCamera();
+          await handleCode(code);
+        }
+      } catch (error) {
+        console.error('Barcode scan error:', error);
+      } finally {
+        scanningRef.current = false;
+      }
+    }, SCAN_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isCameraOn, stopCamera, handleCode]);
+
+  // Release the camera when leaving the page
+  useEffect(() => stopCamera, [stopCamera]);
+
+  // Check uploaded images for a barcode; ordinary food photos simply yield nothing
+  useEffect(() => {
+    if (!imageFile) return;
+
+    let cancelled = false;
+    decodeBarcode(imageFile)
+      .then(code => {
+        if (code && !cancelled) {
+          handleCode(code);
+        }
+      })
+      .catch(error => console.error('Barcode decode error:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageFile, handleCode]);
+
+  const handleManualLookup = async () => {
+    const code = manualCode.replace(/\D/g, '');
+    if (!code) return;
+    await handleCode(code);
+    setManualCode('');
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ScanBarcode className="h-5 w-5" />
+            Scan Packaged Food
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={isCameraOn ? stopCamera : startCamera}
+            disabled={disabled || importing}
+            className="flex items-center gap-2"
+          >
+            {isCameraOn ? <CameraOff className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+            {isCameraOn ? 'Stop Camera' : 'Use Camera'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isCameraOn && (
+          <div className="relative">
+            <video
+              ref={videoRef}
+              className="w-full h-48 object-cover rounded-lg border bg-black"
+              muted
+              playsInline
+            />
+            <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80" />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="barcode-input">Barcode (EAN / UPC)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="barcode-input"
+              inputMode="numeric"
+              placeholder="e.g., 3017620422003"
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleManualLookup()}
+              disabled={disabled || importing}
+            />
+            <Button onClick={handleManualLookup} disabled={!manualCode.trim() || disabled || importing}>
+              {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {importing
+            ? `Looking up ${lastCode}...`
+            : 'Point the camera at a barcode, upload a photo of it above, or type the digits. Products found are saved to your foods.'}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
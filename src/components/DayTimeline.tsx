@@ -0,0 +1,151 @@
+/**
+ * DayTimeline component for the Food Log
+ * Lists the day's meals and medication doses in time order, so doses can be checked off
+ * next to the meals they go with.
+ */
+
+import { useMemo } from 'react';
+import type { MealLog } from '@/hooks/useMealLogs';
+import { useMedications } from '@/hooks/useMedications';
+import { useMedicationDoses } from '@/hooks/useMedicationDoses';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { formatDoseTime, scheduledDosesForDay, type DoseStatus, type ScheduledDose } from '@/lib/medicationSchedule';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Check, Clock, Pill, SkipForward, Undo2, Utensils } from "lucide-react";
+
+interface DayTimelineProps {
+  meals: MealLog[];
+  date: string;
+  disabled?: boolean;
+}
+
+type TimelineEntry =
+  | { kind: 'meal'; at: number; meal: MealLog }
+  | { kind: 'dose'; at: number; dose: ScheduledDose };
+
+// A with-food dose counts as taken with a meal logged this close to it
+const WITH_MEAL_WINDOW_MS = 60 * 60 * 1000;
+
+const STATUS_STYLES: Record<DoseStatus, { label: string; className: string }> = {
+  taken: { label: 'Taken', className: 'bg-green-500/20 text-green-300' },
+  skipped: { label: 'Skipped', className: 'bg-yellow-500/20 text-yellow-300' },
+  due: { label: 'Due now', className: 'bg-fitness-primary/20 text-fitness-primary' },
+  missed: { label: 'Missed', className: 'bg-red-500/20 text-red-300' },
+  upcoming: { label: 'Upcoming', className: 'bg-fitness-muted/20 text-fitness-light' }
+};
+
+export default function DayTimeline({ meals, date, disabled }: DayTimelineProps) {
+  const timeZone = useTimeZone();
+  const { medications } = useMedications();
+  const { doses, recordDose, clearDose } = useMedicationDoses(date, date);
+
+  const scheduledDoses = useMemo(
+    () => scheduledDosesForDay(medications, doses, date, timeZone),
+    [medications, doses, date, timeZone]
+  );
+
+  const entries = useMemo((): TimelineEntry[] => [
+    ...meals.map(meal => ({ kind: 'meal' as const, at: new Date(meal.logged_at).getTime(), meal })),
+    ...scheduledDoses.map(dose => ({ kind: 'dose' as const, at: dose.scheduled_at.getTime(), dose }))
+  ].sort((a, b) => a.at - b.at), [meals, scheduledDoses]);
+
+  const hasMealNear = (at: number) =>
+    meals.some(meal => Math.abs(new Date(meal.logged_at).getTime() - at) <= WITH_MEAL_WINDOW_MS);
+
+  const formatClock = (at: number) =>
+    new Date(at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+
+  // Nothing to add to the meal tabs without medications on this day
+  if (scheduledDoses.length === 0) return null;
+
+  const renderDose = (dose: ScheduledDose) => {
+    const slot = { medication_id: dose.medication.id, scheduled_date: dose.date, scheduled_time: dose.time };
+    const style = STATUS_STYLES[dose.status];
+
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          <Pill className="h-4 w-4 text-fitness-peach" />
+          <span className="font-medium text-white">{dose.medication.name}</span>
+          {dose.medication.dose && <span className="text-sm text-fitness-light">{dose.medication.dose}</span>}
+          <Badge className={`${style.className} border-0 text-xs`}>
+            {style.label}
+            {dose.record?.status === 'taken' && ` ${formatClock(new Date(dose.record.taken_at).getTime())}`}
+          </Badge>
+          {dose.medication.with_meal && (
+            <Badge variant="outline" className="text-xs border-fitness-muted/40 text-fitness-light">
+              {hasMealNear(dose.scheduled_at.getTime()) ? 'With food ✓' : 'Take with food'}
+            </Badge>
+          )}
+        </div>
+        {dose.record ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => clearDose(dose.record!.id)}
+            disabled={disabled}
+            className="h-7 text-fitness-muted hover:text-white"
+          >
+            <Undo2 className="h-3 w-3 mr-1" />
+            Undo
+          </Button>
+        ) : (
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              onClick={() => recordDose(slot, 'taken')}
+              disabled={disabled}
+              className="h-7 bg-fitness-primary hover:bg-fitness-primary/90"
+            >
+              <Check className="h-3 w-3 mr-1" />
+              Taken
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => recordDose(slot, 'skipped')}
+              disabled={disabled}
+              className="h-7 text-fitness-muted hover:text-white"
+            >
+              <SkipForward className="h-3 w-3 mr-1" />
+              Skip
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="fitness-card border-fitness-muted/20">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Clock className="h-5 w-5 text-fitness-primary" />
+          Day Timeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="relative border-l border-fitness-muted/30 ml-2 space-y-3">
+          {entries.map(entry => (
+            <li key={entry.kind === 'meal' ? entry.meal.id : entry.dose.key} className="ml-4">
+              <div className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${entry.kind === 'meal' ? 'bg-fitness-primary' : 'bg-fitness-peach'}`} />
+              <p className="text-xs text-fitness-muted">
+                {entry.kind === 'meal' ? formatClock(entry.at) : formatDoseTime(entry.dose.time)}
+              </p>
+              {entry.kind === 'meal' ? (
+                <div className="flex items-center gap-2 text-sm">
+                  <Utensils className="h-4 w-4 text-fitness-primary" />
+                  <span className="text-white">{entry.meal.food_name}</span>
+                  <span className="text-fitness-light">{Math.round(entry.meal.calories)} cal</span>
+                  <Badge variant="secondary" className="text-xs capitalize">{entry.meal.meal_type}</Badge>
+                </div>
+              ) : renderDose(entry.dose)}
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
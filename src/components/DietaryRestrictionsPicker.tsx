@@ -0,0 +1,105 @@
+/**
+ * DietaryRestrictionsPicker component used by onboarding and the profile editor
+ * Preset restrictions as checkboxes plus free-text tags for anything else to avoid.
+ */
+
+import { useState } from 'react';
+import {
+  DIETARY_RESTRICTIONS,
+  DIETARY_RESTRICTION_KEYS,
+  normalizeTag,
+  type DietaryRestriction
+} from '@/lib/dietaryRestrictions';
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Plus, X } from "lucide-react";
+
+interface DietaryRestrictionsPickerProps {
+  restrictions: string[];
+  customTags: string[];
+  onChange: (restrictions: string[], customTags: string[]) => void;
+}
+
+export default function DietaryRestrictionsPicker({ restrictions, customTags, onChange }: DietaryRestrictionsPickerProps) {
+  const [tagInput, setTagInput] = useState('');
+
+  const toggleRestriction = (key: DietaryRestriction, checked: boolean) => {
+    const next = checked ? [...restrictions, key] : restrictions.filter(item => item !== key);
+    onChange(next, customTags);
+  };
+
+  // Accepts several comma-separated tags at once
+  const addTags = () => {
+    const newTags = tagInput
+      .split(',')
+      .map(normalizeTag)
+      .filter(tag => tag && !customTags.includes(tag));
+    if (newTags.length > 0) {
+      onChange(restrictions, [...customTags, ...new Set(newTags)]);
+    }
+    setTagInput('');
+  };
+
+  const removeTag = (tag: string) => onChange(restrictions, customTags.filter(item => item !== tag));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {DIETARY_RESTRICTION_KEYS.map(key => (
+          <div key={key} className="flex items-center space-x-2">
+            <Checkbox
+              id={`restriction_${key}`}
+              checked={restrictions.includes(key)}
+              onCheckedChange={(checked) => toggleRestriction(key, checked === true)}
+            />
+            <Label htmlFor={`restriction_${key}`} className="text-white cursor-pointer">
+              {DIETARY_RESTRICTIONS[key].label}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="custom_dietary_tags" className="text-white">Other foods to avoid</Label>
+        <div className="flex gap-2">
+          <Input
+            id="custom_dietary_tags"
+            placeholder="e.g., sesame, mushrooms"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addTags();
+              }
+            }}
+            className="fitness-input"
+          />
+          <Button type="button" variant="outline" onClick={addTags} disabled={!tagInput.trim()}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+        {customTags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {customTags.map(tag => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                {tag}
+                <button
+                  type="button"
+                  onClick={() => removeTag(tag)}
+                  className="hover:text-red-400"
+                  aria-label={`Remove ${tag}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
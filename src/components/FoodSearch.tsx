@@ -5,8 +5,29 @@
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import {
+  calculatePortionMicronutrients,
+  calculatePortionNutrition,
+  type Per100gMicronutrients
+} from '@/lib/recipeCalculations';
+import {
+  MICRONUTRIENT_INFO,
+  MICRONUTRIENT_KEYS,
+  type MicronutrientKey,
+  type Micronutrients
+} from '@/lib/nutritionCalculations';
+import { calculateGlycemicLoad } from '@/lib/glucoseCalculations';
+import { describeConflicts, findConflicts, inferAllergens } from '@/lib/dietaryRestrictions';
+import {
+  formatPortion,
+  getFoodUnits,
+  portionToGrams,
+  type PortionUnit,
+  type ServingUnit
+} from '@/lib/servingUnits';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -26,55 +47,106 @@ import {
   CheckCircle
 } from "lucide-react";
 
-export interface FoodItem {
+export interface FoodItem extends Per100gMicronutrients {
   id: string;
   name: string;
   calories_per_100g: number;
   carbs_per_100g: number;
   fats_per_100g: number;
   proteins_per_100g: number;
+  glycemic_index?: number | null;
+  allergens?: string[] | null;
+  barcode?: string | null;
+  brand?: string | null;
+  serving_size_g?: number | null;
+  serving_description?: string | null;
+  units?: ServingUnit[] | null; // household measures, e.g. { name: 'medium', grams: 118 }
   is_custom: boolean;
   created_by?: string;
 }
 
-export interface NutritionData {
+export interface NutritionData extends Micronutrients {
   calories: number;
   carbs: number;
   fats: number;
   proteins: number;
+  glycemic_index?: number | null;
+  allergens?: string[] | null;
 }
 
 interface FoodSearchProps {
   onFoodSelected: (
     foodName: string, 
-    portionSize: number, 
+    portionSize: number, // always grams
     nutrition: NutritionData,
-    mealType: string
+    mealType: string,
+    portion?: PortionUnit // the unit the user picked, when not plain grams
   ) => Promise<void>;
   selectedMealType: string;
+  presetFood?: FoodItem | null; // e.g. a product imported from a barcode scan
   disabled?: boolean;
 }
 
-export default function FoodSearch({ onFoodSelected, selectedMealType, disabled }: FoodSearchProps) {
+type ManualFood = Record<
+  'name' | 'calories' | 'carbs' | 'fats' | 'proteins' | 'glycemic_index' | MicronutrientKey,
+  string
+>;
+
+const EMPTY_MANUAL_FOOD: ManualFood = {
+  name: '',
+  calories: '',
+  carbs: '',
+  fats: '',
+  proteins: '',
+  glycemic_index: '',
+  fiber: '',
+  sugar: '',
+  sodium: '',
+  vitamin_c: '',
+  calcium: '',
+  iron: ''
+};
+
+// Start with one of the food's own units when it has any
+const getDefaultPortion = (food: FoodItem): { quantity: number; unit: string } => {
+  const units = getFoodUnits(food);
+  const preferred = units.find(unit => unit.name === 'serving') || units[1];
+  return preferred ? { quantity: 1, unit: preferred.name } : { quantity: 100, unit: 'g' };
+};
+
+// Micronutrients are optional on manual entry, so blank fields stay unknown instead of 0
+const parseManualMicronutrients = (manualFood: ManualFood): Micronutrients => {
+  const result: Micronutrients = {};
+  for (const key of MICRONUTRIENT_KEYS) {
+    const value = parseFloat(manualFood[key]);
+    if (!isNaN(value)) {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+const parseManualGlycemicIndex = (manualFood: ManualFood): number | null => {
+  const value = parseFloat(manualFood.glycemic_index);
+  return isNaN(value) ? null : Math.min(Math.max(value, 0), 100);
+};
+
+export default function FoodSearch({ onFoodSelected, selectedMealType, presetFood, disabled }: FoodSearchProps) {
   // State management
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<FoodItem[]>([]);
   const [selectedFood, setSelectedFood] = useState<FoodItem | null>(null);
-  const [portionSize, setPortionSize] = useState<number>(100);
+  const [portionQuantity, setPortionQuantity] = useState<number>(100);
+  const [portionUnit, setPortionUnit] = useState<string>('g');
   const [isSearching, setIsSearching] = useState(false);
   const [isManualEntry, setIsManualEntry] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Manual entry state
-  const [manualFood, setManualFood] = useState({
-    name: '',
-    calories: '',
-    carbs: '',
-    fats: '',
-    proteins: ''
-  });
+  const [manualFood, setManualFood] = useState(EMPTY_MANUAL_FOOD);
 
   const { user } = useAuth();
+  const { profile } = useProfile();
   const { toast } = useToast();
 
   // Debounced search function
@@ -122,49 +194,86 @@ export default function FoodSearch({ onFoodSelected, selectedMealType, disabled
     return () => clearTimeout(timeoutId);
   }, [searchQuery, isManualEntry, searchFoods]);
 
+  const foodUnits = useMemo(() => (selectedFood ? getFoodUnits(selectedFood) : []), [selectedFood]);
+  const portionSize = useMemo(
+    () => portionToGrams(portionQuantity, portionUnit, foodUnits),
+    [portionQuantity, portionUnit, foodUnits]
+  );
+
+  const selectPortion = (food: FoodItem) => {
+    const portion = getDefaultPortion(food);
+    setPortionQuantity(portion.quantity);
+    setPortionUnit(portion.unit);
+  };
+
+  // Switch units while keeping roughly the same amount of food
+  const handleUnitChange = (unitName: string) => {
+    const unit = foodUnits.find(u => u.name === unitName);
+    if (!unit) return;
+    const quantity = portionSize / unit.grams;
+    setPortionQuantity(unit.name === 'g' ? Math.round(quantity) : Math.max(Math.round(quantity * 4) / 4, 0.25));
+    setPortionUnit(unit.name);
+  };
+
   // Calculate nutrition based on portion size
   const calculatedNutrition = useMemo((): NutritionData => {
     if (selectedFood) {
-      const multiplier = portionSize / 100;
       return {
-        calories: Math.round(selectedFood.calories_per_100g * multiplier),
-        carbs: Math.round(selectedFood.carbs_per_100g * multiplier * 10) / 10,
-        fats: Math.round(selectedFood.fats_per_100g * multiplier * 10) / 10,
-        proteins: Math.round(selectedFood.proteins_per_100g * multiplier * 10) / 10
+        ...calculatePortionNutrition(selectedFood, portionSize),
+        ...calculatePortionMicronutrients(selectedFood, portionSize),
+        glycemic_index: selectedFood.glycemic_index ?? null,
+        allergens: selectedFood.allergens ?? []
       };
     } else if (isManualEntry) {
       return {
         calories: parseInt(manualFood.calories) || 0,
         carbs: parseFloat(manualFood.carbs) || 0,
         fats: parseFloat(manualFood.fats) || 0,
-        proteins: parseFloat(manualFood.proteins) || 0
+        proteins: parseFloat(manualFood.proteins) || 0,
+        ...parseManualMicronutrients(manualFood),
+        glycemic_index: parseManualGlycemicIndex(manualFood),
+        allergens: inferAllergens(manualFood.name)
       };
     }
     
     return { calories: 0, carbs: 0, fats: 0, proteins: 0 };
   }, [selectedFood, portionSize, isManualEntry, manualFood]);
 
+  // Ways the food being added breaks the user's dietary restrictions
+  const conflicts = useMemo(() => {
+    const name = isManualEntry ? manualFood.name : selectedFood?.name;
+    if (!name?.trim()) return [];
+    return findConflicts({ name, allergens: calculatedNutrition.allergens }, profile);
+  }, [isManualEntry, manualFood.name, selectedFood, calculatedNutrition.allergens, profile]);
+
   // Handle food selection from search results
   const handleFoodSelect = (food: FoodItem) => {
     setSelectedFood(food);
     setSearchQuery(food.name);
     setSearchResults([]);
     setIsManualEntry(false);
+    selectPortion(food);
   };
 
+  // Select a food handed in from outside (barcode scan)
+  useEffect(() => {
+    if (!presetFood) return;
+    setSelectedFood(presetFood);
+    setSearchQuery(presetFood.name);
+    setSearchResults([]);
+    setIsManualEntry(false);
+    const portion = getDefaultPortion(presetFood);
+    setPortionQuantity(portion.quantity);
+    setPortionUnit(portion.unit);
+  }, [presetFood]);
+
   // Handle manual entry toggle
   const toggleManualEntry = () => {
     setIsManualEntry(!isManualEntry);
     setSelectedFood(null);
     setSearchQuery('');
     setSearchResults([]);
-    setManualFood({
-      name: '',
-      calories: '',
-      carbs: '',
-      fats: '',
-      proteins: ''
-    });
+    setManualFood(EMPTY_MANUAL_FOOD);
   };
 
   // Add food to meal log
@@ -202,6 +311,7 @@ export default function FoodSearch({ onFoodSelected, selectedMealType, disabled
     try {
       // If manual entry, save as custom food first
       if (isManualEntry && manualFood.name.trim()) {
+        const micronutrients = parseManualMicronutrients(manualFood);
         const { error: foodError } = await supabase
           .from('food_items')
           .upsert({
@@ -210,6 +320,11 @@ export default function FoodSearch({ onFoodSelected, selectedMealType, disabled
             carbs_per_100g: parseFloat(manualFood.carbs) || 0,
             fats_per_100g: parseFloat(manualFood.fats) || 0,
             proteins_per_100g: parseFloat(manualFood.proteins) || 0,
+            ...Object.fromEntries(
+              MICRONUTRIENT_KEYS.map(key => [`${key}_per_100g`, micronutrients[key] ?? null])
+            ),
+            glycemic_index: parseManualGlycemicIndex(manualFood),
+            allergens: inferAllergens(manualFood.name),
             is_custom: true,
             created_by: user?.id
           }, {
@@ -227,20 +342,16 @@ export default function FoodSearch({ onFoodSelected, selectedMealType, disabled
         foodName,
         isManualEntry ? 100 : portionSize, // Manual entry assumes per 100g
         calculatedNutrition,
-        selectedMealType
+        selectedMealType,
+        !isManualEntry && portionUnit !== 'g' ? { quantity: portionQuantity, unit: portionUnit } : undefined
       );
 
       // Reset form
       setSelectedFood(null);
       setSearchQuery('');
-      setPortionSize(100);
-      setManualFood({
-        name: '',
-        calories: '',
-        carbs: '',
-        fats: '',
-        proteins: ''
-      });
+      setPortionQuantity(100);
+      setPortionUnit('g');
+      setManualFood(EMPTY_MANUAL_FOOD);
       setIsManualEntry(false);
 
       toast({
@@ -317,26 +428,39 @@ export default function FoodSearch({ onFoodSelected, selectedMealType, disabled
             {/* Search Results */}
             {searchResults.length > 0 && (
               <div className="max-h-48 overflow-y-auto border rounded-md p-2 space-y-1">
-                {searchResults.map((food) => (
-                  <Button
-                    key={food.id}
-                    variant="ghost"
-                    className="w-full justify-start h-auto p-2"
-                    onClick={() => handleFoodSelect(food)}
-                  >
-                    <div className="flex items-center gap-2 w-full">
-                      <div className="flex-1 text-left">
-                        <p className="font-medium text-sm">{food.name}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {food.calories_per_100g} cal/100g
-                        </p>
+                {searchResults.map((food) => {
+                  const foodConflicts = findConflicts(food, profile);
+                  return (
+                    <Button
+                      key={food.id}
+                      variant="ghost"
+                      className="w-full justify-start h-auto p-2"
+                      onClick={() => handleFoodSelect(food)}
+                    >
+                      <div className="flex items-center gap-2 w-full">
+                        <div className="flex-1 text-left">
+                          <p className="font-medium text-sm">{food.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {food.calories_per_100g} cal/100g
+                          </p>
+                        </div>
+                        {foodConflicts.length > 0 && (
+                          <Badge
+                            variant="destructive"
+                            className="text-xs flex items-center gap-1"
+                            title={describeConflicts(foodConflicts)}
+                          >
+                            <AlertTriangle className="h-3 w-3" />
+                            {foodConflicts[0].reason}
+                          </Badge>
+                        )}
+                        {food.is_custom && (
+                          <Badge variant="secondary" className="text-xs">Custom</Badge>
+                        )}
                       </div>
-                      {food.is_custom && (
-                        <Badge variant="secondary" className="text-xs">Custom</Badge>
-                      )}
-                    </div>
-                  </Button>
-                ))}
+                    </Button>
+                  );
+                })}
               </div>
             )}
 
@@ -355,16 +479,37 @@ export default function FoodSearch({ onFoodSelected, selectedMealType, disabled
                   
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="portion">Portion Size (grams)</Label>
-                      <Input
-                        id="portion"
-                        type="number"
-                        min="1"
-                        max="2000"
-                        value={portionSize}
-                        onChange={(e) => setPortionSize(parseInt(e.target.value) || 0)}
-                        disabled={disabled}
-                      />
+                      <Label htmlFor="portion">Portion Size</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="portion"
+                          type="number"
+                          min="0"
+                          max="2000"
+                          step={portionUnit === 'g' ? '1' : '0.25'}
+                          value={portionQuantity}
+                          onChange={(e) => setPortionQuantity(parseFloat(e.target.value) || 0)}
+                          disabled={disabled}
+                        />
+                        <Select value={portionUnit} onValueChange={handleUnitChange} disabled={disabled}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {foodUnits.map(unit => (
+                              <SelectItem key={unit.name} value={unit.name}>
+                                {unit.name === 'g' ? 'grams' : unit.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {portionUnit !== 'g' && (
+                        <p className="text-xs text-muted-foreground">
+                          {formatPortion(portionQuantity, portionUnit)} = {portionSize}g
+                          {portionUnit === 'serving' && selectedFood.serving_description && ` (${selectedFood.serving_description})`}
+                        </p>
+                      )}
                     </div>
                     
                     <div className="space-y-2">
@@ -372,6 +517,20 @@ export default function FoodSearch({ onFoodSelected, selectedMealType, disabled
                       <div className="text-sm space-y-1">
                         <p><span className="font-medium">{calculatedNutrition.calories}</span> cal</p>
                         <p>C: {calculatedNutrition.carbs}g | F: {calculatedNutrition.fats}g | P: {calculatedNutrition.proteins}g</p>
+                        {calculatedNutrition.fiber != null && (
+                          <p className="text-xs text-muted-foreground">
+                            Fiber: {calculatedNutrition.fiber}g | Sugar: {calculatedNutrition.sugar ?? '-'}g | Sodium: {calculatedNutrition.sodium ?? '-'}mg
+                          </p>
+                        )}
+                        {calculatedNutrition.glycemic_index != null && (
+                          <p className="text-xs text-muted-foreground">
+                            GI {calculatedNutrition.glycemic_index} | GL {calculateGlycemicLoad(
+                              calculatedNutrition.glycemic_index,
+                              calculatedNutrition.carbs,
+                              calculatedNutrition.fiber
+                            )}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -461,6 +620,40 @@ export default function FoodSearch({ onFoodSelected, selectedMealType, disabled
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label className="text-muted-foreground">Micronutrients and glycemic index (optional, per 100g)</Label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {MICRONUTRIENT_KEYS.map((key) => (
+                  <div key={key} className="space-y-2">
+                    <Label htmlFor={`manual-${key}`} className="text-xs">
+                      {MICRONUTRIENT_INFO[key].label} ({MICRONUTRIENT_INFO[key].unit})
+                    </Label>
+                    <Input
+                      id={`manual-${key}`}
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={manualFood[key]}
+                      onChange={(e) => setManualFood(prev => ({ ...prev, [key]: e.target.value }))}
+                      disabled={disabled}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-2">
+                  <Label htmlFor="manual-glycemic-index" className="text-xs">Glycemic Index (0-100)</Label>
+                  <Input
+                    id="manual-glycemic-index"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={manualFood.glycemic_index}
+                    onChange={(e) => setManualFood(prev => ({ ...prev, glycemic_index: e.target.value }))}
+                    disabled={disabled}
+                  />
+                </div>
+              </div>
+            </div>
+
             {calculatedNutrition.calories > 0 && (
               <div className="p-4 bg-muted/50 rounded-lg">
                 <h4 className="font-medium mb-2">Nutrition Summary (per 100g)</h4>
@@ -487,6 +680,16 @@ export default function FoodSearch({ onFoodSelected, selectedMealType, disabled
           </>
         )}
 
+        {/* Dietary restriction warning - logging stays allowed, e.g. for a cheat day */}
+        {conflicts.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Conflicts with your dietary restrictions: {describeConflicts(conflicts)}
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Separator />
 
         {/* Add Button */}
@@ -0,0 +1,112 @@
+/**
+ * GlucoseInsights component for the Dashboard
+ * Correlates post-meal glucose readings with the glycemic load of the meals before them
+ */
+
+import { useMemo } from 'react';
+import { useGlucoseReadings } from '@/hooks/useGlucoseReadings';
+import {
+  averageGlucoseByLoadBand,
+  classifyGlycemicLoad,
+  correlatePostMealReadings,
+  GLUCOSE_TARGETS,
+  type GlycemicBand
+} from '@/lib/glucoseCalculations';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Droplet } from "lucide-react";
+
+const BAND_LABELS: Record<GlycemicBand, string> = {
+  low: 'Low GL meals',
+  medium: 'Medium GL meals',
+  high: 'High GL meals'
+};
+
+const MAX_CORRELATIONS = 5;
+
+export default function GlucoseInsights() {
+  const { readings, meals, loading, error } = useGlucoseReadings(7);
+
+  const correlations = useMemo(
+    () => correlatePostMealReadings(readings, meals),
+    [readings, meals]
+  );
+
+  const bandAverages = useMemo(() => averageGlucoseByLoadBand(correlations), [correlations]);
+
+  return (
+    <Card className="gradient-card border border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Droplet className="h-5 w-5 text-red-500" />
+          Post-Meal Glucose (7 days)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="h-32 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Loading glucose data...</span>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : correlations.length === 0 ? (
+          <div className="h-32 flex items-center justify-center text-muted-foreground text-center">
+            <div>
+              <Droplet className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p>No post-meal readings yet</p>
+              <p className="text-xs">Log an "After meal" reading 1-2 hours after eating in the Food Log</p>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              {(Object.keys(BAND_LABELS) as GlycemicBand[]).map(band => (
+                <div key={band} className="text-center p-3 rounded-lg bg-muted/50">
+                  <p className="text-xl font-bold">
+                    {bandAverages[band].count > 0 ? bandAverages[band].average : '-'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{BAND_LABELS[band]}</p>
+                  <p className="text-xs text-muted-foreground">
+                    avg mg/dL · {bandAverages[band].count} reading{bandAverages[band].count === 1 ? '' : 's'}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {correlations.slice(0, MAX_CORRELATIONS).map(correlation => (
+                <div key={correlation.reading.id} className="flex items-start justify-between gap-4 text-sm border-t pt-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {correlation.meals.map(meal => meal.food_name).join(', ')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {correlation.totalCarbs}g carbs
+                      {correlation.glycemicLoad !== null && ` · GL ${correlation.glycemicLoad} (${classifyGlycemicLoad(correlation.glycemicLoad)})`}
+                      {` · ${correlation.minutesAfterMeal} min later`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <Badge variant={correlation.status === 'high' ? 'destructive' : 'secondary'}>
+                      {correlation.reading.value_mgdl} mg/dL
+                    </Badge>
+                    {correlation.rise !== null && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {correlation.rise >= 0 ? '+' : ''}{correlation.rise} from {correlation.baseline!.value_mgdl}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Post-meal target: under {GLUCOSE_TARGETS.post_meal.max} mg/dL.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
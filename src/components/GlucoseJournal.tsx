@@ -0,0 +1,230 @@
+/**
+ * GlucoseJournal component for logging blood glucose readings next to meals
+ * Readings can be linked to one of today's meals; otherwise they are matched by time
+ */
+
+import { useState, useMemo } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useGlucoseReadings, type GlucoseReadingType } from '@/hooks/useGlucoseReadings';
+import type { MealLog } from '@/hooks/useMealLogs';
+import {
+  GLUCOSE_READING_LABELS,
+  GLUCOSE_TARGETS,
+  classifyGlucoseReading,
+  type GlucoseStatus
+} from '@/lib/glucoseCalculations';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Droplet,
+  Plus,
+  Loader2,
+  Trash2
+} from "lucide-react";
+
+interface GlucoseJournalProps {
+  meals: MealLog[];
+  disabled?: boolean;
+}
+
+const NO_MEAL = 'none';
+
+const STATUS_STYLES: Record<GlucoseStatus, { label: string; className: string }> = {
+  low: { label: 'Low', className: 'bg-yellow-500/20 text-yellow-400 border-0' },
+  in_range: { label: 'In range', className: 'bg-green-500/20 text-green-400 border-0' },
+  high: { label: 'High', className: 'bg-red-500/20 text-red-400 border-0' }
+};
+
+export default function GlucoseJournal({ meals, disabled }: GlucoseJournalProps) {
+  const [value, setValue] = useState('');
+  const [readingType, setReadingType] = useState<GlucoseReadingType>('post_meal');
+  const [mealLogId, setMealLogId] = useState<string>(NO_MEAL);
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { toast } = useToast();
+  // Today only; the Dashboard looks at the wider window
+  const { readings, loading, addReading, deleteReading } = useGlucoseReadings(0);
+
+  const mealNames = useMemo(
+    () => new Map(meals.map(meal => [meal.id, meal.food_name])),
+    [meals]
+  );
+
+  const handleAddReading = async () => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed <= 0 || parsed >= 1000) {
+      toast({
+        title: "Invalid Reading",
+        description: "Enter a glucose value in mg/dL.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await addReading({
+        value_mgdl: parsed,
+        reading_type: readingType,
+        meal_log_id: mealLogId === NO_MEAL ? null : mealLogId,
+        notes: notes.trim() || null
+      });
+
+      if (saved) {
+        setValue('');
+        setNotes('');
+        setMealLogId(NO_MEAL);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const target = GLUCOSE_TARGETS[readingType];
+
+  return (
+    <Card className="fitness-card border-fitness-muted/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Droplet className="h-5 w-5 text-fitness-primary" />
+          Glucose Journal
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="glucose-value">Reading (mg/dL)</Label>
+            <Input
+              id="glucose-value"
+              type="number"
+              min="1"
+              max="999"
+              placeholder="e.g., 135"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              disabled={disabled || isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={readingType}
+              onValueChange={(type) => setReadingType(type as GlucoseReadingType)}
+              disabled={disabled || isSaving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GLUCOSE_READING_LABELS) as GlucoseReadingType[]).map(type => (
+                  <SelectItem key={type} value={type}>
+                    {GLUCOSE_READING_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Related meal</Label>
+            <Select value={mealLogId} onValueChange={setMealLogId} disabled={disabled || isSaving}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_MEAL}>Match by time</SelectItem>
+                {meals.map(meal => (
+                  <SelectItem key={meal.id} value={meal.id}>
+                    {meal.food_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="glucose-notes">Notes</Label>
+            <Input
+              id="glucose-notes"
+              placeholder="Optional"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={disabled || isSaving}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-fitness-muted">
+            Target for {GLUCOSE_READING_LABELS[readingType].toLowerCase()}: {target.min}-{target.max} mg/dL
+          </p>
+          <Button onClick={handleAddReading} disabled={!value || disabled || isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Log Reading
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full bg-fitness-muted/20" />
+            <Skeleton className="h-10 w-full bg-fitness-muted/20" />
+          </div>
+        ) : readings.length === 0 ? (
+          <p className="text-sm text-fitness-muted text-center py-4">No readings logged today</p>
+        ) : (
+          <div className="space-y-2">
+            {readings.map(reading => {
+              const status = STATUS_STYLES[classifyGlucoseReading(reading.value_mgdl, reading.reading_type)];
+              const linkedMeal = reading.meal_log_id ? mealNames.get(reading.meal_log_id) : undefined;
+
+              return (
+                <div
+                  key={reading.id}
+                  className="flex items-center justify-between p-3 rounded-lg bg-fitness-dark/50 border border-fitness-muted/10"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-lg font-semibold text-white">{reading.value_mgdl}</span>
+                      <span className="text-xs text-fitness-muted">mg/dL</span>
+                      <Badge className={status.className}>{status.label}</Badge>
+                    </div>
+                    <p className="text-xs text-fitness-muted">
+                      {GLUCOSE_READING_LABELS[reading.reading_type]} ·{' '}
+                      {new Date(reading.measured_at).toLocaleTimeString('en-US', {
+                        hour: 'numeric',
+                        minute: '2-digit',
+                        hour12: true
+                      })}
+                      {linkedMeal && ` · after ${linkedMeal}`}
+                      {reading.notes && ` · ${reading.notes}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => deleteReading(reading.id)}
+                    disabled={disabled}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
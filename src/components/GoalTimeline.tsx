@@ -0,0 +1,176 @@
+/**
+ * GoalTimeline component for the Profile page
+ * Lists every version of the user's nutrition goals with the date it took effect, and
+ * schedules future target changes.
+ */
+
+import { useMemo, useState } from 'react';
+import { useGoalHistory, type ScheduledTargets } from '@/hooks/useGoalHistory';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { addDays, formatDateKey, todayKey } from '@/lib/dateUtils';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, History, Loader2, Trash2 } from "lucide-react";
+
+const TARGET_FIELDS: { key: keyof ScheduledTargets; label: string; unit: string }[] = [
+  { key: 'daily_calories', label: 'Calories', unit: 'kcal' },
+  { key: 'daily_carbs', label: 'Carbs', unit: 'g' },
+  { key: 'daily_proteins', label: 'Protein', unit: 'g' },
+  { key: 'daily_fats', label: 'Fats', unit: 'g' }
+];
+
+type TargetInputs = Record<keyof ScheduledTargets, string>;
+
+export default function GoalTimeline() {
+  const timeZone = useTimeZone();
+  const today = todayKey(timeZone);
+  const { history, loading, error, goalsForDate, scheduleGoals, cancelScheduledGoals } = useGoalHistory();
+
+  const [startDate, setStartDate] = useState(addDays(today, 1));
+  const [targets, setTargets] = useState<TargetInputs | null>(null);
+  const [isScheduling, setIsScheduling] = useState(false);
+
+  const activeGoals = goalsForDate(today);
+
+  // Newest first; each entry also carries the calorie change from the version before it
+  const timeline = useMemo(
+    () => history
+      .map((goals, index) => ({
+        goals,
+        calorieChange: index > 0 ? Math.round(goals.daily_calories - history[index - 1].daily_calories) : null
+      }))
+      .reverse(),
+    [history]
+  );
+
+  // Start the form from the goals active on the chosen day
+  const inputs: TargetInputs = targets ?? {
+    daily_calories: String(Math.round(goalsForDate(startDate)?.daily_calories ?? 2000)),
+    daily_carbs: String(Math.round(goalsForDate(startDate)?.daily_carbs ?? 250)),
+    daily_proteins: String(Math.round(goalsForDate(startDate)?.daily_proteins ?? 150)),
+    daily_fats: String(Math.round(goalsForDate(startDate)?.daily_fats ?? 67))
+  };
+
+  const handleSchedule = async () => {
+    const parsed = Object.fromEntries(
+      TARGET_FIELDS.map(({ key }) => [key, parseFloat(inputs[key])])
+    ) as ScheduledTargets;
+    if (Object.values(parsed).some(value => !value || value <= 0)) return;
+
+    setIsScheduling(true);
+    try {
+      if (await scheduleGoals(startDate, parsed)) {
+        setTargets(null);
+      }
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  return (
+    <Card className="fitness-card">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-3">
+        <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+          <History className="w-5 h-5 text-fitness-primary" />
+          Goal History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Schedule a change */}
+        <div className="space-y-3">
+          <p className="text-sm text-fitness-light flex items-center gap-2">
+            <CalendarClock className="w-4 h-4" />
+            Schedule new targets, e.g. a cut starting next Monday
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-2 col-span-2 md:col-span-1">
+              <Label htmlFor="goal_start_date" className="text-white">Starts</Label>
+              <Input
+                id="goal_start_date"
+                type="date"
+                min={addDays(today, 1)}
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value || addDays(today, 1))}
+                className="fitness-input"
+              />
+            </div>
+            {TARGET_FIELDS.map(({ key, label, unit }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`goal_${key}`} className="text-white">{label} ({unit})</Label>
+                <Input
+                  id={`goal_${key}`}
+                  type="number"
+                  min="0"
+                  value={inputs[key]}
+                  onChange={(e) => setTargets({ ...inputs, [key]: e.target.value })}
+                  className="fitness-input"
+                />
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleSchedule} disabled={isScheduling || startDate <= today} className="fitness-button">
+            {isScheduling && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Schedule Change
+          </Button>
+        </div>
+
+        {/* Timeline */}
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-fitness-primary" />
+            <span className="ml-2 text-fitness-light">Loading goal history...</span>
+          </div>
+        ) : timeline.length === 0 ? (
+          <p className="text-sm text-fitness-muted text-center py-4">No goals saved yet</p>
+        ) : (
+          <ol className="relative border-l border-fitness-muted/30 ml-2 space-y-4">
+            {timeline.map(({ goals, calorieChange }) => {
+              const isScheduled = goals.calculation_date > today;
+              const isActive = goals.id === activeGoals?.id;
+
+              return (
+                <li key={goals.id} className="ml-4">
+                  <div className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${isActive ? 'bg-fitness-primary' : isScheduled ? 'bg-fitness-peach' : 'bg-fitness-muted/50'}`} />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold text-white">
+                      {formatDateKey(goals.calculation_date, { year: 'numeric', month: 'short', day: 'numeric' })}
+                    </span>
+                    {isActive && <Badge className="bg-fitness-primary text-white text-xs">Active</Badge>}
+                    {isScheduled && <Badge variant="outline" className="border-fitness-peach text-fitness-peach text-xs">Scheduled</Badge>}
+                    {goals.tdee_source === 'adaptive' && (
+                      <Badge variant="secondary" className="text-xs">Adaptive TDEE</Badge>
+                    )}
+                    {isScheduled && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => cancelScheduledGoals(goals.id)}
+                        className="h-6 w-6 text-fitness-muted hover:text-red-400"
+                        aria-label="Cancel scheduled goals"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-sm text-fitness-light">
+                    {Math.round(goals.daily_calories)} kcal
+                    {calorieChange !== null && calorieChange !== 0 && (
+                      <span className={calorieChange > 0 ? 'text-orange-300' : 'text-blue-300'}>
+                        {' '}({calorieChange > 0 ? '+' : ''}{calorieChange})
+                      </span>
+                    )}
+                    {' · '}{Math.round(goals.daily_carbs)}g carbs · {Math.round(goals.daily_proteins)}g protein · {Math.round(goals.daily_fats)}g fat
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
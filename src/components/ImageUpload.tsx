@@ -24,6 +24,7 @@ import {
 interface ImageUploadProps {
   onImageUploaded: (imageUrl: string) => void;
   onImageRemoved: () => void;
+  onFileSelected?: (file: File) => void; // raw file after validation, e.g. for barcode decoding
   disabled?: boolean;
   existingImageUrl?: string;
   maxSizeBytes?: number;
@@ -39,6 +40,7 @@ const MAX_HEIGHT = 1080;
 export default function ImageUpload({
   onImageUploaded,
   onImageRemoved,
+  onFileSelected,
   disabled = false,
   existingImageUrl,
   maxSizeBytes = DEFAULT_MAX_SIZE,
@@ -166,6 +168,8 @@ export default function ImageUpload({
       return;
     }
 
+    onFileSelected?.(file);
+
     // Create preview
     const preview = URL.createObjectURL(file);
     setPreviewUrl(preview);
@@ -212,7 +216,7 @@ export default function ImageUpload({
       setIsUploading(false);
       setUploadProgress(0);
     }
-  }, [validateFile, uploadFile, onImageUploaded, existingImageUrl, toast]);
+  }, [validateFile, uploadFile, onImageUploaded, onFileSelected, existingImageUrl, toast]);
 
   // Handle drag events
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -0,0 +1,66 @@
+import { useMemo, useState } from "react";
+import { Calendar } from "@/components/ui/calendar";
+import { useDailySummaryRange } from "@/hooks/useDailySummaryRange";
+import { useGoalHistory } from "@/hooks/useGoalHistory";
+import { getLoggingCompleteness, type LoggingCompleteness } from "@/lib/nutritionCalculations";
+import { addDays, dateKeyToLocalDate, localDateToKey } from "@/lib/dateUtils";
+
+interface LogCalendarProps {
+  selectedDate: string;
+  today: string;
+  onSelect: (date: string) => void;
+}
+
+const LEVELS: { level: Exclude<LoggingCompleteness, 'none'>; label: string; className: string }[] = [
+  { level: 'light', label: 'Under half', className: 'bg-fitness-primary/20' },
+  { level: 'partial', label: 'Partly logged', className: 'bg-fitness-primary/50' },
+  { level: 'complete', label: 'Fully logged', className: 'bg-fitness-primary/90 text-white' }
+];
+
+const monthStartOf = (date: string) => `${date.slice(0, 7)}-01`;
+
+/**
+ * Month calendar shaded by how completely each day was logged; future days can't be picked
+ */
+export default function LogCalendar({ selectedDate, today, onSelect }: LogCalendarProps) {
+  const [month, setMonth] = useState(() => monthStartOf(selectedDate));
+
+  // Cover the leading and trailing days of neighbouring months the grid also shows
+  const nextMonth = monthStartOf(addDays(month, 31));
+  const { summaries } = useDailySummaryRange(addDays(month, -7), addDays(nextMonth, 6));
+  const { goalsForDate } = useGoalHistory();
+
+  const modifiers = useMemo(() => {
+    const days: Record<string, Date[]> = { light: [], partial: [], complete: [] };
+    Object.values(summaries).forEach(summary => {
+      // Each day is measured against the calorie goal that was in effect on it
+      const level = getLoggingCompleteness(summary, goalsForDate(summary.date)?.daily_calories);
+      if (level !== 'none') days[level].push(dateKeyToLocalDate(summary.date));
+    });
+    return days;
+  }, [summaries, goalsForDate]);
+
+  return (
+    <div>
+      <Calendar
+        mode="single"
+        selected={dateKeyToLocalDate(selectedDate)}
+        onSelect={(date) => date && onSelect(localDateToKey(date))}
+        month={dateKeyToLocalDate(month)}
+        onMonthChange={(date) => setMonth(localDateToKey(date))}
+        disabled={{ after: dateKeyToLocalDate(today) }}
+        toDate={dateKeyToLocalDate(today)}
+        modifiers={modifiers}
+        modifiersClassNames={Object.fromEntries(LEVELS.map(({ level, className }) => [level, className]))}
+      />
+      <div className="flex flex-wrap items-center gap-3 px-3 pb-3 text-xs text-muted-foreground">
+        {LEVELS.map(({ level, label, className }) => (
+          <span key={level} className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded-sm ${className}`} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
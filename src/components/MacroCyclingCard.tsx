@@ -0,0 +1,202 @@
+/**
+ * MacroCyclingCard component for the Profile page
+ * Sets up training-day / rest-day carb cycling and previews both days' targets against the
+ * current goals, with the weekly total they add up to.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useNutritionGoals } from '@/hooks/useNutritionGoals';
+import {
+  CARB_SHIFT_LIMITS,
+  CYCLING_MODE_LABELS,
+  cyclingSettingsFrom,
+  WEEKDAY_LABELS,
+  weeklyCyclingPlan,
+  type CyclingMode,
+  type CyclingSettings,
+  type DayGoals
+} from '@/lib/macroCycling';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Repeat } from "lucide-react";
+
+export default function MacroCyclingCard() {
+  const { profile, updateProfile } = useProfile();
+  const { goals } = useNutritionGoals();
+
+  const saved = useMemo(() => cyclingSettingsFrom(profile), [profile]);
+  const [draft, setDraft] = useState<CyclingSettings>(saved);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Follow the saved settings when the profile reloads
+  useEffect(() => {
+    setDraft(saved);
+  }, [saved]);
+
+  const plan = useMemo(() => (goals ? weeklyCyclingPlan(goals, draft) : null), [goals, draft]);
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  const toggleDay = (day: number) => {
+    setDraft(prev => ({
+      ...prev,
+      training_days: prev.training_days.includes(day)
+        ? prev.training_days.filter(d => d !== day)
+        : [...prev.training_days, day].sort()
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateProfile({
+        macro_cycling: draft.mode,
+        training_days: draft.training_days,
+        training_days_per_week: draft.training_days_per_week,
+        carb_cycling_percent: draft.carb_shift_percent
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderDay = (label: string, day: DayGoals) => (
+    <div className="p-3 rounded-lg bg-fitness-dark/50 space-y-1">
+      <p className="text-xs font-medium text-fitness-light">{label}</p>
+      <p className="text-lg font-bold text-white">{Math.round(day.daily_calories)} kcal</p>
+      <p className="text-xs text-fitness-muted">
+        {Math.round(day.daily_carbs)}g carbs · {Math.round(day.daily_proteins)}g protein · {Math.round(day.daily_fats)}g fats
+      </p>
+    </div>
+  );
+
+  return (
+    <Card className="fitness-card">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+          <Repeat className="w-5 h-5 text-fitness-primary" />
+          Carb Cycling
+        </CardTitle>
+        {saved.mode !== 'off' && (
+          <Badge variant="outline" className="border-fitness-primary text-fitness-primary">
+            {CYCLING_MODE_LABELS[saved.mode]}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-fitness-light">
+          Eat more carbs on training days and fewer on rest days. Protein and fats stay the same, and the week still
+          adds up to your goal.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-white">Training days</Label>
+            <Select value={draft.mode} onValueChange={(mode: CyclingMode) => setDraft(prev => ({ ...prev, mode }))}>
+              <SelectTrigger className="fitness-input">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CYCLING_MODE_LABELS) as CyclingMode[]).map(mode => (
+                  <SelectItem key={mode} value={mode}>{CYCLING_MODE_LABELS[mode]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {draft.mode !== 'off' && (
+            <div className="space-y-2">
+              <Label htmlFor="carb_cycling_percent" className="text-white">Extra carbs on training days (%)</Label>
+              <Input
+                id="carb_cycling_percent"
+                type="number"
+                min={CARB_SHIFT_LIMITS.min}
+                max={CARB_SHIFT_LIMITS.max}
+                step={5}
+                value={draft.carb_shift_percent}
+                onChange={(e) => setDraft(prev => ({
+                  ...prev,
+                  carb_shift_percent: Math.min(CARB_SHIFT_LIMITS.max, Math.max(CARB_SHIFT_LIMITS.min, Number(e.target.value) || 0))
+                }))}
+                className="fitness-input"
+              />
+            </div>
+          )}
+        </div>
+
+        {draft.mode === 'schedule' && (
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <Button
+                key={label}
+                size="sm"
+                variant={draft.training_days.includes(day) ? 'default' : 'outline'}
+                onClick={() => toggleDay(day)}
+                className={draft.training_days.includes(day)
+                  ? 'bg-fitness-primary hover:bg-fitness-primary/90'
+                  : 'border-fitness-muted text-fitness-light hover:bg-fitness-muted/20'}
+                aria-pressed={draft.training_days.includes(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {draft.mode === 'activity' && (
+          <div className="space-y-2">
+            <Label htmlFor="training_days_per_week" className="text-white">Workouts in a typical week</Label>
+            <Input
+              id="training_days_per_week"
+              type="number"
+              min={0}
+              max={7}
+              value={draft.training_days_per_week}
+              onChange={(e) => setDraft(prev => ({
+                ...prev,
+                training_days_per_week: Math.min(7, Math.max(0, Math.round(Number(e.target.value) || 0)))
+              }))}
+              className="fitness-input w-28"
+            />
+            <p className="text-xs text-fitness-muted">
+              Days with a logged exercise session get training-day targets. The split is balanced for this many
+              workouts, so the week stays on target when you train as planned.
+            </p>
+          </div>
+        )}
+
+        {draft.mode !== 'off' && plan && (
+          plan.training_days === 0 || plan.training_days === 7 ? (
+            <p className="text-sm text-fitness-muted">
+              Pick between one and six training days to cycle carbs; every day uses your regular goals until then.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-3">
+                {renderDay(`Training day × ${plan.training_days}`, plan.training)}
+                {renderDay(`Rest day × ${7 - plan.training_days}`, plan.rest)}
+              </div>
+              <p className="text-xs text-fitness-muted">
+                Week: {Math.round(plan.weekly_calories).toLocaleString()} kcal, the same as{' '}
+                {Math.round(plan.goal_weekly_calories / 7).toLocaleString()} kcal every day
+              </p>
+            </div>
+          )
+        )}
+
+        {hasChanges && (
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={isSaving} className="fitness-button">
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Cycling
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
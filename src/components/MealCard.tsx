@@ -3,13 +3,26 @@
  * Handles editing, deletion, and real-time updates with proper error handling
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { useProfile } from '@/contexts/ProfileContext';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { RecipeIngredientInput } from '@/lib/recipeCalculations';
+import {
+  MICRONUTRIENT_INFO,
+  MICRONUTRIENT_KEYS,
+  type MicronutrientKey,
+  type Micronutrients
+} from '@/lib/nutritionCalculations';
+import { calculateGlycemicLoad, classifyGlycemicLoad } from '@/lib/glucoseCalculations';
+import { formatPortion, GRAM_UNIT, portionToGrams, type ServingUnit } from '@/lib/servingUnits';
+import { describeConflicts, findMealConflicts } from '@/lib/dietaryRestrictions';
 import { 
   Dialog, 
   DialogContent, 
@@ -36,20 +49,32 @@ import {
   Image as ImageIcon,
   Loader2,
   Save,
-  X
+  X,
+  ChefHat,
+  ChevronDown,
+  CloudOff,
+  AlertTriangle
 } from "lucide-react";
 
-export interface MealLog {
+export interface MealLog extends Micronutrients {
   id: string;
   food_name: string;
   portion_size: number;
+  unit?: string | null;
+  unit_quantity?: number | null;
   calories: number;
   carbs: number;
   fats: number;
   proteins: number;
+  glycemic_index?: number | null;
+  allergens?: string[] | null;
   image_url?: string;
+  recipe_id?: string | null;
+  servings?: number | null;
+  ingredients?: RecipeIngredientInput[] | null;
   logged_at: string;
   created_at: string;
+  pending_sync?: boolean; // saved offline, not yet on the server
 }
 
 interface MealCardProps {
@@ -59,30 +84,49 @@ interface MealCardProps {
   disabled?: boolean;
 }
 
-interface EditData {
-  food_name: string;
-  portion_size: string;
-  calories: string;
-  carbs: string;
-  fats: string;
-  proteins: string;
-}
+type EditData = Record<
+  'food_name' | 'portion_size' | 'portion_unit' | 'calories' | 'carbs' | 'fats' | 'proteins' | 'glycemic_index' | MicronutrientKey,
+  string
+>;
+
+const hasUnit = (meal: MealLog) => !!meal.unit && !!meal.unit_quantity;
+
+// Grams plus the unit the meal was logged in, if any
+const getMealUnits = (meal: MealLog): ServingUnit[] =>
+  hasUnit(meal)
+    ? [GRAM_UNIT, { name: meal.unit!, grams: meal.portion_size / meal.unit_quantity! }]
+    : [GRAM_UNIT];
+
+const toEditData = (meal: MealLog): EditData => ({
+  food_name: meal.food_name,
+  portion_size: (hasUnit(meal) ? meal.unit_quantity! : meal.portion_size).toString(),
+  portion_unit: hasUnit(meal) ? meal.unit! : 'g',
+  calories: meal.calories.toString(),
+  carbs: meal.carbs.toString(),
+  fats: meal.fats.toString(),
+  proteins: meal.proteins.toString(),
+  glycemic_index: meal.glycemic_index != null ? meal.glycemic_index.toString() : '',
+  ...(Object.fromEntries(
+    MICRONUTRIENT_KEYS.map(key => [key, meal[key] != null ? meal[key]!.toString() : ''])
+  ) as Record<MicronutrientKey, string>)
+});
 
 export default function MealCard({ meal, onEdit, onDelete, disabled }: MealCardProps) {
   // State management
   const [isEditing, setIsEditing] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
-  const [editData, setEditData] = useState<EditData>({
-    food_name: meal.food_name,
-    portion_size: meal.portion_size.toString(),
-    calories: meal.calories.toString(),
-    carbs: meal.carbs.toString(),
-    fats: meal.fats.toString(),
-    proteins: meal.proteins.toString()
-  });
+  const [showIngredients, setShowIngredients] = useState(false);
+  const [editData, setEditData] = useState<EditData>(() => toEditData(meal));
 
   const { toast } = useToast();
+  const { profile } = useProfile();
+
+  const isRecipeMeal = !!meal.ingredients && meal.ingredients.length > 0;
+  const knownMicronutrients = MICRONUTRIENT_KEYS.filter(key => meal[key] != null);
+  const glycemicLoad = calculateGlycemicLoad(meal.glycemic_index, meal.carbs, meal.fiber);
+  const mealUnits = useMemo(() => getMealUnits(meal), [meal]);
+  const conflicts = useMemo(() => findMealConflicts(meal, profile), [meal, profile]);
 
   // Format time for display
   const formatTime = useCallback((dateString: string): string => {
@@ -99,16 +143,40 @@ export default function MealCard({ meal, onEdit, onDelete, disabled }: MealCardP
 
   // Reset edit form
   const resetEditForm = useCallback(() => {
-    setEditData({
-      food_name: meal.food_name,
-      portion_size: meal.portion_size.toString(),
-      calories: meal.calories.toString(),
-      carbs: meal.carbs.toString(),
-      fats: meal.fats.toString(),
-      proteins: meal.proteins.toString()
-    });
+    setEditData(toEditData(meal));
   }, [meal]);
 
+  // Changing the amount rescales the logged nutrition proportionally
+  const handlePortionChange = useCallback((value: string) => {
+    const grams = portionToGrams(parseFloat(value) || 0, editData.portion_unit, mealUnits);
+    const ratio = meal.portion_size > 0 ? grams / meal.portion_size : 0;
+    const scale = (amount: number | null | undefined) =>
+      amount != null ? (Math.round(amount * ratio * 10) / 10).toString() : '';
+
+    setEditData(prev => ({
+      ...prev,
+      portion_size: value,
+      ...(ratio > 0 && {
+        calories: Math.round(meal.calories * ratio).toString(),
+        carbs: scale(meal.carbs),
+        fats: scale(meal.fats),
+        proteins: scale(meal.proteins),
+        ...Object.fromEntries(MICRONUTRIENT_KEYS.map(key => [key, scale(meal[key])]))
+      })
+    }));
+  }, [editData.portion_unit, mealUnits, meal]);
+
+  // Switching units converts the amount without changing the nutrition
+  const handlePortionUnitChange = useCallback((unitName: string) => {
+    const grams = portionToGrams(parseFloat(editData.portion_size) || 0, editData.portion_unit, mealUnits);
+    const unit = mealUnits.find(u => u.name === unitName) || GRAM_UNIT;
+    setEditData(prev => ({
+      ...prev,
+      portion_unit: unit.name,
+      portion_size: (Math.round((grams / unit.grams) * 100) / 100).toString()
+    }));
+  }, [editData.portion_size, editData.portion_unit, mealUnits]);
+
   // Handle edit submission
   const handleEditSubmit = useCallback(async () => {
     // Validate required fields
@@ -144,15 +212,27 @@ export default function MealCard({ meal, onEdit, onDelete, disabled }: MealCardP
     setIsUpdating(true);
 
     try {
+      const isGrams = editData.portion_unit === 'g';
       const updates: Partial<MealLog> = {
         food_name: editData.food_name.trim(),
-        portion_size: portion,
+        portion_size: portionToGrams(portion, editData.portion_unit, mealUnits),
+        unit: isGrams ? null : editData.portion_unit,
+        unit_quantity: isGrams ? null : portion,
         calories: calories,
         carbs: parseFloat(editData.carbs) || 0,
         fats: parseFloat(editData.fats) || 0,
         proteins: parseFloat(editData.proteins) || 0
       };
 
+      // Blank micronutrient fields are stored as unknown rather than 0
+      for (const key of MICRONUTRIENT_KEYS) {
+        const value = parseFloat(editData[key]);
+        updates[key] = isNaN(value) ? null : value;
+      }
+
+      const glycemicIndex = parseFloat(editData.glycemic_index);
+      updates.glycemic_index = isNaN(glycemicIndex) ? null : Math.min(Math.max(glycemicIndex, 0), 100);
+
       await onEdit(meal.id, updates);
       
       setIsEditing(false);
@@ -171,7 +251,7 @@ export default function MealCard({ meal, onEdit, onDelete, disabled }: MealCardP
     } finally {
       setIsUpdating(false);
     }
-  }, [editData, meal.id, onEdit, toast]);
+  }, [editData, mealUnits, meal.id, onEdit, toast]);
 
   // Handle deletion
   const handleDelete = useCallback(async () => {
@@ -232,7 +312,44 @@ export default function MealCard({ meal, onEdit, onDelete, disabled }: MealCardP
         {/* Food Name and Time */}
         <div className="flex items-start justify-between">
           <div className="flex-1">
-            <h4 className="font-medium text-sm line-clamp-2">{meal.food_name}</h4>
+            <div className="flex items-center gap-2">
+              <h4 className="font-medium text-sm line-clamp-2">{meal.food_name}</h4>
+              {isRecipeMeal && (
+                <Badge variant="secondary" className="text-xs">
+                  <ChefHat className="h-3 w-3 mr-1" />
+                  Recipe
+                </Badge>
+              )}
+              {glycemicLoad !== null && (
+                <Badge
+                  variant={classifyGlycemicLoad(glycemicLoad) === 'high' ? 'destructive' : 'outline'}
+                  className="text-xs"
+                  title={`Glycemic index ${meal.glycemic_index}`}
+                >
+                  GL {glycemicLoad} · {classifyGlycemicLoad(glycemicLoad)}
+                </Badge>
+              )}
+              {conflicts.length > 0 && (
+                <Badge
+                  variant="destructive"
+                  className="text-xs"
+                  title={`Conflicts with your dietary restrictions: ${describeConflicts(conflicts)}`}
+                >
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {conflicts.map(conflict => conflict.reason).join(', ')}
+                </Badge>
+              )}
+              {meal.pending_sync && (
+                <Badge
+                  variant="outline"
+                  className="text-xs border-amber-500/50 text-amber-500"
+                  title="Saved on this device - will sync when you're back online"
+                >
+                  <CloudOff className="h-3 w-3 mr-1" />
+                  Pending sync
+                </Badge>
+              )}
+            </div>
             <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
               <Clock className="h-3 w-3" />
               <span>{formatTime(meal.logged_at)}</span>
@@ -244,7 +361,10 @@ export default function MealCard({ meal, onEdit, onDelete, disabled }: MealCardP
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <span className="text-sm text-muted-foreground">Portion:</span>
-            <span className="text-sm font-medium">{meal.portion_size}g</span>
+            <span className="text-sm font-medium">
+              {meal.servings ? `${meal.servings} serving${meal.servings === 1 ? '' : 's'} · ` : ''}
+              {hasUnit(meal) ? `${formatPortion(meal.unit_quantity!, meal.unit)} · ` : ''}{meal.portion_size}g
+            </span>
           </div>
           
           <div className="grid grid-cols-2 gap-2 text-xs">
@@ -264,9 +384,39 @@ export default function MealCard({ meal, onEdit, onDelete, disabled }: MealCardP
               <span className="text-muted-foreground">Proteins:</span>
               <span className="font-medium">{Math.round(meal.proteins * 10) / 10}g</span>
             </div>
+            {knownMicronutrients.map(key => (
+              <div key={key} className="flex justify-between">
+                <span className="text-muted-foreground">{MICRONUTRIENT_INFO[key].label}:</span>
+                <span className="font-medium">
+                  {Math.round(meal[key]! * 10) / 10}{MICRONUTRIENT_INFO[key].unit}
+                </span>
+              </div>
+            ))}
           </div>
         </div>
 
+        {/* Recipe Ingredients */}
+        {isRecipeMeal && (
+          <Collapsible open={showIngredients} onOpenChange={setShowIngredients}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="w-full justify-between px-2 text-xs">
+                {meal.ingredients!.length} ingredients
+                <ChevronDown className={`h-3 w-3 transition-transform ${showIngredients ? 'rotate-180' : ''}`} />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="space-y-1 pt-1">
+              {meal.ingredients!.map((ingredient, index) => (
+                <div key={`${ingredient.food_name}-${index}`} className="flex justify-between text-xs px-2">
+                  <span className="text-muted-foreground">
+                    {ingredient.food_name} · {ingredient.grams}g
+                  </span>
+                  <span className="font-medium">{Math.round(ingredient.calories)} cal</span>
+                </div>
+              ))}
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center gap-2 pt-2 border-t">
           {/* Edit Dialog */}
@@ -304,16 +454,36 @@ export default function MealCard({ meal, onEdit, onDelete, disabled }: MealCardP
 
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="edit-portion">Portion (g)</Label>
-                    <Input
-                      id="edit-portion"
-                      type="number"
-                      min="0"
-                      step="0.1"
-                      value={editData.portion_size}
-                      onChange={(e) => setEditData(prev => ({ ...prev, portion_size: e.target.value }))}
-                      disabled={isUpdating}
-                    />
+                    <Label htmlFor="edit-portion">Portion{mealUnits.length > 1 ? '' : ' (g)'}</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="edit-portion"
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={editData.portion_size}
+                        onChange={(e) => handlePortionChange(e.target.value)}
+                        disabled={isUpdating}
+                      />
+                      {mealUnits.length > 1 && (
+                        <Select
+                          value={editData.portion_unit}
+                          onValueChange={handlePortionUnitChange}
+                          disabled={isUpdating}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {mealUnits.map(unit => (
+                              <SelectItem key={unit.name} value={unit.name}>
+                                {unit.name === 'g' ? 'grams' : unit.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
                   </div>
                   
                   <div className="space-y-2">
@@ -369,6 +539,37 @@ export default function MealCard({ meal, onEdit, onDelete, disabled }: MealCardP
                     />
                   </div>
                 </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  {MICRONUTRIENT_KEYS.map(key => (
+                    <div key={key} className="space-y-2">
+                      <Label htmlFor={`edit-${key}`}>
+                        {MICRONUTRIENT_INFO[key].label} ({MICRONUTRIENT_INFO[key].unit})
+                      </Label>
+                      <Input
+                        id={`edit-${key}`}
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={editData[key]}
+                        onChange={(e) => setEditData(prev => ({ ...prev, [key]: e.target.value }))}
+                        disabled={isUpdating}
+                      />
+                    </div>
+                  ))}
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-glycemic-index">Glycemic Index</Label>
+                    <Input
+                      id="edit-glycemic-index"
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={editData.glycemic_index}
+                      onChange={(e) => setEditData(prev => ({ ...prev, glycemic_index: e.target.value }))}
+                      disabled={isUpdating}
+                    />
+                  </div>
+                </div>
               </div>
 
               <DialogFooter>
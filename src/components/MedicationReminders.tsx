@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMedications } from '@/hooks/useMedications';
+import { useMedicationDoses } from '@/hooks/useMedicationDoses';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { addDays, todayKey } from '@/lib/dateUtils';
+import { upcomingReminders } from '@/lib/medicationSchedule';
+import { clearReminders, getReminderPermission, syncReminders } from '@/lib/medicationReminders';
+
+// Reminders are scheduled a day at a time, so refresh them well before the window runs out;
+// this also re-arms page timers that a sleeping device let slip
+const RESYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Keeps the reminder schedule in step with the medications and doses while the app is open
+ */
+export const MedicationReminders = () => {
+  const { user } = useAuth();
+  const timeZone = useTimeZone();
+  const today = todayKey(timeZone);
+  const { medications, loading } = useMedications();
+  const { doses, loading: dosesLoading } = useMedicationDoses(today, addDays(today, 1));
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    const interval = setInterval(() => setTick(value => value + 1), RESYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) {
+      clearReminders();
+      return;
+    }
+    if (loading || dosesLoading || getReminderPermission() !== 'granted') return;
+
+    syncReminders(upcomingReminders(medications, doses, timeZone));
+  }, [user?.id, medications, doses, loading, dosesLoading, timeZone, tick]);
+
+  return null;
+};
@@ -0,0 +1,302 @@
+/**
+ * MedicationSchedule component for the Profile page
+ * Manages medications and the times they are taken, turns on browser reminders and shows
+ * the last week of checked-off doses.
+ */
+
+import { useMemo, useState } from 'react';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useMedications, type Medication } from '@/hooks/useMedications';
+import { useMedicationDoses } from '@/hooks/useMedicationDoses';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { addDays, formatDateKey, lastNDays, todayKey } from '@/lib/dateUtils';
+import {
+  calculateDoseAdherence,
+  formatDoseTime,
+  isValidDoseTime,
+  scheduledDosesForDay,
+  type DoseStatus
+} from '@/lib/medicationSchedule';
+import { getReminderDelivery, getReminderPermission, requestReminderPermission, type ReminderPermission } from '@/lib/medicationReminders';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Bell, BellOff, Loader2, Pill, Plus, Trash2, X } from "lucide-react";
+
+const HISTORY_DAYS = 7;
+
+const DOT_STYLES: Record<DoseStatus, string> = {
+  taken: 'bg-green-400',
+  skipped: 'bg-yellow-400',
+  missed: 'bg-red-400',
+  due: 'bg-fitness-primary',
+  upcoming: 'bg-fitness-muted/40'
+};
+
+export default function MedicationSchedule() {
+  const timeZone = useTimeZone();
+  const today = todayKey(timeZone);
+  const { profile } = useProfile();
+  const { medications, loading, error, addMedication, updateMedication, deleteMedication } = useMedications();
+  const { doses } = useMedicationDoses(addDays(today, -(HISTORY_DAYS - 1)), today);
+
+  const [name, setName] = useState('');
+  const [dose, setDose] = useState('');
+  const [times, setTimes] = useState<string[]>(['08:00']);
+  const [withMeal, setWithMeal] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [permission, setPermission] = useState<ReminderPermission>(getReminderPermission);
+
+  const historyDays = useMemo(() => lastNDays(today, HISTORY_DAYS), [today]);
+
+  // Per medication: the week's adherence and each day's doses for the dot strip
+  const history = useMemo(() => new Map(medications.map(medication => [
+    medication.id,
+    {
+      adherence: calculateDoseAdherence([medication], doses, historyDays, timeZone),
+      days: historyDays.map(date => ({
+        date,
+        doses: scheduledDosesForDay([medication], doses, date, timeZone)
+      }))
+    }
+  ])), [medications, doses, historyDays, timeZone]);
+
+  const validTimes = times.filter(isValidDoseTime);
+
+  const handleAdd = async () => {
+    if (!name.trim() || validTimes.length === 0) return;
+
+    setIsAdding(true);
+    try {
+      const success = await addMedication({
+        name,
+        dose: dose.trim() || null,
+        times: validTimes,
+        with_meal: withMeal
+      });
+      if (success) {
+        setName('');
+        setDose('');
+        setTimes(['08:00']);
+        setWithMeal(false);
+      }
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleEnableReminders = async () => {
+    setPermission(await requestReminderPermission());
+  };
+
+  const renderMedication = (medication: Medication) => {
+    const medicationHistory = history.get(medication.id);
+    const adherence = medicationHistory?.adherence;
+
+    return (
+      <li key={medication.id} className={`p-3 rounded-lg bg-fitness-dark/50 space-y-2 ${medication.active ? '' : 'opacity-60'}`}>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="font-semibold text-white">
+              {medication.name}
+              {medication.dose && <span className="text-fitness-light font-normal"> · {medication.dose}</span>}
+            </p>
+            <div className="flex flex-wrap items-center gap-1 mt-1">
+              {medication.times.map(time => (
+                <Badge key={time} variant="outline" className="border-fitness-primary/50 text-fitness-light text-xs">
+                  {formatDoseTime(time)}
+                </Badge>
+              ))}
+              {medication.with_meal && <Badge variant="secondary" className="text-xs">With food</Badge>}
+              {!medication.active && <Badge variant="secondary" className="text-xs">Stopped</Badge>}
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => updateMedication(medication.id, { reminders_enabled: !medication.reminders_enabled })}
+              disabled={!medication.active}
+              className="h-8 w-8 text-fitness-light hover:text-white"
+              aria-label={medication.reminders_enabled ? 'Turn reminders off' : 'Turn reminders on'}
+              title={medication.reminders_enabled ? 'Reminders on' : 'Reminders off'}
+            >
+              {medication.reminders_enabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteMedication(medication.id)}
+              className="h-8 w-8 text-fitness-muted hover:text-red-400"
+              aria-label={`Delete ${medication.name}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Last week, one column per day and one dot per dose */}
+        <div className="flex items-end justify-between gap-3">
+          <div className="flex gap-2">
+            {medicationHistory?.days.map(({ date, doses: dayDoses }) => (
+              <div
+                key={date}
+                className="flex flex-col items-center gap-0.5"
+                title={`${formatDateKey(date, { weekday: 'short', month: 'short', day: 'numeric' })}: ${dayDoses.map(d => `${formatDoseTime(d.time)} ${d.status}`).join(', ') || 'none scheduled'}`}
+              >
+                {dayDoses.map(d => <span key={d.key} className={`h-2 w-2 rounded-full ${DOT_STYLES[d.status]}`} />)}
+                <span className="text-[10px] text-fitness-muted">{formatDateKey(date, { weekday: 'narrow' })}</span>
+              </div>
+            ))}
+          </div>
+          <div className="text-right">
+            {adherence?.rate != null && (
+              <p className="text-xs text-fitness-light">
+                {adherence.taken}/{adherence.scheduled} taken ({Math.round(adherence.rate * 100)}%)
+              </p>
+            )}
+            <button
+              type="button"
+              onClick={() => updateMedication(medication.id, { active: !medication.active })}
+              className="text-xs text-fitness-muted hover:text-white underline-offset-2 hover:underline"
+            >
+              {medication.active ? 'Stop taking' : 'Resume'}
+            </button>
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Card className="fitness-card">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+          <Pill className="w-5 h-5 text-fitness-primary" />
+          Medications
+        </CardTitle>
+        {permission === 'granted' ? (
+          <Badge variant="outline" className="border-fitness-primary text-fitness-primary">
+            <Bell className="w-3 h-3 mr-1" />
+            Reminders on
+          </Badge>
+        ) : permission === 'default' ? (
+          <Button size="sm" variant="outline" onClick={handleEnableReminders} className="border-fitness-primary text-fitness-primary hover:bg-fitness-primary/10">
+            <Bell className="w-4 h-4 mr-2" />
+            Enable Reminders
+          </Button>
+        ) : permission === 'denied' ? (
+          <span className="text-xs text-fitness-muted">Notifications are blocked in your browser settings</span>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {permission === 'granted' && (
+          <p className="text-xs text-fitness-muted">
+            {getReminderDelivery() === 'system'
+              ? 'Reminders are scheduled with your device a day ahead and show even when the app is closed. Open the app daily to keep them scheduled.'
+              : 'Reminders only show while the app is open in a browser tab. If every tab is closed, nothing will remind you, so keep your usual alarm as well.'}
+          </p>
+        )}
+
+        {profile?.medication && medications.length === 0 && (
+          <p className="text-sm text-fitness-light">
+            You mentioned <span className="text-white">{profile.medication}</span> during setup. Add it with the times you
+            take it to get reminders.
+          </p>
+        )}
+
+        {/* Add a medication */}
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="medication_name" className="text-white">Name</Label>
+              <Input
+                id="medication_name"
+                placeholder="e.g. Metformin"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="fitness-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medication_dose" className="text-white">Dose</Label>
+              <Input
+                id="medication_dose"
+                placeholder="e.g. 500 mg"
+                value={dose}
+                onChange={(e) => setDose(e.target.value)}
+                className="fitness-input"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-white">Times</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {times.map((time, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <Input
+                    type="time"
+                    value={time}
+                    onChange={(e) => setTimes(times.map((t, i) => (i === index ? e.target.value : t)))}
+                    className="fitness-input w-32"
+                    aria-label={`Dose time ${index + 1}`}
+                  />
+                  {times.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setTimes(times.filter((_, i) => i !== index))}
+                      className="h-8 w-8 text-fitness-muted hover:text-red-400"
+                      aria-label="Remove time"
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setTimes([...times, '20:00'])}
+                className="text-fitness-light hover:bg-fitness-muted/20"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add time
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center space-x-2">
+              <Switch id="medication_with_meal" checked={withMeal} onCheckedChange={setWithMeal} />
+              <Label htmlFor="medication_with_meal" className="text-white">Take with food</Label>
+            </div>
+            <Button onClick={handleAdd} disabled={isAdding || !name.trim() || validTimes.length === 0} className="fitness-button">
+              {isAdding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add Medication
+            </Button>
+          </div>
+        </div>
+
+        {/* Schedule */}
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-fitness-primary" />
+            <span className="ml-2 text-fitness-light">Loading medications...</span>
+          </div>
+        ) : medications.length === 0 ? (
+          <p className="text-sm text-fitness-muted text-center py-4">No medications added yet</p>
+        ) : (
+          <ul className="space-y-3">
+            {medications.map(renderMedication)}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
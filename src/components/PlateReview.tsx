@@ -0,0 +1,199 @@
+/**
+ * PlateReview component for multi-food photo analyses
+ * Lets the user rename, re-weight or remove each detected item, then log the whole plate
+ */
+
+import { useState, useMemo } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { MealLog, NewMealLog } from '@/hooks/useMealLogs';
+import type { DetectedFoodItem, FoodAnalysisResult } from '@/lib/geminiAI';
+import { rescaleDetectedItem, sumDetectedItems } from '@/lib/plateAnalysis';
+import { getFoodUnits, mapEstimatedPortion } from '@/lib/servingUnits';
+import { inferAllergens } from '@/lib/dietaryRestrictions';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, Loader2, X } from "lucide-react";
+
+type MealType = MealLog['meal_type'];
+
+interface PlateReviewProps {
+  analysis: FoodAnalysisResult;
+  defaultMealType: MealType;
+  onLogPlate: (meals: NewMealLog[]) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+interface ReviewRow {
+  original: DetectedFoodItem;
+  name: string;
+  grams: string;
+}
+
+// Map the AI's "1 medium apple" estimate onto the matching food's household units
+async function toMealLog(item: DetectedFoodItem, mealType: MealType): Promise<NewMealLog> {
+  const { data: matchedFood } = await supabase
+    .from('food_items')
+    .select('units, serving_size_g, allergens')
+    .ilike('name', item.foodName)
+    .limit(1)
+    .maybeSingle();
+  const portion = mapEstimatedPortion(
+    item.portionSize.estimated,
+    matchedFood ? getFoodUnits(matchedFood) : undefined
+  );
+
+  return {
+    meal_type: mealType,
+    food_name: item.foodName,
+    portion_size: item.portionSize.grams,
+    unit: portion?.unit ?? null,
+    unit_quantity: portion?.unit ? portion.quantity : null,
+    calories: item.nutrition.calories,
+    carbs: item.nutrition.carbs,
+    fats: item.nutrition.fats,
+    proteins: item.nutrition.proteins,
+    fiber: item.nutrition.fiber ?? null,
+    sugar: item.nutrition.sugar ?? null,
+    sodium: item.nutrition.sodium ?? null,
+    glycemic_index: item.glycemicIndex ?? null,
+    allergens: matchedFood?.allergens?.length ? matchedFood.allergens : inferAllergens(item.foodName)
+  };
+}
+
+export default function PlateReview({ analysis, defaultMealType, onLogPlate, disabled }: PlateReviewProps) {
+  const [rows, setRows] = useState<ReviewRow[]>(() =>
+    analysis.items.map(item => ({
+      original: item,
+      name: item.foodName,
+      grams: item.portionSize.grams.toString()
+    }))
+  );
+  const [mealType, setMealType] = useState<MealType>(analysis.mealType || defaultMealType);
+  const [isLogging, setIsLogging] = useState(false);
+  const [logged, setLogged] = useState(false);
+
+  // Always rescale from the AI's original estimate so repeated edits don't drift
+  const items = useMemo(() => rows.map(row => ({
+    ...rescaleDetectedItem(row.original, parseFloat(row.grams) || 0),
+    foodName: row.name.trim()
+  })), [rows]);
+
+  const totals = useMemo(() => sumDetectedItems(items), [items]);
+
+  const isValid = rows.length > 0 && rows.every(row => row.name.trim() && parseFloat(row.grams) > 0);
+  const isLocked = disabled || isLogging || logged;
+
+  const updateRow = (index: number, updates: Partial<ReviewRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...updates } : row));
+  };
+
+  const removeRow = (index: number) => {
+    setRows(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleLog = async () => {
+    if (!isValid) return;
+
+    setIsLogging(true);
+    try {
+      const meals = await Promise.all(items.map(item => toMealLog(item, mealType)));
+      const success = await onLogPlate(meals);
+      if (success) {
+        setLogged(true);
+      }
+    } catch (error) {
+      console.error('Failed to log plate:', error);
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            {index === 0 && <Label className="text-xs">Food</Label>}
+            <Input
+              value={row.name}
+              onChange={(e) => updateRow(index, { name: e.target.value })}
+              disabled={isLocked}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="w-20 space-y-1">
+            {index === 0 && <Label className="text-xs">Grams</Label>}
+            <Input
+              type="number"
+              min="1"
+              value={row.grams}
+              onChange={(e) => updateRow(index, { grams: e.target.value })}
+              disabled={isLocked}
+              className="h-8 text-sm"
+            />
+          </div>
+          <Badge variant="outline" className="h-8 w-20 justify-center">
+            {items[index].nutrition.calories} cal
+          </Badge>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => removeRow(index)}
+            disabled={isLocked}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+
+      {rows.length === 0 && (
+        <p className="text-sm text-muted-foreground">All items removed - nothing to log.</p>
+      )}
+
+      <div className="grid grid-cols-4 gap-2 text-center text-xs">
+        <div>
+          <p className="font-semibold text-sm">{totals.calories}</p>
+          <p className="text-muted-foreground">Calories</p>
+        </div>
+        <div>
+          <p className="font-semibold text-sm">{totals.carbs}g</p>
+          <p className="text-muted-foreground">Carbs</p>
+        </div>
+        <div>
+          <p className="font-semibold text-sm">{totals.fats}g</p>
+          <p className="text-muted-foreground">Fats</p>
+        </div>
+        <div>
+          <p className="font-semibold text-sm">{totals.proteins}g</p>
+          <p className="text-muted-foreground">Proteins</p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Select value={mealType} onValueChange={(value) => setMealType(value as MealType)} disabled={isLocked}>
+          <SelectTrigger className="w-32 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="breakfast">Breakfast</SelectItem>
+            <SelectItem value="lunch">Lunch</SelectItem>
+            <SelectItem value="dinner">Dinner</SelectItem>
+            <SelectItem value="snack">Snack</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button size="sm" onClick={handleLog} disabled={!isValid || isLocked} className="flex-1">
+          {isLogging ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : (
+            <CheckCircle className="h-3 w-3 mr-1" />
+          )}
+          {logged ? 'Logged' : `Log ${rows.length === 1 ? 'Item' : `All ${rows.length} Items`}`}
+        </Button>
+      </div>
+    </div>
+  );
+}
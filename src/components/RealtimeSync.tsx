@@ -0,0 +1,9 @@
+import { useRealtimeSync } from '@/hooks/useRealtimeSync';
+
+/**
+ * Keeps the shared query cache in step with changes made on other devices
+ */
+export const RealtimeSync = () => {
+  useRealtimeSync();
+  return null;
+};
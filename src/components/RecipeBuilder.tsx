@@ -0,0 +1,479 @@
+/**
+ * RecipeBuilder component for composing multi-item meals from the food database
+ * Builds recipes with gram amounts and servings, and logs saved recipes as one entry
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/hooks/use-toast';
+import { useRecipes, buildRecipeMealLog } from '@/hooks/useRecipes';
+import type { MealLog, NewMealLog } from '@/hooks/useMealLogs';
+import type { FoodItem } from '@/components/FoodSearch';
+import {
+  buildRecipeIngredient,
+  calculateRecipeNutrition,
+  scaleServings,
+  type RecipeIngredientInput
+} from '@/lib/recipeCalculations';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import {
+  ChefHat,
+  Search,
+  Plus,
+  Loader2,
+  Save,
+  Trash2,
+  X
+} from "lucide-react";
+
+interface RecipeBuilderProps {
+  onLogRecipe: (meal: NewMealLog) => Promise<void>;
+  selectedMealType: MealLog['meal_type'];
+  disabled?: boolean;
+}
+
+export default function RecipeBuilder({ onLogRecipe, selectedMealType, disabled }: RecipeBuilderProps) {
+  // Saved recipe logging state
+  const [selectedRecipeId, setSelectedRecipeId] = useState<string>('');
+  const [servingsToLog, setServingsToLog] = useState<string>('1');
+  const [isLogging, setIsLogging] = useState(false);
+
+  // Builder state
+  const [recipeName, setRecipeName] = useState('');
+  const [recipeServings, setRecipeServings] = useState<string>('4');
+  const [ingredients, setIngredients] = useState<RecipeIngredientInput[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<FoodItem[]>([]);
+  const [selectedFood, setSelectedFood] = useState<FoodItem | null>(null);
+  const [ingredientGrams, setIngredientGrams] = useState<string>('100');
+  const [isSearching, setIsSearching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { recipes, loading: recipesLoading, saveRecipe, deleteRecipe } = useRecipes();
+
+  const selectedRecipe = useMemo(
+    () => recipes.find(recipe => recipe.id === selectedRecipeId) || null,
+    [recipes, selectedRecipeId]
+  );
+
+  // Search the food database for ingredients
+  const searchFoods = useCallback(async (query: string) => {
+    if (!query.trim() || query.length < 2) {
+      setSearchResults([]);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const { data, error } = await supabase
+        .from('food_items')
+        .select('*')
+        .or(`name.ilike.%${query}%`)
+        .or(`and(is_custom.eq.false),and(is_custom.eq.true,created_by.eq.${user?.id})`)
+        .order('is_custom', { ascending: true })
+        .order('name', { ascending: true })
+        .limit(20);
+
+      if (error) throw error;
+
+      setSearchResults(data || []);
+    } catch (error) {
+      console.error('Ingredient search error:', error);
+      setSearchResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  }, [user?.id]);
+
+  // Debounced search effect
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      if (searchQuery && !selectedFood) {
+        searchFoods(searchQuery);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery, selectedFood, searchFoods]);
+
+  const servingsCount = parseFloat(recipeServings) || 0;
+
+  const recipeNutrition = useMemo(
+    () => calculateRecipeNutrition(ingredients, servingsCount),
+    [ingredients, servingsCount]
+  );
+
+  const logNutrition = useMemo(() => {
+    if (!selectedRecipe) return null;
+    return scaleServings(
+      {
+        calories: selectedRecipe.calories_per_serving,
+        carbs: selectedRecipe.carbs_per_serving,
+        fats: selectedRecipe.fats_per_serving,
+        proteins: selectedRecipe.proteins_per_serving
+      },
+      parseFloat(servingsToLog) || 0
+    );
+  }, [selectedRecipe, servingsToLog]);
+
+  const handleFoodSelect = (food: FoodItem) => {
+    setSelectedFood(food);
+    setSearchQuery(food.name);
+    setSearchResults([]);
+  };
+
+  const handleAddIngredient = () => {
+    const grams = parseFloat(ingredientGrams);
+    if (!selectedFood || isNaN(grams) || grams <= 0) {
+      toast({
+        title: "Invalid Ingredient",
+        description: "Select a food and enter an amount in grams.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIngredients(prev => [...prev, buildRecipeIngredient(selectedFood, grams)]);
+    setSelectedFood(null);
+    setSearchQuery('');
+    setIngredientGrams('100');
+  };
+
+  const handleRemoveIngredient = (index: number) => {
+    setIngredients(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const resetBuilder = () => {
+    setRecipeName('');
+    setRecipeServings('4');
+    setIngredients([]);
+    setSelectedFood(null);
+    setSearchQuery('');
+    setIngredientGrams('100');
+  };
+
+  const handleSaveRecipe = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveRecipe({
+        name: recipeName,
+        servings: servingsCount,
+        ingredients
+      });
+
+      if (saved) {
+        resetBuilder();
+        setSelectedRecipeId(saved.id);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogRecipe = async () => {
+    const servings = parseFloat(servingsToLog);
+    if (!selectedRecipe || isNaN(servings) || servings <= 0) {
+      toast({
+        title: "Invalid Servings",
+        description: "Choose a recipe and a positive number of servings.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLogging(true);
+    try {
+      await onLogRecipe(buildRecipeMealLog(selectedRecipe, servings, selectedMealType));
+      setServingsToLog('1');
+    } catch (error) {
+      console.error('Log recipe error:', error);
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  const handleDeleteRecipe = async () => {
+    if (!selectedRecipe) return;
+    const deleted = await deleteRecipe(selectedRecipe.id);
+    if (deleted) {
+      setSelectedRecipeId('');
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ChefHat className="h-5 w-5" />
+          Recipes
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        <Tabs defaultValue="log" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="log">Log a Recipe</TabsTrigger>
+            <TabsTrigger value="build">New Recipe</TabsTrigger>
+          </TabsList>
+
+          {/* Log a saved recipe */}
+          <TabsContent value="log" className="space-y-4 mt-4">
+            {recipesLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading recipes...
+              </div>
+            ) : recipes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No saved recipes yet. Build one in the "New Recipe" tab.
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="col-span-2 space-y-2">
+                    <Label>Recipe</Label>
+                    <Select value={selectedRecipeId} onValueChange={setSelectedRecipeId} disabled={disabled}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a saved recipe" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {recipes.map(recipe => (
+                          <SelectItem key={recipe.id} value={recipe.id}>
+                            {recipe.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="log-servings">Servings</Label>
+                    <Input
+                      id="log-servings"
+                      type="number"
+                      min="0.25"
+                      step="0.25"
+                      value={servingsToLog}
+                      onChange={(e) => setServingsToLog(e.target.value)}
+                      disabled={disabled}
+                    />
+                  </div>
+                </div>
+
+                {selectedRecipe && logNutrition && (
+                  <div className="p-4 bg-muted/50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{selectedRecipe.name}</span>
+                      <Badge variant="secondary" className="text-xs">
+                        {selectedRecipe.ingredients.length} ingredients · makes {selectedRecipe.servings}
+                      </Badge>
+                    </div>
+                    <p className="text-sm">
+                      <span className="font-medium">{logNutrition.calories}</span> cal
+                      {' '}| C: {logNutrition.carbs}g | F: {logNutrition.fats}g | P: {logNutrition.proteins}g
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      onClick={handleDeleteRecipe}
+                      disabled={disabled}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete Recipe
+                    </Button>
+                  </div>
+                )}
+
+                <Button
+                  onClick={handleLogRecipe}
+                  disabled={!selectedRecipe || disabled || isLogging}
+                  className="w-full"
+                >
+                  {isLogging ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Logging...
+                    </>
+                  ) : (
+                    <>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Log {servingsToLog || 0} serving(s) to {selectedMealType}
+                    </>
+                  )}
+                </Button>
+              </>
+            )}
+          </TabsContent>
+
+          {/* Build a new recipe */}
+          <TabsContent value="build" className="space-y-4 mt-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="recipe-name">Recipe Name *</Label>
+                <Input
+                  id="recipe-name"
+                  placeholder="e.g., My chili"
+                  value={recipeName}
+                  onChange={(e) => setRecipeName(e.target.value)}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recipe-servings">Servings *</Label>
+                <Input
+                  id="recipe-servings"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={recipeServings}
+                  onChange={(e) => setRecipeServings(e.target.value)}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+
+            {/* Ingredient search */}
+            <div className="space-y-2">
+              <Label htmlFor="ingredient-search">Add ingredient</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="ingredient-search"
+                  placeholder="Search foods..."
+                  value={searchQuery}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setSelectedFood(null);
+                  }}
+                  className="pl-10"
+                  disabled={disabled}
+                />
+                {isSearching && (
+                  <Loader2 className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 animate-spin" />
+                )}
+              </div>
+            </div>
+
+            {searchResults.length > 0 && (
+              <div className="max-h-40 overflow-y-auto border rounded-md p-2 space-y-1">
+                {searchResults.map((food) => (
+                  <Button
+                    key={food.id}
+                    variant="ghost"
+                    className="w-full justify-start h-auto p-2"
+                    onClick={() => handleFoodSelect(food)}
+                  >
+                    <div className="flex-1 text-left">
+                      <p className="font-medium text-sm">{food.name}</p>
+                      <p className="text-xs text-muted-foreground">{food.calories_per_100g} cal/100g</p>
+                    </div>
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {selectedFood && (
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="ingredient-grams">Amount (grams)</Label>
+                  <Input
+                    id="ingredient-grams"
+                    type="number"
+                    min="1"
+                    value={ingredientGrams}
+                    onChange={(e) => setIngredientGrams(e.target.value)}
+                    disabled={disabled}
+                  />
+                </div>
+                <Button variant="outline" onClick={handleAddIngredient} disabled={disabled}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+            )}
+
+            {/* Ingredient list */}
+            {ingredients.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-1">
+                  {ingredients.map((ingredient, index) => (
+                    <div key={`${ingredient.food_name}-${index}`} className="flex items-center justify-between text-sm">
+                      <span>
+                        {ingredient.food_name} <span className="text-muted-foreground">· {ingredient.grams}g</span>
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-muted-foreground">{ingredient.calories} cal</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => handleRemoveIngredient(index)}
+                          disabled={disabled}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="p-4 bg-muted/50 rounded-lg">
+                  <h4 className="font-medium mb-2">
+                    Per serving ({recipeNutrition.grams_per_serving}g of {recipeNutrition.total_grams}g total)
+                  </h4>
+                  <div className="grid grid-cols-4 gap-4 text-sm">
+                    <div className="text-center">
+                      <p className="font-semibold text-lg">{recipeNutrition.per_serving.calories}</p>
+                      <p className="text-muted-foreground">Calories</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="font-semibold text-lg">{recipeNutrition.per_serving.carbs}</p>
+                      <p className="text-muted-foreground">Carbs (g)</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="font-semibold text-lg">{recipeNutrition.per_serving.fats}</p>
+                      <p className="text-muted-foreground">Fats (g)</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="font-semibold text-lg">{recipeNutrition.per_serving.proteins}</p>
+                      <p className="text-muted-foreground">Proteins (g)</p>
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+
+            <Button
+              onClick={handleSaveRecipe}
+              disabled={!recipeName.trim() || ingredients.length === 0 || servingsCount <= 0 || disabled || isSaving}
+              className="w-full"
+            >
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving Recipe...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Recipe
+                </>
+              )}
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
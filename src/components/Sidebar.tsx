@@ -2,6 +2,7 @@ import { NavLink, useLocation } from "react-router-dom";
 import { 
   LayoutDashboard, 
   BookOpen, 
+  LineChart, 
   Smartphone, 
   MessageCircle, 
   User, 
@@ -18,6 +19,7 @@ import { useProfile } from "@/contexts/ProfileContext";
 const authenticatedMenuItems = [
   { title: "Dashboard", path: "/dashboard", icon: LayoutDashboard },
   { title: "Food Log", path: "/food-log", icon: BookOpen },
+  { title: "Insights", path: "/insights", icon: LineChart },
   { title: "Smart Device", path: "/smart-device", icon: Smartphone },
   { title: "Chatbot", path: "/chatbot", icon: MessageCircle },
   { title: "Profile", path: "/profile", icon: User },
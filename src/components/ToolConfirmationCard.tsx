@@ -0,0 +1,83 @@
+/**
+ * ToolConfirmationCard component for assistant write actions
+ * Shows what the assistant wants to change and applies it only after the user confirms
+ */
+
+import { useState } from 'react';
+import type { StoredToolCall, ToolCallSummary } from '@/lib/assistantTools';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, Loader2, X } from "lucide-react";
+
+interface ToolConfirmationCardProps {
+  toolCall: StoredToolCall;
+  summary: ToolCallSummary;
+  onConfirm: () => Promise<void>;
+  onCancel: () => Promise<void>;
+  disabled?: boolean;
+}
+
+const STATUS_LABELS: Record<Exclude<StoredToolCall['status'], 'pending'>, string> = {
+  confirmed: 'Done',
+  cancelled: 'Cancelled',
+  failed: 'Failed'
+};
+
+export default function ToolConfirmationCard({
+  toolCall,
+  summary,
+  onConfirm,
+  onCancel,
+  disabled = false
+}: ToolConfirmationCardProps) {
+  const [isApplying, setIsApplying] = useState(false);
+
+  const isPending = toolCall.status === 'pending';
+
+  const handle = async (action: () => Promise<void>) => {
+    setIsApplying(true);
+    try {
+      await action();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-medium">{summary.title}</p>
+        {!isPending && (
+          <Badge variant={toolCall.status === 'confirmed' ? 'default' : 'outline'}>
+            {STATUS_LABELS[toolCall.status]}
+          </Badge>
+        )}
+      </div>
+
+      {summary.details.length > 0 && (
+        <ul className="space-y-1 text-xs text-muted-foreground">
+          {summary.details.map((detail, index) => (
+            <li key={index}>• {detail}</li>
+          ))}
+        </ul>
+      )}
+
+      {isPending && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => handle(onConfirm)} disabled={disabled || isApplying} className="flex-1">
+            {isApplying ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <CheckCircle className="h-3 w-3 mr-1" />
+            )}
+            Confirm
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handle(onCancel)} disabled={disabled || isApplying}>
+            <X className="h-3 w-3 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * WeightTracker component for the Profile page
+ * Logs weigh-ins, charts the smoothed trend toward the target weight and prompts a
+ * nutrition goal recalculation once the trend has drifted from the profile weight.
+ */
+
+import { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { useWeighIns } from '@/hooks/useWeighIns';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useGoalRecalculation } from '@/hooks/useGoalRecalculation';
+import { formatDateKey, todayKey, toDateKey, zonedTime } from '@/lib/dateUtils';
+import { projectGoalDate, shouldRecalculateGoals } from '@/lib/weightTrend';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Loader2, Plus, RefreshCw, Scale, Trash2, TrendingDown, TrendingUp } from "lucide-react";
+
+const CHART_DAYS = 90;
+const RECENT_WEIGH_INS = 5;
+
+// Past-day weigh-ins are stamped in the morning, when most people step on the scale
+const BACKFILL_HOUR = 8;
+
+const chartConfig = {
+  weight: { label: "Weigh-in", color: "hsl(var(--fitness-muted))" },
+  trend: { label: "Trend", color: "hsl(var(--fitness-primary))" }
+} satisfies ChartConfig;
+
+const shortDate = (dateKey: string) => formatDateKey(dateKey, { month: 'short', day: 'numeric' });
+
+export default function WeightTracker() {
+  const timeZone = useTimeZone();
+  const today = todayKey(timeZone);
+  const { profile, updateProfile } = useProfile();
+  const { recalculateGoals } = useGoalRecalculation();
+  const { weighIns, trend, trendWeight, ratePerWeek, loading, error, addWeighIn, deleteWeighIn } = useWeighIns();
+
+  const [weight, setWeight] = useState('');
+  const [date, setDate] = useState(today);
+  const [isLogging, setIsLogging] = useState(false);
+  const [isRecalculating, setIsRecalculating] = useState(false);
+
+  const chartData = useMemo(() => trend.slice(-CHART_DAYS), [trend]);
+  const recentWeighIns = useMemo(() => weighIns.slice(-RECENT_WEIGH_INS).reverse(), [weighIns]);
+
+  const targetWeight = profile?.target_weight ?? null;
+  const projectedDate = trendWeight !== null && targetWeight
+    ? projectGoalDate(trendWeight, targetWeight, ratePerWeek, today)
+    : null;
+  const needsRecalculation = trendWeight !== null && shouldRecalculateGoals(trendWeight, profile?.weight);
+
+  const handleLog = async () => {
+    const value = parseFloat(weight);
+    if (!value || value < 20 || value > 500) return;
+
+    setIsLogging(true);
+    try {
+      const success = await addWeighIn({
+        weight_kg: value,
+        measured_at: date === today ? undefined : zonedTime(date, BACKFILL_HOUR, 0, timeZone).toISOString()
+      });
+      if (success) {
+        setWeight('');
+        setDate(today);
+      }
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  // Move the profile weight to the trend and rebuild the goals from it
+  const handleRecalculate = async () => {
+    if (trendWeight === null) return;
+
+    setIsRecalculating(true);
+    try {
+      const newWeight = Math.round(trendWeight * 10) / 10;
+      const updated = await updateProfile({ weight: newWeight });
+      if (!updated) return;
+
+      await recalculateGoals({ weight: newWeight });
+    } catch (err) {
+      console.error('Failed to recalculate goals from weight trend:', err);
+    } finally {
+      setIsRecalculating(false);
+    }
+  };
+
+  return (
+    <Card className="fitness-card">
+      <CardHeader className="flex flex-row items-center space-y-0 pb-3">
+        <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+          <Scale className="w-5 h-5 text-fitness-primary" />
+          Weight Trend
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Log a weigh-in */}
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="weigh_in_weight" className="text-white">Weight (kg)</Label>
+            <Input
+              id="weigh_in_weight"
+              type="number"
+              min="20"
+              max="500"
+              step="0.1"
+              value={weight}
+              onChange={(e) => setWeight(e.target.value)}
+              className="fitness-input w-full sm:w-32"
+              placeholder="70.5"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="weigh_in_date" className="text-white">Date</Label>
+            <Input
+              id="weigh_in_date"
+              type="date"
+              max={today}
+              value={date}
+              onChange={(e) => setDate(e.target.value || today)}
+              className="fitness-input w-full sm:w-44"
+            />
+          </div>
+          <Button onClick={handleLog} disabled={isLogging || !weight} className="fitness-button">
+            {isLogging ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Log Weigh-in
+          </Button>
+        </div>
+
+        {error && (
+          <Alert className="border-red-500/20 bg-red-500/10">
+            <AlertDescription className="text-red-200">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-fitness-primary" />
+            <span className="ml-2 text-fitness-light">Loading weight history...</span>
+          </div>
+        ) : trendWeight === null ? (
+          <div className="text-center py-6 text-fitness-light">
+            <Scale className="w-10 h-10 text-fitness-muted mx-auto mb-3" />
+            <p>No weigh-ins yet</p>
+            <p className="text-xs text-fitness-muted">Log your weight regularly to see a trend and a projected goal date</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-fitness-light">Trend Weight</p>
+                <p className="font-semibold text-white">{trendWeight.toFixed(1)} kg</p>
+              </div>
+              <div>
+                <p className="text-fitness-light">Rate</p>
+                <p className="font-semibold text-white flex items-center gap-1">
+                  {ratePerWeek < 0 ? <TrendingDown className="w-3 h-3" /> : <TrendingUp className="w-3 h-3" />}
+                  {ratePerWeek > 0 ? '+' : ''}{ratePerWeek.toFixed(2)} kg/week
+                </p>
+              </div>
+              <div>
+                <p className="text-fitness-light">To Target</p>
+                <p className="font-semibold text-white">
+                  {targetWeight ? `${(targetWeight - trendWeight).toFixed(1)} kg` : '-'}
+                </p>
+              </div>
+              <div>
+                <p className="text-fitness-light">Projected Goal Date</p>
+                <p className="font-semibold text-white">
+                  {projectedDate
+                    ? formatDateKey(projectedDate, { year: 'numeric', month: 'short', day: 'numeric' })
+                    : targetWeight ? 'Not on current trend' : '-'}
+                </p>
+              </div>
+            </div>
+
+            {needsRecalculation && (
+              <Alert className="border-fitness-primary/30 bg-fitness-primary/10">
+                <RefreshCw className="w-4 h-4 text-fitness-primary" />
+                <AlertDescription className="text-fitness-light flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <span>
+                    Your trend weight is {trendWeight.toFixed(1)} kg, but your goals were calculated for {profile?.weight} kg.
+                  </span>
+                  <Button size="sm" onClick={handleRecalculate} disabled={isRecalculating} className="fitness-button shrink-0">
+                    {isRecalculating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Recalculate Goals
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ left: 4, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={40} domain={['dataMin - 1', 'dataMax + 1']} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => shortDate(String(value))} />} />
+                {targetWeight && (
+                  <ReferenceLine y={targetWeight} stroke="hsl(var(--fitness-peach))" strokeDasharray="4 4" />
+                )}
+                <Line dataKey="weight" stroke="var(--color-weight)" strokeWidth={0} dot={{ r: 2 }} connectNulls={false} />
+                <Line dataKey="trend" stroke="var(--color-trend)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+
+            <div className="space-y-2">
+              <p className="text-sm text-fitness-light">Recent weigh-ins</p>
+              {recentWeighIns.map(weighIn => (
+                <div key={weighIn.id} className="flex items-center justify-between text-sm">
+                  <span className="text-fitness-light">
+                    {formatDateKey(toDateKey(weighIn.measured_at, timeZone), { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-white">{weighIn.weight_kg} kg</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteWeighIn(weighIn.id)}
+                      className="h-7 w-7 text-fitness-muted hover:text-red-400"
+                      aria-label="Delete weigh-in"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * WorkoutFueling component for the Smart Device page and the gym Dashboard
+ * Shows each recent workout with the meals eaten before and after it, the carb and protein
+ * timing targets and a fueling score; the full version also sets the window lengths.
+ */
+
+import { useEffect, useState } from 'react';
+import { useWorkoutNutrition } from '@/hooks/useWorkoutNutrition';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { MACRO_TEMPLATES } from '@/lib/nutritionCalculations';
+import { WORKOUT_WINDOW_LIMITS, type FuelingRating, type MacroTarget, type WindowIntake, type WorkoutFueling as Workout } from '@/lib/workoutNutrition';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Dumbbell, Loader2, Timer } from "lucide-react";
+
+interface WorkoutFuelingProps {
+  compact?: boolean; // Dashboard summary: fewer workouts, no meal lists or settings
+}
+
+const COMPACT_WORKOUTS = 3;
+
+const RATING_STYLES: Record<FuelingRating, { label: string; className: string }> = {
+  fueled: { label: 'Well fueled', className: 'bg-green-500/20 text-green-300' },
+  partial: { label: 'Partly fueled', className: 'bg-yellow-500/20 text-yellow-300' },
+  underfueled: { label: 'Under-fueled', className: 'bg-red-500/20 text-red-300' }
+};
+
+export default function WorkoutFueling({ compact = false }: WorkoutFuelingProps) {
+  const timeZone = useTimeZone();
+  const { workouts, windows, goalType, averageScore, loading, error, updateWindows } = useWorkoutNutrition();
+
+  const [preMinutes, setPreMinutes] = useState(String(windows.pre_minutes));
+  const [postMinutes, setPostMinutes] = useState(String(windows.post_minutes));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Follow the saved windows once activity goals load or change on another device
+  useEffect(() => {
+    setPreMinutes(String(windows.pre_minutes));
+    setPostMinutes(String(windows.post_minutes));
+  }, [windows.pre_minutes, windows.post_minutes]);
+
+  const windowsChanged = Number(preMinutes) !== windows.pre_minutes || Number(postMinutes) !== windows.post_minutes;
+
+  const handleSaveWindows = async () => {
+    setIsSaving(true);
+    try {
+      await updateWindows({ pre_minutes: Number(preMinutes), post_minutes: Number(postMinutes) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatClock = (date: Date, withDay = false) =>
+    date.toLocaleString('en-US', {
+      ...(withDay ? { weekday: 'short', month: 'short', day: 'numeric' } : {}),
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone
+    });
+
+  const shown = compact ? workouts.slice(0, COMPACT_WORKOUTS) : workouts;
+
+  const renderWindow = (label: string, intake: WindowIntake, target: MacroTarget) => (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium text-fitness-light">{label}</p>
+      {(['carbs', 'proteins'] as const).map(macro => (
+        <div key={macro} className="space-y-0.5">
+          <div className="flex justify-between text-xs">
+            <span className="text-fitness-muted">{macro === 'carbs' ? 'Carbs' : 'Protein'}</span>
+            <span className="text-white">{Math.round(intake[macro])}/{target[macro]}g</span>
+          </div>
+          <Progress value={target[macro] > 0 ? Math.min((intake[macro] / target[macro]) * 100, 100) : 100} className="h-1.5" />
+        </div>
+      ))}
+      {!compact && (
+        <p className="text-xs text-fitness-muted truncate" title={intake.meals.map(meal => meal.food_name).join(', ')}>
+          {intake.meals.length > 0 ? intake.meals.map(meal => meal.food_name).join(', ') : 'No meals logged'}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderWorkout = (workout: Workout) => {
+    const rating = RATING_STYLES[workout.rating];
+
+    return (
+      <li key={workout.key} className="p-3 rounded-lg bg-fitness-dark/50 space-y-3">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <p className="font-semibold text-white capitalize">{workout.session.exercise_type.replace(/_/g, ' ')}</p>
+            <p className="text-xs text-fitness-light">
+              {formatClock(workout.start, true)} · {workout.session.duration_minutes} min · {workout.session.exercise_intensity}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-lg font-bold text-white">{workout.score}</span>
+            <Badge className={`${rating.className} border-0 text-xs`}>{rating.label}</Badge>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {renderWindow(`Before (${windows.pre_minutes} min)`, workout.pre, workout.targets.pre)}
+          {renderWindow(`After (${windows.post_minutes} min)`, workout.post, workout.targets.post)}
+        </div>
+
+        {workout.post_window_open && (
+          <p className="flex items-center gap-1 text-xs text-fitness-primary">
+            <Timer className="h-3 w-3" />
+            Recovery window open until {formatClock(workout.post_window_ends)}
+          </p>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <Card className={compact ? 'gradient-card border border-border' : 'fitness-card'}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+          <Dumbbell className="h-5 w-5 text-fitness-primary" />
+          Workout Fueling
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="border-fitness-muted/40 text-fitness-light text-xs">
+            {MACRO_TEMPLATES.gym[goalType].label}
+          </Badge>
+          {averageScore != null && (
+            <Badge variant="outline" className="border-fitness-primary text-fitness-primary">
+              Avg {averageScore}/100
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!compact && (
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="pre_workout_window" className="text-xs text-fitness-light">Before workout (min)</Label>
+              <Input
+                id="pre_workout_window"
+                type="number"
+                min={WORKOUT_WINDOW_LIMITS.min}
+                max={WORKOUT_WINDOW_LIMITS.max}
+                step={15}
+                value={preMinutes}
+                onChange={(e) => setPreMinutes(e.target.value)}
+                className="fitness-input w-28"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="post_workout_window" className="text-xs text-fitness-light">After workout (min)</Label>
+              <Input
+                id="post_workout_window"
+                type="number"
+                min={WORKOUT_WINDOW_LIMITS.min}
+                max={WORKOUT_WINDOW_LIMITS.max}
+                step={15}
+                value={postMinutes}
+                onChange={(e) => setPostMinutes(e.target.value)}
+                className="fitness-input w-28"
+              />
+            </div>
+            {windowsChanged && (
+              <Button size="sm" onClick={handleSaveWindows} disabled={isSaving} className="fitness-button">
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Windows
+              </Button>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-fitness-primary" />
+            <span className="ml-2 text-fitness-light">Loading workouts...</span>
+          </div>
+        ) : shown.length === 0 ? (
+          <div className="text-center py-6">
+            <Dumbbell className="w-8 h-8 text-fitness-muted mx-auto mb-2" />
+            <p className="text-sm text-fitness-light">No workouts in the past week</p>
+            <p className="text-xs text-fitness-muted">Log a session or sync a device to see how well you fueled it</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {shown.map(renderWorkout)}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,10 @@ import { createContext, useContext, useEffect, useState, ReactNode, useCallback
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import { useQueryClient } from '@tanstack/react-query';
+import { getDeviceTimeZone, todayKey } from '@/lib/dateUtils';
 import { calculateNutritionGoals, type UserProfile as NutritionUserProfile, type NutritionGoals } from '@/lib/nutritionCalculations';
+import type { TdeeSource } from '@/lib/adaptiveTdee';
 
 // Production-grade interface with strict typing
 export interface UserProfile {
@@ -14,6 +17,14 @@ export interface UserProfile {
   weight: number | null; // kg
   target_weight: number | null; // kg
   user_type: 'diabetes' | 'gym' | 'general' | null;
+  timezone: string | null; // IANA zone that decides which day a meal counts towards
+  dietary_restrictions?: string[] | null; // preset keys, see lib/dietaryRestrictions
+  custom_dietary_tags?: string[] | null; // free-text foods or ingredients to avoid
+  medication?: string | null;
+  macro_cycling?: 'off' | 'schedule' | 'activity'; // see lib/macroCycling
+  training_days?: number[] | null; // weekdays for 'schedule', 0 = Sunday
+  training_days_per_week?: number | null; // typical week for 'activity'
+  carb_cycling_percent?: number | null;
   created_at: string;
 }
 
@@ -35,8 +46,8 @@ interface ProfileContextType {
   profileCompletionPercentage: number;
   refreshProfile: () => Promise<void>;
   updateProfile: (data: Partial<UserProfile>) => Promise<boolean>;
-  calculateUserNutritionGoals: (goalType?: string) => NutritionGoals | null;
-  saveNutritionGoals: (goals: NutritionGoals) => Promise<boolean>;
+  calculateUserNutritionGoals: (goalType?: string, overrides?: Partial<UserProfile>) => NutritionGoals | null;
+  saveNutritionGoals: (goals: NutritionGoals, tdeeSource?: TdeeSource) => Promise<boolean>;
 }
 
 const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
@@ -60,6 +71,7 @@ export const ProfileProvider = ({ children }: ProfileProviderProps) => {
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Production-grade profile completion logic
   const calculateProfileCompletion = useCallback((profileData: UserProfile | null): {
@@ -154,6 +166,7 @@ export const ProfileProvider = ({ children }: ProfileProviderProps) => {
           weight: null,
           target_weight: null,
           user_type: null,
+          timezone: null,
           created_at: new Date().toISOString(),
           profile_completion_percentage: 0,
           next_required_step: 'complete_signup'
@@ -181,6 +194,20 @@ export const ProfileProvider = ({ children }: ProfileProviderProps) => {
           else enhancedProfile.bmi_category = 'Obese';
         }
 
+        // Profiles from before timezone support take this device's zone
+        if (!data.timezone) {
+          const timezone = getDeviceTimeZone();
+          const { error: timezoneError } = await supabase
+            .from('profiles')
+            .update({ timezone })
+            .eq('id', user.id);
+          if (timezoneError) {
+            console.error('Profile timezone save error:', timezoneError);
+          } else {
+            enhancedProfile.timezone = timezone;
+          }
+        }
+
         setProfile(enhancedProfile);
         console.log('Profile loaded successfully:', { completion });
       }
@@ -224,6 +251,7 @@ export const ProfileProvider = ({ children }: ProfileProviderProps) => {
     try {
       const profileData = {
         ...data,
+        timezone: data.timezone || profile?.timezone || getDeviceTimeZone(),
         id: user.id,
       };
 
@@ -255,6 +283,11 @@ export const ProfileProvider = ({ children }: ProfileProviderProps) => {
 
       // Success - refresh to get latest data
       await fetchProfile();
+
+      // Every cached day was bounded in the old zone; the server rebuilds its summaries too
+      if (previousProfile?.timezone && profileData.timezone !== previousProfile.timezone) {
+        await queryClient.invalidateQueries();
+      }
       
       toast({
         title: "Profile Updated",
@@ -275,18 +308,20 @@ export const ProfileProvider = ({ children }: ProfileProviderProps) => {
       });
       return false;
     }
-  }, [user?.id, profile, calculateProfileCompletion, fetchProfile, toast]);
+  }, [user?.id, profile, calculateProfileCompletion, fetchProfile, queryClient, toast]);
 
-  // Calculate nutrition goals for current profile
+  // Calculate nutrition goals for current profile; overrides cover values saved but not yet reloaded
   const calculateUserNutritionGoals = useCallback((
-    goalType: string = 'maintain'
+    goalType: string = 'maintain',
+    overrides: Partial<UserProfile> = {}
   ): NutritionGoals | null => {
-    if (!profile || !profile.age || !profile.gender || !profile.height || !profile.weight || !profile.target_weight || !profile.user_type) {
+    const source = profile ? { ...profile, ...overrides } : null;
+    if (!source || !source.age || !source.gender || !source.height || !source.weight || !source.target_weight || !source.user_type) {
       return null;
     }
 
     try {
-      return calculateNutritionGoals(profile as NutritionUserProfile, goalType);
+      return calculateNutritionGoals(source as NutritionUserProfile, goalType);
     } catch (error) {
       console.error('Nutrition calculation error:', error);
       toast({
@@ -299,7 +334,7 @@ export const ProfileProvider = ({ children }: ProfileProviderProps) => {
   }, [profile, toast]);
 
   // Save nutrition goals to database
-  const saveNutritionGoals = useCallback(async (goals: NutritionGoals): Promise<boolean> => {
+  const saveNutritionGoals = useCallback(async (goals: NutritionGoals, tdeeSource: TdeeSource = 'formula'): Promise<boolean> => {
     if (!user?.id) return false;
 
     try {
@@ -311,7 +346,9 @@ export const ProfileProvider = ({ children }: ProfileProviderProps) => {
           daily_carbs: goals.daily_carbs,
           daily_fats: goals.daily_fats,
           daily_proteins: goals.daily_proteins,
-          calculation_date: new Date().toISOString().split('T')[0]
+          tdee: goals.tdee,
+          tdee_source: tdeeSource,
+          calculation_date: todayKey(profile?.timezone || getDeviceTimeZone())
         }, {
           onConflict: 'user_id,calculation_date'
         });
@@ -340,7 +377,7 @@ export const ProfileProvider = ({ children }: ProfileProviderProps) => {
       });
       return false;
     }
-  }, [user?.id, toast]);
+  }, [user?.id, profile?.timezone, toast]);
 
   const refreshProfile = useCallback(async () => {
     await fetchProfile();
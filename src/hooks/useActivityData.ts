@@ -3,10 +3,14 @@
  * Handles Google Fit, Apple Health, and other fitness tracker data
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { queryKeys } from '@/lib/queryKeys';
+import { addDays, todayKey } from '@/lib/dateUtils';
 
 export interface ActivityData {
   id: string;
@@ -57,6 +61,8 @@ export interface ActivityGoals {
   daily_calories_goal: number;
   weekly_exercise_sessions_goal: number;
   sleep_hours_goal: number;
+  pre_workout_window_minutes?: number; // meals this long before a session count towards fueling it
+  post_workout_window_minutes?: number;
   is_active: boolean;
 }
 
@@ -86,19 +92,16 @@ export interface UseActivityDataResult {
   getActivityLevel: () => Promise<number>;
 }
 
+const NO_ACTIVITY: ActivityData[] = [];
+const NO_DEVICES: DeviceConnection[] = [];
+
 export function useActivityData(): UseActivityDataResult {
-  const [todayActivity, setTodayActivity] = useState<ActivityData | null>(null);
-  const [weeklyActivity, setWeeklyActivity] = useState<ActivityData[]>([]);
-  const [devices, setDevices] = useState<DeviceConnection[]>([]);
-  const [goals, setGoals] = useState<ActivityGoals | null>(null);
-  
-  const [loading, setLoading] = useState(true);
-  const [devicesLoading, setDevicesLoading] = useState(true);
-  const [goalsLoading, setGoalsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+
+  const today = todayKey(timeZone);
 
   /**
    * Fetch activity data for a date range
@@ -127,52 +130,13 @@ export function useActivityData(): UseActivityDataResult {
     }
   }, [user?.id]);
 
-  /**
-   * Fetch today's and weekly activity data
-   */
-  const fetchActivity = useCallback(async () => {
-    if (!user?.id) {
-      setTodayActivity(null);
-      setWeeklyActivity([]);
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
-
-      const today = new Date().toISOString().split('T')[0];
-      const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-
-      const weeklyData = await fetchActivityData(weekAgo, today);
-      
-      const todayData = weeklyData.find(item => item.date === today);
-      
-      setTodayActivity(todayData || null);
-      setWeeklyActivity(weeklyData);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(errorMessage);
-      console.error('Error fetching activity data:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [user?.id, fetchActivityData]);
-
   /**
    * Fetch device connections
    */
-  const fetchDevices = useCallback(async () => {
-    if (!user?.id) {
-      setDevices([]);
-      setDevicesLoading(false);
-      return;
-    }
+  const fetchDevices = useCallback(async (): Promise<DeviceConnection[]> => {
+    if (!user?.id) return [];
 
     try {
-      setDevicesLoading(true);
-
       const { data, error: fetchError } = await supabase
         .from('device_connections')
         .select('*')
@@ -181,30 +145,23 @@ export function useActivityData(): UseActivityDataResult {
 
       if (fetchError) {
         console.error('Error fetching devices:', fetchError);
-        return;
+        return [];
       }
 
-      setDevices(data || []);
+      return data || [];
     } catch (err) {
       console.error('Error fetching device connections:', err);
-    } finally {
-      setDevicesLoading(false);
+      return [];
     }
   }, [user?.id]);
 
   /**
    * Fetch activity goals
    */
-  const fetchGoals = useCallback(async () => {
-    if (!user?.id) {
-      setGoals(null);
-      setGoalsLoading(false);
-      return;
-    }
+  const fetchGoals = useCallback(async (): Promise<ActivityGoals | null> => {
+    if (!user?.id) return null;
 
     try {
-      setGoalsLoading(true);
-
       const { data, error: fetchError } = await supabase
         .from('activity_goals')
         .select('*')
@@ -216,17 +173,38 @@ export function useActivityData(): UseActivityDataResult {
 
       if (fetchError) {
         console.error('Error fetching activity goals:', fetchError);
-        return;
+        return null;
       }
 
-      setGoals(data);
+      return data;
     } catch (err) {
       console.error('Error fetching activity goals:', err);
-    } finally {
-      setGoalsLoading(false);
+      return null;
     }
   }, [user?.id]);
 
+  // Today's and the past week's activity share one query
+  const weekQuery = useQuery({
+    queryKey: queryKeys.activityWeek(user?.id ?? '', today),
+    queryFn: () => fetchActivityData(addDays(today, -7), today) as Promise<ActivityData[]>,
+    enabled: !!user?.id
+  });
+
+  const devicesQuery = useQuery({
+    queryKey: queryKeys.devices(user?.id ?? ''),
+    queryFn: fetchDevices,
+    enabled: !!user?.id
+  });
+
+  const goalsQuery = useQuery({
+    queryKey: queryKeys.activityGoals(user?.id ?? ''),
+    queryFn: fetchGoals,
+    enabled: !!user?.id
+  });
+
+  const weeklyActivity = weekQuery.data ?? NO_ACTIVITY;
+  const todayActivity = weeklyActivity.find(item => item.date === today) || null;
+
   /**
    * Update activity data
    */
@@ -260,15 +238,12 @@ export function useActivityData(): UseActivityDataResult {
         return false;
       }
 
-      // Update local state
-      if (date === new Date().toISOString().split('T')[0]) {
-        setTodayActivity(data);
-      }
-      
-      setWeeklyActivity(prev => {
-        const updated = prev.filter(item => item.date !== date);
+      // Update the cached week
+      queryClient.setQueryData<ActivityData[]>(queryKeys.activityWeek(user.id, today), prev => {
+        const updated = (prev ?? []).filter(item => item.date !== date);
         return [data, ...updated].sort((a, b) => b.date.localeCompare(a.date));
       });
+      queryClient.invalidateQueries({ queryKey: queryKeys.activityDay(user.id, date) });
 
       toast({
         title: "Activity Updated",
@@ -285,7 +260,7 @@ export function useActivityData(): UseActivityDataResult {
       });
       return false;
     }
-  }, [user?.id, toast]);
+  }, [user?.id, today, queryClient, toast]);
 
   /**
    * Add exercise session
@@ -365,7 +340,7 @@ export function useActivityData(): UseActivityDataResult {
         return false;
       }
 
-      setDevices(prev => [data, ...prev]);
+      queryClient.setQueryData<DeviceConnection[]>(queryKeys.devices(user.id), prev => [data, ...(prev ?? [])]);
       
       toast({
         title: "Device Connected",
@@ -382,7 +357,7 @@ export function useActivityData(): UseActivityDataResult {
       });
       return false;
     }
-  }, [user?.id, toast]);
+  }, [user?.id, queryClient, toast]);
 
   /**
    * Disconnect a device
@@ -410,9 +385,9 @@ export function useActivityData(): UseActivityDataResult {
         return false;
       }
 
-      setDevices(prev => 
-        prev.map(device => 
-          device.id === deviceId 
+      queryClient.setQueryData<DeviceConnection[]>(queryKeys.devices(user.id), prev =>
+        (prev ?? []).map(device =>
+          device.id === deviceId
             ? { ...device, connection_status: 'disconnected' as const }
             : device
         )
@@ -433,7 +408,7 @@ export function useActivityData(): UseActivityDataResult {
       });
       return false;
     }
-  }, [user?.id, toast]);
+  }, [user?.id, queryClient, toast]);
 
   /**
    * Sync device data (simulate API calls)
@@ -453,7 +428,6 @@ export function useActivityData(): UseActivityDataResult {
       await new Promise(resolve => setTimeout(resolve, 2000));
 
       // For demo purposes, generate some sample data
-      const today = new Date().toISOString().split('T')[0];
       const mockActivityData = {
         steps: Math.floor(Math.random() * 5000) + 5000,
         distance_meters: Math.floor(Math.random() * 3000) + 3000,
@@ -472,6 +446,7 @@ export function useActivityData(): UseActivityDataResult {
           .update({ last_sync_at: new Date().toISOString() })
           .eq('user_id', user.id)
           .eq('device_type', deviceType);
+        queryClient.invalidateQueries({ queryKey: queryKeys.devices(user.id) });
 
         toast({
           title: "Sync Complete",
@@ -489,7 +464,7 @@ export function useActivityData(): UseActivityDataResult {
       });
       return false;
     }
-  }, [user?.id, updateActivity, toast]);
+  }, [user?.id, today, queryClient, updateActivity, toast]);
 
   /**
    * Update activity goals
@@ -523,8 +498,8 @@ export function useActivityData(): UseActivityDataResult {
         return false;
       }
 
-      setGoals(data);
-      
+      queryClient.setQueryData(queryKeys.activityGoals(user.id), data);
+
       toast({
         title: "Goals Updated",
         description: "Your activity goals have been updated successfully.",
@@ -540,7 +515,7 @@ export function useActivityData(): UseActivityDataResult {
       });
       return false;
     }
-  }, [user?.id, toast]);
+  }, [user?.id, queryClient, toast]);
 
   /**
    * Get current activity level for TDEE calculations
@@ -568,76 +543,19 @@ export function useActivityData(): UseActivityDataResult {
    * Refetch all activity data
    */
   const refetchActivity = useCallback(async () => {
-    await Promise.all([
-      fetchActivity(),
-      fetchDevices(), 
-      fetchGoals()
-    ]);
-  }, [fetchActivity, fetchDevices, fetchGoals]);
-
-  // Initial data fetch and real-time subscriptions
-  useEffect(() => {
-    if (user?.id) {
-      refetchActivity();
-
-      // Set up real-time subscription for activity data
-      const activitySubscription = supabase
-        .channel(`activity_${user.id}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'activity_data',
-            filter: `user_id=eq.${user.id}`
-          },
-          () => fetchActivity()
-        )
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'device_connections',
-            filter: `user_id=eq.${user.id}`
-          },
-          () => fetchDevices()
-        )
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'activity_goals',
-            filter: `user_id=eq.${user.id}`
-          },
-          () => fetchGoals()
-        )
-        .subscribe();
-
-      return () => {
-        activitySubscription.unsubscribe();
-      };
-    } else {
-      setTodayActivity(null);
-      setWeeklyActivity([]);
-      setDevices([]);
-      setGoals(null);
-      setLoading(false);
-      setDevicesLoading(false);
-      setGoalsLoading(false);
-    }
-  }, [user?.id, refetchActivity, fetchActivity, fetchDevices, fetchGoals]);
+    if (!user?.id) return;
+    await queryClient.invalidateQueries({ queryKey: queryKeys.activity(user.id) });
+  }, [user?.id, queryClient]);
 
   return {
     todayActivity,
     weeklyActivity,
-    loading,
-    error,
-    devices,
-    devicesLoading,
-    goals,
-    goalsLoading,
+    loading: weekQuery.isLoading,
+    error: weekQuery.error ? weekQuery.error.message : null,
+    devices: devicesQuery.data ?? NO_DEVICES,
+    devicesLoading: devicesQuery.isLoading,
+    goals: goalsQuery.data ?? null,
+    goalsLoading: goalsQuery.isLoading,
     refetchActivity,
     updateActivity,
     addExerciseSession,
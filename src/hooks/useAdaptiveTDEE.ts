@@ -0,0 +1,54 @@
+/**
+ * Production-grade hook for the adaptive TDEE estimate
+ * Feeds the last few weeks of daily summaries and the weigh-in trend to estimateAdaptiveTDEE,
+ * next to the formula estimate the current goals may be based on.
+ */
+
+import { useMemo } from 'react';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { useDailySummaryRange } from '@/hooks/useDailySummaryRange';
+import { useGoalHistory } from '@/hooks/useGoalHistory';
+import { useWeighIns } from '@/hooks/useWeighIns';
+import { addDays, todayKey } from '@/lib/dateUtils';
+import { ADAPTIVE_WINDOW_DAYS, estimateAdaptiveTDEE, type AdaptiveTdeeEstimate } from '@/lib/adaptiveTdee';
+import { calculateBMR, calculateTDEE, getLoggingCompleteness } from '@/lib/nutritionCalculations';
+
+export interface UseAdaptiveTDEEResult {
+  estimate: AdaptiveTdeeEstimate | null; // null until there is enough data
+  formulaTdee: number | null;
+  loading: boolean;
+  error: string | null;
+}
+
+export function useAdaptiveTDEE(windowDays: number = ADAPTIVE_WINDOW_DAYS): UseAdaptiveTDEEResult {
+  const { profile } = useProfile();
+  const timeZone = useTimeZone();
+  const { goalsForDate } = useGoalHistory();
+  const { trend, loading: weighInsLoading, error: weighInsError } = useWeighIns();
+
+  // Today is still being logged, so the window ends yesterday
+  const endDate = addDays(todayKey(timeZone), -1);
+  const startDate = addDays(endDate, -windowDays + 1);
+  const { summaries, loading: summariesLoading, error: summariesError } = useDailySummaryRange(startDate, endDate);
+
+  const estimate = useMemo(() => {
+    // Days logged at under half the calorie goal are more likely forgotten meals than a fast
+    const days = Object.values(summaries).filter(day =>
+      getLoggingCompleteness(day, goalsForDate(day.date)?.daily_calories) !== 'light'
+    );
+    return estimateAdaptiveTDEE(days, trend, endDate, windowDays);
+  }, [summaries, goalsForDate, trend, endDate, windowDays]);
+
+  const formulaTdee = useMemo(() => {
+    if (!profile?.weight || !profile.height || !profile.age || !profile.gender) return null;
+    return calculateTDEE(calculateBMR(profile.weight, profile.height, profile.age, profile.gender));
+  }, [profile?.weight, profile?.height, profile?.age, profile?.gender]);
+
+  return {
+    estimate,
+    formulaTdee,
+    loading: summariesLoading || weighInsLoading,
+    error: summariesError || weighInsError
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Production-grade hook for importing an Apple Health export
+ * Parses the export in the browser, then upserts one activity_data row per day and one
+ * exercise_sessions row per workout. Re-importing replaces earlier Apple Health figures and
+ * sessions, and keeps sessions logged by hand or from other devices.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  APPLE_HEALTH_SESSION_PREFIX,
+  APPLE_HEALTH_SOURCE,
+  parseAppleHealthExport,
+  type ImportedSession,
+  type ImportProgress
+} from '@/lib/appleHealthImport';
+import type { ActivityData } from '@/hooks/useActivityData';
+
+export interface ImportSummary {
+  days: number;
+  workouts: number;
+  records: number;
+  first_date: string | null;
+  last_date: string | null;
+}
+
+export interface UseAppleHealthImportResult {
+  importing: boolean;
+  progress: ImportProgress | null;
+  summary: ImportSummary | null;
+  importExport: (file: File, since?: string) => Promise<boolean>;
+  cancel: () => void;
+}
+
+// Rows per request; keeps each upsert well under PostgREST's body limits
+const SAVE_BATCH_SIZE = 200;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+export function useAppleHealthImport(): UseAppleHealthImportResult {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+  const userId = user?.id;
+
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  /**
+   * Existing activity rows for the imported days, to merge sessions and keep untouched figures
+   */
+  const fetchExistingDays = useCallback(async (dates: string[]): Promise<Map<string, ActivityData>> => {
+    const existing = new Map<string, ActivityData>();
+
+    for (const batch of chunk(dates, SAVE_BATCH_SIZE)) {
+      const { data, error: fetchError } = await supabase
+        .from('activity_data')
+        .select('*')
+        .eq('user_id', userId!)
+        .in('date', batch);
+
+      if (fetchError) throw fetchError;
+      (data || []).forEach((row: ActivityData) => existing.set(row.date, row));
+    }
+
+    return existing;
+  }, [userId]);
+
+  /**
+   * Record the import as an Apple Health device sync, adding the connection the first time
+   */
+  const markDeviceSynced = useCallback(async () => {
+    const syncedAt = new Date().toISOString();
+    const { data } = await supabase
+      .from('device_connections')
+      .update({ connection_status: 'connected', last_sync_at: syncedAt })
+      .eq('user_id', userId!)
+      .eq('device_type', APPLE_HEALTH_SOURCE)
+      .select('id');
+
+    if (!data || data.length === 0) {
+      await supabase
+        .from('device_connections')
+        .insert({
+          user_id: userId!,
+          device_type: APPLE_HEALTH_SOURCE,
+          device_name: 'Apple Health',
+          connection_status: 'connected',
+          last_sync_at: syncedAt
+        });
+    }
+  }, [userId]);
+
+  /**
+   * Import an export.zip or export.xml, optionally only from `since` (yyyy-MM-dd) on
+   */
+  const importExport = useCallback(async (file: File, since?: string): Promise<boolean> => {
+    if (!userId) {
+      toast({
+        title: "Authentication Error",
+        description: "Please log in to import health data.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setImporting(true);
+    setSummary(null);
+    setProgress({ phase: 'reading', fraction: 0, records: 0, workouts: 0 });
+
+    try {
+      const parsed = await parseAppleHealthExport(file, {
+        timeZone,
+        since,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+
+      const sessionsByDate = new Map<string, ImportedSession[]>();
+      parsed.sessions.forEach(imported => {
+        sessionsByDate.set(imported.date, [...(sessionsByDate.get(imported.date) ?? []), imported]);
+      });
+      const importedDays = new Map(parsed.days.map(day => [day.date, day]));
+      const dates = [...new Set([...importedDays.keys(), ...sessionsByDate.keys()])].sort();
+
+      if (dates.length === 0) {
+        toast({
+          title: "Nothing to Import",
+          description: "The export has no activity, sleep or workouts in the chosen range.",
+        });
+        return false;
+      }
+
+      const existing = await fetchExistingDays(dates);
+      if (controller.signal.aborted) throw new DOMException('Import cancelled', 'AbortError');
+
+      // Every row carries every column so batched upserts never null out a day's other figures
+      const updatedAt = new Date().toISOString();
+      const rows = dates.map(date => {
+        const day = importedDays.get(date);
+        const previous = existing.get(date);
+        const keptSessions = (previous?.exercise_sessions ?? [])
+          .filter(session => !session.id?.startsWith(APPLE_HEALTH_SESSION_PREFIX));
+
+        return {
+          user_id: userId,
+          date,
+          steps: day?.steps ?? previous?.steps ?? 0,
+          distance_meters: day?.distance_meters ?? previous?.distance_meters ?? 0,
+          active_minutes: day?.active_minutes ?? previous?.active_minutes ?? 0,
+          calories_burned: day?.calories_burned ?? previous?.calories_burned ?? 0,
+          floors_climbed: day?.floors_climbed ?? previous?.floors_climbed ?? 0,
+          heart_rate_avg: day?.heart_rate_avg ?? previous?.heart_rate_avg ?? null,
+          heart_rate_resting: day?.heart_rate_resting ?? previous?.heart_rate_resting ?? null,
+          sleep_hours: day?.sleep_hours ?? previous?.sleep_hours ?? null,
+          sleep_quality: day?.sleep_quality ?? previous?.sleep_quality ?? null,
+          exercise_sessions: [...keptSessions, ...(sessionsByDate.get(date) ?? []).map(imported => imported.session)]
+            .sort((a, b) => a.start_time.localeCompare(b.start_time)),
+          // Days with only imported workouts keep the figures, and the source, they already had
+          data_source: day ? APPLE_HEALTH_SOURCE : previous?.data_source ?? APPLE_HEALTH_SOURCE,
+          updated_at: updatedAt
+        };
+      });
+
+      const dayBatches = chunk(rows, SAVE_BATCH_SIZE);
+      const sessionBatches = chunk(parsed.sessions, SAVE_BATCH_SIZE);
+      const totalBatches = dayBatches.length + sessionBatches.length;
+      let savedBatches = 0;
+      const reportSaving = () => setProgress({
+        phase: 'saving',
+        fraction: savedBatches / totalBatches,
+        records: parsed.records,
+        workouts: parsed.sessions.length
+      });
+      reportSaving();
+
+      const activityIds = new Map<string, string>();
+      for (const batch of dayBatches) {
+        if (controller.signal.aborted) throw new DOMException('Import cancelled', 'AbortError');
+
+        const { data, error: upsertError } = await supabase
+          .from('activity_data')
+          .upsert(batch, { onConflict: 'user_id,date' })
+          .select('id, date');
+
+        if (upsertError) throw upsertError;
+        (data || []).forEach((row: { id: string; date: string }) => activityIds.set(row.date, row.id));
+        savedBatches++;
+        reportSaving();
+      }
+
+      for (const batch of sessionBatches) {
+        if (controller.signal.aborted) throw new DOMException('Import cancelled', 'AbortError');
+
+        const { error: upsertError } = await supabase
+          .from('exercise_sessions')
+          .upsert(batch.map(({ date, source_name, workout_type, session }) => ({
+            user_id: userId,
+            activity_data_id: activityIds.get(date) ?? null,
+            external_id: session.id,
+            exercise_type: session.exercise_type,
+            start_time: session.start_time,
+            end_time: session.end_time,
+            duration_minutes: session.duration_minutes,
+            calories_burned: session.calories_burned,
+            heart_rate_avg: session.heart_rate_avg ?? null,
+            heart_rate_max: session.heart_rate_max ?? null,
+            distance_meters: session.distance_meters ?? null,
+            exercise_intensity: session.exercise_intensity,
+            data_source: APPLE_HEALTH_SOURCE,
+            raw_data: { workout_type, source_name }
+          })), { onConflict: 'user_id,external_id' });
+
+        if (upsertError) throw upsertError;
+        savedBatches++;
+        reportSaving();
+      }
+
+      await markDeviceSynced();
+      await queryClient.invalidateQueries({ queryKey: queryKeys.activity(userId) });
+
+      const result: ImportSummary = {
+        days: dates.length,
+        workouts: parsed.sessions.length,
+        records: parsed.records,
+        first_date: dates[0],
+        last_date: dates[dates.length - 1]
+      };
+      setSummary(result);
+      toast({
+        title: "Import Complete",
+        description: `Imported ${result.days} days and ${result.workouts} workouts from Apple Health.`,
+      });
+      return true;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Batches saved before cancelling stay; importing again completes them
+        toast({
+          title: "Import Cancelled",
+          description: "Days saved so far were kept. Import the file again to finish.",
+        });
+        return false;
+      }
+
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error importing Apple Health export:', err);
+      toast({
+        title: "Import Failed",
+        description: `Failed to import Apple Health data: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      abortRef.current = null;
+      setImporting(false);
+      setProgress(null);
+    }
+  }, [userId, timeZone, fetchExistingDays, markDeviceSynced, queryClient, toast]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  return {
+    importing,
+    progress,
+    summary,
+    importExport,
+    cancel
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Hook for turning a scanned barcode into a food_items row
+ * Reuses a previously imported product, otherwise looks it up in the product sources
+ */
+
+import { useState, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { FoodItem } from '@/components/FoodSearch';
+import { barcodeVariants, isValidBarcode } from '@/lib/barcodeDecoder';
+import { lookupProduct, DEFAULT_PRODUCT_SOURCES, type ProductSource } from '@/lib/productSources';
+
+export interface UseBarcodeImportResult {
+  importing: boolean;
+  importByBarcode: (barcode: string) => Promise<FoodItem | null>;
+}
+
+export function useBarcodeImport(sources: ProductSource[] = DEFAULT_PRODUCT_SOURCES): UseBarcodeImportResult {
+  const [importing, setImporting] = useState(false);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const importByBarcode = useCallback(async (barcode: string): Promise<FoodItem | null> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication Error",
+        description: "Please log in to import products.",
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    if (!isValidBarcode(barcode)) {
+      toast({
+        title: "Invalid Barcode",
+        description: `${barcode} is not a valid EAN/UPC code.`,
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    setImporting(true);
+    try {
+      // Already imported (by this user) or seeded as a system food
+      const { data: existing, error: existingError } = await supabase
+        .from('food_items')
+        .select('*')
+        .in('barcode', barcodeVariants(barcode))
+        .order('is_custom', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (existingError) {
+        console.error('Error checking existing barcode:', existingError);
+      } else if (existing) {
+        return existing;
+      }
+
+      const product = await lookupProduct(barcode, sources);
+      if (!product) {
+        toast({
+          title: "Product Not Found",
+          description: `No nutrition data found for ${barcode}. Try manual entry instead.`,
+          variant: "destructive"
+        });
+        return null;
+      }
+
+      const name = product.brand && !product.name.toLowerCase().includes(product.brand.toLowerCase())
+        ? `${product.name} (${product.brand})`
+        : product.name;
+
+      const { data: inserted, error: insertError } = await supabase
+        .from('food_items')
+        .insert([{
+          ...product,
+          name,
+          is_custom: true,
+          created_by: user.id
+        }])
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error importing product:', insertError);
+        toast({
+          title: "Import Failed",
+          description: `Failed to save ${name}: ${insertError.message}`,
+          variant: "destructive"
+        });
+        return null;
+      }
+
+      toast({
+        title: "Product Imported",
+        description: `${name} was added to your foods.`,
+      });
+
+      return inserted;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Unexpected error importing barcode:', err);
+      toast({
+        title: "Import Error",
+        description: errorMessage,
+        variant: "destructive"
+      });
+      return null;
+    } finally {
+      setImporting(false);
+    }
+  }, [user?.id, sources, toast]);
+
+  return {
+    importing,
+    importByBarcode
+  };
+}
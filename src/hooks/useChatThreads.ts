@@ -0,0 +1,402 @@
+/**
+ * Production-grade hook for persistent nutrition assistant conversations
+ * Stores threads and their messages in Supabase so chats survive navigation
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { FoodAnalysisResult } from '@/lib/geminiAI';
+import type { StoredToolCall } from '@/lib/assistantTools';
+
+export interface ChatThread {
+  id: string;
+  user_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  thread_id: string;
+  user_id: string;
+  role: 'user' | 'bot';
+  content: string;
+  suggestions?: string[] | null;
+  food_analysis?: FoodAnalysisResult | null;
+  image_url?: string | null;
+  action_type?: string | null;
+  tool_call?: StoredToolCall | null; // assistant proposal awaiting or past confirmation
+  created_at: string;
+}
+
+export interface NewChatMessage {
+  role: ChatMessage['role'];
+  content: string;
+  suggestions?: string[];
+  food_analysis?: FoodAnalysisResult;
+  image_url?: string;
+  action_type?: string;
+  tool_call?: StoredToolCall;
+}
+
+export interface UseChatThreadsResult {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  messages: ChatMessage[];
+  loading: boolean;
+  messagesLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  selectThread: (id: string | null) => void;
+  createThread: (title?: string) => Promise<ChatThread | null>;
+  deleteThread: (id: string) => Promise<boolean>;
+  addMessage: (message: NewChatMessage, threadId?: string | null) => Promise<ChatMessage | null>;
+  updateToolCall: (messageId: string, toolCall: StoredToolCall) => Promise<boolean>;
+}
+
+const TITLE_MAX_LENGTH = 60;
+
+// Thread titles come from the opening message
+const toThreadTitle = (text: string) => {
+  const title = text.trim().replace(/\s+/g, ' ');
+  return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 1)}…` : title || 'New conversation';
+};
+
+export function useChatThreads(): UseChatThreadsResult {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [messagesLoading, setMessagesLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Thread whose messages are already in state (e.g. one we just created), so it isn't refetched
+  const loadedThreadRef = useRef<string | null>(null);
+  const resumedRef = useRef(false);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  /**
+   * Fetch the thread list, most recently active first
+   */
+  const fetchThreads = useCallback(async () => {
+    if (!user?.id) {
+      setThreads([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('chat_threads')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+
+      if (fetchError) {
+        console.error('Error fetching chat threads:', fetchError);
+        setError(`Failed to fetch conversations: ${fetchError.message}`);
+        return;
+      }
+
+      setThreads(data || []);
+
+      // Resume the latest conversation when the page opens
+      if (!resumedRef.current) {
+        resumedRef.current = true;
+        if (data?.length) {
+          setActiveThreadId(current => current ?? data[0].id);
+        }
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      console.error('Unexpected error fetching chat threads:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  /**
+   * Fetch the messages of one thread in conversation order
+   */
+  const fetchMessages = useCallback(async (threadId: string) => {
+    try {
+      setMessagesLoading(true);
+
+      const { data, error: fetchError } = await supabase
+        .from('chat_messages')
+        .select('*')
+        .eq('thread_id', threadId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        console.error('Error fetching chat messages:', fetchError);
+        setError(`Failed to fetch messages: ${fetchError.message}`);
+        return;
+      }
+
+      loadedThreadRef.current = threadId;
+      setMessages(data || []);
+    } catch (err) {
+      console.error('Unexpected error fetching chat messages:', err);
+    } finally {
+      setMessagesLoading(false);
+    }
+  }, []);
+
+  const selectThread = useCallback((id: string | null) => {
+    if (id !== null && id === loadedThreadRef.current) return;
+    loadedThreadRef.current = null;
+    setMessages([]);
+    setActiveThreadId(id);
+  }, []);
+
+  /**
+   * Start a new, empty thread and make it active
+   */
+  const createThread = useCallback(async (title?: string): Promise<ChatThread | null> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication Error",
+        description: "Please log in to save conversations.",
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    try {
+      const { data, error: insertError } = await supabase
+        .from('chat_threads')
+        .insert([{ user_id: user.id, title: toThreadTitle(title || '') }])
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error creating chat thread:', insertError);
+        toast({
+          title: "Save Failed",
+          description: `Failed to start conversation: ${insertError.message}`,
+          variant: "destructive"
+        });
+        return null;
+      }
+
+      loadedThreadRef.current = data.id;
+      setMessages([]);
+      setThreads(prev => [data, ...prev]);
+      setActiveThreadId(data.id);
+
+      return data;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Unexpected error creating chat thread:', err);
+      toast({
+        title: "Save Error",
+        description: errorMessage,
+        variant: "destructive"
+      });
+      return null;
+    }
+  }, [user?.id, toast]);
+
+  /**
+   * Delete a thread and its messages
+   */
+  const deleteThread = useCallback(async (id: string): Promise<boolean> => {
+    if (!user?.id) return false;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('chat_threads')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (deleteError) {
+        console.error('Error deleting chat thread:', deleteError);
+        toast({
+          title: "Delete Failed",
+          description: `Failed to delete conversation: ${deleteError.message}`,
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      setThreads(prev => prev.filter(thread => thread.id !== id));
+      if (activeThreadId === id) {
+        loadedThreadRef.current = null;
+        setMessages([]);
+        setActiveThreadId(null);
+      }
+
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Unexpected error deleting chat thread:', err);
+      toast({
+        title: "Delete Error",
+        description: errorMessage,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [user?.id, activeThreadId, toast]);
+
+  /**
+   * Append a message, starting a thread titled after it when none is active.
+   * The message shows immediately; if saving fails it stays visible but unsaved.
+   */
+  const addMessage = useCallback(async (
+    message: NewChatMessage,
+    threadId: string | null = activeThreadId
+  ): Promise<ChatMessage | null> => {
+    if (!user?.id) return null;
+
+    let targetThreadId = threadId;
+    if (!targetThreadId) {
+      const thread = await createThread(message.content);
+      if (!thread) return null;
+      targetThreadId = thread.id;
+    }
+
+    const localMessage: ChatMessage = {
+      id: `local-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      thread_id: targetThreadId,
+      user_id: user.id,
+      role: message.role,
+      content: message.content,
+      suggestions: message.suggestions ?? null,
+      food_analysis: message.food_analysis ?? null,
+      image_url: message.image_url ?? null,
+      action_type: message.action_type ?? null,
+      tool_call: message.tool_call ?? null,
+      created_at: new Date().toISOString()
+    };
+    setMessages(prev => [...prev, localMessage]);
+
+    try {
+      const { data, error: insertError } = await supabase
+        .from('chat_messages')
+        .insert([{
+          thread_id: targetThreadId,
+          user_id: user.id,
+          role: message.role,
+          content: message.content,
+          suggestions: message.suggestions ?? null,
+          food_analysis: message.food_analysis ?? null,
+          // Local previews (data: URLs) are too large to store
+          image_url: message.image_url?.startsWith('data:') ? null : message.image_url ?? null,
+          action_type: message.action_type ?? null,
+          tool_call: message.tool_call ?? null
+        }])
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error saving chat message:', insertError);
+        toast({
+          title: "Save Failed",
+          description: `This message won't be kept in your history: ${insertError.message}`,
+          variant: "destructive"
+        });
+        return localMessage;
+      }
+
+      // Keep the local image preview for this session
+      const saved: ChatMessage = { ...data, image_url: data.image_url ?? localMessage.image_url };
+      setMessages(prev => prev.map(m => (m.id === localMessage.id ? saved : m)));
+      setThreads(prev => {
+        const thread = prev.find(t => t.id === targetThreadId);
+        if (!thread) return prev;
+        return [{ ...thread, updated_at: saved.created_at }, ...prev.filter(t => t.id !== targetThreadId)];
+      });
+
+      return saved;
+    } catch (err) {
+      console.error('Unexpected error saving chat message:', err);
+      return localMessage;
+    }
+  }, [user?.id, activeThreadId, createThread, toast]);
+
+  /**
+   * Record the outcome of a tool call proposal (confirmed, cancelled or failed)
+   */
+  const updateToolCall = useCallback(async (messageId: string, toolCall: StoredToolCall): Promise<boolean> => {
+    if (!user?.id) return false;
+
+    setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, tool_call: toolCall } : m)));
+
+    // Unsaved messages only live in local state
+    if (messageId.startsWith('local-')) return true;
+
+    try {
+      const { error: updateError } = await supabase
+        .from('chat_messages')
+        .update({ tool_call: toolCall })
+        .eq('id', messageId)
+        .eq('user_id', user.id);
+
+      if (updateError) {
+        console.error('Error updating chat message:', updateError);
+        toast({
+          title: "Save Failed",
+          description: `This action stays locked here, but it may ask again if you reopen the conversation: ${updateError.message}`,
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Unexpected error updating chat message:', err);
+      toast({
+        title: "Save Error",
+        description: `This action stays locked here, but it may ask again if you reopen the conversation: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [user?.id, toast]);
+
+  const refetch = useCallback(async () => {
+    await fetchThreads();
+    if (activeThreadId) {
+      await fetchMessages(activeThreadId);
+    }
+  }, [fetchThreads, fetchMessages, activeThreadId]);
+
+  // Initial thread list
+  useEffect(() => {
+    fetchThreads();
+  }, [fetchThreads]);
+
+  // Load messages when switching threads
+  useEffect(() => {
+    if (!activeThreadId || loadedThreadRef.current === activeThreadId) return;
+    fetchMessages(activeThreadId);
+  }, [activeThreadId, fetchMessages]);
+
+  return {
+    threads,
+    activeThreadId,
+    messages,
+    loading,
+    messagesLoading,
+    error,
+    refetch,
+    selectThread,
+    createThread,
+    deleteThread,
+    addMessage,
+    updateToolCall
+  };
+}
@@ -1,12 +1,18 @@
 /**
  * Production-grade hook for fetching daily nutrition summaries
  * Provides current day consumption totals and trends
+ * Summaries are shared through the query cache, so a meal logged anywhere updates every view of the day
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { cacheSummary, getCachedSummary, isNetworkError } from '@/lib/offlineStore';
+import { queryKeys } from '@/lib/queryKeys';
+import { todayKey } from '@/lib/dateUtils';
 
 export interface DailySummary {
   id: string;
@@ -16,6 +22,12 @@ export interface DailySummary {
   total_carbs: number;
   total_fats: number;
   total_proteins: number;
+  total_fiber?: number; // grams
+  total_sugar?: number; // grams
+  total_sodium?: number; // mg
+  total_vitamin_c?: number; // mg
+  total_calcium?: number; // mg
+  total_iron?: number; // mg
   meals_logged: number;
   updated_at: string;
 }
@@ -29,74 +41,73 @@ export interface UseDailySummaryResult {
 }
 
 export function useDailySummary(targetDate?: string): UseDailySummaryResult {
-  const [summary, setSummary] = useState<DailySummary | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+  const userId = user?.id;
 
-  // Use target date or default to today
-  const queryDate = targetDate || new Date().toISOString().split('T')[0];
+  // Use target date or default to today in the user's zone
+  const queryDate = targetDate || todayKey(timeZone);
 
   /**
    * Fetch daily summary for specific date
    */
   const fetchSummaryForDate = useCallback(async (date: string): Promise<DailySummary | null> => {
-    if (!user?.id) {
+    if (!userId) {
       return null;
     }
 
+    // Offline: last summary seen for this date
+    if (!navigator.onLine) {
+      return getCachedSummary<DailySummary>(userId, date);
+    }
+
     try {
       const { data, error: fetchError } = await supabase
         .from('daily_nutrition_summary')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('user_id', userId)
         .eq('date', date)
         .maybeSingle();
 
       if (fetchError) {
+        if (isNetworkError(fetchError)) {
+          return getCachedSummary<DailySummary>(userId, date);
+        }
         console.error('Error fetching daily summary:', fetchError);
         throw new Error(`Failed to fetch daily summary: ${fetchError.message}`);
       }
 
+      if (data) {
+        await cacheSummary(userId, date, data);
+      }
       return data;
     } catch (err) {
       console.error('Unexpected error fetching daily summary:', err);
       throw err;
     }
-  }, [user?.id]);
-
-  /**
-   * Fetch summary for the query date
-   */
-  const fetchSummary = useCallback(async () => {
-    if (!user?.id) {
-      setSummary(null);
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
+  }, [userId]);
 
-      const data = await fetchSummaryForDate(queryDate);
-      setSummary(data);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
-    }
-  }, [user?.id, queryDate, fetchSummaryForDate]);
+  const summaryQuery = useQuery({
+    queryKey: queryKeys.dailySummary(userId ?? '', queryDate),
+    queryFn: () => fetchSummaryForDate(queryDate),
+    enabled: !!userId,
+    networkMode: 'always' // falls back to the offline store itself
+  });
 
   /**
    * Get summary for any specific date (utility function)
+   * Goes through the shared cache, so repeated lookups of a day don't refetch
    */
   const getSummaryForDate = useCallback(async (date: string): Promise<DailySummary | null> => {
+    if (!userId) return null;
     try {
-      return await fetchSummaryForDate(date);
+      return await queryClient.fetchQuery({
+        queryKey: queryKeys.dailySummary(userId, date),
+        queryFn: () => fetchSummaryForDate(date),
+        networkMode: 'always'
+      });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
       toast({
@@ -106,54 +117,21 @@ export function useDailySummary(targetDate?: string): UseDailySummaryResult {
       });
       return null;
     }
-  }, [fetchSummaryForDate, toast]);
+  }, [userId, queryClient, fetchSummaryForDate, toast]);
 
   /**
    * Refetch current summary
    */
+  const { refetch: refetchQuery } = summaryQuery;
   const refetch = useCallback(async () => {
-    await fetchSummary();
-  }, [fetchSummary]);
-
-  // Initial fetch and setup real-time subscription
-  useEffect(() => {
-    fetchSummary();
-
-    // Set up real-time subscription for daily summary changes
-    if (user?.id) {
-      const subscription = supabase
-        .channel(`daily_summary_${user.id}_${queryDate}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'daily_nutrition_summary',
-            filter: `user_id=eq.${user.id}`
-          },
-          (payload) => {
-            console.log('Daily summary updated:', payload);
-            // Only refetch if the change affects our query date
-            const newRecord = payload.new as DailySummary | null;
-            const oldRecord = payload.old as DailySummary | null;
-            if (newRecord?.date === queryDate || oldRecord?.date === queryDate) {
-              fetchSummary();
-            }
-          }
-        )
-        .subscribe();
-
-      return () => {
-        subscription.unsubscribe();
-      };
-    }
-  }, [user?.id, queryDate, fetchSummary]);
+    await refetchQuery();
+  }, [refetchQuery]);
 
   return {
-    summary,
-    loading,
-    error,
+    summary: summaryQuery.data ?? null,
+    loading: summaryQuery.isLoading,
+    error: summaryQuery.error ? summaryQuery.error.message : null,
     refetch,
     getSummaryForDate
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,81 @@
+/**
+ * Production-grade hook for daily nutrition summaries across a date range
+ * Feeds calendar views such as the food log's logging heatmap
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import type { DailySummary } from '@/hooks/useDailySummary';
+import { getCachedSummary, isNetworkError } from '@/lib/offlineStore';
+import { queryKeys } from '@/lib/queryKeys';
+import { addDays } from '@/lib/dateUtils';
+
+export interface UseDailySummaryRangeResult {
+  summaries: Record<string, DailySummary>; // keyed by date; days without meals are absent
+  loading: boolean;
+  error: string | null;
+}
+
+export function useDailySummaryRange(startDate: string, endDate: string): UseDailySummaryRangeResult {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  // Offline: whichever days this device has seen
+  const loadCachedRange = useCallback(async (uid: string): Promise<DailySummary[]> => {
+    const days: string[] = [];
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      days.push(date);
+    }
+    const cached = await Promise.all(days.map(date => getCachedSummary<DailySummary>(uid, date)));
+    return cached.filter((summary): summary is DailySummary => summary !== null);
+  }, [startDate, endDate]);
+
+  /**
+   * Fetch every summary row in [startDate, endDate]
+   */
+  const fetchRange = useCallback(async (): Promise<DailySummary[]> => {
+    if (!userId) return [];
+
+    if (!navigator.onLine) {
+      return loadCachedRange(userId);
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('daily_nutrition_summary')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date', { ascending: true });
+
+    if (fetchError) {
+      if (isNetworkError(fetchError)) {
+        return loadCachedRange(userId);
+      }
+      console.error('Error fetching summary range:', fetchError);
+      throw new Error(`Failed to fetch daily summaries: ${fetchError.message}`);
+    }
+
+    return data || [];
+  }, [userId, startDate, endDate, loadCachedRange]);
+
+  const rangeQuery = useQuery({
+    queryKey: queryKeys.summaryRange(userId ?? '', startDate, endDate),
+    queryFn: fetchRange,
+    enabled: !!userId,
+    networkMode: 'always' // falls back to the offline store itself
+  });
+
+  const summaries = useMemo(
+    () => Object.fromEntries((rangeQuery.data ?? []).map(summary => [summary.date, summary])),
+    [rangeQuery.data]
+  );
+
+  return {
+    summaries,
+    loading: rangeQuery.isLoading,
+    error: rangeQuery.error ? rangeQuery.error.message : null
+  };
+}
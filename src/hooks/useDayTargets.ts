@@ -0,0 +1,88 @@
+/**
+ * Production-grade hook for a day's nutrition targets
+ * Applies training-day / rest-day macro cycling to the goals in effect on the day; in
+ * 'activity' mode the day's activity_data decides whether it was a training day.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useNutritionGoals, type NutritionGoals } from '@/hooks/useNutritionGoals';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { queryKeys } from '@/lib/queryKeys';
+import { todayKey } from '@/lib/dateUtils';
+import { applyDayType, cyclingSettingsFrom, dayTypeFor, type CyclingSettings, type DayType } from '@/lib/macroCycling';
+
+export interface UseDayTargetsResult {
+  goals: NutritionGoals | null; // cycled for the day, same shape as the stored goals
+  baseGoals: NutritionGoals | null;
+  dayType: DayType | null; // null when cycling is off
+  cycling: CyclingSettings;
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+export function useDayTargets(date?: string): UseDayTargetsResult {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const timeZone = useTimeZone();
+  const userId = user?.id;
+  const { goals: baseGoals, loading: goalsLoading, error, refetch: refetchGoals } = useNutritionGoals(date);
+
+  const targetDate = date ?? todayKey(timeZone);
+  const cycling = useMemo(() => cyclingSettingsFrom(profile), [profile]);
+  const needsActivity = cycling.mode === 'activity';
+
+  /**
+   * Whether any exercise session was logged on the target date
+   */
+  const fetchHadSession = useCallback(async (): Promise<boolean> => {
+    if (!userId) return false;
+
+    const { data, error: fetchError } = await supabase
+      .from('activity_data')
+      .select('exercise_sessions')
+      .eq('user_id', userId)
+      .eq('date', targetDate)
+      .maybeSingle();
+
+    if (fetchError) {
+      // Falls back to a rest day rather than hiding the day's targets
+      console.error('Error fetching activity for day targets:', fetchError);
+      return false;
+    }
+
+    return (data?.exercise_sessions?.length ?? 0) > 0;
+  }, [userId, targetDate]);
+
+  const sessionQuery = useQuery({
+    queryKey: queryKeys.activityDay(userId ?? '', targetDate),
+    queryFn: fetchHadSession,
+    enabled: !!userId && needsActivity
+  });
+
+  const dayType = baseGoals ? dayTypeFor(cycling, targetDate, sessionQuery.data ?? false) : null;
+
+  const goals = useMemo(
+    () => (baseGoals ? applyDayType(baseGoals, cycling, dayType) : null),
+    [baseGoals, cycling, dayType]
+  );
+
+  const { refetch: refetchSession } = sessionQuery;
+  const refetch = useCallback(async () => {
+    await Promise.all([refetchGoals(), needsActivity ? refetchSession() : null]);
+  }, [refetchGoals, refetchSession, needsActivity]);
+
+  return {
+    goals,
+    baseGoals,
+    dayType,
+    cycling,
+    loading: goalsLoading || (needsActivity && sessionQuery.isLoading),
+    error,
+    refetch
+  };
+}
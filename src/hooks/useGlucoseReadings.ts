@@ -0,0 +1,254 @@
+/**
+ * Production-grade hook for the blood glucose journal
+ * Loads readings and the meals logged in the same window so they can be correlated
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { addDays, startOfDayInZone, todayKey } from '@/lib/dateUtils';
+import type { GlycemicMeal } from '@/lib/glucoseCalculations';
+
+export type GlucoseReadingType = 'fasting' | 'pre_meal' | 'post_meal' | 'bedtime' | 'random';
+
+export interface GlucoseReading {
+  id: string;
+  user_id: string;
+  value_mgdl: number;
+  reading_type: GlucoseReadingType;
+  meal_log_id?: string | null;
+  notes?: string | null;
+  measured_at: string;
+  created_at: string;
+}
+
+export interface NewGlucoseReading {
+  value_mgdl: number;
+  reading_type: GlucoseReadingType;
+  meal_log_id?: string | null;
+  notes?: string | null;
+  measured_at?: string; // Optional, defaults to current time
+}
+
+export interface UseGlucoseReadingsResult {
+  readings: GlucoseReading[];
+  meals: GlycemicMeal[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  addReading: (reading: NewGlucoseReading) => Promise<boolean>;
+  deleteReading: (id: string) => Promise<boolean>;
+}
+
+export function useGlucoseReadings(days: number = 7): UseGlucoseReadingsResult {
+  const [readings, setReadings] = useState<GlucoseReading[]>([]);
+  const [meals, setMeals] = useState<GlycemicMeal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const timeZone = useTimeZone();
+
+  /**
+   * Fetch readings and meals for the last `days` days
+   */
+  const fetchReadings = useCallback(async () => {
+    if (!user?.id) {
+      setReadings([]);
+      setMeals([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Window starts at local midnight `days` days ago
+      const since = startOfDayInZone(addDays(todayKey(timeZone), -days), timeZone);
+
+      const [readingsResult, mealsResult] = await Promise.all([
+        supabase
+          .from('glucose_readings')
+          .select('*')
+          .eq('user_id', user.id)
+          .gte('measured_at', since.toISOString())
+          .order('measured_at', { ascending: false }),
+        supabase
+          .from('meal_logs')
+          .select('id, food_name, carbs, fiber, glycemic_index, logged_at')
+          .eq('user_id', user.id)
+          .gte('logged_at', since.toISOString())
+          .order('logged_at', { ascending: false })
+      ]);
+
+      if (readingsResult.error) {
+        console.error('Error fetching glucose readings:', readingsResult.error);
+        setError(`Failed to fetch glucose readings: ${readingsResult.error.message}`);
+        return;
+      }
+
+      if (mealsResult.error) {
+        console.error('Error fetching meals for glucose readings:', mealsResult.error);
+        setError(`Failed to fetch meals: ${mealsResult.error.message}`);
+        return;
+      }
+
+      setReadings(readingsResult.data || []);
+      setMeals(mealsResult.data || []);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      console.error('Unexpected error fetching glucose readings:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, days, timeZone]);
+
+  /**
+   * Log a new glucose reading
+   */
+  const addReading = useCallback(async (reading: NewGlucoseReading): Promise<boolean> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication Error",
+        description: "Please log in to record glucose readings.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    try {
+      const { data, error: insertError } = await supabase
+        .from('glucose_readings')
+        .insert([{
+          user_id: user.id,
+          measured_at: reading.measured_at || new Date().toISOString(),
+          ...reading
+        }])
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('Error adding glucose reading:', insertError);
+        toast({
+          title: "Add Failed",
+          description: `Failed to record reading: ${insertError.message}`,
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      setReadings(prev => [data, ...prev].sort((a, b) => b.measured_at.localeCompare(a.measured_at)));
+
+      toast({
+        title: "Reading Logged",
+        description: `${reading.value_mgdl} mg/dL has been added to your glucose journal.`,
+      });
+
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Unexpected error adding glucose reading:', err);
+      toast({
+        title: "Add Error",
+        description: errorMessage,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [user?.id, toast]);
+
+  /**
+   * Delete a glucose reading
+   */
+  const deleteReading = useCallback(async (id: string): Promise<boolean> => {
+    if (!user?.id) return false;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('glucose_readings')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (deleteError) {
+        console.error('Error deleting glucose reading:', deleteError);
+        toast({
+          title: "Delete Failed",
+          description: `Failed to delete reading: ${deleteError.message}`,
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      setReadings(prev => prev.filter(reading => reading.id !== id));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Unexpected error deleting glucose reading:', err);
+      toast({
+        title: "Delete Error",
+        description: errorMessage,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [user?.id, toast]);
+
+  /**
+   * Refetch readings
+   */
+  const refetch = useCallback(async () => {
+    await fetchReadings();
+  }, [fetchReadings]);
+
+  // Initial fetch and setup real-time subscription
+  useEffect(() => {
+    fetchReadings();
+
+    // Meals matter too: a newly logged meal changes the post-meal correlation
+    if (user?.id) {
+      const subscription = supabase
+        .channel(`glucose_${user.id}_${days}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'glucose_readings',
+            filter: `user_id=eq.${user.id}`
+          },
+          () => fetchReadings()
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'meal_logs',
+            filter: `user_id=eq.${user.id}`
+          },
+          () => fetchReadings()
+        )
+        .subscribe();
+
+      return () => {
+        subscription.unsubscribe();
+      };
+    }
+  }, [user?.id, days, fetchReadings]);
+
+  return {
+    readings,
+    meals,
+    loading,
+    error,
+    refetch,
+    addReading,
+    deleteReading
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Production-grade hook for the versioned history of nutrition goals
+ * Each nutrition_goals row takes effect on its calculation_date and lasts until the next one,
+ * so rows dated after today are scheduled changes (e.g. a cut starting Monday).
+ */
+
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import type { NutritionGoals } from '@/hooks/useNutritionGoals';
+import { getCachedGoals, isNetworkError } from '@/lib/offlineStore';
+import { queryKeys } from '@/lib/queryKeys';
+import { formatDateKey, todayKey } from '@/lib/dateUtils';
+import { goalsForDate as findGoalsForDate } from '@/lib/nutritionAnalytics';
+
+export type ScheduledTargets = Pick<NutritionGoals, 'daily_calories' | 'daily_carbs' | 'daily_fats' | 'daily_proteins'>;
+
+export interface UseGoalHistoryResult {
+  history: NutritionGoals[]; // oldest first, scheduled changes included
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  goalsForDate: (date: string) => NutritionGoals | null;
+  scheduleGoals: (startDate: string, targets: ScheduledTargets) => Promise<boolean>;
+  cancelScheduledGoals: (id: string) => Promise<boolean>;
+}
+
+const NO_GOALS: NutritionGoals[] = [];
+
+export function useGoalHistory(): UseGoalHistoryResult {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+  const userId = user?.id;
+
+  /**
+   * Every goals version the user has saved, oldest first
+   */
+  const fetchGoalHistory = useCallback(async (): Promise<NutritionGoals[]> => {
+    if (!userId) return [];
+
+    // Offline: only the latest goals are kept on the device
+    const cachedHistory = async () => {
+      const cached = await getCachedGoals<NutritionGoals>(userId);
+      return cached ? [cached] : [];
+    };
+
+    if (!navigator.onLine) {
+      return cachedHistory();
+    }
+
+    const { data, error: fetchError } = await supabase
+      .from('nutrition_goals')
+      .select('*')
+      .eq('user_id', userId)
+      .order('calculation_date', { ascending: true });
+
+    if (fetchError) {
+      if (isNetworkError(fetchError)) {
+        return cachedHistory();
+      }
+      console.error('Error fetching goal history:', fetchError);
+      throw new Error(`Failed to fetch goal history: ${fetchError.message}`);
+    }
+
+    return data || [];
+  }, [userId]);
+
+  const historyQuery = useQuery({
+    queryKey: queryKeys.goalHistory(userId ?? ''),
+    queryFn: fetchGoalHistory,
+    enabled: !!userId,
+    networkMode: 'always' // falls back to the offline store itself
+  });
+
+  const history = historyQuery.data ?? NO_GOALS;
+
+  const goalsForDate = useCallback((date: string) => findGoalsForDate(history, date), [history]);
+
+  const scheduleMutation = useMutation({
+    mutationFn: async ({ startDate, targets }: { startDate: string; targets: ScheduledTargets }) => {
+      const { error: upsertError } = await supabase
+        .from('nutrition_goals')
+        .upsert({
+          user_id: userId!,
+          calculation_date: startDate,
+          ...targets
+        }, {
+          onConflict: 'user_id,calculation_date'
+        });
+
+      if (upsertError) throw upsertError;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.goalHistory(userId!) })
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      // Only changes that have not started yet can be removed; the past stays as it was
+      const { error: deleteError } = await supabase
+        .from('nutrition_goals')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId!)
+        .gt('calculation_date', todayKey(timeZone));
+
+      if (deleteError) throw deleteError;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.goalHistory(userId!) })
+  });
+
+  /**
+   * Schedule new targets to take effect on a future date
+   */
+  const scheduleGoals = useCallback(async (startDate: string, targets: ScheduledTargets): Promise<boolean> => {
+    if (!userId) {
+      toast({
+        title: "Authentication Error",
+        description: "Please log in to schedule nutrition goals.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    if (startDate <= todayKey(timeZone)) {
+      toast({
+        title: "Invalid Date",
+        description: "Scheduled goals must start after today. Use Recalculate to change today's goals.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    try {
+      await scheduleMutation.mutateAsync({ startDate, targets });
+      toast({
+        title: "Goals Scheduled",
+        description: `New targets start on ${formatDateKey(startDate, { weekday: 'long', month: 'short', day: 'numeric' })}.`,
+      });
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error scheduling nutrition goals:', err);
+      toast({
+        title: "Schedule Failed",
+        description: `Failed to schedule goals: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [userId, timeZone, scheduleMutation, toast]);
+
+  /**
+   * Remove a scheduled change before it starts
+   */
+  const cancelScheduledGoals = useCallback(async (id: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      await cancelMutation.mutateAsync(id);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error cancelling scheduled goals:', err);
+      toast({
+        title: "Cancel Failed",
+        description: `Failed to cancel scheduled goals: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [userId, cancelMutation, toast]);
+
+  const { refetch: refetchQuery } = historyQuery;
+  const refetch = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
+
+  return {
+    history,
+    loading: historyQuery.isLoading,
+    error: historyQuery.error ? historyQuery.error.message : null,
+    refetch,
+    goalsForDate,
+    scheduleGoals,
+    cancelScheduledGoals
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Production-grade hook for rebuilding nutrition goals after a profile or weight change
+ * Keeps the TDEE source the current goals were built on: adaptive goals are rebuilt on the
+ * measured TDEE, so a profile edit never quietly switches the user back to the formula.
+ */
+
+import { useCallback } from 'react';
+import { useProfile, type UserProfile } from '@/contexts/ProfileContext';
+import { useAdaptiveTDEE } from '@/hooks/useAdaptiveTDEE';
+import { useNutritionGoals } from '@/hooks/useNutritionGoals';
+import { calculateNutritionGoalsWithTDEE, type UserProfile as NutritionUserProfile } from '@/lib/nutritionCalculations';
+import type { TdeeSource } from '@/lib/adaptiveTdee';
+
+export interface UseGoalRecalculationResult {
+  tdeeSource: TdeeSource;
+  recalculateGoals: (overrides?: Partial<UserProfile>) => Promise<boolean>;
+}
+
+export function useGoalRecalculation(): UseGoalRecalculationResult {
+  const { profile, calculateUserNutritionGoals, saveNutritionGoals } = useProfile();
+  const { goals } = useNutritionGoals();
+  const { estimate } = useAdaptiveTDEE();
+
+  const tdeeSource: TdeeSource = goals?.tdee_source ?? 'formula';
+
+  /**
+   * Recalculate and save maintenance goals, with `overrides` applied on top of the saved profile
+   */
+  const recalculateGoals = useCallback(async (overrides: Partial<UserProfile> = {}): Promise<boolean> => {
+    // Without a fresh estimate (e.g. a gap in weigh-ins) the TDEE the goals were built on still stands
+    const adaptiveTdee = tdeeSource === 'adaptive' ? estimate?.tdee ?? goals?.tdee ?? null : null;
+
+    const newGoals = adaptiveTdee && profile
+      ? calculateNutritionGoalsWithTDEE({ ...profile, ...overrides } as NutritionUserProfile, adaptiveTdee, 'maintain')
+      : calculateUserNutritionGoals('maintain', overrides);
+    if (!newGoals) return false;
+
+    return saveNutritionGoals(newGoals, adaptiveTdee ? 'adaptive' : 'formula');
+  }, [tdeeSource, estimate?.tdee, goals?.tdee, profile, calculateUserNutritionGoals, saveNutritionGoals]);
+
+  return {
+    tdeeSource,
+    recalculateGoals
+  };
+}
@@ -1,12 +1,35 @@
 /**
  * Production-grade hook for managing meal logs
- * Provides CRUD operations for food logging with real-time updates
+ * Provides CRUD operations for food logging with real-time updates.
+ * Lists live in the shared query cache; writes update them and the daily summary optimistically.
+ * Works offline: changes go to an IndexedDB outbox and are replayed on reconnect.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useEffect, useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import type { RecipeIngredientInput } from '@/lib/recipeCalculations';
+import type { DailySummary } from '@/hooks/useDailySummary';
+import type { WeeklySummaryData } from '@/hooks/useWeeklySummary';
+import { invalidateNutritionTotals, queryKeys } from '@/lib/queryKeys';
+import { markLocalWrite, releaseLocalWrite } from '@/lib/localWrites';
+import { dayBounds, toDateKey, todayKey } from '@/lib/dateUtils';
+import {
+  applyOutbox,
+  cacheMeals,
+  enqueueMutation,
+  getCachedMeals,
+  getOutbox,
+  isNetworkError,
+  markMutationFailed,
+  putCachedMeal,
+  removeCachedMeal,
+  removeMutation,
+  type OutboxEntry
+} from '@/lib/offlineStore';
 
 export interface MealLog {
   id: string;
@@ -14,25 +37,52 @@ export interface MealLog {
   meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
   food_name: string;
   portion_size: number; // in grams
+  unit?: string | null; // household unit picked when logging, null = grams
+  unit_quantity?: number | null; // amount in that unit; grams per unit = portion_size / unit_quantity
   calories: number;
   carbs: number; // in grams
   fats: number; // in grams
   proteins: number; // in grams
+  fiber?: number | null; // in grams, null when unknown
+  sugar?: number | null; // in grams
+  sodium?: number | null; // in mg
+  vitamin_c?: number | null; // in mg
+  calcium?: number | null; // in mg
+  iron?: number | null; // in mg
+  glycemic_index?: number | null; // copied from the food, used for glycemic load
+  allergens?: string[] | null; // copied from the food, checked against dietary restrictions
   image_url?: string;
+  recipe_id?: string | null; // set when the entry was logged from a saved recipe
+  servings?: number | null;
+  ingredients?: RecipeIngredientInput[] | null; // snapshot scaled to the servings eaten
   logged_at: string;
   created_at: string;
+  pending_sync?: boolean; // client-only: saved offline and waiting to sync
 }
 
 export interface NewMealLog {
   meal_type: MealLog['meal_type'];
   food_name: string;
   portion_size: number;
+  unit?: string | null;
+  unit_quantity?: number | null;
   calories: number;
   carbs: number;
   fats: number;
   proteins: number;
+  fiber?: number | null;
+  sugar?: number | null;
+  sodium?: number | null;
+  vitamin_c?: number | null;
+  calcium?: number | null;
+  iron?: number | null;
+  glycemic_index?: number | null;
+  allergens?: string[] | null;
   image_url?: string;
-  logged_at?: string; // Optional, defaults to current time
+  recipe_id?: string | null;
+  servings?: number | null;
+  ingredients?: RecipeIngredientInput[] | null;
+  logged_at?: string; // Optional, defaults to the current time (also when passed as undefined)
 }
 
 export interface UseMealLogsResult {
@@ -41,6 +91,7 @@ export interface UseMealLogsResult {
   error: string | null;
   refetch: () => Promise<void>;
   addMeal: (meal: NewMealLog) => Promise<boolean>;
+  addMeals: (meals: NewMealLog[]) => Promise<boolean>;
   updateMeal: (id: string, updates: Partial<NewMealLog>) => Promise<boolean>;
   deleteMeal: (id: string) => Promise<boolean>;
   getMealsByType: (mealType: MealLog['meal_type']) => MealLog[];
@@ -53,222 +104,553 @@ export interface UseMealLogsResult {
   };
 }
 
+export interface MealSyncResult {
+  synced: number;
+  conflicts: string[]; // changes dropped because the meal was removed on the server or the server kept rejecting them
+  remaining: number; // still queued, e.g. the connection dropped again
+}
+
+// Failed replays are retried on later reconnects before being given up as conflicts
+const MAX_SYNC_ATTEMPTS = 3;
+
+let syncInFlight: Promise<MealSyncResult> | null = null;
+
+const describeEntry = (entry: OutboxEntry) =>
+  `${entry.operation === 'insert' ? 'New' : entry.operation === 'update' ? 'Edited' : 'Deleted'} meal${entry.payload.food_name ? ` "${entry.payload.food_name}"` : ''}`;
+
+async function replayOutbox(userId: string): Promise<MealSyncResult> {
+  const entries = await getOutbox(userId);
+  const result: MealSyncResult = { synced: 0, conflicts: [], remaining: entries.length };
+  // Meals with an earlier change kept for retry; their later changes wait behind it
+  const held = new Set<string>();
+
+  for (const entry of entries) {
+    if (held.has(entry.record_id)) continue;
+
+    let failure: { message: string; code?: string } | null = null;
+    let conflict = false;
+
+    if (entry.operation === 'insert') {
+      const { error } = await supabase
+        .from('meal_logs')
+        .insert([{ ...entry.payload, id: entry.record_id, user_id: userId }]);
+      // Duplicate key: an earlier replay already saved it
+      failure = error && error.code !== '23505' ? error : null;
+    } else if (entry.operation === 'update') {
+      const { data, error } = await supabase
+        .from('meal_logs')
+        .update(entry.payload)
+        .eq('id', entry.record_id)
+        .eq('user_id', userId)
+        .select('id');
+      failure = error;
+      // The meal was deleted on another device while this edit was queued
+      conflict = !error && (data?.length ?? 0) === 0;
+    } else {
+      const { error } = await supabase
+        .from('meal_logs')
+        .delete()
+        .eq('id', entry.record_id)
+        .eq('user_id', userId);
+      failure = error;
+    }
+
+    if (failure && isNetworkError(failure)) break; // offline again; keep the rest queued
+
+    if (failure && entry.attempts + 1 < MAX_SYNC_ATTEMPTS) {
+      console.error('Error syncing meal log change:', failure);
+      await markMutationFailed(entry, failure.message);
+      held.add(entry.record_id);
+      continue;
+    }
+
+    await removeMutation(entry.seq!);
+    result.remaining -= 1;
+    if (failure || conflict) {
+      result.conflicts.push(`${describeEntry(entry)}: ${failure ? failure.message : 'it was removed on another device'}`);
+    } else {
+      result.synced += 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replay queued offline changes in order. Concurrent callers share one replay;
+ * only the caller that started it gets the result (others get null), so it is reported once.
+ */
+export async function syncMealOutbox(userId: string): Promise<MealSyncResult | null> {
+  if (syncInFlight) {
+    await syncInFlight;
+    return null;
+  }
+
+  syncInFlight = replayOutbox(userId);
+  try {
+    return await syncInFlight;
+  } finally {
+    syncInFlight = null;
+  }
+}
+
+const NO_MEALS: MealLog[] = [];
+
+const byLoggedAtDesc = (a: MealLog, b: MealLog) => b.logged_at.localeCompare(a.logged_at);
+
+// Replace `before` with `after` in one cached day list, if `after` belongs to it
+function applyToMealList(
+  list: MealLog[] | undefined,
+  key: QueryKey,
+  before: MealLog | null,
+  after: MealLog | null,
+  timeZone: string
+): MealLog[] | undefined {
+  if (!list) return list;
+  const [, , date, type] = key as ReturnType<typeof queryKeys.mealLogsForDay>;
+  const next = before ? list.filter(meal => meal.id !== before.id) : list;
+  if (after && toDateKey(after.logged_at, timeZone) === date && (type === 'all' || type === after.meal_type)) {
+    return [after, ...next.filter(meal => meal.id !== after.id)].sort(byLoggedAtDesc);
+  }
+  return next;
+}
+
+/**
+ * Find a meal in any cached day list
+ */
+export function findCachedMeal(queryClient: QueryClient, userId: string, id: string): MealLog | null {
+  for (const [, list] of queryClient.getQueriesData<MealLog[]>({ queryKey: queryKeys.mealLogs(userId) })) {
+    const meal = list?.find(m => m.id === id);
+    if (meal) return meal;
+  }
+  return null;
+}
+
+/**
+ * Swap a meal in every cached day list; a null `before` adds it and a null `after` removes it
+ */
+export function patchCachedMealLists(
+  queryClient: QueryClient,
+  userId: string,
+  before: MealLog | null,
+  after: MealLog | null,
+  timeZone: string
+) {
+  queryClient.getQueriesData<MealLog[]>({ queryKey: queryKeys.mealLogs(userId) }).forEach(([key, list]) => {
+    queryClient.setQueryData(key, applyToMealList(list, key, before, after, timeZone));
+  });
+}
+
+type DayTotals = Pick<DailySummary, 'total_calories' | 'total_carbs' | 'total_fats' | 'total_proteins' | 'meals_logged'>;
+
+// Move one meal's macros in or out of a day's totals
+function shiftTotals<T extends DayTotals>(
+  totals: T,
+  date: string,
+  before: MealLog | null,
+  after: MealLog | null,
+  timeZone: string
+): T {
+  const removed = before && toDateKey(before.logged_at, timeZone) === date ? before : null;
+  const added = after && toDateKey(after.logged_at, timeZone) === date ? after : null;
+  if (!removed && !added) return totals;
+
+  const delta = (field: 'calories' | 'carbs' | 'fats' | 'proteins') =>
+    (added?.[field] || 0) - (removed?.[field] || 0);
+
+  return {
+    ...totals,
+    total_calories: totals.total_calories + delta('calories'),
+    total_carbs: totals.total_carbs + delta('carbs'),
+    total_fats: totals.total_fats + delta('fats'),
+    total_proteins: totals.total_proteins + delta('proteins'),
+    meals_logged: totals.meals_logged + (added ? 1 : 0) - (removed ? 1 : 0)
+  };
+}
+
+type CacheSnapshot = Array<[QueryKey, unknown]>;
+
+interface WriteResult {
+  offline: boolean; // queued in the outbox instead of reaching the server
+}
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : (err as { message?: string } | null)?.message || 'Unknown error occurred';
+
 export function useMealLogs(targetDate?: string, mealType?: MealLog['meal_type']): UseMealLogsResult {
-  const [meals, setMeals] = useState<MealLog[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
   const { user } = useAuth();
   const { toast } = useToast();
-
-  // Use target date or default to today
-  const queryDate = targetDate || new Date().toISOString().split('T')[0];
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+  const userId = user?.id;
+
+  // Use target date or default to today, bounded by the user's local midnights
+  const queryDate = targetDate || todayKey(timeZone);
+  const { start: dayStart, end: dayEnd } = dayBounds(queryDate, timeZone);
+
+  // Server (or cached) rows with queued offline changes applied on top
+  const withPendingChanges = useCallback(async (uid: string, rows: MealLog[]): Promise<MealLog[]> => {
+    const outbox = await getOutbox(uid);
+    return applyOutbox(rows, outbox, meal =>
+      meal.logged_at >= dayStart && meal.logged_at < dayEnd && (!mealType || meal.meal_type === mealType)
+    ).sort(byLoggedAtDesc);
+  }, [dayStart, dayEnd, mealType]);
+
+  const loadCachedMeals = useCallback(async (uid: string): Promise<MealLog[]> => {
+    const cached = await getCachedMeals<MealLog>(uid, dayStart, dayEnd);
+    return withPendingChanges(uid, mealType ? cached.filter(meal => meal.meal_type === mealType) : cached);
+  }, [dayStart, dayEnd, mealType, withPendingChanges]);
 
   /**
    * Fetch meal logs for the specified date and meal type
    */
-  const fetchMeals = useCallback(async () => {
-    if (!user?.id) {
-      setMeals([]);
-      setLoading(false);
-      return;
+  const fetchMeals = useCallback(async (): Promise<MealLog[]> => {
+    if (!userId) return [];
+
+    if (!navigator.onLine) {
+      return loadCachedMeals(userId);
     }
 
-    try {
-      setLoading(true);
-      setError(null);
+    let query = supabase
+      .from('meal_logs')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('logged_at', dayStart)
+      .lt('logged_at', dayEnd)
+      .order('logged_at', { ascending: false });
+
+    // Filter by meal type if specified
+    if (mealType) {
+      query = query.eq('meal_type', mealType);
+    }
 
-      let query = supabase
-        .from('meal_logs')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('logged_at', `${queryDate}T00:00:00.000Z`)
-        .lt('logged_at', `${queryDate}T23:59:59.999Z`)
-        .order('logged_at', { ascending: false });
-
-      // Filter by meal type if specified
-      if (mealType) {
-        query = query.eq('meal_type', mealType);
+    const { data, error: fetchError } = await query;
+
+    if (fetchError) {
+      if (isNetworkError(fetchError)) {
+        return loadCachedMeals(userId);
       }
+      console.error('Error fetching meal logs:', fetchError);
+      throw new Error(`Failed to fetch meal logs: ${fetchError.message}`);
+    }
+
+    // A meal-type filtered result is only part of the day, so it isn't cached
+    if (!mealType) {
+      await cacheMeals(userId, dayStart, dayEnd, data || []);
+    }
+    return withPendingChanges(userId, data || []);
+  }, [userId, dayStart, dayEnd, mealType, loadCachedMeals, withPendingChanges]);
+
+  const mealsQuery = useQuery({
+    queryKey: queryKeys.mealLogsForDay(userId ?? '', queryDate, mealType),
+    queryFn: fetchMeals,
+    enabled: !!userId,
+    networkMode: 'always' // falls back to the offline store itself
+  });
+
+  const meals = mealsQuery.data ?? NO_MEALS;
+
+  // ---------------------------------------------------------------------------
+  // Optimistic cache updates (meal lists, daily summaries and weekly series)
+  // ---------------------------------------------------------------------------
+
+  const findMeal = useCallback((id: string): MealLog | null => {
+    return userId ? findCachedMeal(queryClient, userId, id) : null;
+  }, [queryClient, userId]);
+
+  // Stop in-flight refetches from overwriting the optimistic state, and keep a copy for rollback
+  const snapshotCaches = useCallback(async (): Promise<CacheSnapshot> => {
+    if (!userId) return [];
+    const keys = [queryKeys.mealLogs(userId), queryKeys.dailySummaries(userId), queryKeys.weeklySummaries(userId)];
+    await Promise.all(keys.map(queryKey => queryClient.cancelQueries({ queryKey })));
+    return keys.flatMap(queryKey => queryClient.getQueriesData({ queryKey }));
+  }, [queryClient, userId]);
+
+  const restoreCaches = useCallback((snapshot?: CacheSnapshot) => {
+    snapshot?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+  }, [queryClient]);
+
+  const applyOptimistic = useCallback((before: MealLog | null, after: MealLog | null) => {
+    if (!userId) return;
+    patchCachedMealLists(queryClient, userId, before, after, timeZone);
+    // A day with no summary row yet is left for the refetch after the write settles
+    queryClient.getQueriesData<DailySummary | null>({ queryKey: queryKeys.dailySummaries(userId) }).forEach(([key, summary]) => {
+      const [, , date] = key as ReturnType<typeof queryKeys.dailySummary>;
+      if (summary) queryClient.setQueryData(key, shiftTotals(summary, date, before, after, timeZone));
+    });
+    queryClient.getQueriesData<WeeklySummaryData[]>({ queryKey: queryKeys.weeklySummaries(userId) }).forEach(([key, week]) => {
+      if (week) queryClient.setQueryData(key, week.map(day => shiftTotals(day, day.date, before, after, timeZone)));
+    });
+  }, [queryClient, userId, timeZone]);
+
+  // Offline writes only need the lists reloaded (from the offline store) to pick up their pending badge
+  const settleWrite = useCallback(async (result?: WriteResult) => {
+    if (!userId) return;
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.mealLogs(userId) }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.mealLogRanges(userId) })
+    ]);
+    if (!result?.offline) {
+      await invalidateNutritionTotals(queryClient, userId);
+    }
+  }, [queryClient, userId]);
+
+  // ---------------------------------------------------------------------------
+  // Mutations
+  // ---------------------------------------------------------------------------
 
-      const { data, error: fetchError } = await query;
+  const queueInserts = useCallback(async (rows: MealLog[]): Promise<WriteResult> => {
+    for (const row of rows) {
+      const { created_at: _createdAt, pending_sync: _pending, ...payload } = row;
+      await enqueueMutation({ user_id: row.user_id, operation: 'insert', record_id: row.id, payload });
+      await putCachedMeal(row.user_id, { ...row, pending_sync: true });
+    }
+    return { offline: true };
+  }, []);
+
+  // Rows get their id on the client, so the optimistic copy, the offline copy and the server row match
+  const insertMutation = useMutation({
+    mutationKey: queryKeys.mealLogs(userId ?? ''),
+    networkMode: 'always',
+    mutationFn: async (rows: MealLog[]): Promise<WriteResult> => {
+      if (!navigator.onLine) return queueInserts(rows);
+      try {
+        const { error: insertError } = await supabase
+          .from('meal_logs')
+          .insert(rows.map(({ created_at: _createdAt, pending_sync: _pending, ...row }) => row));
+        if (insertError) throw insertError;
+        return { offline: false };
+      } catch (err) {
+        if (isNetworkError(err as Error)) return queueInserts(rows);
+        throw err;
+      }
+    },
+    onMutate: async (rows) => {
+      markLocalWrite('meal_logs', rows.map(row => row.id));
+      const snapshot = await snapshotCaches();
+      rows.forEach(row => applyOptimistic(null, row));
+      return { snapshot };
+    },
+    onError: (_err, _rows, context) => restoreCaches(context?.snapshot),
+    onSettled: (result, _err, rows) => {
+      releaseLocalWrite('meal_logs', rows.map(row => row.id));
+      return settleWrite(result);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationKey: queryKeys.mealLogs(userId ?? ''),
+    networkMode: 'always',
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<NewMealLog> }): Promise<WriteResult> => {
+      const current = findMeal(id);
+      const queueUpdate = async (): Promise<WriteResult> => {
+        await enqueueMutation({ user_id: userId!, operation: 'update', record_id: id, payload: updates });
+        if (current) {
+          await putCachedMeal(userId!, { ...current, ...updates, pending_sync: true });
+        }
+        return { offline: true };
+      };
 
-      if (fetchError) {
-        console.error('Error fetching meal logs:', fetchError);
-        setError(`Failed to fetch meal logs: ${fetchError.message}`);
-        return;
+      // Meals still waiting to sync don't exist on the server yet
+      if (!navigator.onLine || current?.pending_sync) return queueUpdate();
+
+      try {
+        const { error: updateError } = await supabase
+          .from('meal_logs')
+          .update(updates)
+          .eq('id', id)
+          .eq('user_id', userId!) // Ensure user can only update their own meals
+          .select()
+          .single();
+        if (updateError) throw updateError;
+        return { offline: false };
+      } catch (err) {
+        if (isNetworkError(err as Error)) return queueUpdate();
+        throw err;
       }
+    },
+    onMutate: async ({ id, updates }) => {
+      markLocalWrite('meal_logs', [id]);
+      const snapshot = await snapshotCaches();
+      const before = findMeal(id);
+      if (before) applyOptimistic(before, { ...before, ...updates });
+      return { snapshot };
+    },
+    onError: (_err, _variables, context) => restoreCaches(context?.snapshot),
+    onSettled: (result, _err, { id }) => {
+      releaseLocalWrite('meal_logs', [id]);
+      return settleWrite(result);
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationKey: queryKeys.mealLogs(userId ?? ''),
+    networkMode: 'always',
+    mutationFn: async (id: string): Promise<WriteResult> => {
+      const queueDelete = async (): Promise<WriteResult> => {
+        await enqueueMutation({ user_id: userId!, operation: 'delete', record_id: id, payload: {} });
+        await removeCachedMeal(id);
+        return { offline: true };
+      };
 
-      setMeals(data || []);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(errorMessage);
-      console.error('Unexpected error fetching meal logs:', err);
-    } finally {
-      setLoading(false);
+      if (!navigator.onLine || findMeal(id)?.pending_sync) return queueDelete();
+
+      try {
+        const { error: deleteError } = await supabase
+          .from('meal_logs')
+          .delete()
+          .eq('id', id)
+          .eq('user_id', userId!); // Ensure user can only delete their own meals
+        if (deleteError) throw deleteError;
+        return { offline: false };
+      } catch (err) {
+        if (isNetworkError(err as Error)) return queueDelete();
+        throw err;
+      }
+    },
+    onMutate: async (id) => {
+      markLocalWrite('meal_logs', [id]);
+      const snapshot = await snapshotCaches();
+      const before = findMeal(id);
+      if (before) applyOptimistic(before, null);
+      return { snapshot };
+    },
+    onError: (_err, _id, context) => restoreCaches(context?.snapshot),
+    onSettled: (result, _err, id) => {
+      releaseLocalWrite('meal_logs', [id]);
+      return settleWrite(result);
     }
-  }, [user?.id, queryDate, mealType]);
+  });
+
+  const toMealRows = useCallback((newMeals: NewMealLog[]): MealLog[] => {
+    const now = new Date().toISOString();
+    return newMeals.map((meal): MealLog => ({
+      ...meal,
+      user_id: userId!,
+      logged_at: meal.logged_at ?? now,
+      id: crypto.randomUUID(),
+      created_at: now
+    }));
+  }, [userId]);
+
+  const requireUser = useCallback((action: string) => {
+    if (userId) return true;
+    toast({
+      title: "Authentication Error",
+      description: `Please log in to ${action}.`,
+      variant: "destructive"
+    });
+    return false;
+  }, [userId, toast]);
 
   /**
    * Add a new meal log
    */
   const addMeal = useCallback(async (meal: NewMealLog): Promise<boolean> => {
-    if (!user?.id) {
-      toast({
-        title: "Authentication Error",
-        description: "Please log in to log meals.",
-        variant: "destructive"
-      });
-      return false;
-    }
+    if (!requireUser('log meals')) return false;
 
     try {
-      const mealData = {
-        user_id: user.id,
-        logged_at: meal.logged_at || new Date().toISOString(),
-        ...meal
-      };
-
-      const { data, error: insertError } = await supabase
-        .from('meal_logs')
-        .insert([mealData])
-        .select()
-        .single();
-
-      if (insertError) {
-        console.error('Error adding meal log:', insertError);
-        toast({
-          title: "Add Failed",
-          description: `Failed to log meal: ${insertError.message}`,
-          variant: "destructive"
-        });
-        return false;
-      }
-
-      // Optimistically add to local state
-      setMeals(prev => [data, ...prev]);
-      
-      toast({
+      const { offline } = await insertMutation.mutateAsync(toMealRows([meal]));
+      toast(offline ? {
+        title: "Saved Offline",
+        description: `${meal.food_name} will sync to your ${meal.meal_type} when you're back online.`,
+      } : {
         title: "Meal Logged",
         description: `${meal.food_name} has been added to your ${meal.meal_type}.`,
       });
-      
       return true;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      console.error('Unexpected error adding meal log:', err);
+      console.error('Error adding meal log:', err);
       toast({
-        title: "Add Error",
-        description: errorMessage,
+        title: "Add Failed",
+        description: `Failed to log meal: ${errorMessage(err)}`,
         variant: "destructive"
       });
       return false;
     }
-  }, [user?.id, toast]);
+  }, [requireUser, insertMutation, toMealRows, toast]);
 
   /**
-   * Update an existing meal log
+   * Add several meal logs in one insert, e.g. every food detected on a plate
    */
-  const updateMeal = useCallback(async (id: string, updates: Partial<NewMealLog>): Promise<boolean> => {
-    if (!user?.id) {
+  const addMeals = useCallback(async (newMeals: NewMealLog[]): Promise<boolean> => {
+    if (!requireUser('log meals')) return false;
+    if (newMeals.length === 0) return false;
+
+    try {
+      const { offline } = await insertMutation.mutateAsync(toMealRows(newMeals));
+      toast(offline ? {
+        title: "Saved Offline",
+        description: `${newMeals.length} items will sync to your ${newMeals[0].meal_type} when you're back online.`,
+      } : {
+        title: "Meals Logged",
+        description: `${newMeals.length} items have been added to your ${newMeals[0].meal_type}.`,
+      });
+      return true;
+    } catch (err) {
+      console.error('Error adding meal logs:', err);
       toast({
-        title: "Authentication Error",
-        description: "Please log in to update meals.",
+        title: "Add Failed",
+        description: `Failed to log meals: ${errorMessage(err)}`,
         variant: "destructive"
       });
       return false;
     }
+  }, [requireUser, insertMutation, toMealRows, toast]);
 
-    try {
-      const { data, error: updateError } = await supabase
-        .from('meal_logs')
-        .update(updates)
-        .eq('id', id)
-        .eq('user_id', user.id) // Ensure user can only update their own meals
-        .select()
-        .single();
-
-      if (updateError) {
-        console.error('Error updating meal log:', updateError);
-        toast({
-          title: "Update Failed",
-          description: `Failed to update meal: ${updateError.message}`,
-          variant: "destructive"
-        });
-        return false;
-      }
+  /**
+   * Update an existing meal log
+   */
+  const updateMeal = useCallback(async (id: string, updates: Partial<NewMealLog>): Promise<boolean> => {
+    if (!requireUser('update meals')) return false;
 
-      // Update local state
-      setMeals(prev => prev.map(meal => meal.id === id ? data : meal));
-      
-      toast({
+    try {
+      const { offline } = await updateMutation.mutateAsync({ id, updates });
+      toast(offline ? {
+        title: "Saved Offline",
+        description: "Your changes will sync when you're back online.",
+      } : {
         title: "Meal Updated",
         description: "Your meal has been successfully updated.",
       });
-      
       return true;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      console.error('Unexpected error updating meal log:', err);
+      console.error('Error updating meal log:', err);
       toast({
-        title: "Update Error",
-        description: errorMessage,
+        title: "Update Failed",
+        description: `Failed to update meal: ${errorMessage(err)}`,
         variant: "destructive"
       });
       return false;
     }
-  }, [user?.id, toast]);
+  }, [requireUser, updateMutation, toast]);
 
   /**
    * Delete a meal log
    */
   const deleteMeal = useCallback(async (id: string): Promise<boolean> => {
-    if (!user?.id) {
-      toast({
-        title: "Authentication Error",
-        description: "Please log in to delete meals.",
-        variant: "destructive"
-      });
-      return false;
-    }
+    if (!requireUser('delete meals')) return false;
 
     try {
-      const { error: deleteError } = await supabase
-        .from('meal_logs')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', user.id); // Ensure user can only delete their own meals
-
-      if (deleteError) {
-        console.error('Error deleting meal log:', deleteError);
-        toast({
-          title: "Delete Failed",
-          description: `Failed to delete meal: ${deleteError.message}`,
-          variant: "destructive"
-        });
-        return false;
-      }
-
-      // Remove from local state
-      setMeals(prev => prev.filter(meal => meal.id !== id));
-      
-      toast({
+      const { offline } = await deleteMutation.mutateAsync(id);
+      toast(offline ? {
+        title: "Deleted Offline",
+        description: "The meal will be removed from your log when you're back online.",
+      } : {
         title: "Meal Deleted",
         description: "The meal has been removed from your log.",
       });
-      
       return true;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      console.error('Unexpected error deleting meal log:', err);
+      console.error('Error deleting meal log:', err);
       toast({
-        title: "Delete Error",
-        description: errorMessage,
+        title: "Delete Failed",
+        description: `Failed to delete meal: ${errorMessage(err)}`,
         variant: "destructive"
       });
       return false;
     }
-  }, [user?.id, toast]);
+  }, [requireUser, deleteMutation, toast]);
 
   /**
    * Get meals by type from current meals
@@ -296,49 +678,75 @@ export function useMealLogs(targetDate?: string, mealType?: MealLog['meal_type']
   /**
    * Refetch meals
    */
+  const { refetch: refetchQuery } = mealsQuery;
   const refetch = useCallback(async () => {
-    await fetchMeals();
-  }, [fetchMeals]);
+    await refetchQuery();
+  }, [refetchQuery]);
 
-  // Initial fetch and setup real-time subscription
-  useEffect(() => {
-    fetchMeals();
-
-    // Set up real-time subscription for meal logs changes
-    if (user?.id) {
-      const subscription = supabase
-        .channel(`meal_logs_${user.id}_${queryDate}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'meal_logs',
-            filter: `user_id=eq.${user.id}`
-          },
-          (payload) => {
-            console.log('Meal logs updated:', payload);
-            // Refetch to ensure data consistency
-            fetchMeals();
-          }
-        )
-        .subscribe();
-
-      return () => {
-        subscription.unsubscribe();
-      };
+  /**
+   * Replay the offline outbox, then reload so synced rows replace their local copies.
+   * Resolves false when there was nothing to replay.
+   */
+  const syncPendingChanges = useCallback(async (): Promise<boolean> => {
+    if (!userId || !navigator.onLine) return false;
+    if ((await getOutbox(userId)).length === 0) return false;
+
+    let result: MealSyncResult | null;
+    try {
+      result = await syncMealOutbox(userId);
+    } catch (err) {
+      // The outbox itself could not be updated; the queued changes stay put for the next try
+      console.error('Error syncing offline meal changes:', err);
+      toast({
+        title: "Sync Failed",
+        description: `Failed to sync offline changes: ${errorMessage(err)}`,
+        variant: "destructive"
+      });
+      return false;
     }
-  }, [user?.id, queryDate, fetchMeals]);
 
-  return {
+    if (result && result.synced > 0) {
+      toast({
+        title: "Back Online",
+        description: `${result.synced} offline ${result.synced === 1 ? 'change has' : 'changes have'} been synced.`,
+      });
+    }
+    if (result && result.conflicts.length > 0) {
+      console.error('Meal log sync conflicts:', result.conflicts);
+      toast({
+        title: "Sync Conflict",
+        description: `${result.conflicts.length} offline ${result.conflicts.length === 1 ? 'change' : 'changes'} could not be applied: ${result.conflicts[0]}`,
+        variant: "destructive"
+      });
+    }
+
+    await settleWrite();
+    return true;
+  }, [userId, toast, settleWrite]);
+
+  useEffect(() => {
+    syncPendingChanges();
+
+    // Cached rows may be stale after a spell offline, so reload even with an empty outbox
+    const handleOnline = async () => {
+      if (!(await syncPendingChanges()) && userId) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.mealLogs(userId) });
+      }
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [syncPendingChanges, queryClient, userId]);
+
+  return useMemo(() => ({
     meals,
-    loading,
-    error,
+    loading: mealsQuery.isLoading,
+    error: mealsQuery.error ? mealsQuery.error.message : null,
     refetch,
     addMeal,
+    addMeals,
     updateMeal,
     deleteMeal,
     getMealsByType,
     getTodaysTotals
-  };
-}
\ No newline at end of file
+  }), [meals, mealsQuery.isLoading, mealsQuery.error, refetch, addMeal, addMeals, updateMeal, deleteMeal, getMealsByType, getTodaysTotals]);
+}
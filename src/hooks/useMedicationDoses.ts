@@ -0,0 +1,175 @@
+/**
+ * Production-grade hook for medication dose history
+ * A dose is one scheduled time of one medication on one local day; rows exist only for doses
+ * the user checked off or skipped, so missing rows are doses still due or missed.
+ */
+
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys } from '@/lib/queryKeys';
+
+export type DoseRecordStatus = 'taken' | 'skipped';
+
+export interface MedicationDose {
+  id: string;
+  user_id: string;
+  medication_id: string;
+  scheduled_date: string; // yyyy-MM-dd on the user's clock
+  scheduled_time: string; // 'HH:MM'
+  status: DoseRecordStatus;
+  taken_at: string;
+  created_at: string;
+}
+
+export interface DoseSlot {
+  medication_id: string;
+  scheduled_date: string;
+  scheduled_time: string;
+}
+
+export interface UseMedicationDosesResult {
+  doses: MedicationDose[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  recordDose: (slot: DoseSlot, status?: DoseRecordStatus) => Promise<boolean>;
+  clearDose: (id: string) => Promise<boolean>;
+}
+
+const NO_DOSES: MedicationDose[] = [];
+
+export function useMedicationDoses(startDate: string, endDate: string): UseMedicationDosesResult {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  /**
+   * Fetch the dose records for scheduled days in [startDate, endDate]
+   */
+  const fetchDoses = useCallback(async (): Promise<MedicationDose[]> => {
+    if (!userId) return [];
+
+    const { data, error: fetchError } = await supabase
+      .from('medication_doses')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('scheduled_date', startDate)
+      .lte('scheduled_date', endDate)
+      .order('scheduled_date', { ascending: true })
+      .order('scheduled_time', { ascending: true });
+
+    if (fetchError) {
+      console.error('Error fetching medication doses:', fetchError);
+      throw new Error(`Failed to fetch medication doses: ${fetchError.message}`);
+    }
+
+    return data || [];
+  }, [userId, startDate, endDate]);
+
+  const dosesQuery = useQuery({
+    queryKey: queryKeys.medicationDoseRange(userId ?? '', startDate, endDate),
+    queryFn: fetchDoses,
+    enabled: !!userId
+  });
+
+  // Other ranges (the reminder window, the adherence history) may hold the same day
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: queryKeys.medicationDoses(userId!) });
+
+  const recordMutation = useMutation({
+    mutationFn: async ({ slot, status }: { slot: DoseSlot; status: DoseRecordStatus }) => {
+      const { error: upsertError } = await supabase
+        .from('medication_doses')
+        .upsert({
+          user_id: userId!,
+          ...slot,
+          status,
+          taken_at: new Date().toISOString()
+        }, {
+          onConflict: 'medication_id,scheduled_date,scheduled_time'
+        });
+
+      if (upsertError) throw upsertError;
+    },
+    onSuccess: invalidate
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error: deleteError } = await supabase
+        .from('medication_doses')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId!);
+
+      if (deleteError) throw deleteError;
+    },
+    onSuccess: invalidate
+  });
+
+  /**
+   * Check a dose off as taken, or mark it skipped
+   */
+  const recordDose = useCallback(async (slot: DoseSlot, status: DoseRecordStatus = 'taken'): Promise<boolean> => {
+    if (!userId) {
+      toast({
+        title: "Authentication Error",
+        description: "Please log in to record doses.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    try {
+      await recordMutation.mutateAsync({ slot, status });
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error recording dose:', err);
+      toast({
+        title: "Save Failed",
+        description: `Failed to record dose: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [userId, recordMutation, toast]);
+
+  /**
+   * Undo a check-off, putting the dose back to due
+   */
+  const clearDose = useCallback(async (id: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      await clearMutation.mutateAsync(id);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error clearing dose:', err);
+      toast({
+        title: "Undo Failed",
+        description: `Failed to undo dose: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [userId, clearMutation, toast]);
+
+  const { refetch: refetchQuery } = dosesQuery;
+  const refetch = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
+
+  return {
+    doses: dosesQuery.data ?? NO_DOSES,
+    loading: dosesQuery.isLoading,
+    error: dosesQuery.error ? dosesQuery.error.message : null,
+    refetch,
+    recordDose,
+    clearDose
+  };
+}
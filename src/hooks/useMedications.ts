@@ -0,0 +1,228 @@
+/**
+ * Production-grade hook for the medication schedule
+ * Each medication lists the local times it is taken at; the doses themselves are
+ * checked off through useMedicationDoses.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { sortDoseTimes } from '@/lib/medicationSchedule';
+
+export interface Medication {
+  id: string;
+  user_id: string;
+  name: string;
+  dose?: string | null; // free text, e.g. '500 mg'
+  times: string[]; // 'HH:MM' on the user's clock, sorted
+  with_meal: boolean;
+  reminders_enabled: boolean;
+  active: boolean;
+  notes?: string | null;
+  created_at: string;
+}
+
+export interface NewMedication {
+  name: string;
+  dose?: string | null;
+  times: string[];
+  with_meal?: boolean;
+  reminders_enabled?: boolean;
+  notes?: string | null;
+}
+
+export interface UseMedicationsResult {
+  medications: Medication[]; // active and inactive, by name
+  activeMedications: Medication[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  addMedication: (medication: NewMedication) => Promise<boolean>;
+  updateMedication: (id: string, updates: Partial<NewMedication> & { active?: boolean }) => Promise<boolean>;
+  deleteMedication: (id: string) => Promise<boolean>;
+}
+
+const NO_MEDICATIONS: Medication[] = [];
+
+export function useMedications(): UseMedicationsResult {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  /**
+   * Fetch every medication for the current user
+   */
+  const fetchMedications = useCallback(async (): Promise<Medication[]> => {
+    if (!userId) return [];
+
+    const { data, error: fetchError } = await supabase
+      .from('medications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (fetchError) {
+      console.error('Error fetching medications:', fetchError);
+      throw new Error(`Failed to fetch medications: ${fetchError.message}`);
+    }
+
+    return data || [];
+  }, [userId]);
+
+  const medicationsQuery = useQuery({
+    queryKey: queryKeys.medications(userId ?? ''),
+    queryFn: fetchMedications,
+    enabled: !!userId
+  });
+
+  const medications = medicationsQuery.data ?? NO_MEDICATIONS;
+  const activeMedications = useMemo(() => medications.filter(medication => medication.active), [medications]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: queryKeys.medications(userId!) });
+
+  const addMutation = useMutation({
+    mutationFn: async (medication: NewMedication) => {
+      const { error: insertError } = await supabase
+        .from('medications')
+        .insert([{
+          user_id: userId!,
+          ...medication,
+          name: medication.name.trim(),
+          times: sortDoseTimes(medication.times)
+        }]);
+
+      if (insertError) throw insertError;
+    },
+    onSuccess: invalidate
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<NewMedication> & { active?: boolean } }) => {
+      const { error: updateError } = await supabase
+        .from('medications')
+        .update(updates.times ? { ...updates, times: sortDoseTimes(updates.times) } : updates)
+        .eq('id', id)
+        .eq('user_id', userId!);
+
+      if (updateError) throw updateError;
+    },
+    onSuccess: invalidate
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error: deleteError } = await supabase
+        .from('medications')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId!);
+
+      if (deleteError) throw deleteError;
+    },
+    onSuccess: () => {
+      invalidate();
+      // Dose history goes with the medication
+      queryClient.invalidateQueries({ queryKey: queryKeys.medicationDoses(userId!) });
+    }
+  });
+
+  /**
+   * Add a medication to the schedule
+   */
+  const addMedication = useCallback(async (medication: NewMedication): Promise<boolean> => {
+    if (!userId) {
+      toast({
+        title: "Authentication Error",
+        description: "Please log in to add medications.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    try {
+      await addMutation.mutateAsync(medication);
+      toast({
+        title: "Medication Added",
+        description: `${medication.name.trim()} has been added to your schedule.`,
+      });
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error adding medication:', err);
+      toast({
+        title: "Add Failed",
+        description: `Failed to add medication: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [userId, addMutation, toast]);
+
+  /**
+   * Change a medication's details, reminders or whether it is still taken
+   */
+  const updateMedication = useCallback(async (
+    id: string,
+    updates: Partial<NewMedication> & { active?: boolean }
+  ): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      await updateMutation.mutateAsync({ id, updates });
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error updating medication:', err);
+      toast({
+        title: "Update Failed",
+        description: `Failed to update medication: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [userId, updateMutation, toast]);
+
+  /**
+   * Delete a medication and its dose history
+   */
+  const deleteMedication = useCallback(async (id: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      await deleteMutation.mutateAsync(id);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error deleting medication:', err);
+      toast({
+        title: "Delete Failed",
+        description: `Failed to delete medication: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [userId, deleteMutation, toast]);
+
+  /**
+   * Refetch medications
+   */
+  const { refetch: refetchQuery } = medicationsQuery;
+  const refetch = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
+
+  return {
+    medications,
+    activeMedications,
+    loading: medicationsQuery.isLoading,
+    error: medicationsQuery.error ? medicationsQuery.error.message : null,
+    refetch,
+    addMedication,
+    updateMedication,
+    deleteMedication
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Production-grade hook for long-range nutrition analytics
+ * Combines the daily summaries in a date range with the user's goal history
+ */
+
+import { useMemo } from 'react';
+import { useDailySummaryRange } from '@/hooks/useDailySummaryRange';
+import { useGoalHistory } from '@/hooks/useGoalHistory';
+import type { NutritionGoals } from '@/hooks/useNutritionGoals';
+import { addDays } from '@/lib/dateUtils';
+import { calculateRangeAnalytics, type DayTotals, type RangeAnalytics } from '@/lib/nutritionAnalytics';
+
+export interface UseNutritionAnalyticsResult {
+  analytics: RangeAnalytics | null;
+  goalHistory: NutritionGoals[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useNutritionAnalytics(startDate: string, endDate: string): UseNutritionAnalyticsResult {
+  const { summaries, loading: summariesLoading, error: summariesError } = useDailySummaryRange(startDate, endDate);
+  const { history: goalHistory, loading: historyLoading, error: historyError } = useGoalHistory();
+
+  // One row per day in the range, with zeros where nothing was logged
+  const days = useMemo(() => {
+    const rows: DayTotals[] = [];
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      const summary = summaries[date];
+      rows.push({
+        date,
+        total_calories: summary?.total_calories ?? 0,
+        total_carbs: summary?.total_carbs ?? 0,
+        total_fats: summary?.total_fats ?? 0,
+        total_proteins: summary?.total_proteins ?? 0,
+        meals_logged: summary?.meals_logged ?? 0
+      });
+    }
+    return rows;
+  }, [summaries, startDate, endDate]);
+
+  const loading = summariesLoading || historyLoading;
+
+  const analytics = useMemo(
+    () => (loading ? null : calculateRangeAnalytics(days, goalHistory)),
+    [loading, days, goalHistory]
+  );
+
+  return {
+    analytics,
+    goalHistory,
+    loading,
+    error: summariesError || historyError
+  };
+}
@@ -3,10 +3,16 @@
  * Handles caching, error states, and real-time updates
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { cacheGoals, getCachedGoals, isNetworkError } from '@/lib/offlineStore';
+import { queryKeys } from '@/lib/queryKeys';
+import { todayKey } from '@/lib/dateUtils';
+import type { TdeeSource } from '@/lib/adaptiveTdee';
 
 export interface NutritionGoals {
   id: string;
@@ -15,6 +21,8 @@ export interface NutritionGoals {
   daily_carbs: number;
   daily_fats: number;
   daily_proteins: number;
+  tdee?: number | null;
+  tdee_source?: TdeeSource;
   calculation_date: string;
   created_at: string;
 }
@@ -27,59 +35,109 @@ export interface UseNutritionGoalsResult {
   updateGoals: (updates: Partial<Omit<NutritionGoals, 'id' | 'user_id' | 'created_at'>>) => Promise<boolean>;
 }
 
-export function useNutritionGoals(): UseNutritionGoalsResult {
-  const [goals, setGoals] = useState<NutritionGoals | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
+type GoalUpdates = Partial<Omit<NutritionGoals, 'id' | 'user_id' | 'created_at'>>;
+
+export function useNutritionGoals(date?: string): UseNutritionGoalsResult {
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+  const userId = user?.id;
+
+  // Goals are versioned by calculation_date; past days are judged by the version active then
+  const today = todayKey(timeZone);
+  const targetDate = date && date < today ? date : today;
+  const isToday = targetDate === today;
 
   /**
-   * Fetch nutrition goals for the current user
+   * Fetch the nutrition goals in effect on the target date
+   * Rows dated later are scheduled changes that have not started yet
    */
-  const fetchGoals = useCallback(async () => {
-    if (!user?.id) {
-      setGoals(null);
-      setLoading(false);
-      return;
+  const fetchGoals = useCallback(async (): Promise<NutritionGoals | null> => {
+    if (!userId) return null;
+
+    // Offline: last goals seen on this device
+    if (!navigator.onLine) {
+      return getCachedGoals<NutritionGoals>(userId);
     }
 
-    try {
-      setLoading(true);
-      setError(null);
+    const { data, error: fetchError } = await supabase
+      .from('nutrition_goals')
+      .select('*')
+      .eq('user_id', userId)
+      .lte('calculation_date', targetDate)
+      .order('calculation_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) {
+      if (isNetworkError(fetchError)) {
+        return getCachedGoals<NutritionGoals>(userId);
+      }
+      console.error('Error fetching nutrition goals:', fetchError);
+      throw new Error(`Failed to fetch nutrition goals: ${fetchError.message}`);
+    }
 
-      const { data, error: fetchError } = await supabase
+    if (data && isToday) {
+      await cacheGoals(userId, data);
+    }
+    return data;
+  }, [userId, targetDate, isToday]);
+
+  const goalsQuery = useQuery({
+    queryKey: isToday ? queryKeys.nutritionGoals(userId ?? '') : queryKeys.goalsOn(userId ?? '', targetDate),
+    queryFn: fetchGoals,
+    enabled: !!userId,
+    networkMode: 'always' // falls back to the offline store itself
+  });
+
+  const goalsMutation = useMutation({
+    mutationFn: async (updates: GoalUpdates): Promise<NutritionGoals> => {
+      // Today's row is a whole new version when the last one started earlier, so carry over
+      // what the updates leave out (tdee, bmr, tdee_source...) from the version in effect
+      const { data: current, error: currentError } = await supabase
         .from('nutrition_goals')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('user_id', userId!)
+        .lte('calculation_date', today)
         .order('calculation_date', { ascending: false })
         .limit(1)
         .maybeSingle();
 
-      if (fetchError) {
-        console.error('Error fetching nutrition goals:', fetchError);
-        setError(`Failed to fetch nutrition goals: ${fetchError.message}`);
-        return;
-      }
+      if (currentError) throw currentError;
 
-      setGoals(data);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(errorMessage);
-      console.error('Unexpected error fetching nutrition goals:', err);
-    } finally {
-      setLoading(false);
+      const { id: _id, created_at: _createdAt, ...inEffect } = (current ?? {}) as Partial<NutritionGoals>;
+      const goalData = {
+        ...inEffect,
+        user_id: userId!,
+        calculation_date: today,
+        ...updates
+      };
+
+      const { data, error: updateError } = await supabase
+        .from('nutrition_goals')
+        .upsert(goalData, {
+          onConflict: 'user_id,calculation_date'
+        })
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+      return data;
+    },
+    onSuccess: async (data) => {
+      queryClient.setQueryData(queryKeys.nutritionGoals(userId!), data);
+      queryClient.invalidateQueries({ queryKey: queryKeys.goalHistory(userId!) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.goalsOnDates(userId!) });
+      await cacheGoals(userId!, data);
     }
-  }, [user?.id]);
+  });
 
   /**
    * Update nutrition goals
    */
-  const updateGoals = useCallback(async (
-    updates: Partial<Omit<NutritionGoals, 'id' | 'user_id' | 'created_at'>>
-  ): Promise<boolean> => {
-    if (!user?.id) {
+  const updateGoals = useCallback(async (updates: GoalUpdates): Promise<boolean> => {
+    if (!userId) {
       toast({
         title: "Authentication Error",
         description: "Please log in to update nutrition goals.",
@@ -89,90 +147,37 @@ export function useNutritionGoals(): UseNutritionGoalsResult {
     }
 
     try {
-      const goalData = {
-        user_id: user.id,
-        calculation_date: new Date().toISOString().split('T')[0],
-        ...updates
-      };
-
-      const { data, error: updateError } = await supabase
-        .from('nutrition_goals')
-        .upsert(goalData, {
-          onConflict: 'user_id,calculation_date'
-        })
-        .select()
-        .single();
-
-      if (updateError) {
-        console.error('Error updating nutrition goals:', updateError);
-        toast({
-          title: "Update Failed",
-          description: `Failed to update nutrition goals: ${updateError.message}`,
-          variant: "destructive"
-        });
-        return false;
-      }
-
-      setGoals(data);
+      await goalsMutation.mutateAsync(updates);
       toast({
         title: "Goals Updated",
         description: "Your nutrition goals have been successfully updated.",
       });
-      
       return true;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      console.error('Unexpected error updating nutrition goals:', err);
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error updating nutrition goals:', err);
       toast({
-        title: "Update Error",
-        description: errorMessage,
+        title: "Update Failed",
+        description: `Failed to update nutrition goals: ${errorMessage}`,
         variant: "destructive"
       });
       return false;
     }
-  }, [user?.id, toast]);
+  }, [userId, goalsMutation, toast]);
 
   /**
    * Refetch goals (useful for manual refresh)
    */
+  const { refetch: refetchQuery } = goalsQuery;
   const refetch = useCallback(async () => {
-    await fetchGoals();
-  }, [fetchGoals]);
-
-  // Initial fetch and setup real-time subscription
-  useEffect(() => {
-    fetchGoals();
-
-    // Set up real-time subscription for nutrition goals changes
-    if (user?.id) {
-      const subscription = supabase
-        .channel(`nutrition_goals_${user.id}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'nutrition_goals',
-            filter: `user_id=eq.${user.id}`
-          },
-          (payload) => {
-            console.log('Nutrition goals updated:', payload);
-            fetchGoals(); // Refetch on any change
-          }
-        )
-        .subscribe();
-
-      return () => {
-        subscription.unsubscribe();
-      };
-    }
-  }, [user?.id, fetchGoals]);
+    await refetchQuery();
+  }, [refetchQuery]);
 
   return {
-    goals,
-    loading,
-    error,
+    goals: goalsQuery.data ?? null,
+    loading: goalsQuery.isLoading,
+    error: goalsQuery.error ? goalsQuery.error.message : null,
     refetch,
     updateGoals
   };
-}
\ No newline at end of file
+}
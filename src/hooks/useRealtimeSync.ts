@@ -0,0 +1,202 @@
+/**
+ * Realtime sync for the shared query cache
+ * One channel per signed-in user pushes meal, summary, goal, activity, weigh-in and medication changes made
+ * on other devices straight into the cached queries, so every open view updates without a refetch.
+ * Echoes of this device's own writes are skipped; the optimistic cache already shows them.
+ */
+
+import { useEffect } from 'react';
+import { useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { invalidateNutritionTotals, queryKeys } from '@/lib/queryKeys';
+import { isLocalWrite } from '@/lib/localWrites';
+import { addDays, todayKey } from '@/lib/dateUtils';
+import { findCachedMeal, patchCachedMealLists, type MealLog } from '@/hooks/useMealLogs';
+import type { DailySummary } from '@/hooks/useDailySummary';
+import type { WeeklySummaryData } from '@/hooks/useWeeklySummary';
+import type { NutritionGoals } from '@/hooks/useNutritionGoals';
+import type { ActivityData } from '@/hooks/useActivityData';
+
+type Change = RealtimePostgresChangesPayload<Record<string, unknown>>;
+
+interface SyncTarget {
+  queryClient: QueryClient;
+  userId: string;
+  timeZone: string;
+}
+
+// Deletes only carry the primary key: the old row of a table with RLS is trimmed to it
+const changedRow = <T>(payload: Change) =>
+  (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<T>;
+
+function applyMealChange({ queryClient, userId, timeZone }: SyncTarget, payload: Change) {
+  const row = changedRow<MealLog>(payload);
+  if (!row.id || isLocalWrite('meal_logs', row.id)) return;
+
+  // Ranges around workouts aren't patched in place
+  queryClient.invalidateQueries({ queryKey: queryKeys.mealLogRanges(userId) });
+
+  const before = findCachedMeal(queryClient, userId, row.id);
+  if (payload.eventType === 'DELETE') {
+    if (before) patchCachedMealLists(queryClient, userId, before, null, timeZone);
+    return;
+  }
+  // Totals follow through the daily_nutrition_summary change the trigger emits
+  patchCachedMealLists(queryClient, userId, before, row as MealLog, timeZone);
+}
+
+function applySummaryChange({ queryClient, userId }: SyncTarget, payload: Change) {
+  // Cached totals include optimistic deltas while meal writes are in flight;
+  // the refetch once they settle brings in the server figures instead
+  if (queryClient.isMutating({ mutationKey: queryKeys.mealLogs(userId) }) > 0) return;
+
+  const row = changedRow<DailySummary>(payload);
+  if (payload.eventType === 'DELETE' || !row.date) {
+    invalidateNutritionTotals(queryClient, userId);
+    return;
+  }
+
+  queryClient.setQueryData(queryKeys.dailySummary(userId, row.date), row as DailySummary);
+  queryClient.invalidateQueries({ queryKey: queryKeys.summaryRanges(userId) });
+
+  const day: WeeklySummaryData = {
+    date: row.date,
+    total_calories: row.total_calories ?? 0,
+    total_carbs: row.total_carbs ?? 0,
+    total_fats: row.total_fats ?? 0,
+    total_proteins: row.total_proteins ?? 0,
+    meals_logged: row.meals_logged ?? 0
+  };
+  queryClient.getQueriesData<WeeklySummaryData[]>({ queryKey: queryKeys.weeklySummaries(userId) }).forEach(([key, week]) => {
+    if (week?.some(existing => existing.date === day.date)) {
+      queryClient.setQueryData(key, week.map(existing => (existing.date === day.date ? day : existing)));
+    }
+  });
+}
+
+function applyGoalsChange({ queryClient, userId, timeZone }: SyncTarget, payload: Change) {
+  if (payload.eventType === 'DELETE') {
+    queryClient.invalidateQueries({ queryKey: queryKeys.nutritionGoals(userId) });
+    return;
+  }
+
+  // Today's goals are the latest version that has started; older rows and scheduled
+  // changes leave them as they are
+  const row = payload.new as unknown as NutritionGoals;
+  if (row.calculation_date <= todayKey(timeZone)) {
+    queryClient.setQueryData<NutritionGoals | null>(queryKeys.nutritionGoals(userId), current =>
+      !current || row.calculation_date >= current.calculation_date ? row : current
+    );
+  }
+  queryClient.invalidateQueries({ queryKey: queryKeys.goalHistory(userId) });
+  queryClient.invalidateQueries({ queryKey: queryKeys.goalsOnDates(userId) });
+}
+
+function applyActivityChange({ queryClient, userId }: SyncTarget, payload: Change) {
+  // Single days only decide training vs rest days, so a refetch is enough
+  queryClient.invalidateQueries({ queryKey: queryKeys.activityDays(userId) });
+
+  if (payload.eventType === 'DELETE') {
+    queryClient.invalidateQueries({ queryKey: queryKeys.activityWeeks(userId) });
+    return;
+  }
+
+  const row = payload.new as unknown as ActivityData;
+  queryClient.getQueriesData<ActivityData[]>({ queryKey: queryKeys.activityWeeks(userId) }).forEach(([key, week]) => {
+    const [, , , endDate] = key as ReturnType<typeof queryKeys.activityWeek>;
+    if (!week || row.date < addDays(endDate, -7) || row.date > endDate) return;
+
+    queryClient.setQueryData(key, [row, ...week.filter(existing => existing.date !== row.date)]
+      .sort((a, b) => b.date.localeCompare(a.date)));
+  });
+}
+
+function applyWeighInChange({ queryClient, userId }: SyncTarget) {
+  // The whole history feeds the trend, so a refetch is simpler than patching it in order
+  queryClient.invalidateQueries({ queryKey: queryKeys.weighIns(userId) });
+}
+
+function applyMedicationChange({ queryClient, userId }: SyncTarget) {
+  // Schedule changes move upcoming reminders too, so refetch and let them reschedule
+  queryClient.invalidateQueries({ queryKey: queryKeys.medications(userId) });
+}
+
+function applyDoseChange({ queryClient, userId }: SyncTarget) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.medicationDoses(userId) });
+}
+
+interface TableSync {
+  apply: (target: SyncTarget, payload: Change) => void;
+  cachedUnder: (userId: string) => QueryKey[]; // where this table's rows are cached, to match deletes by id
+}
+
+const TABLES: Record<string, TableSync> = {
+  meal_logs: { apply: applyMealChange, cachedUnder: userId => [queryKeys.mealLogs(userId), queryKeys.mealLogRanges(userId)] },
+  daily_nutrition_summary: { apply: applySummaryChange, cachedUnder: userId => [queryKeys.dailySummaries(userId), queryKeys.summaryRanges(userId)] },
+  nutrition_goals: { apply: applyGoalsChange, cachedUnder: userId => [queryKeys.nutritionGoals(userId)] },
+  activity_data: { apply: applyActivityChange, cachedUnder: userId => [queryKeys.activity(userId)] },
+  weigh_ins: { apply: applyWeighInChange, cachedUnder: userId => [queryKeys.weighIns(userId)] },
+  medications: { apply: applyMedicationChange, cachedUnder: userId => [queryKeys.medications(userId)] },
+  medication_doses: { apply: applyDoseChange, cachedUnder: userId => [queryKeys.medicationDoses(userId)] }
+};
+
+// Cached data is a row, a list of rows or a record of rows by date
+const containsRow = (data: unknown, id: string, depth = 0): boolean => {
+  if (!data || typeof data !== 'object' || depth > 2) return false;
+  if ((data as { id?: unknown }).id === id) return true;
+  return Object.values(data).some(value => containsRow(value, id, depth + 1));
+};
+
+const isCachedRow = (queryClient: QueryClient, queryKeys: QueryKey[], id: string) =>
+  queryKeys.some(queryKey => queryClient.getQueriesData({ queryKey }).some(([, data]) => containsRow(data, id)));
+
+export function useRealtimeSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+
+  useEffect(() => {
+    if (!user?.id) return;
+    const userId = user.id;
+    const target: SyncTarget = { queryClient, userId, timeZone };
+
+    let channel = supabase.channel(`realtime_sync_${userId}`);
+    Object.entries(TABLES).forEach(([table, { apply, cachedUnder }]) => {
+      const filter = `user_id=eq.${userId}`;
+      channel = channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, (payload: Change) => apply(target, payload))
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, (payload: Change) => apply(target, payload));
+
+      // Realtime can't filter deletes, so they arrive for every user with only the id;
+      // act on the ones whose row this device has cached
+      channel = channel.on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table },
+        (payload: Change) => {
+          const id = changedRow<{ id: string }>(payload).id;
+          if (typeof id === 'string' && isCachedRow(queryClient, cachedUnder(userId), id)) {
+            apply(target, payload);
+          }
+        }
+      );
+    });
+
+    // Changes made while the channel was down never arrive, so catch up once it reconnects
+    let missedChanges = false;
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED' && missedChanges) {
+        missedChanges = false;
+        queryClient.invalidateQueries({ predicate: query => query.queryKey[1] === userId });
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        missedChanges = true;
+      }
+    });
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [user?.id, timeZone, queryClient]);
+}
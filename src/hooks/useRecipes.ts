@@ -0,0 +1,279 @@
+/**
+ * Production-grade hook for managing saved recipes
+ * Recipes combine food_items with gram amounts and log as one grouped meal
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { MealLog, NewMealLog } from '@/hooks/useMealLogs';
+import {
+  calculateRecipeNutrition,
+  scaleIngredients,
+  scaleServings,
+  totalMicronutrients,
+  type RecipeIngredientInput
+} from '@/lib/recipeCalculations';
+import { MICRONUTRIENT_KEYS } from '@/lib/nutritionCalculations';
+
+export interface RecipeIngredient extends RecipeIngredientInput {
+  id: string;
+  recipe_id: string;
+  position: number;
+}
+
+export interface Recipe {
+  id: string;
+  user_id: string;
+  name: string;
+  servings: number;
+  total_grams: number;
+  calories_per_serving: number;
+  carbs_per_serving: number;
+  fats_per_serving: number;
+  proteins_per_serving: number;
+  ingredients: RecipeIngredient[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewRecipe {
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredientInput[];
+}
+
+export interface UseRecipesResult {
+  recipes: Recipe[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  saveRecipe: (recipe: NewRecipe, recipeId?: string) => Promise<Recipe | null>;
+  deleteRecipe: (id: string) => Promise<boolean>;
+}
+
+/**
+ * Turn a saved recipe into a single meal log entry for the given servings
+ */
+export function buildRecipeMealLog(
+  recipe: Recipe,
+  servings: number,
+  mealType: MealLog['meal_type']
+): NewMealLog {
+  const nutrition = scaleServings(
+    {
+      calories: recipe.calories_per_serving,
+      carbs: recipe.carbs_per_serving,
+      fats: recipe.fats_per_serving,
+      proteins: recipe.proteins_per_serving
+    },
+    servings
+  );
+  const ingredients = scaleIngredients(recipe.ingredients, servings, recipe.servings);
+
+  return {
+    meal_type: mealType,
+    food_name: recipe.name,
+    portion_size: Math.round((recipe.total_grams / recipe.servings) * servings),
+    ...nutrition,
+    // Recipes keep micronutrients per ingredient only, so they come from the scaled snapshot
+    ...totalMicronutrients(ingredients),
+    recipe_id: recipe.id,
+    servings,
+    ingredients
+  };
+}
+
+export function useRecipes(): UseRecipesResult {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  /**
+   * Fetch all recipes with their ingredients
+   */
+  const fetchRecipes = useCallback(async () => {
+    if (!user?.id) {
+      setRecipes([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('recipes')
+        .select('*, ingredients:recipe_ingredients(*)')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (fetchError) {
+        console.error('Error fetching recipes:', fetchError);
+        setError(`Failed to fetch recipes: ${fetchError.message}`);
+        return;
+      }
+
+      setRecipes((data || []).map((recipe: Recipe) => ({
+        ...recipe,
+        ingredients: [...(recipe.ingredients || [])].sort((a, b) => a.position - b.position)
+      })));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      console.error('Unexpected error fetching recipes:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  /**
+   * Create or update a recipe and replace its ingredient list
+   */
+  const saveRecipe = useCallback(async (recipe: NewRecipe, recipeId?: string): Promise<Recipe | null> => {
+    if (!user?.id) {
+      toast({
+        title: "Authentication Error",
+        description: "Please log in to save recipes.",
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    if (!recipe.name.trim() || recipe.ingredients.length === 0 || recipe.servings <= 0) {
+      toast({
+        title: "Incomplete Recipe",
+        description: "A recipe needs a name, at least one ingredient and a positive servings count.",
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    try {
+      const nutrition = calculateRecipeNutrition(recipe.ingredients, recipe.servings);
+
+      // The recipe row and its ingredient list are replaced together in one transaction
+      const { data: savedRecipe, error: saveError } = await supabase.rpc('save_recipe', {
+        p_recipe_id: recipeId ?? null,
+        p_recipe: {
+          name: recipe.name.trim(),
+          servings: recipe.servings,
+          total_grams: nutrition.total_grams,
+          calories_per_serving: nutrition.per_serving.calories,
+          carbs_per_serving: nutrition.per_serving.carbs,
+          fats_per_serving: nutrition.per_serving.fats,
+          proteins_per_serving: nutrition.per_serving.proteins
+        },
+        p_ingredients: recipe.ingredients.map(ingredient => ({
+          food_item_id: ingredient.food_item_id ?? null,
+          food_name: ingredient.food_name,
+          grams: ingredient.grams,
+          calories: ingredient.calories,
+          carbs: ingredient.carbs,
+          fats: ingredient.fats,
+          proteins: ingredient.proteins,
+          ...Object.fromEntries(MICRONUTRIENT_KEYS.map(key => [key, ingredient[key] ?? null]))
+        }))
+      });
+
+      if (saveError) {
+        console.error('Error saving recipe:', saveError);
+        toast({
+          title: "Save Failed",
+          description: `Failed to save recipe: ${saveError.message}`,
+          variant: "destructive"
+        });
+        return null;
+      }
+
+      const fullRecipe = savedRecipe as Recipe;
+
+      setRecipes(prev => [...prev.filter(r => r.id !== fullRecipe.id), fullRecipe]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+
+      toast({
+        title: "Recipe Saved",
+        description: `${fullRecipe.name} (${recipe.servings} servings) is ready to log.`,
+      });
+
+      return fullRecipe;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Unexpected error saving recipe:', err);
+      toast({
+        title: "Save Error",
+        description: errorMessage,
+        variant: "destructive"
+      });
+      return null;
+    }
+  }, [user?.id, toast]);
+
+  /**
+   * Delete a recipe (logged meals keep their ingredient snapshot)
+   */
+  const deleteRecipe = useCallback(async (id: string): Promise<boolean> => {
+    if (!user?.id) return false;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('recipes')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (deleteError) {
+        console.error('Error deleting recipe:', deleteError);
+        toast({
+          title: "Delete Failed",
+          description: `Failed to delete recipe: ${deleteError.message}`,
+          variant: "destructive"
+        });
+        return false;
+      }
+
+      setRecipes(prev => prev.filter(recipe => recipe.id !== id));
+
+      toast({
+        title: "Recipe Deleted",
+        description: "The recipe has been removed.",
+      });
+
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Unexpected error deleting recipe:', err);
+      toast({
+        title: "Delete Error",
+        description: errorMessage,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [user?.id, toast]);
+
+  /**
+   * Refetch recipes
+   */
+  const refetch = useCallback(async () => {
+    await fetchRecipes();
+  }, [fetchRecipes]);
+
+  useEffect(() => {
+    fetchRecipes();
+  }, [fetchRecipes]);
+
+  return {
+    recipes,
+    loading,
+    error,
+    refetch,
+    saveRecipe,
+    deleteRecipe
+  };
+}
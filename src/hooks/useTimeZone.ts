@@ -0,0 +1,11 @@
+/**
+ * The signed-in user's timezone: their profile setting, or this device's zone until one is saved
+ */
+
+import { useProfile } from '@/contexts/ProfileContext';
+import { getDeviceTimeZone } from '@/lib/dateUtils';
+
+export function useTimeZone(): string {
+  const { profile } = useProfile();
+  return profile?.timezone || getDeviceTimeZone();
+}
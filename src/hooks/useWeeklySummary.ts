@@ -3,10 +3,14 @@
  * Provides 7-day trends and analytics for dashboard charts
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { queryKeys } from '@/lib/queryKeys';
+import { lastNDays, todayKey } from '@/lib/dateUtils';
 
 export interface WeeklySummaryData {
   date: string;
@@ -44,27 +48,15 @@ export interface UseWeeklySummaryResult {
 }
 
 export function useWeeklySummary(endDate?: string): UseWeeklySummaryResult {
-  const [weeklyData, setWeeklyData] = useState<WeeklySummaryData[]>([]);
-  const [analytics, setAnalytics] = useState<WeeklyAnalytics | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+
+  const targetEndDate = endDate || todayKey(timeZone);
 
   // Generate date range for the last 7 days
-  const generateDateRange = useCallback((endDate: string): string[] => {
-    const dates: string[] = [];
-    const end = new Date(endDate);
-    
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date(end);
-      date.setDate(end.getDate() - i);
-      dates.push(date.toISOString().split('T')[0]);
-    }
-    
-    return dates;
-  }, []);
+  const generateDateRange = useCallback((endDate: string): string[] => lastNDays(endDate, 7), []);
 
   /**
    * Calculate weekly analytics from raw data
@@ -176,45 +168,28 @@ export function useWeeklySummary(endDate?: string): UseWeeklySummaryResult {
     }
   }, [user?.id]);
 
-  /**
-   * Fetch and process weekly data
-   */
-  const fetchWeeklyData = useCallback(async () => {
-    if (!user?.id) {
-      setWeeklyData([]);
-      setAnalytics(null);
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
+  const weekQuery = useQuery({
+    queryKey: queryKeys.weeklySummary(user?.id ?? '', targetEndDate),
+    queryFn: () => fetchWeeklySummaryForDateRange(generateDateRange(targetEndDate)),
+    enabled: !!user?.id
+  });
 
-      const targetEndDate = endDate || new Date().toISOString().split('T')[0];
-      const dateRange = generateDateRange(targetEndDate);
-      
-      const data = await fetchWeeklySummaryForDateRange(dateRange);
-      const analyticsData = calculateAnalytics(data);
-      
-      setWeeklyData(data);
-      setAnalytics(analyticsData);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(errorMessage);
-      console.error('Error in fetchWeeklyData:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [user?.id, endDate, generateDateRange, fetchWeeklySummaryForDateRange, calculateAnalytics]);
+  const weeklyData = useMemo(() => weekQuery.data ?? [], [weekQuery.data]);
+  const analytics = useMemo(
+    () => (weekQuery.data ? calculateAnalytics(weekQuery.data) : null),
+    [weekQuery.data, calculateAnalytics]
+  );
 
   /**
    * Get weekly data for any specific week ending on given date
    */
   const getWeekForDate = useCallback(async (date: string): Promise<WeeklySummaryData[]> => {
+    if (!user?.id) return [];
     try {
-      const dateRange = generateDateRange(date);
-      return await fetchWeeklySummaryForDateRange(dateRange);
+      return await queryClient.fetchQuery({
+        queryKey: queryKeys.weeklySummary(user.id, date),
+        queryFn: () => fetchWeeklySummaryForDateRange(generateDateRange(date))
+      });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
       toast({
@@ -224,52 +199,21 @@ export function useWeeklySummary(endDate?: string): UseWeeklySummaryResult {
       });
       return [];
     }
-  }, [generateDateRange, fetchWeeklySummaryForDateRange, toast]);
+  }, [user?.id, queryClient, generateDateRange, fetchWeeklySummaryForDateRange, toast]);
 
   /**
    * Refetch current weekly data
    */
+  const { refetch: refetchQuery } = weekQuery;
   const refetch = useCallback(async () => {
-    await fetchWeeklyData();
-  }, [fetchWeeklyData]);
-
-  // Initial fetch and setup real-time subscription
-  useEffect(() => {
-    fetchWeeklyData();
-
-    // Set up real-time subscription for daily summary changes (affects weekly data)
-    if (user?.id) {
-      const subscription = supabase
-        .channel(`weekly_summary_${user.id}`)
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'daily_nutrition_summary',
-            filter: `user_id=eq.${user.id}`
-          },
-          (payload) => {
-            console.log('Daily summary updated (affecting weekly data):', payload);
-            // Debounced refetch to avoid excessive API calls
-            setTimeout(() => {
-              fetchWeeklyData();
-            }, 1000);
-          }
-        )
-        .subscribe();
-
-      return () => {
-        subscription.unsubscribe();
-      };
-    }
-  }, [user?.id, fetchWeeklyData]);
+    await refetchQuery();
+  }, [refetchQuery]);
 
   return {
     weeklyData,
     analytics,
-    loading,
-    error,
+    loading: weekQuery.isLoading,
+    error: weekQuery.error ? weekQuery.error.message : null,
     refetch,
     getWeekForDate
   };
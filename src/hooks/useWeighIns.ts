@@ -0,0 +1,198 @@
+/**
+ * Production-grade hook for the weigh-in log
+ * Loads the full history (the trend needs every reading) and derives the smoothed trend
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useTimeZone } from '@/hooks/useTimeZone';
+import { queryKeys } from '@/lib/queryKeys';
+import { todayKey } from '@/lib/dateUtils';
+import { smoothWeights, weeklyRateOfChange, type WeightTrendPoint } from '@/lib/weightTrend';
+
+export interface WeighIn {
+  id: string;
+  user_id: string;
+  weight_kg: number;
+  measured_at: string;
+  notes?: string | null;
+  created_at: string;
+}
+
+export interface NewWeighIn {
+  weight_kg: number;
+  measured_at?: string; // Optional, defaults to current time
+  notes?: string | null;
+}
+
+export interface UseWeighInsResult {
+  weighIns: WeighIn[]; // oldest first
+  trend: WeightTrendPoint[];
+  trendWeight: number | null;
+  ratePerWeek: number; // kg/week, negative when losing
+  loading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  addWeighIn: (weighIn: NewWeighIn) => Promise<boolean>;
+  deleteWeighIn: (id: string) => Promise<boolean>;
+}
+
+const NO_WEIGH_INS: WeighIn[] = [];
+
+export function useWeighIns(): UseWeighInsResult {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const timeZone = useTimeZone();
+  const userId = user?.id;
+
+  /**
+   * Fetch every weigh-in for the current user
+   */
+  const fetchWeighIns = useCallback(async (): Promise<WeighIn[]> => {
+    if (!userId) return [];
+
+    const { data, error: fetchError } = await supabase
+      .from('weigh_ins')
+      .select('*')
+      .eq('user_id', userId)
+      .order('measured_at', { ascending: true });
+
+    if (fetchError) {
+      console.error('Error fetching weigh-ins:', fetchError);
+      throw new Error(`Failed to fetch weigh-ins: ${fetchError.message}`);
+    }
+
+    return data || [];
+  }, [userId]);
+
+  const weighInsQuery = useQuery({
+    queryKey: queryKeys.weighIns(userId ?? ''),
+    queryFn: fetchWeighIns,
+    enabled: !!userId
+  });
+
+  const weighIns = weighInsQuery.data ?? NO_WEIGH_INS;
+
+  const trend = useMemo(
+    () => smoothWeights(weighIns, timeZone, todayKey(timeZone)),
+    [weighIns, timeZone]
+  );
+  const ratePerWeek = useMemo(() => weeklyRateOfChange(trend), [trend]);
+
+  const addMutation = useMutation({
+    mutationFn: async (weighIn: NewWeighIn): Promise<WeighIn> => {
+      const { data, error: insertError } = await supabase
+        .from('weigh_ins')
+        .insert([{
+          user_id: userId!,
+          ...weighIn,
+          measured_at: weighIn.measured_at || new Date().toISOString()
+        }])
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData<WeighIn[]>(queryKeys.weighIns(userId!), (current = []) =>
+        [...current, data].sort((a, b) => a.measured_at.localeCompare(b.measured_at))
+      );
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error: deleteError } = await supabase
+        .from('weigh_ins')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId!);
+
+      if (deleteError) throw deleteError;
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.setQueryData<WeighIn[]>(queryKeys.weighIns(userId!), (current = []) =>
+        current.filter(weighIn => weighIn.id !== id)
+      );
+    }
+  });
+
+  /**
+   * Log a new weigh-in
+   */
+  const addWeighIn = useCallback(async (weighIn: NewWeighIn): Promise<boolean> => {
+    if (!userId) {
+      toast({
+        title: "Authentication Error",
+        description: "Please log in to record your weight.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    try {
+      await addMutation.mutateAsync(weighIn);
+      toast({
+        title: "Weigh-in Logged",
+        description: `${weighIn.weight_kg} kg has been added to your weight history.`,
+      });
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error adding weigh-in:', err);
+      toast({
+        title: "Add Failed",
+        description: `Failed to record weigh-in: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [userId, addMutation, toast]);
+
+  /**
+   * Delete a weigh-in
+   */
+  const deleteWeighIn = useCallback(async (id: string): Promise<boolean> => {
+    if (!userId) return false;
+
+    try {
+      await deleteMutation.mutateAsync(id);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unknown error occurred';
+      console.error('Error deleting weigh-in:', err);
+      toast({
+        title: "Delete Failed",
+        description: `Failed to delete weigh-in: ${errorMessage}`,
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [userId, deleteMutation, toast]);
+
+  /**
+   * Refetch weigh-ins
+   */
+  const { refetch: refetchQuery } = weighInsQuery;
+  const refetch = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
+
+  return {
+    weighIns,
+    trend,
+    trendWeight: trend.length > 0 ? trend[trend.length - 1].trend : null,
+    ratePerWeek,
+    loading: weighInsQuery.isLoading,
+    error: weighInsQuery.error ? weighInsQuery.error.message : null,
+    refetch,
+    addWeighIn,
+    deleteWeighIn
+  };
+}
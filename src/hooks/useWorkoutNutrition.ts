@@ -0,0 +1,116 @@
+/**
+ * Production-grade hook for pre- and post-workout nutrition
+ * Takes the past week's exercise sessions, loads the meals logged around them and scores
+ * how well each workout was fueled against the gym template targets.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useActivityData } from '@/hooks/useActivityData';
+import { useNutritionGoals } from '@/hooks/useNutritionGoals';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  analyzeWorkouts,
+  clampWindowMinutes,
+  collectSessions,
+  DEFAULT_WORKOUT_WINDOWS,
+  mealSpan,
+  workoutGoalType,
+  type FuelingMeal,
+  type WorkoutFueling,
+  type WorkoutGoalType,
+  type WorkoutWindows
+} from '@/lib/workoutNutrition';
+
+export interface UseWorkoutNutritionResult {
+  workouts: WorkoutFueling[]; // newest first
+  windows: WorkoutWindows;
+  goalType: WorkoutGoalType;
+  averageScore: number | null;
+  loading: boolean;
+  error: string | null;
+  updateWindows: (windows: WorkoutWindows) => Promise<boolean>;
+}
+
+const NO_MEALS: FuelingMeal[] = [];
+
+// Used until nutrition goals exist, matching the Dashboard's fallback target
+const DEFAULT_DAILY_CALORIES = 2000;
+
+export function useWorkoutNutrition(): UseWorkoutNutritionResult {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { goals: nutritionGoals } = useNutritionGoals();
+  const { weeklyActivity, goals: activityGoals, loading: activityLoading, updateGoals } = useActivityData();
+  const userId = user?.id;
+
+  const windows = useMemo((): WorkoutWindows => ({
+    pre_minutes: activityGoals?.pre_workout_window_minutes ?? DEFAULT_WORKOUT_WINDOWS.pre_minutes,
+    post_minutes: activityGoals?.post_workout_window_minutes ?? DEFAULT_WORKOUT_WINDOWS.post_minutes
+  }), [activityGoals?.pre_workout_window_minutes, activityGoals?.post_workout_window_minutes]);
+
+  const sessions = useMemo(() => collectSessions(weeklyActivity), [weeklyActivity]);
+  const span = useMemo(() => mealSpan(sessions, windows), [sessions, windows]);
+
+  /**
+   * Fetch the meals logged from the earliest pre-workout window to the latest post-workout one
+   */
+  const fetchMeals = useCallback(async (): Promise<FuelingMeal[]> => {
+    if (!userId || !span) return [];
+
+    const { data, error: fetchError } = await supabase
+      .from('meal_logs')
+      .select('id, food_name, meal_type, calories, carbs, proteins, logged_at')
+      .eq('user_id', userId)
+      .gte('logged_at', span.start)
+      .lte('logged_at', span.end)
+      .order('logged_at', { ascending: true });
+
+    if (fetchError) {
+      console.error('Error fetching workout meals:', fetchError);
+      throw new Error(`Failed to fetch meals around workouts: ${fetchError.message}`);
+    }
+
+    return data || [];
+  }, [userId, span]);
+
+  const mealsQuery = useQuery({
+    queryKey: queryKeys.mealLogRange(userId ?? '', span?.start ?? '', span?.end ?? ''),
+    queryFn: fetchMeals,
+    enabled: !!userId && !!span
+  });
+
+  const meals = mealsQuery.data ?? NO_MEALS;
+  const goalType = workoutGoalType(profile?.weight ?? null, profile?.target_weight ?? null);
+  const dailyCalories = nutritionGoals?.daily_calories || DEFAULT_DAILY_CALORIES;
+
+  const workouts = useMemo(
+    () => analyzeWorkouts(sessions, meals, { dailyCalories, goalType, windows }),
+    [sessions, meals, dailyCalories, goalType, windows]
+  );
+
+  const averageScore = workouts.length > 0
+    ? Math.round(workouts.reduce((sum, workout) => sum + workout.score, 0) / workouts.length)
+    : null;
+
+  /**
+   * Save how long before and after a session meals count towards it
+   */
+  const updateWindows = useCallback((next: WorkoutWindows) => updateGoals({
+    pre_workout_window_minutes: clampWindowMinutes(next.pre_minutes),
+    post_workout_window_minutes: clampWindowMinutes(next.post_minutes)
+  }), [updateGoals]);
+
+  return {
+    workouts,
+    windows,
+    goalType,
+    averageScore,
+    loading: activityLoading || mealsQuery.isLoading,
+    error: mealsQuery.error ? mealsQuery.error.message : null,
+    updateWindows
+  };
+}
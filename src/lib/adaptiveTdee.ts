@@ -0,0 +1,93 @@
+/**
+ * Adaptive TDEE: energy expenditure estimated from what the user actually ate and how their
+ * weight trend moved, instead of a formula multiplier.
+ * Over a window, intake - expenditure = stored energy, so expenditure = average intake minus
+ * the daily energy implied by the trend's change (about 7700 kcal per kg of body mass).
+ */
+
+import { addDays } from '@/lib/dateUtils';
+import type { WeightTrendPoint } from '@/lib/weightTrend';
+
+export const KCAL_PER_KG = 7700;
+
+export const ADAPTIVE_WINDOW_DAYS = 28;
+
+// Below these the estimate is not reported at all
+const MIN_LOGGED_DAYS = 7;
+const MIN_TREND_SPAN_DAYS = 14;
+
+// Outside this range the data are almost certainly incomplete rather than the body unusual
+const PLAUSIBLE_TDEE = { min: 1200, max: 5000 };
+
+export type TdeeConfidence = 'low' | 'medium' | 'high';
+export type TdeeSource = 'formula' | 'adaptive';
+
+export interface IntakeDay {
+  date: string;
+  total_calories: number;
+  meals_logged: number;
+}
+
+export interface AdaptiveTdeeEstimate {
+  tdee: number;
+  avg_intake: number;
+  weight_change_kg: number; // trend change across the span
+  trend_span_days: number;
+  days_logged: number;
+  weigh_ins: number;
+  window_days: number;
+  confidence: TdeeConfidence;
+}
+
+/**
+ * Estimate expenditure over the `windowDays` ending on `endDate`
+ * `days` should cover the window with complete days only (leave today out); days whose
+ * logging looks incomplete should already be filtered by the caller.
+ */
+export function estimateAdaptiveTDEE(
+  days: IntakeDay[],
+  trend: WeightTrendPoint[],
+  endDate: string,
+  windowDays: number = ADAPTIVE_WINDOW_DAYS
+): AdaptiveTdeeEstimate | null {
+  const startDate = addDays(endDate, -windowDays + 1);
+  const inWindow = (date: string) => date >= startDate && date <= endDate;
+
+  const logged = days.filter(day => inWindow(day.date) && day.meals_logged > 0);
+  const trendWindow = trend.filter(point => inWindow(point.date));
+  const weighIns = trendWindow.filter(point => point.weight !== null).length;
+
+  if (logged.length < MIN_LOGGED_DAYS || trendWindow.length < MIN_TREND_SPAN_DAYS || weighIns < 2) {
+    return null;
+  }
+
+  const avgIntake = logged.reduce((sum, day) => sum + day.total_calories, 0) / logged.length;
+  const first = trendWindow[0];
+  const last = trendWindow[trendWindow.length - 1];
+  const spanDays = trendWindow.length - 1;
+  const weightChange = last.trend - first.trend;
+
+  const tdee = Math.round(avgIntake - (weightChange * KCAL_PER_KG) / spanDays);
+
+  const loggedShare = logged.length / windowDays;
+  let confidence: TdeeConfidence = 'low';
+  if (loggedShare >= 0.8 && weighIns >= 8) {
+    confidence = 'high';
+  } else if (loggedShare >= 0.6 && weighIns >= 4) {
+    confidence = 'medium';
+  }
+  if (tdee < PLAUSIBLE_TDEE.min || tdee > PLAUSIBLE_TDEE.max) {
+    confidence = 'low';
+  }
+
+  return {
+    tdee,
+    avg_intake: Math.round(avgIntake),
+    weight_change_kg: Math.round(weightChange * 100) / 100,
+    trend_span_days: spanDays,
+    days_logged: logged.length,
+    weigh_ins: weighIns,
+    window_days: windowDays,
+    confidence
+  };
+}
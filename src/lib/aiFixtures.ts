@@ -0,0 +1,115 @@
+/**
+ * Canned AI responses for the offline fixture provider
+ * Lets the Chatbot and photo analysis run without an API key or network
+ */
+
+export interface AIFixture {
+  id: string;
+  match: RegExp; // tested against the prompt (or the latest user message in chat)
+  image?: boolean; // true = only image requests, false = only text, unset = either
+  response: string | Record<string, unknown>;
+}
+
+const PLATE_ANALYSIS = {
+  items: [
+    {
+      foodName: 'Rice (white, cooked)',
+      confidence: 0.9,
+      nutrition: { calories: 195, carbs: 42, proteins: 4, fats: 0.4, fiber: 0.6, sugar: 0.1, sodium: 2 },
+      glycemicIndex: 73,
+      portionSize: { estimated: '1 cup', grams: 150 }
+    },
+    {
+      foodName: 'Chicken Curry',
+      confidence: 0.8,
+      nutrition: { calories: 290, carbs: 9, proteins: 26, fats: 16, fiber: 2, sugar: 4, sodium: 620 },
+      glycemicIndex: 30,
+      portionSize: { estimated: '1 bowl', grams: 200 }
+    },
+    {
+      foodName: 'Green Salad',
+      confidence: 0.75,
+      nutrition: { calories: 25, carbs: 5, proteins: 1.5, fats: 0.3, fiber: 2, sugar: 2.5, sodium: 30 },
+      glycemicIndex: 15,
+      portionSize: { estimated: '1 cup', grams: 80 }
+    }
+  ],
+  mealType: 'lunch',
+  suggestions: [
+    'Swap half the rice for extra salad to lower the glycemic load',
+    'Good protein portion from the chicken curry'
+  ]
+};
+
+export const DEFAULT_AI_FIXTURES: AIFixture[] = [
+  {
+    id: 'food-image',
+    image: true,
+    match: /food image/i,
+    response: PLATE_ANALYSIS
+  },
+  {
+    id: 'meal-suggestions',
+    image: false,
+    match: /Generate (breakfast|lunch|dinner|snack) suggestions/i,
+    response: {
+      message: 'Here are some great options for you (demo mode):\n\n1. Greek yogurt bowl with berries and oats - about 350 kcal, 25g protein, 10 minutes\n2. Chicken and quinoa salad with olive oil dressing - about 480 kcal, 38g protein, 20 minutes\n3. Lentil soup with a slice of wholegrain bread - about 420 kcal, 22g protein, 30 minutes',
+      suggestions: ['Get recipe for meal 1', 'Nutrition breakdown', 'More meal ideas'],
+      actionType: 'meal_suggestion'
+    }
+  },
+  {
+    id: 'progress-analysis',
+    image: false,
+    match: /Analyze the nutrition and activity progress/i,
+    response: {
+      message: "Here's your progress summary (demo mode):\n\nYou're logging meals consistently, which is the foundation of every goal. Protein is trending slightly under target, so add a protein source to breakfast.\n\nFocus for next week: keep logging every meal and aim for 7,000+ steps a day.",
+      suggestions: ['Set new goal', 'Adjust nutrition plan', 'Track specific metric'],
+      actionType: 'progress_analysis'
+    }
+  },
+  // Chat planning: the user's words are quoted at the end of the prompt
+  {
+    id: 'assistant-log-meal',
+    image: false,
+    match: /User message: "[^"]*\b(?:log|ate|had)\b/i,
+    response: {
+      message: "I'll add that to your log (demo mode) - check the details and confirm.",
+      suggestions: ['How am I doing today?', 'Suggest healthy lunch ideas'],
+      toolCall: {
+        name: 'log_meal',
+        arguments: { food_name: 'Banana', meal_type: 'snack', portion_size: 118, calories: 105, carbs: 27, proteins: 1.3, fats: 0.4, fiber: 3.1, sugar: 14 }
+      }
+    }
+  },
+  {
+    id: 'assistant-meal-ideas',
+    image: false,
+    match: /User message: "[^"]*\b(?:ideas|suggest)/i,
+    response: {
+      message: 'Let me find some lunch ideas for you.',
+      suggestions: [],
+      toolCall: { name: 'suggest_meals', arguments: { meal_type: 'lunch' } }
+    }
+  },
+  {
+    id: 'assistant-progress',
+    image: false,
+    match: /User message: "[^"]*\b(?:progress|how am i doing)/i,
+    response: {
+      message: "Let's look at your progress.",
+      suggestions: [],
+      toolCall: { name: 'analyze_progress', arguments: { timeframe: 'daily' } }
+    }
+  },
+  {
+    id: 'nutrition-advice',
+    image: false,
+    match: /[\s\S]*/,
+    response: {
+      message: "This is a demo answer from the offline AI fixtures.\n\nBuild each meal around a palm-sized protein, a fist of complex carbs and half a plate of vegetables. Drink water through the day and keep snacks simple, like fruit with a handful of nuts.",
+      suggestions: ['Tell me more', 'Any other tips?', 'What about meal timing?'],
+      actionType: 'nutrition_advice'
+    }
+  }
+];
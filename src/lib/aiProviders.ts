@@ -0,0 +1,527 @@
+/**
+ * Pluggable AI providers for chat, streamed chat, vision analysis and structured JSON output
+ * Gemini, any OpenAI-compatible server (Ollama, llama.cpp, LM Studio...) and an offline fixture backend
+ */
+
+import { DEFAULT_AI_FIXTURES, type AIFixture } from '@/lib/aiFixtures';
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AIImageInput {
+  data: string; // base64 without the data: prefix
+  mimeType: string;
+}
+
+export interface AIChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIRequestOptions {
+  image?: AIImageInput;
+  temperature?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal; // cancels the in-flight request
+}
+
+export interface AIStreamOptions extends AIRequestOptions {
+  onText: (text: string) => void; // called with the whole reply so far after each chunk
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  name: string; // shown in the UI, e.g. "Gemini AI"
+  isConfigured: () => boolean;
+  chat: (messages: AIChatMessage[], options?: AIRequestOptions) => Promise<string>;
+  streamChat: (messages: AIChatMessage[], options: AIStreamOptions) => Promise<string>; // resolves with the full reply
+  analyzeImage: (prompt: string, image: AIImageInput, options?: AIRequestOptions) => Promise<string>;
+  generateJSON: <T = unknown>(prompt: string, options?: AIRequestOptions) => Promise<T>;
+}
+
+const DEFAULT_TEMPERATURE = 0.4;
+const DEFAULT_MAX_OUTPUT_TOKENS = 2048;
+
+/**
+ * Parse a JSON reply, tolerating the ```json fences models like to add
+ */
+export function parseJSONResponse<T = unknown>(text: string): T {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return JSON.parse(fenced ? fenced[1] : trimmed) as T;
+}
+
+const JSON_ONLY_INSTRUCTION = 'Respond with ONLY valid JSON, no additional text.';
+
+export const isAbortError = (error: unknown) =>
+  (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+/**
+ * Read a server-sent events body, passing each `data:` payload on as it arrives
+ */
+async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming responses are not supported in this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (line: string) => {
+    if (line.startsWith('data:')) onData(line.slice(5).trim());
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    lines.forEach(flush);
+  }
+  flush(buffer);
+}
+
+// ---------------------------------------------------------------------------
+// Gemini
+// ---------------------------------------------------------------------------
+
+interface GeminiRequestBody {
+  contents: Array<{
+    role: 'user' | 'model';
+    parts: Array<{
+      text?: string;
+      inline_data?: {
+        mime_type: string;
+        data: string;
+      };
+    }>;
+  }>;
+  generationConfig: {
+    temperature: number;
+    topK: number;
+    topP: number;
+    maxOutputTokens: number;
+  };
+  safetySettings: Array<{
+    category: string;
+    threshold: string;
+  }>;
+}
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+  models?: string[];
+}
+
+// Prioritized list of models to try when a particular model/method is unavailable
+const GEMINI_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.1',
+  'gemini-1.5-flash',
+  'gemini-1.5',
+  'text-bison-001'
+];
+
+// Methods/endpoints to try for each model (some models support different RPC names)
+const GEMINI_METHODS = ['generateContent', 'generateText', 'generate'];
+
+const GEMINI_SAFETY_SETTINGS = [
+  'HARM_CATEGORY_HARASSMENT',
+  'HARM_CATEGORY_HATE_SPEECH',
+  'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  'HARM_CATEGORY_DANGEROUS_CONTENT'
+].map(category => ({ category, threshold: 'BLOCK_MEDIUM_AND_ABOVE' }));
+
+/**
+ * Google Gemini over the public REST API, with model/method fallback
+ */
+export function createGeminiProvider({
+  apiKey,
+  // Use v1 endpoint by default (newer models are generally published under v1)
+  baseUrl = 'https://generativelanguage.googleapis.com/v1',
+  models = GEMINI_MODELS
+}: GeminiProviderConfig): AIProvider {
+  // List available models (best-effort). Returns simple model ids like 'gemini-2.5-flash'
+  const listModels = async (): Promise<string[]> => {
+    try {
+      const res = await fetch(`${baseUrl}/models?key=${apiKey}`);
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        throw new Error(`Failed to list models: ${res.status} ${err?.error?.message || ''}`);
+      }
+      const data = await res.json();
+      // Response shape: { models: [{ name: 'models/gemini-2.5-flash', displayName: 'Gemini 2.5 Flash' }, ...] }
+      if (!Array.isArray(data.models)) return [];
+      return data.models.map((m: unknown) => {
+        // name may be 'models/gemini-2.5-flash' or just the id
+        const obj = m as Record<string, unknown>;
+        const nameVal = obj?.name ?? obj?.model ?? obj?.id ?? '';
+        return String(nameVal).replace(/^models\//, '');
+      }).filter(Boolean);
+    } catch (error) {
+      console.warn('listModels error:', error);
+      return [];
+    }
+  };
+
+  const buildRequestBody = (messages: AIChatMessage[], options: AIRequestOptions): GeminiRequestBody => {
+    // Gemini has no system role on v1; system text is prepended to the first user turn
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const turns = messages.filter(m => m.role !== 'system');
+
+    const requestBody: GeminiRequestBody = {
+      contents: turns.map((message, index) => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: index === 0 && system ? `${system}\n\n${message.content}` : message.content }]
+      })),
+      generationConfig: {
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        topK: 32,
+        topP: 1,
+        maxOutputTokens: options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      },
+      safetySettings: GEMINI_SAFETY_SETTINGS
+    };
+
+    // Add image data to the latest user turn
+    if (options.image) {
+      requestBody.contents[requestBody.contents.length - 1].parts.push({
+        inline_data: {
+          mime_type: options.image.mimeType,
+          data: options.image.data
+        }
+      });
+    }
+
+    return requestBody;
+  };
+
+  // Discover available models first (best-effort) and prefer ones that exist
+  const candidateModels = async (): Promise<string[]> => {
+    const availableModels = await listModels();
+    return availableModels.length > 0
+      ? models.filter(m => availableModels.includes(m))
+      : models;
+  };
+
+  const generate = async (messages: AIChatMessage[], options: AIRequestOptions = {}): Promise<string> => {
+    if (!apiKey) {
+      throw new Error('Gemini API key not configured');
+    }
+
+    const requestBody = buildRequestBody(messages, options);
+    const candidates = await candidateModels();
+
+    // Try prioritized models and method names
+    const tried: Array<{ model: string; method: string; status?: number; message?: string }> = [];
+
+    for (const model of candidates) {
+      for (const method of GEMINI_METHODS) {
+        const url = `${baseUrl}/models/${model}:${method}?key=${apiKey}`;
+        try {
+          const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(requestBody),
+            signal: options.signal
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            const message = errorData.error?.message || `HTTP ${response.status}`;
+            tried.push({ model, method, status: response.status, message });
+
+            // If model/method not found (404) or unsupported method (400/404), try next
+            if (response.status === 404 || response.status === 400) {
+              continue;
+            }
+
+            // For other errors, surface a helpful message
+            throw new Error(`Gemini API error: ${response.status} - ${message}`);
+          }
+
+          const data = await response.json();
+
+          // Older/newer APIs may return text in different shapes, try common accessors
+          const candidateText = data?.candidates?.[0]?.content?.parts?.[0]?.text || data?.output?.[0]?.content || data?.text || data?.responseText;
+
+          if (typeof candidateText === 'string' && candidateText.trim().length > 0) {
+            return candidateText;
+          }
+
+          tried.push({ model, method, status: 200, message: 'Unexpected response format' });
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          // network or parsing error - record and continue
+          tried.push({ model, method, message: err instanceof Error ? err.message : String(err) });
+        }
+      }
+    }
+
+    // If we reach here, none of the models/methods worked
+    const attempts = tried.map(t => `${t.model}:${t.method} => ${t.status ?? 'err'} ${t.message ?? ''}`).join('; ');
+    console.error('Gemini API model attempts:', attempts);
+    throw new Error(`Gemini API model/method not available. Tried: ${attempts}`);
+  };
+
+  // Server-sent events from streamGenerateContent, trying each model until one answers
+  const stream = async (messages: AIChatMessage[], options: AIStreamOptions): Promise<string> => {
+    if (!apiKey) {
+      throw new Error('Gemini API key not configured');
+    }
+
+    const requestBody = buildRequestBody(messages, options);
+    const tried: string[] = [];
+
+    for (const model of await candidateModels()) {
+      const response = await fetch(`${baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requestBody),
+        signal: options.signal
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        tried.push(`${model} => ${response.status} ${errorData.error?.message || ''}`);
+        if (response.status === 404 || response.status === 400) continue;
+        throw new Error(`Gemini API error: ${response.status} - ${errorData.error?.message || response.statusText}`);
+      }
+
+      let text = '';
+      await readEventStream(response, data => {
+        const chunk = JSON.parse(data);
+        const parts: Array<{ text?: string }> = chunk?.candidates?.[0]?.content?.parts || [];
+        const delta = parts.map(part => part.text || '').join('');
+        if (delta) {
+          text += delta;
+          options.onText(text);
+        }
+      });
+
+      if (text.trim()) return text;
+      tried.push(`${model} => empty stream`);
+    }
+
+    throw new Error(`Gemini API model/method not available. Tried: ${tried.join('; ')}`);
+  };
+
+  return {
+    id: 'gemini',
+    name: 'Gemini AI',
+    isConfigured: () => !!apiKey,
+    chat: (messages, options) => generate(messages, options),
+    streamChat: (messages, options) => stream(messages, options),
+    analyzeImage: (prompt, image, options) => generate([{ role: 'user', content: prompt }], { ...options, image }),
+    generateJSON: async <T>(prompt: string, options?: AIRequestOptions) => parseJSONResponse<T>(
+      await generate([{ role: 'user', content: `${prompt}\n\n${JSON_ONLY_INSTRUCTION}` }], options)
+    )
+  };
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible (/v1/chat/completions)
+// ---------------------------------------------------------------------------
+
+export interface OpenAICompatibleProviderConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string; // most local servers ignore it
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+/**
+ * Any server speaking the OpenAI chat completions API, local or hosted
+ */
+export function createOpenAICompatibleProvider({ baseUrl, model, apiKey }: OpenAICompatibleProviderConfig): AIProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const request = async (
+    messages: AIChatMessage[],
+    options: AIRequestOptions,
+    extra: Record<string, unknown> = {}
+  ): Promise<Response> => {
+    const body = {
+      model,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      messages: messages.map((message, index) => {
+        // Images ride along with the latest message as a data URL part
+        if (!options.image || index !== messages.length - 1) return message;
+        const content: OpenAIContentPart[] = [
+          { type: 'text', text: message.content },
+          { type: 'image_url', image_url: { url: `data:${options.image.mimeType};base64,${options.image.data}` } }
+        ];
+        return { role: message.role, content };
+      }),
+      ...extra
+    };
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+      },
+      body: JSON.stringify(body),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`OpenAI-compatible API error: ${response.status} - ${errorData.error?.message || response.statusText}`);
+    }
+
+    return response;
+  };
+
+  const complete = async (
+    messages: AIChatMessage[],
+    options: AIRequestOptions = {},
+    json = false
+  ): Promise<string> => {
+    const response = await request(messages, options, json ? { response_format: { type: 'json_object' } } : {});
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new Error('OpenAI-compatible API returned an empty response');
+    }
+    return text;
+  };
+
+  // stream: true replies with `data: {choices: [{delta: {content}}]}` events ending in `data: [DONE]`
+  const stream = async (messages: AIChatMessage[], options: AIStreamOptions): Promise<string> => {
+    const response = await request(messages, options, { stream: true });
+
+    let text = '';
+    await readEventStream(response, data => {
+      if (data === '[DONE]') return;
+      const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        text += delta;
+        options.onText(text);
+      }
+    });
+
+    if (!text.trim()) {
+      throw new Error('OpenAI-compatible API returned an empty response');
+    }
+    return text;
+  };
+
+  return {
+    id: 'openai',
+    name: model,
+    isConfigured: () => !!baseUrl && !!model,
+    chat: (messages, options) => complete(messages, options),
+    streamChat: (messages, options) => stream(messages, options),
+    analyzeImage: (prompt, image, options) => complete([{ role: 'user', content: prompt }], { ...options, image }),
+    generateJSON: async <T>(prompt: string, options?: AIRequestOptions) => parseJSONResponse<T>(
+      await complete([{ role: 'user', content: `${prompt}\n\n${JSON_ONLY_INSTRUCTION}` }], options, true)
+    )
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Fixtures (offline, deterministic)
+// ---------------------------------------------------------------------------
+
+export interface FixtureProviderConfig {
+  fixtures?: AIFixture[];
+  latencyMs?: number; // simulated thinking time so loading states stay visible
+  chunkSize?: number; // characters per streamed chunk
+}
+
+/**
+ * Offline provider answering from canned fixtures: the first fixture whose pattern
+ * matches the prompt (and image requirement) wins, so the same prompt always gets the same reply
+ */
+export function createFixtureProvider({
+  fixtures = DEFAULT_AI_FIXTURES,
+  latencyMs = 400,
+  chunkSize = 12
+}: FixtureProviderConfig = {}): AIProvider {
+  const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The request was aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+  const respond = async (prompt: string, hasImage: boolean, signal?: AbortSignal): Promise<string> => {
+    if (latencyMs > 0 || signal) {
+      await wait(latencyMs, signal);
+    }
+
+    const fixture = fixtures.find(f => (f.image === undefined || f.image === hasImage) && f.match.test(prompt));
+    if (!fixture) {
+      throw new Error('No AI fixture matches this request');
+    }
+    return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+  };
+
+  const lastUserMessage = (messages: AIChatMessage[]) =>
+    [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+  return {
+    id: 'mock',
+    name: 'Demo fixtures',
+    isConfigured: () => true,
+    chat: (messages, options) => respond(lastUserMessage(messages), !!options?.image, options?.signal),
+    // Replays the canned reply in small chunks, like a real stream
+    streamChat: async (messages, options) => {
+      const text = await respond(lastUserMessage(messages), !!options.image, options.signal);
+      for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+        if (latencyMs > 0) await wait(latencyMs / 20, options.signal);
+        options.onText(text.slice(0, end));
+      }
+      return text;
+    },
+    analyzeImage: (prompt, _image, options) => respond(prompt, true, options?.signal),
+    generateJSON: async <T>(prompt: string, options?: AIRequestOptions) =>
+      parseJSONResponse<T>(await respond(prompt, !!options?.image, options?.signal))
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the provider from the environment:
+ * VITE_AI_PROVIDER=gemini|openai|mock, defaulting to Gemini. Fixtures are only used when asked for
+ * explicitly, so a missing key shows up as an unconfigured provider instead of canned answers
+ */
+export function createAIProvider(env: Record<string, string | undefined> = import.meta.env): AIProvider {
+  const geminiKey = env.VITE_GEMINI_API_KEY || '';
+  const requested = (env.VITE_AI_PROVIDER || 'gemini').toLowerCase();
+
+  switch (requested) {
+    case 'gemini':
+      if (!geminiKey) {
+        console.warn('Gemini API key not found. Please add VITE_GEMINI_API_KEY to your environment variables.');
+      }
+      return createGeminiProvider({ apiKey: geminiKey });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: env.VITE_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        model: env.VITE_OPENAI_MODEL || 'llama3.2-vision',
+        apiKey: env.VITE_OPENAI_API_KEY
+      });
+    case 'mock':
+      return createFixtureProvider();
+    default:
+      console.warn(`Unknown VITE_AI_PROVIDER "${requested}", using Gemini.`);
+      return createGeminiProvider({ apiKey: geminiKey });
+  }
+}
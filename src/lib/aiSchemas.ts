@@ -0,0 +1,144 @@
+/**
+ * Zod schemas for structured AI replies
+ * Model output is untrusted: numbers may arrive as strings and required fields may be missing
+ */
+
+import { z } from 'zod';
+import type { ChatResponse, FoodAnalysisResult } from '@/lib/geminiAI';
+import type { AssistantTurn } from '@/lib/assistantTools';
+
+// null and "" would coerce to 0, hiding a missing value, so they count as absent
+const blankToUndefined = (value: unknown) => (value === null || value === '' ? undefined : value);
+
+const amount = (label: string) => z.preprocess(
+  blankToUndefined,
+  z.coerce.number({ invalid_type_error: `${label} must be a number` }).min(0, `${label} cannot be negative`)
+);
+
+const optionalAmount = (label: string) => z.preprocess(
+  blankToUndefined,
+  z.coerce.number({ invalid_type_error: `${label} must be a number` }).min(0, `${label} cannot be negative`).optional()
+);
+
+const mealTypeSchema = z.enum(['breakfast', 'lunch', 'dinner', 'snack']);
+
+export const DetectedFoodItemSchema = z.object({
+  foodName: z.string().trim().min(1, 'foodName is required'),
+  confidence: z.coerce.number().min(0).max(1).catch(0.5),
+  nutrition: z.object({
+    calories: amount('calories'),
+    carbs: amount('carbs'),
+    proteins: amount('proteins'),
+    fats: amount('fats'),
+    fiber: optionalAmount('fiber'),
+    sugar: optionalAmount('sugar'),
+    sodium: optionalAmount('sodium')
+  }),
+  glycemicIndex: z.preprocess(blankToUndefined, z.coerce.number().min(0).max(100).optional()),
+  portionSize: z.object({
+    estimated: z.string().trim().min(1, 'portionSize.estimated is required'),
+    grams: z.coerce.number().positive('portionSize.grams must be greater than 0')
+  })
+});
+
+// Without strictNullChecks zod infers every key as optional, so the exported schemas
+// are cast to the app's interfaces (the validation itself is unchanged)
+type SchemaFor<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export const FoodAnalysisSchema = z.preprocess(
+  // Accept the older single-food shape as a one-item plate
+  value => {
+    const raw = value as Record<string, unknown> | null;
+    return raw && !Array.isArray(raw.items) && raw.foodName ? { ...raw, items: [raw] } : value;
+  },
+  z.object({
+    items: z.array(DetectedFoodItemSchema).min(1, 'at least one food item is required'),
+    mealType: mealTypeSchema.optional().catch(undefined),
+    suggestions: z.array(z.string()).catch([]).default([])
+  })
+) as SchemaFor<FoodAnalysisResult>;
+
+const ChatResponseBaseSchema = z.object({
+  message: z.string().trim().min(1, 'message is required'),
+  suggestions: z.array(z.string()).catch([]).default([]),
+  data: z.record(z.unknown()).optional()
+});
+
+export const MealSuggestionSchema = ChatResponseBaseSchema
+  .transform(response => ({ ...response, actionType: 'meal_suggestion' as const })) as SchemaFor<ChatResponse>;
+
+export const ProgressAnalysisSchema = ChatResponseBaseSchema
+  .transform(response => ({ ...response, actionType: 'progress_analysis' as const })) as SchemaFor<ChatResponse>;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be YYYY-MM-DD');
+
+const mealFields = {
+  food_name: z.string().trim().min(1, 'food_name is required'),
+  meal_type: mealTypeSchema,
+  portion_size: z.coerce.number().positive('portion_size must be greater than 0'),
+  calories: amount('calories'),
+  carbs: amount('carbs'),
+  proteins: amount('proteins'),
+  fats: amount('fats')
+};
+
+const hasChanges = (value: object) => Object.values(value).some(v => v !== undefined);
+
+const ToolCallSchema = z.discriminatedUnion('name', [
+  z.object({
+    name: z.literal('log_meal'),
+    arguments: z.object({
+      ...mealFields,
+      fiber: optionalAmount('fiber'),
+      sugar: optionalAmount('sugar'),
+      sodium: optionalAmount('sodium'),
+      date: z.preprocess(blankToUndefined, dateSchema.optional())
+    })
+  }),
+  z.object({
+    name: z.literal('update_meal_log'),
+    arguments: z.object({
+      meal_id: z.string().trim().min(1, 'meal_id is required'),
+      changes: z.object({
+        food_name: mealFields.food_name.optional(),
+        meal_type: mealTypeSchema.optional(),
+        portion_size: z.preprocess(blankToUndefined, mealFields.portion_size.optional()),
+        calories: optionalAmount('calories'),
+        carbs: optionalAmount('carbs'),
+        proteins: optionalAmount('proteins'),
+        fats: optionalAmount('fats')
+      }).refine(hasChanges, 'changes must include at least one field')
+    })
+  }),
+  z.object({
+    name: z.literal('delete_meal_log'),
+    arguments: z.object({ meal_id: z.string().trim().min(1, 'meal_id is required') })
+  }),
+  z.object({
+    name: z.literal('get_daily_summary'),
+    arguments: z.object({ date: dateSchema })
+  }),
+  z.object({
+    name: z.literal('update_nutrition_goals'),
+    arguments: z.object({
+      daily_calories: optionalAmount('daily_calories'),
+      daily_carbs: optionalAmount('daily_carbs'),
+      daily_proteins: optionalAmount('daily_proteins'),
+      daily_fats: optionalAmount('daily_fats')
+    }).refine(hasChanges, 'at least one target is required')
+  }),
+  z.object({
+    name: z.literal('suggest_meals'),
+    arguments: z.object({ meal_type: mealTypeSchema })
+  }),
+  z.object({
+    name: z.literal('analyze_progress'),
+    arguments: z.object({ timeframe: z.enum(['daily', 'weekly', 'monthly']).optional().catch(undefined) }).default({})
+  })
+]);
+
+export const AssistantTurnSchema = z.object({
+  message: z.string().trim().min(1, 'message is required'),
+  suggestions: z.array(z.string()).catch([]).default([]),
+  toolCall: z.preprocess(blankToUndefined, ToolCallSchema.optional())
+}) as SchemaFor<AssistantTurn>;
@@ -0,0 +1,227 @@
+/**
+ * Structured output for AI replies: JSON extraction with repair, schema validation
+ * and one automatic re-ask that tells the model what was wrong
+ */
+
+import { z } from 'zod';
+import { isAbortError, type AIChatMessage, type AIImageInput, type AIProvider } from '@/lib/aiProviders';
+
+export type AIServiceErrorKind = 'not_configured' | 'provider' | 'invalid_json' | 'invalid_shape' | 'aborted';
+
+export class AIServiceError extends Error {
+  kind: AIServiceErrorKind;
+  issues: string[];
+  raw?: string; // last model reply, for debugging
+
+  constructor(kind: AIServiceErrorKind, message: string, issues: string[] = [], raw?: string) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.issues = issues;
+    this.raw = raw;
+  }
+}
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Best-effort repair of a model's JSON: strips prose and code fences, smart quotes,
+ * trailing commas, and closes strings/brackets left open by a truncated reply
+ */
+export function repairJSON(text: string): string {
+  const start = text.search(/[{[]/);
+  if (start === -1) return text.trim();
+
+  const source = text
+    .slice(start)
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'");
+
+  let output = '';
+  let inString = false;
+  let escaped = false;
+  const stack: string[] = [];
+
+  for (const char of source) {
+    if (inString) {
+      output += char;
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(CLOSERS[char]);
+    } else if (char === '}' || char === ']') {
+      if (stack[stack.length - 1] !== char) continue; // stray closer
+      stack.pop();
+      output = output.replace(/,\s*$/, '');
+      output += char;
+      if (stack.length === 0) break; // ignore anything after the top-level value
+      continue;
+    }
+
+    output += char;
+  }
+
+  if (inString) output += '"';
+  output = output.replace(/,\s*$/, '').replace(/:\s*$/, ': null');
+  // A truncated object may end on a key with no value; drop it
+  if (stack[stack.length - 1] === '}') {
+    output = output.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, (_, before: string) => (before === '{' ? '{' : ''));
+  }
+  return output + stack.reverse().join('');
+}
+
+/**
+ * Pull the JSON value out of a model reply, repairing it if a plain parse fails
+ */
+export function extractJSON(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  const candidate = fenced ? fenced[1] : trimmed;
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    try {
+      return JSON.parse(repairJSON(candidate));
+    } catch (error) {
+      throw new AIServiceError(
+        'invalid_json',
+        'The AI reply was not valid JSON',
+        [error instanceof Error ? error.message : String(error)],
+        text
+      );
+    }
+  }
+}
+
+/**
+ * One string field of a reply that may still be streaming in, e.g. the "message"
+ * of a half-received JSON object. Plain-text replies are returned as they are.
+ */
+export function readPartialField(text: string, field: string): string {
+  if (!/[{[]/.test(text)) return text.trim();
+  try {
+    const value = extractJSON(text) as Record<string, unknown> | null;
+    return typeof value?.[field] === 'string' ? value[field] as string : '';
+  } catch {
+    return '';
+  }
+}
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`);
+
+/**
+ * Parse and validate one reply against a schema
+ */
+export function parseStructuredReply<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const result = schema.safeParse(extractJSON(text));
+  if (!result.success) {
+    const issues = formatIssues(result.error);
+    throw new AIServiceError('invalid_shape', `The AI reply was incomplete: ${issues.join(', ')}`, issues, text);
+  }
+  return result.data;
+}
+
+export interface StructuredRequest {
+  prompt: string;
+  image?: AIImageInput;
+  history?: AIChatMessage[]; // earlier conversation turns, oldest first
+  signal?: AbortSignal;
+  onText?: (text: string) => void; // streams text replies as they arrive
+}
+
+/**
+ * Ask for structured output; on invalid JSON or a schema mismatch, re-ask once with the problems listed
+ */
+export async function generateStructured<T>(
+  provider: AIProvider,
+  request: StructuredRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<T> {
+  if (!provider.isConfigured()) {
+    throw new AIServiceError('not_configured', `${provider.name} is not configured`);
+  }
+
+  const ask = async (prompt: string) => {
+    const { image, signal, onText } = request;
+    const messages: AIChatMessage[] = [...(request.history ?? []), { role: 'user', content: prompt }];
+    try {
+      if (image) return await provider.analyzeImage(prompt, image, { signal });
+      return onText
+        ? await provider.streamChat(messages, { signal, onText })
+        : await provider.chat(messages, { signal });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw new AIServiceError('aborted', 'The request was stopped');
+      }
+      throw new AIServiceError('provider', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const firstReply = await ask(request.prompt);
+  try {
+    return parseStructuredReply(firstReply, schema);
+  } catch (error) {
+    if (!(error instanceof AIServiceError)) throw error;
+    console.warn(`Invalid ${provider.name} reply, re-asking:`, error.issues);
+
+    const retryPrompt = `${request.prompt}
+
+Your previous reply could not be used:
+${error.issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous reply:
+${firstReply.slice(0, 2000)}
+
+Reply again with ONLY the corrected JSON object in the exact format requested.`;
+
+    return parseStructuredReply(await ask(retryPrompt), schema);
+  }
+}
+
+/**
+ * User-facing title and explanation for an AI failure
+ */
+export function describeAIError(error: unknown): { title: string; description: string } {
+  if (!(error instanceof AIServiceError)) {
+    return {
+      title: "AI Assistant Error",
+      description: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  switch (error.kind) {
+    case 'aborted':
+      return {
+        title: "Stopped",
+        description: "The AI request was cancelled."
+      };
+    case 'not_configured':
+      return {
+        title: "AI Not Configured",
+        description: "Add an API key or server URL for your AI provider to use this feature."
+      };
+    case 'invalid_json':
+      return {
+        title: "Unreadable AI Reply",
+        description: "The AI answered in a format we couldn't read, even after asking again. Please try again."
+      };
+    case 'invalid_shape':
+      return {
+        title: "Incomplete AI Reply",
+        description: `The AI reply was missing information (${error.issues.slice(0, 3).join('; ')}). Please try again.`
+      };
+    default:
+      return {
+        title: "AI Service Unavailable",
+        description: error.message
+      };
+  }
+}
@@ -0,0 +1,572 @@
+/**
+ * Apple Health export import
+ * Streams export.xml, either on its own or straight out of the export.zip the Health app
+ * shares, without holding the file in memory. Day-level records are summed into activity_data
+ * days and workouts become exercise sessions. Saving is left to useAppleHealthImport.
+ */
+
+import { toDateKey } from '@/lib/dateUtils';
+import type { ActivityData, ExerciseSession } from '@/hooks/useActivityData';
+
+export const APPLE_HEALTH_SOURCE = 'apple_health';
+
+// Imported sessions get ids with this prefix, so a re-import replaces them instead of adding copies
+export const APPLE_HEALTH_SESSION_PREFIX = 'apple_health:';
+
+export type ImportPhase = 'reading' | 'saving';
+
+export interface ImportProgress {
+  phase: ImportPhase;
+  fraction: number; // 0-1 through the current phase
+  records: number;
+  workouts: number;
+}
+
+type SummedField = 'steps' | 'distance_meters' | 'calories_burned' | 'active_minutes' | 'floors_climbed';
+
+export type ImportedDay = { date: string } & Partial<Pick<
+  ActivityData,
+  SummedField | 'heart_rate_avg' | 'heart_rate_resting' | 'sleep_hours' | 'sleep_quality'
+>>;
+
+export interface ImportedSession {
+  date: string; // day the workout started, on the user's clock
+  source_name: string | null;
+  workout_type: string; // HKWorkoutActivityType... as exported
+  session: ExerciseSession & { id: string };
+}
+
+export interface AppleHealthExport {
+  days: ImportedDay[]; // oldest first
+  sessions: ImportedSession[]; // oldest first
+  records: number;
+}
+
+export interface ParseOptions {
+  timeZone: string;
+  since?: string; // first day to import, yyyy-MM-dd; older data is skipped
+  onProgress?: (progress: ImportProgress) => void;
+  signal?: AbortSignal;
+}
+
+const RECORD_FIELDS: Record<string, SummedField> = {
+  HKQuantityTypeIdentifierStepCount: 'steps',
+  HKQuantityTypeIdentifierDistanceWalkingRunning: 'distance_meters',
+  HKQuantityTypeIdentifierActiveEnergyBurned: 'calories_burned',
+  HKQuantityTypeIdentifierAppleExerciseTime: 'active_minutes',
+  HKQuantityTypeIdentifierFlightsClimbed: 'floors_climbed'
+};
+
+const HEART_RATE = 'HKQuantityTypeIdentifierHeartRate';
+const RESTING_HEART_RATE = 'HKQuantityTypeIdentifierRestingHeartRate';
+const ACTIVE_ENERGY = 'HKQuantityTypeIdentifierActiveEnergyBurned';
+const SLEEP = 'HKCategoryTypeIdentifierSleepAnalysis';
+// Asleep, AsleepCore, AsleepDeep, AsleepREM and AsleepUnspecified; InBed and Awake don't count
+const ASLEEP_PREFIX = 'HKCategoryValueSleepAnalysisAsleep';
+
+const WORKOUT_TYPES: Record<string, string> = {
+  Running: 'running',
+  Walking: 'walking',
+  Hiking: 'hiking',
+  Cycling: 'cycling',
+  Swimming: 'swimming',
+  Yoga: 'yoga',
+  TraditionalStrengthTraining: 'weightlifting',
+  FunctionalStrengthTraining: 'weightlifting',
+  HighIntensityIntervalTraining: 'hiit',
+  Rowing: 'rowing',
+  Elliptical: 'elliptical'
+};
+
+// Used when a workout has no energy figure to judge its intensity by
+const WORKOUT_INTENSITY: Record<string, ExerciseSession['exercise_intensity']> = {
+  running: 'vigorous',
+  swimming: 'vigorous',
+  hiit: 'vigorous',
+  rowing: 'vigorous',
+  yoga: 'light'
+};
+
+const UNIT_FACTORS: Record<string, number> = {
+  // distance to meters
+  m: 1,
+  km: 1000,
+  mi: 1609.344,
+  ft: 0.3048,
+  yd: 0.9144,
+  // energy to kcal
+  kcal: 1,
+  Cal: 1,
+  kJ: 1 / 4.184,
+  // time to minutes
+  min: 1,
+  hr: 60,
+  s: 1 / 60
+};
+
+// Only these elements carry data we import; everything else is skipped without parsing attributes
+const IMPORTED_ELEMENTS = new Set(['Record', 'Workout', 'WorkoutStatistics']);
+
+const PROGRESS_STEP_BYTES = 1024 * 1024;
+const QUARTER_HOUR_MS = 15 * 60_000;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP_MAX_32 = 0xffffffff;
+const EXPORT_XML_ENTRY = /(^|\/)export\.xml$/;
+
+interface ZipEntry {
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  offset: number; // of the local file header
+}
+
+/**
+ * Find a file in a zip archive from its central directory, reading only the archive's tail
+ */
+async function findZipEntry(file: Blob, pattern: RegExp): Promise<ZipEntry | null> {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KiB
+  const tailStart = Math.max(0, file.size - (22 + 0xffff + 20));
+  const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('The export archive is damaged or incomplete');
+
+  let directorySize = tail.getUint32(end + 12, true);
+  let directoryOffset = tail.getUint32(end + 16, true);
+
+  // Archives over 4 GiB keep the real values in a ZIP64 end record
+  if (directorySize === ZIP_MAX_32 || directoryOffset === ZIP_MAX_32) {
+    const locator = end - 20;
+    if (locator < 0 || tail.getUint32(locator, true) !== ZIP64_LOCATOR) {
+      throw new Error('The export archive is damaged or incomplete');
+    }
+    const zip64Offset = Number(tail.getBigUint64(locator + 8, true));
+    const zip64End = new DataView(await file.slice(zip64Offset, zip64Offset + 56).arrayBuffer());
+    if (zip64End.getUint32(0, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error('The export archive is damaged or incomplete');
+    }
+    directorySize = Number(zip64End.getBigUint64(40, true));
+    directoryOffset = Number(zip64End.getBigUint64(48, true));
+  }
+
+  const directory = new DataView(await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+  const decoder = new TextDecoder();
+
+  let p = 0;
+  while (p + 46 <= directory.byteLength && directory.getUint32(p, true) === ZIP_CENTRAL_HEADER) {
+    const nameLength = directory.getUint16(p + 28, true);
+    const extraLength = directory.getUint16(p + 30, true);
+    const commentLength = directory.getUint16(p + 32, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + p + 46, nameLength));
+
+    if (pattern.test(name)) {
+      const uncompressedSize = directory.getUint32(p + 24, true);
+      let compressedSize = directory.getUint32(p + 20, true);
+      let offset = directory.getUint32(p + 42, true);
+
+      // ZIP64 extra field: 64-bit values for whichever sizes/offset are maxed out, in this order
+      for (let e = p + 46 + nameLength; e + 4 <= p + 46 + nameLength + extraLength;) {
+        const id = directory.getUint16(e, true);
+        const length = directory.getUint16(e + 2, true);
+        if (id === 0x0001) {
+          let field = e + 4;
+          if (uncompressedSize === ZIP_MAX_32) field += 8;
+          if (compressedSize === ZIP_MAX_32) {
+            compressedSize = Number(directory.getBigUint64(field, true));
+            field += 8;
+          }
+          if (offset === ZIP_MAX_32) offset = Number(directory.getBigUint64(field, true));
+        }
+        e += 4 + length;
+      }
+
+      return { method: directory.getUint16(p + 10, true), compressedSize, offset };
+    }
+
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
+
+/**
+ * A byte stream of export.xml, counting the file bytes consumed so progress can be shown
+ */
+async function openExportXml(file: Blob, onBytes: (count: number) => void): Promise<{ stream: ReadableStream<Uint8Array>; size: number }> {
+  const counter = () => new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      onBytes(chunk.byteLength);
+      controller.enqueue(chunk);
+    }
+  });
+
+  const signature = new DataView(await file.slice(0, 4).arrayBuffer());
+  if (signature.byteLength < 4 || signature.getUint32(0, true) !== ZIP_LOCAL_HEADER) {
+    return { stream: file.stream().pipeThrough(counter()), size: file.size };
+  }
+
+  const entry = await findZipEntry(file, EXPORT_XML_ENTRY);
+  if (!entry) {
+    throw new Error('No export.xml in this archive. Use the export.zip from Health > Profile > Export All Health Data.');
+  }
+
+  const header = new DataView(await file.slice(entry.offset, entry.offset + 30).arrayBuffer());
+  if (header.getUint32(0, true) !== ZIP_LOCAL_HEADER) throw new Error('The export archive is damaged or incomplete');
+  const dataStart = entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const raw = file.slice(dataStart, dataStart + entry.compressedSize).stream().pipeThrough(counter());
+
+  if (entry.method === 0) return { stream: raw, size: entry.compressedSize };
+  if (entry.method === 8) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new Error('This browser cannot unzip the export. Unzip it first and choose export.xml instead.');
+    }
+    return { stream: raw.pipeThrough(new DecompressionStream('deflate-raw')), size: entry.compressedSize };
+  }
+  throw new Error('The export archive uses an unsupported compression method');
+}
+
+type OpenTagHandler = (name: string, attributes: Record<string, string>, selfClosing: boolean) => void;
+
+const decodeEntities = (value: string) => value.includes('&')
+  ? value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+  : value;
+
+/**
+ * Minimal streaming tag reader for the flat, attribute-only layout of export.xml
+ * Text content, comments, the DTD and processing instructions are skipped.
+ */
+class XmlTagScanner {
+  private buffer = '';
+
+  constructor(private onOpen: OpenTagHandler, private onClose: (name: string) => void) {}
+
+  push(text: string) {
+    const buffer = this.buffer + text;
+    let position = 0;
+
+    for (;;) {
+      const start = buffer.indexOf('<', position);
+      if (start === -1) {
+        position = buffer.length;
+        break;
+      }
+
+      if (buffer.startsWith('<!--', start)) {
+        const commentEnd = buffer.indexOf('-->', start + 4);
+        if (commentEnd === -1) {
+          position = start;
+          break;
+        }
+        position = commentEnd + 3;
+        continue;
+      }
+
+      // A '>' inside a quoted attribute value doesn't end the tag
+      let end = buffer.indexOf('>', start + 1);
+      while (end !== -1 && countQuotes(buffer, start, end) % 2 === 1) {
+        end = buffer.indexOf('>', end + 1);
+      }
+      if (end === -1) {
+        position = start;
+        break;
+      }
+
+      this.readTag(buffer, start, end);
+      position = end + 1;
+    }
+
+    this.buffer = buffer.slice(position);
+  }
+
+  private readTag(buffer: string, start: number, end: number) {
+    const first = buffer[start + 1];
+    if (first === '!' || first === '?') return;
+
+    if (first === '/') {
+      this.onClose(buffer.slice(start + 2, end).trim());
+      return;
+    }
+
+    let nameEnd = start + 1;
+    while (nameEnd < end && !/[\s/]/.test(buffer[nameEnd])) nameEnd++;
+    const name = buffer.slice(start + 1, nameEnd);
+    const selfClosing = buffer[end - 1] === '/';
+
+    if (!IMPORTED_ELEMENTS.has(name)) {
+      this.onOpen(name, {}, selfClosing);
+      return;
+    }
+
+    const attributes: Record<string, string> = {};
+    const pattern = /([\w:.-]+)="([^"]*)"/g;
+    const tag = buffer.slice(nameEnd, end);
+    for (let match = pattern.exec(tag); match; match = pattern.exec(tag)) {
+      attributes[match[1]] = decodeEntities(match[2]);
+    }
+    this.onOpen(name, attributes, selfClosing);
+  }
+}
+
+function countQuotes(text: string, from: number, to: number): number {
+  let count = 0;
+  for (let i = text.indexOf('"', from); i !== -1 && i < to; i = text.indexOf('"', i + 1)) count++;
+  return count;
+}
+
+/**
+ * "2024-01-05 08:30:00 -0800" -> epoch ms, NaN when unreadable
+ */
+export function parseAppleDate(value: string | undefined): number {
+  if (!value) return NaN;
+  const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(value);
+  return match ? Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`) : Date.parse(value);
+}
+
+const convertUnit = (value: number, unit: string | undefined) => value * (UNIT_FACTORS[unit ?? ''] ?? 1);
+
+function exerciseTypeFor(workoutType: string): string {
+  const name = workoutType.replace(/^HKWorkoutActivityType/, '');
+  return WORKOUT_TYPES[name] ?? (name.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase() || 'other');
+}
+
+function intensityFor(exerciseType: string, calories: number, minutes: number): ExerciseSession['exercise_intensity'] {
+  if (calories > 0 && minutes > 0) {
+    const perMinute = calories / minutes;
+    if (perMinute >= 10) return 'vigorous';
+    if (perMinute >= 5) return 'moderate';
+    return 'light';
+  }
+  return WORKOUT_INTENSITY[exerciseType] ?? 'moderate';
+}
+
+function sleepQuality(hours: number): NonNullable<ActivityData['sleep_quality']> {
+  if (hours >= 8) return 'excellent';
+  if (hours >= 7) return 'good';
+  if (hours >= 6) return 'fair';
+  return 'poor';
+}
+
+interface DayTotals {
+  sums: Partial<Record<SummedField, Map<string, number>>>; // per source
+  heartRate: { sum: number; count: number };
+  restingHeartRate: { sum: number; count: number };
+  sleepMinutes: Map<string, number>; // per source
+}
+
+interface WorkoutDraft {
+  attributes: Record<string, string>;
+  statistics: Record<string, Record<string, string>>; // by quantity type
+}
+
+const addTo = (bySource: Map<string, number>, source: string, value: number) =>
+  bySource.set(source, (bySource.get(source) ?? 0) + value);
+
+// iPhone and Watch both count the same steps; like the Health app, take one source per day
+// rather than adding them up, here the one with the highest total
+const bestSource = (bySource: Map<string, number> | undefined) =>
+  bySource && bySource.size > 0 ? Math.max(...bySource.values()) : undefined;
+
+/**
+ * Read an Apple Health export into activity days and exercise sessions
+ */
+export async function parseAppleHealthExport(file: Blob, options: ParseOptions): Promise<AppleHealthExport> {
+  const { timeZone, since, onProgress, signal } = options;
+
+  let bytesRead = 0;
+  const { stream, size } = await openExportXml(file, count => {
+    bytesRead += count;
+  });
+
+  // Every zone offset is a multiple of 15 minutes, so a UTC quarter hour never spans two local days
+  const dayKeys = new Map<number, string>();
+  const dayKeyOf = (ms: number) => {
+    const bucket = Math.floor(ms / QUARTER_HOUR_MS);
+    let key = dayKeys.get(bucket);
+    if (!key) {
+      key = toDateKey(new Date(bucket * QUARTER_HOUR_MS), timeZone);
+      dayKeys.set(bucket, key);
+    }
+    return key;
+  };
+
+  const days = new Map<string, DayTotals>();
+  const dayTotals = (date: string) => {
+    let totals = days.get(date);
+    if (!totals) {
+      totals = { sums: {}, heartRate: { sum: 0, count: 0 }, restingHeartRate: { sum: 0, count: 0 }, sleepMinutes: new Map() };
+      days.set(date, totals);
+    }
+    return totals;
+  };
+
+  const sessions = new Map<string, ImportedSession>();
+  let records = 0;
+  let workout: WorkoutDraft | null = null;
+
+  const readRecord = (attributes: Record<string, string>) => {
+    const { type } = attributes;
+    const field = RECORD_FIELDS[type];
+    const isHeartRate = type === HEART_RATE || type === RESTING_HEART_RATE;
+    const isSleep = type === SLEEP;
+    if (!field && !isHeartRate && !isSleep) return;
+    if (isSleep && !attributes.value?.startsWith(ASLEEP_PREFIX)) return;
+
+    const start = parseAppleDate(attributes.startDate);
+    const end = parseAppleDate(attributes.endDate);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) return;
+
+    // Sleep belongs to the morning it ends on
+    const date = dayKeyOf(isSleep ? end : start);
+    if (since && date < since) return;
+
+    const source = attributes.sourceName ?? '';
+    const totals = dayTotals(date);
+    records++;
+
+    if (isSleep) {
+      addTo(totals.sleepMinutes, source, (end - start) / 60_000);
+      return;
+    }
+
+    const value = parseFloat(attributes.value);
+    if (!Number.isFinite(value)) return;
+
+    if (isHeartRate) {
+      const target = type === HEART_RATE ? totals.heartRate : totals.restingHeartRate;
+      target.sum += value;
+      target.count++;
+      return;
+    }
+
+    if (!totals.sums[field]) totals.sums[field] = new Map();
+    addTo(totals.sums[field], source, convertUnit(value, attributes.unit));
+  };
+
+  const finishWorkout = ({ attributes, statistics }: WorkoutDraft) => {
+    const start = parseAppleDate(attributes.startDate);
+    const end = parseAppleDate(attributes.endDate);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) return;
+
+    const date = dayKeyOf(start);
+    if (since && date < since) return;
+
+    const workoutType = attributes.workoutActivityType ?? '';
+    const exerciseType = exerciseTypeFor(workoutType);
+    const minutes = attributes.duration
+      ? convertUnit(parseFloat(attributes.duration), attributes.durationUnit ?? 'min')
+      : (end - start) / 60_000;
+
+    // Newer exports keep totals in WorkoutStatistics, older ones on the Workout itself
+    const energy = statistics[ACTIVE_ENERGY];
+    const calories = energy?.sum
+      ? convertUnit(parseFloat(energy.sum), energy.unit)
+      : attributes.totalEnergyBurned ? convertUnit(parseFloat(attributes.totalEnergyBurned), attributes.totalEnergyBurnedUnit) : 0;
+
+    const distanceType = Object.keys(statistics).find(key => key.startsWith('HKQuantityTypeIdentifierDistance'));
+    const distance = distanceType && statistics[distanceType].sum
+      ? convertUnit(parseFloat(statistics[distanceType].sum), statistics[distanceType].unit)
+      : attributes.totalDistance ? convertUnit(parseFloat(attributes.totalDistance), attributes.totalDistanceUnit) : undefined;
+
+    const heartRate = statistics[HEART_RATE];
+    const id = `${APPLE_HEALTH_SESSION_PREFIX}${attributes.startDate}|${workoutType}`;
+
+    sessions.set(id, {
+      date,
+      source_name: attributes.sourceName ?? null,
+      workout_type: workoutType,
+      session: {
+        id,
+        exercise_type: exerciseType,
+        start_time: new Date(start).toISOString(),
+        end_time: new Date(end).toISOString(),
+        duration_minutes: Math.round(minutes || 0),
+        calories_burned: Math.round(calories || 0),
+        heart_rate_avg: heartRate?.average ? Math.round(parseFloat(heartRate.average)) : undefined,
+        heart_rate_max: heartRate?.maximum ? Math.round(parseFloat(heartRate.maximum)) : undefined,
+        distance_meters: distance != null && Number.isFinite(distance) ? Math.round(distance) : undefined,
+        exercise_intensity: intensityFor(exerciseType, calories, minutes)
+      }
+    });
+  };
+
+  const scanner = new XmlTagScanner(
+    (name, attributes, selfClosing) => {
+      if (name === 'Record') {
+        readRecord(attributes);
+      } else if (name === 'Workout') {
+        workout = { attributes, statistics: {} };
+        if (selfClosing) {
+          finishWorkout(workout);
+          workout = null;
+        }
+      } else if (name === 'WorkoutStatistics' && workout && attributes.type) {
+        workout.statistics[attributes.type] = attributes;
+      }
+    },
+    name => {
+      if (name === 'Workout' && workout) {
+        finishWorkout(workout);
+        workout = null;
+      }
+    }
+  );
+
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let reportedAt = 0;
+  try {
+    for (;;) {
+      if (signal?.aborted) throw new DOMException('Import cancelled', 'AbortError');
+
+      const { done, value } = await reader.read();
+      if (done) break;
+      scanner.push(value);
+
+      if (onProgress && bytesRead - reportedAt >= PROGRESS_STEP_BYTES) {
+        reportedAt = bytesRead;
+        onProgress({ phase: 'reading', fraction: size > 0 ? Math.min(bytesRead / size, 1) : 0, records, workouts: sessions.size });
+      }
+    }
+  } catch (err) {
+    await reader.cancel().catch(() => undefined);
+    throw err;
+  }
+  onProgress?.({ phase: 'reading', fraction: 1, records, workouts: sessions.size });
+
+  const importedDays: ImportedDay[] = [...days.entries()].map(([date, totals]) => {
+    const day: ImportedDay = { date };
+    (Object.keys(totals.sums) as SummedField[]).forEach(field => {
+      day[field] = Math.round(bestSource(totals.sums[field]) ?? 0);
+    });
+    if (totals.heartRate.count > 0) day.heart_rate_avg = Math.round(totals.heartRate.sum / totals.heartRate.count);
+    if (totals.restingHeartRate.count > 0) {
+      day.heart_rate_resting = Math.round(totals.restingHeartRate.sum / totals.restingHeartRate.count);
+    }
+    const sleepMinutes = bestSource(totals.sleepMinutes);
+    if (sleepMinutes) {
+      day.sleep_hours = Math.round((sleepMinutes / 60) * 10) / 10;
+      day.sleep_quality = sleepQuality(sleepMinutes / 60);
+    }
+    return day;
+  });
+
+  return {
+    days: importedDays.sort((a, b) => a.date.localeCompare(b.date)),
+    sessions: [...sessions.values()].sort((a, b) => a.session.start_time.localeCompare(b.session.start_time)),
+    records
+  };
+}
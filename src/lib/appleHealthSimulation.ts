@@ -1,7 +1,8 @@
 /**
  * Apple Health Simulation for Web
  * Since Apple Health is iOS-only, this provides a web-compatible simulation
- * for development and testing purposes
+ * for the demo mode on the Smart Device page. Real data comes from an export
+ * import (see appleHealthImport.ts).
  */
 
 import { ActivityData, ExerciseSession } from '@/hooks/useActivityData';
@@ -0,0 +1,208 @@
+/**
+ * Tools the nutrition assistant can call instead of answering in prose
+ * Read tools run straight away; write tools wait for the user to confirm a card
+ */
+
+import type { MealLog } from '@/hooks/useMealLogs';
+
+export type AssistantMealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface LogMealArgs {
+  food_name: string;
+  meal_type: AssistantMealType;
+  portion_size: number; // grams
+  calories: number;
+  carbs: number;
+  proteins: number;
+  fats: number;
+  fiber?: number;
+  sugar?: number;
+  sodium?: number;
+  date?: string; // YYYY-MM-DD, defaults to today
+}
+
+export interface UpdateMealLogArgs {
+  meal_id: string;
+  changes: Partial<Pick<LogMealArgs, 'food_name' | 'meal_type' | 'portion_size' | 'calories' | 'carbs' | 'proteins' | 'fats'>>;
+}
+
+export interface DeleteMealLogArgs {
+  meal_id: string;
+}
+
+export interface GetDailySummaryArgs {
+  date: string; // YYYY-MM-DD
+}
+
+export interface UpdateNutritionGoalsArgs {
+  daily_calories?: number;
+  daily_carbs?: number;
+  daily_proteins?: number;
+  daily_fats?: number;
+}
+
+export interface SuggestMealsArgs {
+  meal_type: AssistantMealType;
+}
+
+export interface AnalyzeProgressArgs {
+  timeframe?: 'daily' | 'weekly' | 'monthly';
+}
+
+export type AssistantToolCall =
+  | { name: 'log_meal'; arguments: LogMealArgs }
+  | { name: 'update_meal_log'; arguments: UpdateMealLogArgs }
+  | { name: 'delete_meal_log'; arguments: DeleteMealLogArgs }
+  | { name: 'get_daily_summary'; arguments: GetDailySummaryArgs }
+  | { name: 'update_nutrition_goals'; arguments: UpdateNutritionGoalsArgs }
+  | { name: 'suggest_meals'; arguments: SuggestMealsArgs }
+  | { name: 'analyze_progress'; arguments: AnalyzeProgressArgs };
+
+export type AssistantToolName = AssistantToolCall['name'];
+
+export type ToolCallStatus = 'pending' | 'confirmed' | 'cancelled' | 'failed';
+
+// Saved on the chat message so a confirmation card can't be applied twice
+export type StoredToolCall = AssistantToolCall & { status: ToolCallStatus };
+
+// One planned reply: either plain advice or a tool call with a short lead-in message
+export interface AssistantTurn {
+  message: string;
+  suggestions: string[];
+  toolCall?: AssistantToolCall;
+}
+
+interface AssistantToolDefinition {
+  name: AssistantToolName;
+  kind: 'read' | 'write';
+  description: string;
+  parameters: string; // shown to the model
+}
+
+export const ASSISTANT_TOOLS: AssistantToolDefinition[] = [
+  {
+    name: 'log_meal',
+    kind: 'write',
+    description: 'Log a food the user ate. Estimate nutrition for the portion if they did not give it.',
+    parameters: '{ "food_name": string, "meal_type": "breakfast"|"lunch"|"dinner"|"snack", "portion_size": grams, "calories": number, "carbs": grams, "proteins": grams, "fats": grams, "fiber"?: grams, "sugar"?: grams, "sodium"?: mg, "date"?: "YYYY-MM-DD" }'
+  },
+  {
+    name: 'update_meal_log',
+    kind: 'write',
+    description: "Change a logged meal. Only use a meal_id from the user's meals listed in the context.",
+    parameters: '{ "meal_id": string, "changes": { "food_name"?, "meal_type"?, "portion_size"?, "calories"?, "carbs"?, "proteins"?, "fats"? } }'
+  },
+  {
+    name: 'delete_meal_log',
+    kind: 'write',
+    description: "Remove a logged meal. Only use a meal_id from the user's meals listed in the context.",
+    parameters: '{ "meal_id": string }'
+  },
+  {
+    name: 'get_daily_summary',
+    kind: 'read',
+    description: 'Look up calories and macros eaten on a given day.',
+    parameters: '{ "date": "YYYY-MM-DD" }'
+  },
+  {
+    name: 'update_nutrition_goals',
+    kind: 'write',
+    description: "Change the user's daily calorie or macro targets. Include only the targets that change.",
+    parameters: '{ "daily_calories"?: number, "daily_carbs"?: grams, "daily_proteins"?: grams, "daily_fats"?: grams }'
+  },
+  {
+    name: 'suggest_meals',
+    kind: 'read',
+    description: 'Suggest meal ideas for one meal of the day.',
+    parameters: '{ "meal_type": "breakfast"|"lunch"|"dinner"|"snack" }'
+  },
+  {
+    name: 'analyze_progress',
+    kind: 'read',
+    description: "Review the user's nutrition and activity progress against their goals.",
+    parameters: '{ "timeframe"?: "daily"|"weekly"|"monthly" }'
+  }
+];
+
+export const isWriteTool = (name: AssistantToolName) =>
+  ASSISTANT_TOOLS.some(tool => tool.name === name && tool.kind === 'write');
+
+/**
+ * Tool catalogue for the planning prompt
+ */
+export function buildToolInstructions(): string {
+  return ASSISTANT_TOOLS
+    .map(tool => `- ${tool.name} (${tool.kind === 'write' ? 'changes data, the user confirms first' : 'read only'}): ${tool.description}\n  arguments: ${tool.parameters}`)
+    .join('\n');
+}
+
+export interface ToolCallSummary {
+  title: string;
+  details: string[];
+}
+
+type KnownMeal = Pick<MealLog, 'id' | 'food_name' | 'meal_type' | 'calories'>;
+
+const describeMeal = (mealId: string, meals: KnownMeal[]) => {
+  const meal = meals.find(m => m.id === mealId);
+  return meal ? `${meal.food_name} (${meal.meal_type}, ${Math.round(meal.calories)} cal)` : 'a meal that is not in today\'s log';
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  food_name: 'Name',
+  meal_type: 'Meal',
+  portion_size: 'Portion (g)',
+  calories: 'Calories',
+  carbs: 'Carbs (g)',
+  proteins: 'Protein (g)',
+  fats: 'Fat (g)',
+  daily_calories: 'Daily calories',
+  daily_carbs: 'Daily carbs (g)',
+  daily_proteins: 'Daily protein (g)',
+  daily_fats: 'Daily fat (g)'
+};
+
+const formatChanges = (changes: object) =>
+  Object.entries(changes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${FIELD_LABELS[key] || key}: ${typeof value === 'number' ? Math.round(value * 10) / 10 : value}`);
+
+/**
+ * Human-readable title and details for a confirmation card
+ */
+export function describeToolCall(call: AssistantToolCall, meals: KnownMeal[] = []): ToolCallSummary {
+  switch (call.name) {
+    case 'log_meal': {
+      const args = call.arguments;
+      return {
+        title: `Log ${args.food_name} to ${args.meal_type}${args.date ? ` on ${args.date}` : ''}`,
+        details: [
+          `${Math.round(args.portion_size)}g`,
+          `${Math.round(args.calories)} cal`,
+          `${Math.round(args.carbs)}g carbs · ${Math.round(args.proteins)}g protein · ${Math.round(args.fats)}g fat`
+        ]
+      };
+    }
+    case 'update_meal_log':
+      return {
+        title: `Update ${describeMeal(call.arguments.meal_id, meals)}`,
+        details: formatChanges(call.arguments.changes)
+      };
+    case 'delete_meal_log':
+      return {
+        title: `Delete ${describeMeal(call.arguments.meal_id, meals)}`,
+        details: ['This removes the entry from your food log.']
+      };
+    case 'update_nutrition_goals':
+      return {
+        title: 'Update your daily targets',
+        details: formatChanges(call.arguments)
+      };
+    case 'get_daily_summary':
+      return { title: `Look up ${call.arguments.date}`, details: [] };
+    case 'suggest_meals':
+      return { title: `Suggest ${call.arguments.meal_type} ideas`, details: [] };
+    case 'analyze_progress':
+      return { title: 'Analyze progress', details: [] };
+  }
+}
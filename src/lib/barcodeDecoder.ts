@@ -0,0 +1,282 @@
+/**
+ * EAN-13 / UPC-A / EAN-8 barcode decoding for camera frames and uploaded images
+ * Uses the browser's BarcodeDetector when available (which also reads UPC-E) and falls back
+ * to a scanline decoder
+ */
+
+// Module widths (space/bar alternating) of the left-hand odd-parity "L" codes, digits 0-9.
+// "G" codes are the same widths reversed; right-hand "R" codes share the L widths with colours inverted.
+const L_PATTERNS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]
+];
+const G_PATTERNS = L_PATTERNS.map(pattern => [...pattern].reverse());
+
+// Parity of the six left digits (L = 0, G = 1) encodes the implicit first EAN-13 digit
+const FIRST_DIGIT_PARITY = [
+  '000000', '001011', '001101', '001110', '010011',
+  '011001', '011100', '010101', '010110', '011010'
+];
+
+// Maximum summed deviation (in modules) for a digit to count as a match
+const MAX_DIGIT_ERROR = 1.6;
+const SCAN_MAX_WIDTH = 1280;
+const SCAN_LINES = 24;
+
+const NATIVE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
+interface NativeBarcodeDetector {
+  detect(source: ImageBitmapSource): Promise<Array<{ rawValue: string; format: string }>>;
+}
+
+interface NativeBarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): NativeBarcodeDetector;
+}
+
+interface Run {
+  dark: boolean;
+  width: number;
+}
+
+/**
+ * Validate the GS1 check digit of an EAN-8, UPC-A, EAN-13 or GTIN-14 code
+ */
+export function isValidBarcode(code: string): boolean {
+  if (!/^(\d{8}|\d{12,14})$/.test(code)) return false;
+
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  // Weights alternate 3,1,3,... starting from the digit next to the check digit
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Equivalent spellings of the same product code (UPC-A is EAN-13 with a leading 0)
+ */
+export function barcodeVariants(code: string): string[] {
+  const variants = new Set([code]);
+  if (code.length === 12) variants.add(`0${code}`);
+  if (code.length === 13 && code.startsWith('0')) variants.add(code.slice(1));
+  return Array.from(variants);
+}
+
+/**
+ * Expand a zero-suppressed UPC-E code to the UPC-A code it stands for
+ * Products are stored and looked up by UPC-A, and the check digit is computed over it
+ */
+export function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) return null;
+
+  const [numberSystem, d1, d2, d3, d4, d5, d6, checkDigit] = code.split('');
+  let body: string;
+  if (d6 <= '2') body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  else if (d6 === '3') body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  else if (d6 === '4') body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  else body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+
+  return `${numberSystem}${body}${checkDigit}`;
+}
+
+// The detector reports UPC-E as its 8 printed digits, which aren't an EAN-8 code
+const nativeCode = ({ rawValue, format }: { rawValue: string; format: string }): string | null => {
+  const code = format === 'upc_e' ? expandUpcE(rawValue) : rawValue;
+  return code && isValidBarcode(code) ? code : null;
+};
+
+const toRuns = (row: number[]): Run[] => {
+  let min = 255;
+  let max = 0;
+  row.forEach(value => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+
+  // Low-contrast rows cannot contain a printed barcode
+  if (max - min < 48) return [];
+
+  const threshold = (min + max) / 2;
+  const runs: Run[] = [];
+
+  row.forEach(value => {
+    const dark = value < threshold;
+    const last = runs[runs.length - 1];
+    if (last && last.dark === dark) {
+      last.width++;
+    } else {
+      runs.push({ dark, width: 1 });
+    }
+  });
+
+  return runs;
+};
+
+const matchDigit = (widths: number[], patterns: number[][]): { digit: number; error: number } => {
+  const total = widths.reduce((a, b) => a + b, 0);
+  let best = { digit: -1, error: Infinity };
+
+  patterns.forEach((pattern, digit) => {
+    const error = widths.reduce((sum, width, i) => sum + Math.abs((width * 7) / total - pattern[i]), 0);
+    if (error < best.error) best = { digit, error };
+  });
+
+  return best;
+};
+
+const isGuard = (runs: Run[], start: number, count: number, moduleWidth: number): boolean => {
+  for (let i = start; i < start + count; i++) {
+    const ratio = runs[i].width / moduleWidth;
+    if (ratio < 0.5 || ratio > 1.8) return false;
+  }
+  return true;
+};
+
+const runWidths = (runs: Run[], start: number) =>
+  [runs[start].width, runs[start + 1].width, runs[start + 2].width, runs[start + 3].width];
+
+const decodeEan13At = (runs: Run[], start: number): string | null => {
+  if (start + 59 > runs.length) return null;
+
+  const moduleWidth = (runs[start].width + runs[start + 1].width + runs[start + 2].width) / 3;
+  if (!isGuard(runs, start, 3, moduleWidth) || !isGuard(runs, start + 27, 5, moduleWidth)) return null;
+
+  let parity = '';
+  let leftDigits = '';
+  for (let i = 0; i < 6; i++) {
+    const widths = runWidths(runs, start + 3 + i * 4);
+    const l = matchDigit(widths, L_PATTERNS);
+    const g = matchDigit(widths, G_PATTERNS);
+    const best = l.error <= g.error ? l : g;
+    if (best.error > MAX_DIGIT_ERROR) return null;
+    parity += l.error <= g.error ? '0' : '1';
+    leftDigits += best.digit;
+  }
+
+  let rightDigits = '';
+  for (let i = 0; i < 6; i++) {
+    const r = matchDigit(runWidths(runs, start + 32 + i * 4), L_PATTERNS);
+    if (r.error > MAX_DIGIT_ERROR) return null;
+    rightDigits += r.digit;
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (firstDigit === -1) return null;
+
+  const code = `${firstDigit}${leftDigits}${rightDigits}`;
+  return isValidBarcode(code) ? code : null;
+};
+
+const decodeEan8At = (runs: Run[], start: number): string | null => {
+  if (start + 43 > runs.length) return null;
+
+  const moduleWidth = (runs[start].width + runs[start + 1].width + runs[start + 2].width) / 3;
+  if (!isGuard(runs, start, 3, moduleWidth) || !isGuard(runs, start + 19, 5, moduleWidth)) return null;
+
+  let code = '';
+  for (let i = 0; i < 8; i++) {
+    const offset = i < 4 ? start + 3 + i * 4 : start + 24 + (i - 4) * 4;
+    const match = matchDigit(runWidths(runs, offset), L_PATTERNS);
+    if (match.error > MAX_DIGIT_ERROR) return null;
+    code += match.digit;
+  }
+
+  return isValidBarcode(code) ? code : null;
+};
+
+const decodeRow = (row: number[]): string | null => {
+  const runs = toRuns(row);
+
+  // Runs start with the first bar after a quiet zone; try every bar as a start guard
+  for (let i = 1; i < runs.length; i++) {
+    if (!runs[i].dark) continue;
+    const code = decodeEan13At(runs, i) || decodeEan8At(runs, i);
+    if (code) return code;
+  }
+
+  return null;
+};
+
+/**
+ * Scan horizontal lines of an image for an EAN/UPC barcode, upright or upside down
+ */
+export function decodeBarcodeFromImageData(image: ImageData): string | null {
+  const { width, height, data } = image;
+
+  for (let line = 0; line < SCAN_LINES; line++) {
+    // Start in the middle and fan out, where barcodes are usually framed
+    const offset = Math.ceil(line / 2) * (line % 2 === 0 ? 1 : -1);
+    const y = Math.floor(height / 2 + (offset * height) / (SCAN_LINES + 2));
+    if (y < 0 || y >= height) continue;
+
+    const row: number[] = new Array(width);
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      row[x] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+
+    // Read backwards, an upside-down barcode's row is back in printed order for the L/G/R tables
+    const code = decodeRow(row) || decodeRow([...row].reverse());
+    if (code) return code;
+  }
+
+  return null;
+}
+
+const getNativeDetector = (): NativeBarcodeDetector | null => {
+  const Detector = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+
+  try {
+    return new Detector({ formats: NATIVE_FORMATS });
+  } catch {
+    return null;
+  }
+};
+
+const drawToImageData = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): ImageData | null => {
+  const ratio = Math.min(1, SCAN_MAX_WIDTH / sourceWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * ratio);
+  canvas.height = Math.round(sourceHeight * ratio);
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return null;
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Decode a barcode from a video frame or an uploaded image file
+ * Returns null when no valid EAN/UPC code is found
+ */
+export async function decodeBarcode(source: HTMLVideoElement | Blob): Promise<string | null> {
+  const isVideo = source instanceof HTMLVideoElement;
+  if (isVideo && (source.readyState < 2 || source.videoWidth === 0)) return null;
+
+  const bitmap = isVideo ? null : await createImageBitmap(source);
+
+  try {
+    const detector = getNativeDetector();
+    if (detector) {
+      try {
+        const results = await detector.detect(bitmap ?? source);
+        const code = results.map(nativeCode).find(Boolean);
+        if (code) return code;
+      } catch (error) {
+        console.warn('Native barcode detection failed, using scanline decoder:', error);
+      }
+    }
+
+    const imageData = isVideo
+      ? drawToImageData(source, source.videoWidth, source.videoHeight)
+      : drawToImageData(bitmap!, bitmap!.width, bitmap!.height);
+
+    return imageData ? decodeBarcodeFromImageData(imageData) : null;
+  } finally {
+    bitmap?.close();
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Calendar days in the user's timezone
+ * A "date key" is a yyyy-MM-dd string naming a day on the user's wall calendar; the helpers
+ * here convert between those keys and the UTC instants stored in timestamptz columns.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * IANA zones the browser knows, for pickers; older browsers only get the device zone and UTC
+ */
+export function listTimeZones(): string[] {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : [];
+  return Array.from(new Set([getDeviceTimeZone(), 'UTC', ...zones])).sort();
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClockParts(instant: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return parts;
+}
+
+// Milliseconds the zone's wall clock is ahead of UTC at this instant
+function zoneOffset(instant: Date, timeZone: string): number {
+  const p = wallClockParts(instant, timeZone);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * The calendar day an instant falls on in the given zone
+ */
+export function toDateKey(instant: Date | string, timeZone: string): string {
+  const p = wallClockParts(typeof instant === 'string' ? new Date(instant) : instant, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+export const todayKey = (timeZone: string) => toDateKey(new Date(), timeZone);
+
+/**
+ * Calendar arithmetic on date keys; independent of any zone
+ */
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+/**
+ * The `count` days ending on `endKey`, oldest first
+ */
+export function lastNDays(endKey: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => addDays(endKey, i - count + 1));
+}
+
+/**
+ * UTC instant of a wall-clock time on a local day
+ */
+export function zonedTime(dateKey: string, hours: number, minutes: number, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+  const first = guess - zoneOffset(new Date(guess), timeZone);
+  // Re-check at the candidate, in case a DST change falls between it and the guess
+  return new Date(guess - zoneOffset(new Date(first), timeZone));
+}
+
+/**
+ * UTC instant of local midnight starting the day; DST days can be 23 or 25 hours long
+ */
+export const startOfDayInZone = (dateKey: string, timeZone: string) => zonedTime(dateKey, 0, 0, timeZone);
+
+/**
+ * [start, end) bounds of a local day as ISO strings, for filtering timestamptz columns
+ */
+export function dayBounds(dateKey: string, timeZone: string): { start: string; end: string } {
+  return {
+    start: startOfDayInZone(dateKey, timeZone).toISOString(),
+    end: startOfDayInZone(addDays(dateKey, 1), timeZone).toISOString()
+  };
+}
+
+/**
+ * Date pickers work in browser-local Dates; these name the same calendar day either way
+ */
+export function dateKeyToLocalDate(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export const localDateToKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Format a date key for display without the browser zone shifting it to a neighbouring day
+ */
+export function formatDateKey(dateKey: string, options: Intl.DateTimeFormatOptions, locale = 'en-US'): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+}
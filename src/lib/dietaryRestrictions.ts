@@ -0,0 +1,225 @@
+/**
+ * Dietary restrictions and allergens
+ * Foods carry allergen tags (stored on food_items and copied onto meal_logs); a user's
+ * restrictions forbid a set of tags. Tags are also inferred from the food name, so untagged
+ * custom, free-text and AI-detected foods are still checked.
+ */
+
+export type AllergenTag =
+  | 'meat'
+  | 'pork'
+  | 'poultry'
+  | 'fish'
+  | 'shellfish'
+  | 'egg'
+  | 'dairy'
+  | 'lactose'
+  | 'gluten'
+  | 'tree_nuts'
+  | 'peanuts'
+  | 'soy'
+  | 'honey'
+  | 'alcohol';
+
+export type DietaryRestriction =
+  | 'vegetarian'
+  | 'vegan'
+  | 'halal'
+  | 'gluten_free'
+  | 'nut_allergy'
+  | 'lactose_intolerant';
+
+export const ALLERGEN_LABELS: Record<AllergenTag, string> = {
+  meat: 'Meat',
+  pork: 'Pork',
+  poultry: 'Poultry',
+  fish: 'Fish',
+  shellfish: 'Shellfish',
+  egg: 'Egg',
+  dairy: 'Dairy',
+  lactose: 'Lactose',
+  gluten: 'Gluten',
+  tree_nuts: 'Tree nuts',
+  peanuts: 'Peanuts',
+  soy: 'Soy',
+  honey: 'Honey',
+  alcohol: 'Alcohol'
+};
+
+export const DIETARY_RESTRICTIONS: Record<DietaryRestriction, { label: string; forbids: AllergenTag[] }> = {
+  vegetarian: { label: 'Vegetarian', forbids: ['meat', 'pork', 'poultry', 'fish', 'shellfish'] },
+  vegan: {
+    label: 'Vegan',
+    forbids: ['meat', 'pork', 'poultry', 'fish', 'shellfish', 'egg', 'dairy', 'lactose', 'honey']
+  },
+  halal: { label: 'Halal', forbids: ['pork', 'alcohol'] },
+  gluten_free: { label: 'Gluten-free', forbids: ['gluten'] },
+  nut_allergy: { label: 'Nut allergy', forbids: ['tree_nuts', 'peanuts'] },
+  lactose_intolerant: { label: 'Lactose intolerant', forbids: ['lactose'] }
+};
+
+export const DIETARY_RESTRICTION_KEYS = Object.keys(DIETARY_RESTRICTIONS) as DietaryRestriction[];
+
+// Words in a food name that imply a tag; plurals match too
+const ALLERGEN_KEYWORDS: Record<AllergenTag, string[]> = {
+  meat: ['beef', 'steak', 'lamb', 'mutton', 'veal', 'venison', 'meat', 'burger', 'hamburger', 'mince'],
+  pork: ['pork', 'bacon', 'ham', 'prosciutto', 'salami', 'pepperoni', 'chorizo', 'lard'],
+  poultry: ['chicken', 'turkey', 'duck', 'goose'],
+  fish: ['fish', 'salmon', 'tuna', 'cod', 'trout', 'sardine', 'mackerel', 'anchovy', 'anchovies', 'tilapia', 'haddock'],
+  shellfish: ['shrimp', 'prawn', 'crab', 'lobster', 'mussel', 'oyster', 'clam', 'scallop', 'squid'],
+  egg: ['egg', 'omelet', 'omelette', 'mayonnaise', 'mayo'],
+  dairy: ['milk', 'cheese', 'yogurt', 'yoghurt', 'butter', 'cream', 'whey', 'ghee', 'parmesan', 'mozzarella'],
+  lactose: ['milk', 'cheese', 'yogurt', 'yoghurt', 'cream', 'whey', 'ice cream'],
+  gluten: ['wheat', 'bread', 'pasta', 'spaghetti', 'noodle', 'barley', 'rye', 'couscous', 'flour', 'bagel', 'croissant', 'pizza', 'cracker', 'seitan'],
+  tree_nuts: ['almond', 'walnut', 'cashew', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'nut'],
+  peanuts: ['peanut'],
+  soy: ['soy', 'soya', 'tofu', 'tempeh', 'edamame', 'miso'],
+  honey: ['honey'],
+  alcohol: ['beer', 'wine', 'vodka', 'whisky', 'whiskey', 'rum', 'gin', 'liqueur', 'cider']
+};
+
+// Names where a keyword above is misleading
+const KEYWORD_EXCEPTIONS: Partial<Record<AllergenTag, string[]>> = {
+  dairy: ['peanut butter', 'almond butter', 'cocoa butter', 'almond milk', 'soy milk', 'oat milk', 'coconut milk', 'rice milk', 'cream of tartar', 'butternut'],
+  lactose: ['almond milk', 'soy milk', 'oat milk', 'coconut milk', 'rice milk', 'lactose-free', 'lactose free'],
+  tree_nuts: ['peanut', 'coconut', 'nutmeg', 'nutrition', 'butternut', 'doughnut', 'donut'],
+  egg: ['eggplant'],
+  meat: ['meatless', 'plant-based', 'veggie burger'],
+  gluten: ['gluten-free', 'gluten free', 'rice flour', 'almond flour', 'coconut flour', 'rice noodle'],
+  pork: ['hamburger']
+};
+
+export interface RestrictionProfile {
+  dietary_restrictions?: string[] | null;
+  custom_dietary_tags?: string[] | null;
+}
+
+export interface TaggedFood {
+  name: string;
+  allergens?: string[] | null;
+}
+
+export interface RestrictionConflict {
+  reason: string; // restriction label or custom tag the food breaks
+  tags: string[]; // the food's tags (or the matched keyword) that triggered it
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (name: string, term: string) =>
+  new RegExp(`\\b${escapeRegExp(term)}(s|es)?\\b`, 'i').test(name);
+
+const isAllergenTag = (tag: string): tag is AllergenTag => tag in ALLERGEN_LABELS;
+
+export const isDietaryRestriction = (key: string): key is DietaryRestriction => key in DIETARY_RESTRICTIONS;
+
+/**
+ * Normalize a free-text tag ("Shellfish ", "sesame seeds") for storage and matching
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Guess allergen tags from a food name
+ */
+export function inferAllergens(name: string): AllergenTag[] {
+  const lowerName = name.toLowerCase();
+  return (Object.keys(ALLERGEN_KEYWORDS) as AllergenTag[]).filter(tag => {
+    const exceptions = KEYWORD_EXCEPTIONS[tag] ?? [];
+    // Drop the exception phrases before looking for the keywords
+    const remaining = exceptions.reduce((text, phrase) => text.split(phrase).join(' '), lowerName);
+    return ALLERGEN_KEYWORDS[tag].some(keyword => mentions(remaining, keyword));
+  });
+}
+
+/**
+ * Stored tags plus those inferred from the name; a warning too many beats a missed allergen
+ */
+export function getFoodAllergens(food: TaggedFood): string[] {
+  const stored = (food.allergens ?? []).map(normalizeTag);
+  return [...new Set([...stored, ...inferAllergens(food.name)])];
+}
+
+/**
+ * Every way a food breaks the user's restrictions; empty when it is fine to eat
+ */
+export function findConflicts(food: TaggedFood, profile: RestrictionProfile | null | undefined): RestrictionConflict[] {
+  if (!profile) return [];
+  const foodTags = getFoodAllergens(food);
+  const conflicts: RestrictionConflict[] = [];
+
+  for (const key of profile.dietary_restrictions ?? []) {
+    if (!isDietaryRestriction(key)) continue;
+    const restriction = DIETARY_RESTRICTIONS[key];
+    const hits = foodTags.filter(tag => isAllergenTag(tag) && restriction.forbids.includes(tag));
+    if (hits.length > 0) {
+      conflicts.push({ reason: restriction.label, tags: hits });
+    }
+  }
+
+  // Custom tags ("sesame", "mushrooms") match either a stored tag or the food's name
+  for (const rawTag of profile.custom_dietary_tags ?? []) {
+    const tag = normalizeTag(rawTag);
+    if (!tag) continue;
+    if (foodTags.includes(tag) || mentions(food.name, tag)) {
+      conflicts.push({ reason: rawTag.trim(), tags: [tag] });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Conflicts for a logged meal, including each ingredient of a recipe meal; one entry per reason
+ */
+export function findMealConflicts(
+  meal: { food_name: string; allergens?: string[] | null; ingredients?: { food_name: string }[] | null },
+  profile: RestrictionProfile | null | undefined
+): RestrictionConflict[] {
+  const foods: TaggedFood[] = [
+    { name: meal.food_name, allergens: meal.allergens },
+    ...(meal.ingredients ?? []).map(ingredient => ({ name: ingredient.food_name }))
+  ];
+
+  const merged = new Map<string, Set<string>>();
+  for (const conflict of foods.flatMap(food => findConflicts(food, profile))) {
+    const tags = merged.get(conflict.reason) ?? new Set<string>();
+    conflict.tags.forEach(tag => tags.add(tag));
+    merged.set(conflict.reason, tags);
+  }
+  return [...merged].map(([reason, tags]) => ({ reason, tags: [...tags] }));
+}
+
+/**
+ * Readable name for a tag, falling back to the tag itself for custom ones
+ */
+export function formatAllergen(tag: string): string {
+  return isAllergenTag(tag) ? ALLERGEN_LABELS[tag] : tag;
+}
+
+/**
+ * One-line summary of conflicts, e.g. "Vegan (Dairy), Nut allergy (Tree nuts)"
+ */
+export function describeConflicts(conflicts: RestrictionConflict[]): string {
+  return conflicts
+    .map(conflict => `${conflict.reason} (${conflict.tags.map(formatAllergen).join(', ')})`)
+    .join(', ');
+}
+
+/**
+ * Restrictions as a sentence for AI prompts; null when the user has none
+ */
+export function describeRestrictions(profile: RestrictionProfile | null | undefined): string | null {
+  if (!profile) return null;
+  const labels = (profile.dietary_restrictions ?? [])
+    .filter(isDietaryRestriction)
+    .map(key => {
+      const restriction = DIETARY_RESTRICTIONS[key];
+      return `${restriction.label} (no ${restriction.forbids.map(tag => ALLERGEN_LABELS[tag].toLowerCase()).join(', ')})`;
+    });
+  const custom = (profile.custom_dietary_tags ?? []).map(tag => tag.trim()).filter(Boolean);
+
+  if (labels.length === 0 && custom.length === 0) return null;
+  return [...labels, ...custom.map(tag => `avoids ${tag}`)].join('; ');
+}
@@ -1,9 +1,15 @@
 // Gemini AI Integration for Food Analysis and Nutrition Advice
 // Phase 8: AI Chatbot Enhancement
+// Requests go through a pluggable AIProvider (Gemini, OpenAI-compatible or offline fixtures)
 
 import { UserProfile } from '@/contexts/ProfileContext';
+import { createAIProvider, type AIChatMessage, type AIProvider } from '@/lib/aiProviders';
+import { AssistantTurnSchema, FoodAnalysisSchema, MealSuggestionSchema, ProgressAnalysisSchema } from '@/lib/aiSchemas';
+import { AIServiceError, generateStructured } from '@/lib/aiStructuredOutput';
+import { buildToolInstructions, type AssistantTurn } from '@/lib/assistantTools';
+import { describeRestrictions } from '@/lib/dietaryRestrictions';
 
-export interface FoodAnalysisResult {
+export interface DetectedFoodItem {
   foodName: string;
   confidence: number;
   nutrition: {
@@ -15,10 +21,16 @@ export interface FoodAnalysisResult {
     sugar?: number;
     sodium?: number;
   };
+  glycemicIndex?: number; // 0-100 estimate for the dish, used for glycemic load
   portionSize: {
     estimated: string; // "1 medium apple", "200g rice", etc.
     grams: number;
   };
+}
+
+// One photo can hold several foods (rice, curry and salad on one plate)
+export interface FoodAnalysisResult {
+  items: DetectedFoodItem[];
   mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
   suggestions: string[];
 }
@@ -53,56 +65,34 @@ interface ActivityData {
   }>;
 }
 
-interface GeminiRequestBody {
-  contents: Array<{
-    parts: Array<{
-      text?: string;
-      inline_data?: {
-        mime_type: string;
-        data: string;
-      };
-    }>;
-  }>;
-  generationConfig: {
-    temperature: number;
-    topK: number;
-    topP: number;
-    maxOutputTokens: number;
-  };
-  safetySettings: Array<{
-    category: string;
-    threshold: string;
-  }>;
+// Streams a text reply as it arrives and lets the caller cancel it
+export interface AIStreamHandlers {
+  signal?: AbortSignal;
+  onText?: (text: string) => void;
 }
 
-class GeminiAIService {
-  private apiKey: string;
-  
-
-  constructor() {
-    // In a production app, use environment variables
-    this.apiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
-    if (!this.apiKey) {
-      console.warn('Gemini API key not found. Please add VITE_GEMINI_API_KEY to your environment variables.');
-    }
-  }
-
-  // Use v1 endpoint by default (newer models are generally published under v1)
-  private baseUrl: string = 'https://generativelanguage.googleapis.com/v1';
+// What the assistant can see when deciding how to answer
+export interface AssistantContext {
+  today: string; // YYYY-MM-DD
+  nutritionData?: NutritionData;
+  activityData?: ActivityData;
+  meals?: Array<{
+    id: string;
+    food_name: string;
+    meal_type: string;
+    portion_size: number;
+    calories: number;
+  }>; // today's log, so entries can be edited or deleted by id
+}
 
-  // Prioritized list of models to try when a particular model/method is unavailable
-  private modelsToTry = [
-    'gemini-2.5-flash',
-    'gemini-2.1',
-    'gemini-1.5-flash',
-    'gemini-1.5',
-    'text-bison-001'
-  ];
+export class GeminiAIService {
+  private provider: AIProvider;
 
-  // Methods/endpoints to try for each model (some models support different RPC names)
-  private modelMethods = ['generateContent', 'generateText', 'generate'];
+  constructor(provider: AIProvider = createAIProvider()) {
+    this.provider = provider;
+  }
 
-  // Convert image file to base64 for Gemini API
+  // Convert image file to base64 for the provider
   private async imageToBase64(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -122,266 +112,109 @@ class GeminiAIService {
     return file.type;
   }
 
-  // Generate AI response using Gemini
-  private async generateContent(prompt: string, imageData?: { data: string; mimeType: string }): Promise<string> {
-    if (!this.apiKey) {
-      throw new Error('Gemini API key not configured');
-    }
-
-    const requestBody: GeminiRequestBody = {
-      contents: [{
-        parts: [
-          { text: prompt }
-        ]
-      }],
-      generationConfig: {
-        temperature: 0.4,
-        topK: 32,
-        topP: 1,
-        maxOutputTokens: 2048,
-      },
-      safetySettings: [
-        {
-          category: "HARM_CATEGORY_HARASSMENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_HATE_SPEECH", 
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        }
-      ]
-    };
-
-    // Add image data if provided
-    if (imageData) {
-      requestBody.contents[0].parts.push({
-        inline_data: {
-          mime_type: imageData.mimeType,
-          data: imageData.data
-        }
-      });
-    }
-
-    // Discover available models first (best-effort) and prefer ones that exist
-    let availableModels: string[] = [];
-    try {
-      const list = await this.listModels();
-      availableModels = list;
-    } catch (listErr) {
-      // If listing fails, we'll still try the prioritized list below
-      console.warn('Failed to list Gemini models, proceeding with prioritized list', listErr);
-    }
-
-    const candidates = availableModels.length > 0
-      ? this.modelsToTry.filter(m => availableModels.includes(m))
-      : this.modelsToTry;
-
-    // Try prioritized models and method names
-    const tried: Array<{ model: string; method: string; status?: number; message?: string }> = [];
-
-    for (const model of candidates) {
-      for (const method of this.modelMethods) {
-        const url = `${this.baseUrl}/models/${model}:${method}?key=${this.apiKey}`;
-        try {
-          const response = await fetch(url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(requestBody)
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            const message = errorData.error?.message || `HTTP ${response.status}`;
-            tried.push({ model, method, status: response.status, message });
-
-            // If model/method not found (404) or unsupported method (400/404), try next
-            if (response.status === 404 || response.status === 400) {
-              // continue to next method/model
-              continue;
-            }
-
-            // For other errors, surface a helpful message
-            throw new Error(`Gemini API error: ${response.status} - ${message}`);
-          }
-
-          // Successful response
-          const data = await response.json();
-
-          // Older/newer APIs may return text in different shapes, try common accessors
-          const candidateText = data?.candidates?.[0]?.content?.parts?.[0]?.text || data?.output?.[0]?.content || data?.text || data?.responseText;
-
-          if (typeof candidateText === 'string' && candidateText.trim().length > 0) {
-            return candidateText;
-          }
-
-          // If format unexpected, add to tried and continue
-          tried.push({ model, method, status: 200, message: 'Unexpected response format' });
-          continue;
-        } catch (err) {
-          // network or parsing error - record and continue
-          tried.push({ model, method, message: err instanceof Error ? err.message : String(err) });
-          continue;
-        }
-      }
-    }
-
-    // If we reach here, none of the models/methods worked
-    const attempts = tried.map(t => `${t.model}:${t.method} => ${t.status ?? 'err'} ${t.message ?? ''}`).join('; ');
-    console.error('Gemini API model attempts:', attempts);
-    throw new Error(`Gemini API model/method not available. Tried: ${attempts}`);
-  }
-
-  // List available models (best-effort). Returns simple model ids like 'gemini-2.5-flash'
-  async listModels(): Promise<string[]> {
-    if (!this.apiKey) throw new Error('Gemini API key not configured');
-    try {
-      const res = await fetch(`${this.baseUrl}/models?key=${this.apiKey}`);
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({}));
-        throw new Error(`Failed to list models: ${res.status} ${err?.error?.message || ''}`);
-      }
-      const data = await res.json();
-      // Response shape: { models: [{ name: 'models/gemini-2.5-flash', displayName: 'Gemini 2.5 Flash' }, ...] }
-      if (!Array.isArray(data.models)) return [];
-      return data.models.map((m: unknown) => {
-        // name may be 'models/gemini-2.5-flash' or just the id
-        const obj = m as Record<string, unknown>;
-        const nameVal = obj?.name ?? obj?.model ?? obj?.id ?? '';
-        return String(nameVal).replace(/^models\//, '');
-      }).filter(Boolean);
-    } catch (error) {
-      console.warn('listModels error:', error);
-      return [];
-    }
-  }
-
-  // Analyze food image and extract nutrition data
-  async analyzeFoodImage(imageFile: File): Promise<FoodAnalysisResult> {
+  // Analyze food image and extract nutrition data for every food on the plate
+  async analyzeFoodImage(imageFile: File, userProfile: UserProfile | null = null): Promise<FoodAnalysisResult> {
     try {
       const base64Data = await this.imageToBase64(imageFile);
       const mimeType = this.getMimeType(imageFile);
 
-      const prompt = `Analyze this food image and provide detailed nutritional information. Please respond with ONLY a valid JSON object in this exact format:
+      const prompt = `Analyze this food image and provide detailed nutritional information for EACH separate food you can see. Please respond with ONLY a valid JSON object in this exact format:
 
 {
-  "foodName": "specific food name",
-  "confidence": 0.95,
-  "nutrition": {
-    "calories": 250,
-    "carbs": 45,
-    "proteins": 12,
-    "fats": 8,
-    "fiber": 5,
-    "sugar": 10,
-    "sodium": 300
-  },
-  "portionSize": {
-    "estimated": "1 medium serving",
-    "grams": 200
-  },
+  "items": [
+    {
+      "foodName": "specific food name",
+      "confidence": 0.95,
+      "nutrition": {
+        "calories": 250,
+        "carbs": 45,
+        "proteins": 12,
+        "fats": 8,
+        "fiber": 5,
+        "sugar": 10,
+        "sodium": 300
+      },
+      "glycemicIndex": 55,
+      "portionSize": {
+        "estimated": "1 cup",
+        "grams": 200
+      }
+    }
+  ],
   "mealType": "lunch",
   "suggestions": ["Consider adding vegetables for more nutrients", "Good source of protein"]
 }
 
 Rules:
-1. Identify the main food item(s) in the image
-2. Estimate portion size based on visual cues
-3. Provide nutritional values per 100g and scale to estimated portion
+1. List every distinct food item on the plate as its own entry (e.g. rice, curry and salad are three items)
+2. Estimate each item's portion size separately based on visual cues
+3. Provide nutritional values per 100g and scale to each estimated portion
 4. Suggest appropriate meal type (breakfast/lunch/dinner/snack)
-5. Give 2-3 helpful suggestions
-6. Use confidence score 0.1-1.0 based on image clarity
-7. Return ONLY valid JSON, no additional text`;
-
-      const response = await this.generateContent(prompt, {
-        data: base64Data,
-        mimeType: mimeType
-      });
-
-      // Parse the JSON response
-      try {
-        const analysisResult = JSON.parse(response.trim());
-        return analysisResult as FoodAnalysisResult;
-      } catch (parseError) {
-        console.error('Failed to parse Gemini response:', response);
-        throw new Error('Invalid JSON response from AI');
-      }
+5. Give 2-3 helpful suggestions for the whole meal
+6. Use confidence score 0.1-1.0 per item based on image clarity
+7. Estimate each item's glycemic index (0-100, glucose = 100; 0 for foods without carbs)
+8. Return ONLY valid JSON, no additional text
+${this.getDietaryContext(userProfile, 'If any item conflicts with them, say which one in the suggestions.')}`;
+
+      // Validated against the schema, with one re-ask if the reply is malformed
+      return await generateStructured(this.provider, {
+        prompt,
+        image: { data: base64Data, mimeType }
+      }, FoodAnalysisSchema);
     } catch (error) {
       console.error('Food analysis error:', error);
-      throw new Error(`Failed to analyze food image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.toServiceError(error, 'Failed to analyze food image');
     }
   }
 
-  // Generate nutrition advice based on user profile and context
-  async getNutritionAdvice(
-    userProfile: UserProfile | null, 
-    userMessage: string, 
-    nutritionData?: NutritionData,
-    activityData?: ActivityData
-  ): Promise<ChatResponse> {
+  // Decide how to answer a chat message: plain advice, or a call to one of the assistant tools
+  async planAssistantTurn(
+    userProfile: UserProfile | null,
+    userMessage: string,
+    context: AssistantContext,
+    history: AIChatMessage[] = [], // earlier turns of the conversation, oldest first
+    stream: AIStreamHandlers = {}
+  ): Promise<AssistantTurn> {
     try {
       const userType = userProfile?.user_type || 'general';
       const userGoals = this.getUserGoals(userType);
-      
-      let contextInfo = '';
-      if (nutritionData) {
-        contextInfo += `Current nutrition status: ${JSON.stringify(nutritionData)} `;
-      }
-      if (activityData) {
-        contextInfo += `Recent activity: ${JSON.stringify(activityData)} `;
-      }
 
-      const prompt = `You are an expert nutrition AI assistant specialized in helping ${userType} users. 
+      const prompt = `You are an expert nutrition AI assistant for a ${userType} user who can also act on their food log.
 
 User Profile:
 - Type: ${userType}
 - Age: ${userProfile?.age || 'unknown'}
-- Gender: ${userProfile?.gender || 'unknown'}
-- Height: ${userProfile?.height || 'unknown'}cm
 - Weight: ${userProfile?.weight || 'unknown'}kg
 - Goals: ${userGoals}
+${this.getDietaryContext(userProfile)}
 
-Context: ${contextInfo}
+Today is ${context.today}.
+Nutrition status: ${JSON.stringify(context.nutritionData || {})}
+Recent activity: ${JSON.stringify(context.activityData || {})}
+Today's logged meals: ${JSON.stringify(context.meals || [])}
 
-User Question: "${userMessage}"
+Tools you can call:
+${buildToolInstructions()}
 
-Provide helpful, personalized nutrition advice based on their specific user type and goals. 
+Call a tool when the user asks to log, change or remove a meal, look up a day, change their targets, get meal ideas or review their progress. Otherwise answer with advice.
 ${userType === 'diabetes' ? 'Focus on blood sugar management, low glycemic foods, and carb counting.' : ''}
 ${userType === 'gym' ? 'Focus on protein intake, pre/post workout nutrition, and muscle building/recovery.' : ''}
+${history.length > 0 ? 'This continues the conversation above - use the earlier turns as context.' : ''}
 
-Respond in a friendly, encouraging tone with specific, actionable advice. Keep responses concise (2-3 paragraphs max).
-
-Also suggest 2-3 quick follow-up questions the user might ask.
-
-Format your response as JSON:
+Respond with ONLY a JSON object in this format:
 {
-  "message": "Your detailed response here...",
-  "suggestions": ["Follow-up question 1", "Follow-up question 2", "Follow-up question 3"],
-  "actionType": "nutrition_advice"
-}`;
+  "message": "Your answer, or one short sentence saying what you are about to do",
+  "suggestions": ["Follow-up question 1", "Follow-up question 2"],
+  "toolCall": { "name": "tool_name", "arguments": { } }
+}
+Leave out "toolCall" (or set it to null) when no tool is needed. Call at most one tool.
 
-      const response = await this.generateContent(prompt);
-      
-      try {
-        return JSON.parse(response.trim()) as ChatResponse;
-      } catch (parseError) {
-        // Fallback if JSON parsing fails
-        return {
-          message: response,
-          suggestions: ["Tell me more", "Any other tips?", "What about meal timing?"],
-          actionType: 'nutrition_advice'
-        };
-      }
+User message: "${userMessage}"`;
+
+      return await generateStructured(this.provider, { prompt, history, ...stream }, AssistantTurnSchema);
     } catch (error) {
-      console.error('Nutrition advice error:', error);
-      throw new Error(`Failed to generate nutrition advice: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Assistant planning error:', error);
+      throw this.toServiceError(error, 'Failed to answer');
     }
   }
 
@@ -389,7 +222,8 @@ Format your response as JSON:
   async getMealSuggestions(
     userProfile: UserProfile | null,
     mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack',
-    preferences?: string[]
+    preferences?: string[],
+    stream: AIStreamHandlers = {}
   ): Promise<ChatResponse> {
     try {
       const userType = userProfile?.user_type || 'general';
@@ -401,6 +235,7 @@ User Profile:
 - Type: ${userType} 
 - Goals: ${userGoals}
 - Preferences: ${preferences?.join(', ') || 'none specified'}
+${this.getDietaryContext(userProfile, 'Every suggestion must respect them.')}
 
 Requirements:
 ${userType === 'diabetes' ? '- Low glycemic index foods\n- Balanced carb content\n- Focus on fiber' : ''}
@@ -419,20 +254,10 @@ Format as JSON:
   "actionType": "meal_suggestion"
 }`;
 
-      const response = await this.generateContent(prompt);
-      
-      try {
-        return JSON.parse(response.trim()) as ChatResponse;
-      } catch (parseError) {
-        return {
-          message: response,
-          suggestions: ["Get recipe details", "More meal ideas", "Nutrition information"],
-          actionType: 'meal_suggestion'
-        };
-      }
+      return await generateStructured(this.provider, { prompt, ...stream }, MealSuggestionSchema);
     } catch (error) {
       console.error('Meal suggestions error:', error);
-      throw new Error(`Failed to generate meal suggestions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.toServiceError(error, 'Failed to generate meal suggestions');
     }
   }
 
@@ -441,7 +266,8 @@ Format as JSON:
     userProfile: UserProfile | null,
     nutritionData: NutritionData,
     activityData?: ActivityData,
-    timeframe: 'daily' | 'weekly' | 'monthly' = 'weekly'
+    timeframe: 'daily' | 'weekly' | 'monthly' = 'weekly',
+    stream: AIStreamHandlers = {}
   ): Promise<ChatResponse> {
     try {
       const userType = userProfile?.user_type || 'general';
@@ -451,6 +277,7 @@ Format as JSON:
 User Data:
 - Nutrition: ${JSON.stringify(nutritionData)}
 - Activity: ${JSON.stringify(activityData || {})}
+${this.getDietaryContext(userProfile, 'Keep any food recommendations within them.')}
 
 Provide:
 1. Progress assessment (positive achievements)
@@ -469,21 +296,30 @@ Be encouraging and constructive. Format as JSON:
   "actionType": "progress_analysis"
 }`;
 
-      const response = await this.generateContent(prompt);
-      
-      try {
-        return JSON.parse(response.trim()) as ChatResponse;
-      } catch (parseError) {
-        return {
-          message: response,
-          suggestions: ["Set weekly goals", "Track progress", "Get recommendations"],
-          actionType: 'progress_analysis'
-        };
-      }
+      return await generateStructured(this.provider, { prompt, ...stream }, ProgressAnalysisSchema);
     } catch (error) {
       console.error('Progress analysis error:', error);
-      throw new Error(`Failed to analyze progress: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.toServiceError(error, 'Failed to analyze progress');
+    }
+  }
+
+  // Keep typed AI errors intact so the UI can explain them; wrap anything else
+  private toServiceError(error: unknown, context: string): AIServiceError {
+    if (error instanceof AIServiceError) return error;
+    return new AIServiceError('provider', `${context}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  // Restrictions and medication as prompt lines; empty when the profile has neither
+  private getDietaryContext(userProfile: UserProfile | null, instruction = 'Never recommend foods that break them.'): string {
+    const restrictions = describeRestrictions(userProfile);
+    const lines: string[] = [];
+    if (restrictions) {
+      lines.push(`- Dietary restrictions: ${restrictions}. ${instruction}`);
+    }
+    if (userProfile?.medication) {
+      lines.push(`- Medication: ${userProfile.medication}`);
     }
+    return lines.join('\n');
   }
 
   // Get user goals based on their type
@@ -500,7 +336,17 @@ Be encouraging and constructive. Format as JSON:
 
   // Check if API is configured
   isConfigured(): boolean {
-    return !!this.apiKey;
+    return this.provider.isConfigured();
+  }
+
+  // Offline fixtures stand in when no real provider is set up
+  isDemoMode(): boolean {
+    return this.provider.id === 'mock';
+  }
+
+  // Display name of the active provider, e.g. "Gemini AI"
+  getProviderName(): string {
+    return this.provider.name;
   }
 }
 
@@ -0,0 +1,181 @@
+/**
+ * Glycemic load and blood glucose helpers for the diabetes profile
+ * Ranges follow the ADA targets for adults with diabetes (mg/dL)
+ */
+
+import type { GlucoseReading, GlucoseReadingType } from '@/hooks/useGlucoseReadings';
+
+export type GlycemicBand = 'low' | 'medium' | 'high';
+export type GlucoseStatus = 'low' | 'in_range' | 'high';
+
+export const GLUCOSE_READING_LABELS: Record<GlucoseReadingType, string> = {
+  fasting: 'Fasting',
+  pre_meal: 'Before meal',
+  post_meal: 'After meal',
+  bedtime: 'Bedtime',
+  random: 'Random'
+};
+
+// Anything under 70 mg/dL is treated as hypoglycaemia regardless of type
+export const HYPOGLYCEMIA_THRESHOLD = 70;
+
+export const GLUCOSE_TARGETS: Record<GlucoseReadingType, { min: number; max: number }> = {
+  fasting: { min: 80, max: 130 },
+  pre_meal: { min: 80, max: 130 },
+  post_meal: { min: HYPOGLYCEMIA_THRESHOLD, max: 180 }, // 1-2 hours after eating
+  bedtime: { min: 90, max: 150 },
+  random: { min: HYPOGLYCEMIA_THRESHOLD, max: 180 }
+};
+
+// Post-meal readings are matched to meals eaten within this window before them
+export const POST_MEAL_WINDOW_MINUTES = 180;
+
+/**
+ * Glycemic load = GI x available carbs / 100
+ * Fiber is subtracted when known since it does not raise blood sugar
+ */
+export function calculateGlycemicLoad(
+  glycemicIndex: number | null | undefined,
+  carbs: number,
+  fiber?: number | null
+): number | null {
+  if (glycemicIndex === null || glycemicIndex === undefined) return null;
+
+  const availableCarbs = Math.max(carbs - (fiber || 0), 0);
+  return Math.round((glycemicIndex * availableCarbs) / 100 * 10) / 10;
+}
+
+/**
+ * GI bands: low <= 55, medium 56-69, high >= 70
+ */
+export function classifyGlycemicIndex(glycemicIndex: number): GlycemicBand {
+  if (glycemicIndex <= 55) return 'low';
+  if (glycemicIndex < 70) return 'medium';
+  return 'high';
+}
+
+/**
+ * GL bands per serving: low <= 10, medium 11-19, high >= 20
+ */
+export function classifyGlycemicLoad(glycemicLoad: number): GlycemicBand {
+  if (glycemicLoad <= 10) return 'low';
+  if (glycemicLoad < 20) return 'medium';
+  return 'high';
+}
+
+/**
+ * Compare a reading against the target range for its type
+ */
+export function classifyGlucoseReading(valueMgdl: number, readingType: GlucoseReadingType): GlucoseStatus {
+  const target = GLUCOSE_TARGETS[readingType];
+  if (valueMgdl < HYPOGLYCEMIA_THRESHOLD || valueMgdl < target.min) return 'low';
+  if (valueMgdl > target.max) return 'high';
+  return 'in_range';
+}
+
+export interface GlycemicMeal {
+  id: string;
+  food_name: string;
+  carbs: number;
+  fiber?: number | null;
+  glycemic_index?: number | null;
+  logged_at: string;
+}
+
+export interface MealGlucoseCorrelation {
+  reading: GlucoseReading;
+  meals: GlycemicMeal[];
+  minutesAfterMeal: number;
+  totalCarbs: number;
+  // null when none of the preceding meals has a known glycemic index
+  glycemicLoad: number | null;
+  baseline: GlucoseReading | null;
+  rise: number | null;
+  status: GlucoseStatus;
+}
+
+const minutesBetween = (from: string, to: string) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / 60000;
+
+/**
+ * Pair each post-meal reading with the meals that preceded it
+ * An explicit meal_log_id wins; otherwise every meal in the window counts.
+ * The baseline is the latest fasting/pre-meal reading taken up to an hour before the first meal.
+ */
+export function correlatePostMealReadings(
+  readings: GlucoseReading[],
+  meals: GlycemicMeal[],
+  windowMinutes: number = POST_MEAL_WINDOW_MINUTES
+): MealGlucoseCorrelation[] {
+  const baselineReadings = readings.filter(r => r.reading_type === 'fasting' || r.reading_type === 'pre_meal');
+
+  return readings
+    .filter(reading => reading.reading_type === 'post_meal')
+    .map(reading => {
+      const linkedMeal = reading.meal_log_id ? meals.find(meal => meal.id === reading.meal_log_id) : undefined;
+      const precedingMeals = linkedMeal
+        ? [linkedMeal]
+        : meals.filter(meal => {
+            const minutes = minutesBetween(meal.logged_at, reading.measured_at);
+            return minutes >= 0 && minutes <= windowMinutes;
+          });
+
+      if (precedingMeals.length === 0) return null;
+
+      const firstMeal = precedingMeals.reduce((earliest, meal) =>
+        meal.logged_at < earliest.logged_at ? meal : earliest
+      );
+      const lastMeal = precedingMeals.reduce((latest, meal) =>
+        meal.logged_at > latest.logged_at ? meal : latest
+      );
+
+      const loads = precedingMeals
+        .map(meal => calculateGlycemicLoad(meal.glycemic_index, meal.carbs, meal.fiber))
+        .filter((load): load is number => load !== null);
+
+      const baseline = baselineReadings
+        .filter(r => {
+          const minutes = minutesBetween(r.measured_at, firstMeal.logged_at);
+          return minutes >= 0 && minutes <= 60;
+        })
+        .sort((a, b) => b.measured_at.localeCompare(a.measured_at))[0] || null;
+
+      return {
+        reading,
+        meals: precedingMeals,
+        minutesAfterMeal: Math.round(minutesBetween(lastMeal.logged_at, reading.measured_at)),
+        totalCarbs: Math.round(precedingMeals.reduce((sum, meal) => sum + meal.carbs, 0) * 10) / 10,
+        glycemicLoad: loads.length > 0 ? Math.round(loads.reduce((a, b) => a + b, 0) * 10) / 10 : null,
+        baseline,
+        rise: baseline ? reading.value_mgdl - baseline.value_mgdl : null,
+        status: classifyGlucoseReading(reading.value_mgdl, 'post_meal')
+      };
+    })
+    .filter((correlation): correlation is MealGlucoseCorrelation => correlation !== null)
+    .sort((a, b) => b.reading.measured_at.localeCompare(a.reading.measured_at));
+}
+
+/**
+ * Average post-meal glucose grouped by the glycemic load band of the meals before it
+ */
+export function averageGlucoseByLoadBand(
+  correlations: MealGlucoseCorrelation[]
+): Record<GlycemicBand, { average: number; count: number }> {
+  const bands: Record<GlycemicBand, number[]> = { low: [], medium: [], high: [] };
+
+  correlations.forEach(correlation => {
+    if (correlation.glycemicLoad === null) return;
+    bands[classifyGlycemicLoad(correlation.glycemicLoad)].push(correlation.reading.value_mgdl);
+  });
+
+  const summarise = (values: number[]) => ({
+    average: values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0,
+    count: values.length
+  });
+
+  return {
+    low: summarise(bands.low),
+    medium: summarise(bands.medium),
+    high: summarise(bands.high)
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Registry of records this device is writing
+ * Realtime pushes every change back to the client that made it; while a local write is in
+ * flight (and briefly after) the optimistic cache already shows it, so the echo is skipped
+ */
+
+// How long after a write settles its echo is still expected
+const ECHO_WINDOW_MS = 5000;
+
+const writes = new Map<string, number>(); // `${table}:${id}` -> expiry, Infinity while in flight
+
+const keyFor = (table: string, id: string) => `${table}:${id}`;
+
+export function markLocalWrite(table: string, ids: string[]) {
+  ids.forEach(id => writes.set(keyFor(table, id), Infinity));
+}
+
+/**
+ * Call once the write has settled; the echo may still be on its way
+ */
+export function releaseLocalWrite(table: string, ids: string[]) {
+  const expiresAt = Date.now() + ECHO_WINDOW_MS;
+  ids.forEach(id => writes.set(keyFor(table, id), expiresAt));
+}
+
+export function isLocalWrite(table: string, id: string | undefined): boolean {
+  if (!id) return false;
+  const key = keyFor(table, id);
+  const expiresAt = writes.get(key);
+  if (expiresAt === undefined) return false;
+  if (expiresAt < Date.now()) {
+    writes.delete(key);
+    return false;
+  }
+  return true;
+}
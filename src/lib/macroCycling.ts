@@ -0,0 +1,152 @@
+/**
+ * Training-day and rest-day macro cycling
+ * Raises carbs on training days and lowers them on rest days by as much as keeps the week's
+ * carbs on the daily goal x 7. Calories move with the carbs (4 kcal/g); protein and fat stay
+ * at the goal every day. Training days come from a weekly schedule or from logged sessions.
+ */
+
+import { dateKeyToLocalDate } from '@/lib/dateUtils';
+import type { UserProfile } from '@/contexts/ProfileContext';
+import type { NutritionGoals } from '@/hooks/useNutritionGoals';
+
+export type CyclingMode = 'off' | 'schedule' | 'activity';
+
+export type DayType = 'training' | 'rest';
+
+export interface CyclingSettings {
+  mode: CyclingMode;
+  training_days: number[]; // weekdays for 'schedule', 0 = Sunday
+  training_days_per_week: number; // typical week for 'activity'
+  carb_shift_percent: number; // training-day carbs above the goal
+}
+
+export type DayGoals = Pick<NutritionGoals, 'daily_calories' | 'daily_carbs' | 'daily_fats' | 'daily_proteins'>;
+
+export interface WeeklyCyclingPlan {
+  training: DayGoals;
+  rest: DayGoals;
+  training_days: number;
+  weekly_calories: number;
+  weekly_carbs: number;
+  goal_weekly_calories: number; // daily goal x 7, which the plan matches
+}
+
+export const DEFAULT_CYCLING_SETTINGS: CyclingSettings = {
+  mode: 'off',
+  training_days: [],
+  training_days_per_week: 3,
+  carb_shift_percent: 20
+};
+
+// Matches the check constraint in database-macro-cycling-schema.sql
+export const CARB_SHIFT_LIMITS = { min: 0, max: 50 };
+
+export const CYCLING_MODE_LABELS: Record<CyclingMode, string> = {
+  off: 'Off',
+  schedule: 'Fixed schedule',
+  activity: 'Days I work out'
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Rest days never drop below this share of the goal's carbs; training days give up the rest
+const MIN_REST_CARB_MULTIPLIER = 0.5;
+
+const KCAL_PER_GRAM_CARBS = 4;
+
+/**
+ * Cycling settings stored on the profile, with defaults for missing columns
+ */
+export function cyclingSettingsFrom(
+  profile: Pick<UserProfile, 'macro_cycling' | 'training_days' | 'training_days_per_week' | 'carb_cycling_percent'> | null
+): CyclingSettings {
+  if (!profile) return DEFAULT_CYCLING_SETTINGS;
+
+  return {
+    mode: profile.macro_cycling ?? DEFAULT_CYCLING_SETTINGS.mode,
+    training_days: [...new Set(profile.training_days ?? [])].filter(day => day >= 0 && day <= 6).sort(),
+    training_days_per_week: profile.training_days_per_week ?? DEFAULT_CYCLING_SETTINGS.training_days_per_week,
+    carb_shift_percent: profile.carb_cycling_percent ?? DEFAULT_CYCLING_SETTINGS.carb_shift_percent
+  };
+}
+
+/**
+ * Training days in a week as the plan expects them
+ */
+export function trainingDaysPerWeek(settings: CyclingSettings): number {
+  if (settings.mode === 'schedule') return settings.training_days.length;
+  if (settings.mode === 'activity') return Math.min(7, Math.max(0, settings.training_days_per_week));
+  return 0;
+}
+
+/**
+ * Carb multipliers for training and rest days whose weighted week averages to 1
+ * A week of all training or all rest days has nothing to shift between, so stays at 1.
+ */
+export function cycleMultipliers(settings: CyclingSettings): Record<DayType, number> {
+  const trainingDays = trainingDaysPerWeek(settings);
+  const shift = Math.min(CARB_SHIFT_LIMITS.max, Math.max(CARB_SHIFT_LIMITS.min, settings.carb_shift_percent)) / 100;
+  if (settings.mode === 'off' || trainingDays <= 0 || trainingDays >= 7 || shift <= 0) {
+    return { training: 1, rest: 1 };
+  }
+
+  const restDays = 7 - trainingDays;
+  const rest = 1 - (shift * trainingDays) / restDays;
+  if (rest >= MIN_REST_CARB_MULTIPLIER) {
+    return { training: 1 + shift, rest };
+  }
+
+  // Many training days: cap the rest-day cut and shrink the training-day boost to match
+  return {
+    training: 1 + ((1 - MIN_REST_CARB_MULTIPLIER) * restDays) / trainingDays,
+    rest: MIN_REST_CARB_MULTIPLIER
+  };
+}
+
+/**
+ * Whether a day is a training or rest day, or null when cycling is off
+ * `hadSession` only matters in 'activity' mode.
+ */
+export function dayTypeFor(settings: CyclingSettings, dateKey: string, hadSession: boolean): DayType | null {
+  switch (settings.mode) {
+    case 'schedule':
+      return settings.training_days.includes(dateKeyToLocalDate(dateKey).getDay()) ? 'training' : 'rest';
+    case 'activity':
+      return hadSession ? 'training' : 'rest';
+    default:
+      return null;
+  }
+}
+
+/**
+ * The day's goals with carbs and calories shifted for its day type
+ */
+export function applyDayType<T extends DayGoals>(goals: T, settings: CyclingSettings, dayType: DayType | null): T {
+  if (!dayType) return goals;
+
+  const carbs = goals.daily_carbs * cycleMultipliers(settings)[dayType];
+  return {
+    ...goals,
+    daily_carbs: carbs,
+    daily_calories: goals.daily_calories + (carbs - goals.daily_carbs) * KCAL_PER_GRAM_CARBS
+  };
+}
+
+/**
+ * Training-day and rest-day targets for a typical week, with the week's totals
+ */
+export function weeklyCyclingPlan(goals: DayGoals, settings: CyclingSettings): WeeklyCyclingPlan {
+  const training = applyDayType(goals, settings, 'training');
+  const rest = applyDayType(goals, settings, 'rest');
+  const trainingDays = trainingDaysPerWeek(settings);
+  const restDays = 7 - trainingDays;
+
+  return {
+    training,
+    rest,
+    training_days: trainingDays,
+    weekly_calories: training.daily_calories * trainingDays + rest.daily_calories * restDays,
+    weekly_carbs: training.daily_carbs * trainingDays + rest.daily_carbs * restDays,
+    goal_weekly_calories: goals.daily_calories * 7
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Browser side of medication reminders
+ * Registers the reminder service worker (public/medication-sw.js), which owns the notifications.
+ * There is no push server, so delivery depends on the browser: where notification triggers exist
+ * the worker hands the reminders to the OS and they fire with the app closed; everywhere else
+ * this page keeps the timers, so reminders only fire while the app is open in a tab.
+ */
+
+import type { DoseReminder } from '@/lib/medicationSchedule';
+
+const WORKER_URL = '/medication-sw.js';
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+export const remindersSupported = () =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+export const getReminderPermission = (): ReminderPermission =>
+  remindersSupported() ? Notification.permission : 'unsupported';
+
+// Where the reminders are kept: handed to the OS, or timers in an open tab
+export type ReminderDelivery = 'system' | 'open_tab';
+
+export const getReminderDelivery = (): ReminderDelivery =>
+  typeof window !== 'undefined' && 'TimestampTrigger' in window && 'showTrigger' in Notification.prototype
+    ? 'system'
+    : 'open_tab';
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+// Page-side timers; an idle service worker is stopped within seconds, taking its timers with it
+const pageTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const clearPageTimers = () => {
+  pageTimers.forEach(timer => clearTimeout(timer));
+  pageTimers.clear();
+};
+
+/**
+ * Register the worker once per page load; resolves with null where it can't run
+ */
+export function registerReminderWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!remindersSupported()) return Promise.resolve(null);
+
+  registration ??= navigator.serviceWorker
+    .register(WORKER_URL)
+    .then(() => navigator.serviceWorker.ready)
+    .catch(error => {
+      console.error('Medication reminder worker registration failed:', error);
+      registration = null;
+      return null;
+    });
+  return registration;
+}
+
+/**
+ * Ask for notification permission; must be called from a user gesture in most browsers
+ */
+export async function requestReminderPermission(): Promise<ReminderPermission> {
+  if (!remindersSupported()) return 'unsupported';
+  const permission = await Notification.requestPermission();
+  if (permission === 'granted') {
+    await registerReminderWorker();
+  }
+  return permission;
+}
+
+/**
+ * Replace every scheduled reminder with `reminders`
+ */
+export async function syncReminders(reminders: DoseReminder[]): Promise<void> {
+  clearPageTimers();
+  if (getReminderPermission() !== 'granted') return;
+  const worker = await registerReminderWorker();
+  if (!worker) return;
+
+  if (getReminderDelivery() === 'system') {
+    worker.active?.postMessage({ type: 'schedule-reminders', reminders });
+    return;
+  }
+
+  const now = Date.now();
+  reminders
+    .filter(reminder => reminder.at > now)
+    .forEach(reminder => {
+      pageTimers.set(reminder.tag, setTimeout(() => {
+        pageTimers.delete(reminder.tag);
+        worker.showNotification(reminder.title, {
+          tag: reminder.tag,
+          body: reminder.body,
+          requireInteraction: true,
+          data: { url: '/food-log' }
+        }).catch(error => console.error('Failed to show medication reminder:', error));
+      }, reminder.at - now));
+    });
+}
+
+/**
+ * Drop all scheduled reminders, e.g. on sign-out
+ */
+export async function clearReminders(): Promise<void> {
+  clearPageTimers();
+  if (!remindersSupported()) return;
+  // Only talk to a worker that is already there; never register one just to clear it
+  const existing = await navigator.serviceWorker.getRegistration(WORKER_URL);
+  existing?.active?.postMessage({ type: 'clear-reminders' });
+}
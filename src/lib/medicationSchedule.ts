@@ -0,0 +1,165 @@
+/**
+ * Medication schedule calculations
+ * Expands each medication's daily times into the doses of a given day, works out which are
+ * due, missed or done, and lists the upcoming ones as reminders for the service worker.
+ */
+
+import { addDays, toDateKey, zonedTime } from '@/lib/dateUtils';
+import type { Medication } from '@/hooks/useMedications';
+import type { MedicationDose } from '@/hooks/useMedicationDoses';
+
+// A dose stays "due" this long after its time before it counts as missed
+export const DOSE_GRACE_MINUTES = 60;
+
+// How far ahead reminders are handed to the service worker
+export const REMINDER_HORIZON_HOURS = 24;
+
+export type DoseStatus = 'taken' | 'skipped' | 'due' | 'missed' | 'upcoming';
+
+export interface ScheduledDose {
+  key: string; // medication|date|time, unique per slot
+  medication: Medication;
+  date: string;
+  time: string; // 'HH:MM'
+  scheduled_at: Date;
+  record: MedicationDose | null;
+  status: DoseStatus;
+}
+
+export interface DoseReminder {
+  tag: string; // notification tag, so a rescheduled reminder replaces the old one
+  title: string;
+  body: string;
+  at: number; // epoch ms
+}
+
+export interface DoseAdherence {
+  scheduled: number; // doses whose time has passed
+  taken: number;
+  skipped: number;
+  missed: number;
+  rate: number | null; // taken / scheduled, null before anything was due
+}
+
+const DOSE_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isValidDoseTime = (time: string) => DOSE_TIME.test(time);
+
+/**
+ * Valid times only, without duplicates, earliest first
+ */
+export function sortDoseTimes(times: string[]): string[] {
+  return [...new Set(times.filter(isValidDoseTime))].sort();
+}
+
+/**
+ * "08:30" -> "8:30 AM"
+ */
+export function formatDoseTime(time: string, locale = 'en-US'): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Date.UTC(2000, 0, 1, hours, minutes))
+    .toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' });
+}
+
+/**
+ * Every dose of the day for medications being taken then, with its status at `now`
+ * Past days also keep doses recorded for medications that have since been stopped.
+ */
+export function scheduledDosesForDay(
+  medications: Medication[],
+  doses: MedicationDose[],
+  date: string,
+  timeZone: string,
+  now: Date = new Date()
+): ScheduledDose[] {
+  const recordFor = (medicationId: string, time: string) =>
+    doses.find(dose => dose.medication_id === medicationId && dose.scheduled_date === date && dose.scheduled_time === time) ?? null;
+
+  const result: ScheduledDose[] = [];
+  for (const medication of medications) {
+    // Nothing was scheduled before the medication was added
+    if (toDateKey(medication.created_at, timeZone) > date) continue;
+
+    for (const time of sortDoseTimes(medication.times)) {
+      const record = recordFor(medication.id, time);
+      if (!medication.active && !record) continue;
+
+      const [hours, minutes] = time.split(':').map(Number);
+      const scheduledAt = zonedTime(date, hours, minutes, timeZone);
+      const minutesPast = (now.getTime() - scheduledAt.getTime()) / 60_000;
+
+      let status: DoseStatus = record?.status ?? 'upcoming';
+      if (!record && minutesPast >= 0) {
+        status = minutesPast <= DOSE_GRACE_MINUTES ? 'due' : 'missed';
+      }
+
+      result.push({
+        key: `${medication.id}|${date}|${time}`,
+        medication,
+        date,
+        time,
+        scheduled_at: scheduledAt,
+        record,
+        status
+      });
+    }
+  }
+
+  return result.sort((a, b) => a.scheduled_at.getTime() - b.scheduled_at.getTime());
+}
+
+/**
+ * Reminders for doses still to come within the horizon, for medications with reminders on
+ */
+export function upcomingReminders(
+  medications: Medication[],
+  doses: MedicationDose[],
+  timeZone: string,
+  now: Date = new Date(),
+  horizonHours: number = REMINDER_HORIZON_HOURS
+): DoseReminder[] {
+  const until = now.getTime() + horizonHours * 3_600_000;
+  const withReminders = medications.filter(medication => medication.active && medication.reminders_enabled);
+  const today = toDateKey(now, timeZone);
+
+  // Today and tomorrow cover any 24h horizon
+  return [today, addDays(today, 1)]
+    .flatMap(date => scheduledDosesForDay(withReminders, doses, date, timeZone, now))
+    .filter(dose => dose.status === 'upcoming' && dose.scheduled_at.getTime() <= until)
+    .map(dose => ({
+      tag: `medication-${dose.key}`,
+      title: `Time for ${dose.medication.name}`,
+      body: [
+        dose.medication.dose,
+        dose.medication.with_meal ? 'Take with food' : null,
+        `Scheduled for ${formatDoseTime(dose.time)}`
+      ].filter(Boolean).join(' · '),
+      at: dose.scheduled_at.getTime()
+    }));
+}
+
+/**
+ * Taken, skipped and missed doses over the given days; doses not yet due are left out
+ */
+export function calculateDoseAdherence(
+  medications: Medication[],
+  doses: MedicationDose[],
+  dates: string[],
+  timeZone: string,
+  now: Date = new Date()
+): DoseAdherence {
+  const counts = { scheduled: 0, taken: 0, skipped: 0, missed: 0 };
+
+  for (const date of dates) {
+    for (const dose of scheduledDosesForDay(medications, doses, date, timeZone, now)) {
+      if (dose.status === 'upcoming' || dose.status === 'due') continue;
+      counts.scheduled++;
+      counts[dose.status]++;
+    }
+  }
+
+  return {
+    ...counts,
+    rate: counts.scheduled > 0 ? counts.taken / counts.scheduled : null
+  };
+}
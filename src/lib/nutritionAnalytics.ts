@@ -0,0 +1,263 @@
+/**
+ * Long-range nutrition analytics for the Insights page
+ * Works on one row per calendar day (zeros for days without meals) and judges each day
+ * against the nutrition goals that were in effect on that date.
+ */
+
+import type { WeeklySummaryData } from '@/hooks/useWeeklySummary';
+import type { NutritionGoals } from '@/hooks/useNutritionGoals';
+
+export type DayTotals = WeeklySummaryData;
+export type GoalTargets = Pick<NutritionGoals, 'daily_calories' | 'daily_carbs' | 'daily_fats' | 'daily_proteins' | 'calculation_date'>;
+
+// A day counts as on target when calories land within this share of the goal
+export const CALORIE_TOLERANCE = 0.1;
+// ...and each macro within this share of its own target
+export const MACRO_TOLERANCE = 0.15;
+
+export const ROLLING_WINDOW_DAYS = 7;
+
+const KCAL_PER_GRAM = { carbs: 4, proteins: 4, fats: 9 };
+
+export interface RollingPoint {
+  date: string;
+  calories: number | null; // null when nothing was logged that day
+  rolling_calories: number | null; // trailing average over logged days in the window
+  goal_calories: number | null;
+}
+
+export interface MacroShare {
+  carbs: number;
+  proteins: number;
+  fats: number;
+}
+
+export interface MacroDistributionPoint extends MacroShare {
+  week_start: string; // Monday of the week
+  days_logged: number;
+}
+
+export interface DayAdherence {
+  date: string;
+  calories_on_target: boolean;
+  macros_on_target: boolean;
+}
+
+export interface AdherenceSummary {
+  days_judged: number; // logged days that had goals in effect
+  calorie_adherence_pct: number;
+  macro_adherence_pct: number;
+  days: DayAdherence[];
+}
+
+export interface DayGroupAverages {
+  days_logged: number;
+  avg_calories: number;
+  avg_carbs: number;
+  avg_fats: number;
+  avg_proteins: number;
+}
+
+export interface RangeAnalytics {
+  days: DayTotals[];
+  days_logged: number;
+  consistency_score: number; // 0-100, share of days with any meals
+  averages: DayGroupAverages; // over logged days only
+  calories_slope_per_week: number; // least-squares trend across logged days, kcal/day per week
+  rolling: RollingPoint[];
+  macro_distribution: MacroDistributionPoint[];
+  overall_macro_share: MacroShare;
+  adherence: AdherenceSummary;
+  weekday: DayGroupAverages;
+  weekend: DayGroupAverages;
+}
+
+const isLogged = (day: DayTotals) => day.meals_logged > 0;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// 0 = Sunday ... 6 = Saturday; date keys carry no zone so UTC keeps the weekday exact
+const weekdayOf = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+const dayIndex = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+};
+
+function mondayOf(dateKey: string): string {
+  const offset = (weekdayOf(dateKey) + 6) % 7;
+  return new Date((dayIndex(dateKey) - offset) * 86_400_000).toISOString().split('T')[0];
+}
+
+export const isWeekend = (dateKey: string) => {
+  const weekday = weekdayOf(dateKey);
+  return weekday === 0 || weekday === 6;
+};
+
+/**
+ * The goals in effect on a date: the latest version calculated on or before it
+ * `history` must be sorted by calculation_date ascending
+ */
+export function goalsForDate<T extends GoalTargets>(history: T[], dateKey: string): T | null {
+  let active: T | null = null;
+  for (const goals of history) {
+    if (goals.calculation_date > dateKey) break;
+    active = goals;
+  }
+  return active;
+}
+
+export function averageDays(days: DayTotals[]): DayGroupAverages {
+  const logged = days.filter(isLogged);
+  const divisor = Math.max(logged.length, 1);
+  const sum = (pick: (day: DayTotals) => number) => logged.reduce((total, day) => total + pick(day), 0);
+
+  return {
+    days_logged: logged.length,
+    avg_calories: Math.round(sum(day => day.total_calories) / divisor),
+    avg_carbs: Math.round(sum(day => day.total_carbs) / divisor),
+    avg_fats: Math.round(sum(day => day.total_fats) / divisor),
+    avg_proteins: Math.round(sum(day => day.total_proteins) / divisor)
+  };
+}
+
+/**
+ * Share of macro calories from carbs, protein and fat, in percent
+ */
+export function macroShare(totals: Pick<DayTotals, 'total_carbs' | 'total_fats' | 'total_proteins'>): MacroShare {
+  const carbs = totals.total_carbs * KCAL_PER_GRAM.carbs;
+  const proteins = totals.total_proteins * KCAL_PER_GRAM.proteins;
+  const fats = totals.total_fats * KCAL_PER_GRAM.fats;
+  const total = carbs + proteins + fats;
+
+  if (total === 0) return { carbs: 0, proteins: 0, fats: 0 };
+  return {
+    carbs: round1((carbs / total) * 100),
+    proteins: round1((proteins / total) * 100),
+    fats: round1((fats / total) * 100)
+  };
+}
+
+/**
+ * Trailing average of calories over the logged days in each window
+ * Unlogged days are left out rather than counted as zero-calorie days
+ */
+export function rollingCalories(
+  days: DayTotals[],
+  goalHistory: GoalTargets[],
+  windowDays: number = ROLLING_WINDOW_DAYS
+): RollingPoint[] {
+  return days.map((day, index) => {
+    const window = days.slice(Math.max(index - windowDays + 1, 0), index + 1).filter(isLogged);
+    const goals = goalsForDate(goalHistory, day.date);
+
+    return {
+      date: day.date,
+      calories: isLogged(day) ? Math.round(day.total_calories) : null,
+      rolling_calories: window.length > 0
+        ? Math.round(window.reduce((sum, d) => sum + d.total_calories, 0) / window.length)
+        : null,
+      goal_calories: goals ? Math.round(goals.daily_calories) : null
+    };
+  });
+}
+
+/**
+ * Macro split per Monday-to-Sunday week, from the week's summed grams
+ */
+export function weeklyMacroDistribution(days: DayTotals[]): MacroDistributionPoint[] {
+  const weeks = new Map<string, DayTotals[]>();
+  days.filter(isLogged).forEach(day => {
+    const weekStart = mondayOf(day.date);
+    weeks.set(weekStart, [...(weeks.get(weekStart) || []), day]);
+  });
+
+  return Array.from(weeks.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week_start, weekDays]) => ({
+      week_start,
+      days_logged: weekDays.length,
+      ...macroShare({
+        total_carbs: weekDays.reduce((sum, day) => sum + day.total_carbs, 0),
+        total_fats: weekDays.reduce((sum, day) => sum + day.total_fats, 0),
+        total_proteins: weekDays.reduce((sum, day) => sum + day.total_proteins, 0)
+      })
+    }));
+}
+
+const withinTolerance = (actual: number, target: number, tolerance: number) =>
+  target > 0 && Math.abs(actual - target) <= target * tolerance;
+
+/**
+ * How often logged days met the goals active on that day
+ * Days before the first goals were set are not judged
+ */
+export function calculateAdherence(days: DayTotals[], goalHistory: GoalTargets[]): AdherenceSummary {
+  const judged: DayAdherence[] = [];
+
+  days.filter(isLogged).forEach(day => {
+    const goals = goalsForDate(goalHistory, day.date);
+    if (!goals) return;
+
+    judged.push({
+      date: day.date,
+      calories_on_target: withinTolerance(day.total_calories, goals.daily_calories, CALORIE_TOLERANCE),
+      macros_on_target:
+        withinTolerance(day.total_carbs, goals.daily_carbs, MACRO_TOLERANCE) &&
+        withinTolerance(day.total_fats, goals.daily_fats, MACRO_TOLERANCE) &&
+        withinTolerance(day.total_proteins, goals.daily_proteins, MACRO_TOLERANCE)
+    });
+  });
+
+  const pct = (count: number) => (judged.length > 0 ? Math.round((count / judged.length) * 100) : 0);
+
+  return {
+    days_judged: judged.length,
+    calorie_adherence_pct: pct(judged.filter(day => day.calories_on_target).length),
+    macro_adherence_pct: pct(judged.filter(day => day.macros_on_target).length),
+    days: judged
+  };
+}
+
+/**
+ * Least-squares slope of daily calories, scaled to a week
+ */
+export function caloriesSlopePerWeek(days: DayTotals[]): number {
+  const points = days.filter(isLogged).map(day => ({ x: dayIndex(day.date), y: day.total_calories }));
+  if (points.length < 2) return 0;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+
+  return variance === 0 ? 0 : Math.round((covariance / variance) * 7);
+}
+
+/**
+ * Everything the Insights page shows for a date range
+ */
+export function calculateRangeAnalytics(days: DayTotals[], goalHistory: GoalTargets[]): RangeAnalytics {
+  const averages = averageDays(days);
+
+  return {
+    days,
+    days_logged: averages.days_logged,
+    consistency_score: days.length > 0 ? Math.round((averages.days_logged / days.length) * 100) : 0,
+    averages,
+    calories_slope_per_week: caloriesSlopePerWeek(days),
+    rolling: rollingCalories(days, goalHistory),
+    macro_distribution: weeklyMacroDistribution(days),
+    overall_macro_share: macroShare({
+      total_carbs: averages.avg_carbs,
+      total_fats: averages.avg_fats,
+      total_proteins: averages.avg_proteins
+    }),
+    adherence: calculateAdherence(days, goalHistory),
+    weekday: averageDays(days.filter(day => !isWeekend(day.date))),
+    weekend: averageDays(days.filter(day => isWeekend(day.date)))
+  };
+}
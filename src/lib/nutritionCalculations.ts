@@ -97,6 +97,111 @@ export const MACRO_TEMPLATES: Record<string, Record<string, GoalType>> = {
   }
 };
 
+export const MICRONUTRIENT_KEYS = ['fiber', 'sugar', 'sodium', 'vitamin_c', 'calcium', 'iron'] as const;
+
+export type MicronutrientKey = typeof MICRONUTRIENT_KEYS[number];
+
+// Optional because most foods and AI results only know some of them
+export type Micronutrients = Partial<Record<MicronutrientKey, number | null>>;
+
+export interface MicronutrientInfo {
+  label: string;
+  unit: 'g' | 'mg';
+  // 'minimum' targets should be reached, 'maximum' targets should not be exceeded
+  limit: 'minimum' | 'maximum';
+}
+
+export const MICRONUTRIENT_INFO: Record<MicronutrientKey, MicronutrientInfo> = {
+  fiber: { label: 'Fiber', unit: 'g', limit: 'minimum' },
+  sugar: { label: 'Sugar', unit: 'g', limit: 'maximum' },
+  sodium: { label: 'Sodium', unit: 'mg', limit: 'maximum' },
+  vitamin_c: { label: 'Vitamin C', unit: 'mg', limit: 'minimum' },
+  calcium: { label: 'Calcium', unit: 'mg', limit: 'minimum' },
+  iron: { label: 'Iron', unit: 'mg', limit: 'minimum' }
+};
+
+// Daily micronutrient targets by user type (based on common dietary guidelines)
+export const MICRONUTRIENT_TARGETS: Record<string, Record<MicronutrientKey, number>> = {
+  diabetes: {
+    fiber: 35,
+    sugar: 25,
+    sodium: 1500,
+    vitamin_c: 90,
+    calcium: 1000,
+    iron: 12
+  },
+  gym: {
+    fiber: 30,
+    sugar: 50,
+    sodium: 3000,
+    vitamin_c: 90,
+    calcium: 1000,
+    iron: 14
+  },
+  general: {
+    fiber: 28,
+    sugar: 50,
+    sodium: 2300,
+    vitamin_c: 90,
+    calcium: 1000,
+    iron: 14
+  }
+};
+
+export interface MicronutrientStatus {
+  key: MicronutrientKey;
+  current: number;
+  target: number;
+  percentage: number;
+  status: 'good' | 'low' | 'over';
+}
+
+/**
+ * Compare daily micronutrient totals against the user type's targets
+ */
+export function evaluateMicronutrients(
+  totals: Micronutrients,
+  userType: string | null | undefined
+): MicronutrientStatus[] {
+  const targets = MICRONUTRIENT_TARGETS[userType || 'general'] || MICRONUTRIENT_TARGETS.general;
+
+  return MICRONUTRIENT_KEYS.map(key => {
+    const current = totals[key] || 0;
+    const target = targets[key];
+    const percentage = target > 0 ? (current / target) * 100 : 0;
+
+    let status: MicronutrientStatus['status'];
+    if (MICRONUTRIENT_INFO[key].limit === 'maximum') {
+      status = percentage > 100 ? 'over' : 'good';
+    } else {
+      status = percentage >= 80 ? 'good' : 'low';
+    }
+
+    return { key, current, target, percentage, status };
+  });
+}
+
+export type LoggingCompleteness = 'none' | 'light' | 'partial' | 'complete';
+
+/**
+ * How fully a day was logged: share of the calorie goal when there is one, otherwise meal count
+ */
+export function getLoggingCompleteness(
+  day: { total_calories: number; meals_logged: number } | null | undefined,
+  calorieGoal?: number | null
+): LoggingCompleteness {
+  if (!day || day.meals_logged === 0) return 'none';
+
+  if (calorieGoal && calorieGoal > 0) {
+    const share = day.total_calories / calorieGoal;
+    if (share >= 0.8) return 'complete';
+    return share >= 0.5 ? 'partial' : 'light';
+  }
+
+  if (day.meals_logged >= 3) return 'complete';
+  return day.meals_logged === 2 ? 'partial' : 'light';
+}
+
 /**
  * Calculate Basal Metabolic Rate using Mifflin-St Jeor Equation
  * Most accurate formula for modern populations
@@ -425,6 +530,62 @@ export function calculateNutritionGoalsWithActivity(
   }
 }
 
+/**
+ * Nutrition goals built on a known TDEE, e.g. the adaptive estimate from intake and weight trend
+ * BMR is still reported for reference but plays no part in the targets
+ */
+export function calculateNutritionGoalsWithTDEE(
+  profile: UserProfile,
+  tdee: number,
+  goalType: string = 'maintain'
+): NutritionGoals {
+  try {
+    const validatedProfile = ProfileValidationSchema.parse({
+      age: profile.age,
+      gender: profile.gender,
+      height: profile.height,
+      weight: profile.weight,
+      target_weight: profile.target_weight,
+      user_type: profile.user_type
+    });
+
+    const bmr = calculateBMR(
+      validatedProfile.weight,
+      validatedProfile.height,
+      validatedProfile.age,
+      validatedProfile.gender
+    );
+
+    const targetCalories = calculateCaloricGoal(
+      tdee,
+      validatedProfile.weight,
+      validatedProfile.target_weight,
+      validatedProfile.user_type,
+      goalType
+    );
+
+    const macros = calculateMacros(targetCalories, validatedProfile.user_type, goalType);
+
+    return {
+      daily_calories: targetCalories,
+      daily_carbs: macros.carbs,
+      daily_fats: macros.fat,
+      daily_proteins: macros.protein,
+      bmr,
+      tdee: Math.round(tdee),
+      macro_percentages: macros.percentages
+    };
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issues = error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+      throw new Error(`Profile validation failed: ${issues}`);
+    }
+
+    throw new Error(`TDEE-based nutrition calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Utility function to determine goal type based on weight difference
  */
@@ -518,8 +679,12 @@ export default {
   calculateTDEEWithActivity,
   calculateNutritionGoals,
   calculateNutritionGoalsWithActivity,
+  calculateNutritionGoalsWithTDEE,
   calculateBMI,
   determineGoalType,
   validateNutritionGoals,
-  MACRO_TEMPLATES
+  evaluateMicronutrients,
+  getLoggingCompleteness,
+  MACRO_TEMPLATES,
+  MICRONUTRIENT_TARGETS
 };
\ No newline at end of file
@@ -0,0 +1,258 @@
+/**
+ * Offline store backed by IndexedDB
+ * Caches meals, daily summaries and goals for reading without a connection, and keeps an
+ * outbox of meal log changes that are replayed against Supabase once the device is back online
+ */
+
+const DB_NAME = 'nutrition-offline';
+const DB_VERSION = 1;
+
+const STORES = {
+  meals: 'meal_logs',
+  summaries: 'daily_summaries',
+  goals: 'nutrition_goals',
+  outbox: 'outbox'
+} as const;
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+export interface OutboxEntry {
+  seq?: number; // assigned by IndexedDB, replay order
+  user_id: string;
+  operation: OutboxOperation;
+  record_id: string; // meal id; offline inserts get a client-generated uuid
+  payload: Record<string, unknown>; // full row for inserts, changed fields for updates
+  created_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+// Rows are stored with the owning user so one device can hold several accounts
+type CachedRow = Record<string, unknown> & { user_id: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isOfflineStoreAvailable = () => typeof indexedDB !== 'undefined';
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const meals = db.createObjectStore(STORES.meals, { keyPath: 'id' });
+        meals.createIndex('user_id', 'user_id');
+        db.createObjectStore(STORES.summaries, { keyPath: ['user_id', 'date'] });
+        db.createObjectStore(STORES.goals, { keyPath: 'user_id' });
+        const outbox = db.createObjectStore(STORES.outbox, { keyPath: 'seq', autoIncrement: true });
+        outbox.createIndex('user_id', 'user_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+/**
+ * Run work in one transaction, failing when IndexedDB is missing or the transaction errors
+ */
+async function runInStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  if (!isOfflineStoreAvailable()) {
+    throw new Error('Offline storage is not available in this browser');
+  }
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = transactionDone(tx);
+  done.catch(() => undefined); // surfaced by the await below
+  const result = await work(tx.objectStore(storeName));
+  await done;
+  return result;
+}
+
+/**
+ * Cache access that degrades quietly: without IndexedDB (private mode, old browsers) or on an
+ * error it returns the fallback, since the server copy stays the source of truth
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T,
+  fallback: T
+): Promise<T> {
+  if (!isOfflineStoreAvailable()) return fallback;
+  try {
+    return await runInStore(storeName, mode, work);
+  } catch (error) {
+    console.warn(`Offline store (${storeName}) unavailable:`, error);
+    return fallback;
+  }
+}
+
+const byUser = (store: IDBObjectStore, userId: string) =>
+  promisify(store.index('user_id').getAll(userId)) as Promise<CachedRow[]>;
+
+// ---------------------------------------------------------------------------
+// Cached reads
+// ---------------------------------------------------------------------------
+
+/**
+ * Cached meals for one user whose logged_at falls inside [from, to)
+ */
+export function getCachedMeals<T>(userId: string, from: string, to: string): Promise<T[]> {
+  return withStore(STORES.meals, 'readonly', async store => {
+    const rows = await byUser(store, userId);
+    return rows
+      .filter(row => String(row.logged_at) >= from && String(row.logged_at) < to)
+      .sort((a, b) => String(b.logged_at).localeCompare(String(a.logged_at))) as unknown as T[];
+  }, []);
+}
+
+/**
+ * Replace the cached meals in [from, to) with a fresh server result
+ */
+export function cacheMeals(userId: string, from: string, to: string, meals: object[]): Promise<void> {
+  return withStore(STORES.meals, 'readwrite', async store => {
+    const rows = await byUser(store, userId);
+    rows
+      .filter(row => String(row.logged_at) >= from && String(row.logged_at) < to)
+      .forEach(row => store.delete(row.id as string));
+    meals.forEach(meal => store.put({ ...meal, user_id: userId }));
+  }, undefined);
+}
+
+export function putCachedMeal(userId: string, meal: object): Promise<void> {
+  return withStore(STORES.meals, 'readwrite', store => {
+    store.put({ ...meal, user_id: userId });
+  }, undefined);
+}
+
+export function removeCachedMeal(id: string): Promise<void> {
+  return withStore(STORES.meals, 'readwrite', store => {
+    store.delete(id);
+  }, undefined);
+}
+
+export function getCachedSummary<T>(userId: string, date: string): Promise<T | null> {
+  return withStore(STORES.summaries, 'readonly', async store =>
+    ((await promisify(store.get([userId, date]))) as T) ?? null, null);
+}
+
+export function cacheSummary(userId: string, date: string, summary: object): Promise<void> {
+  return withStore(STORES.summaries, 'readwrite', store => {
+    store.put({ ...summary, user_id: userId, date });
+  }, undefined);
+}
+
+export function getCachedGoals<T>(userId: string): Promise<T | null> {
+  return withStore(STORES.goals, 'readonly', async store =>
+    ((await promisify(store.get(userId))) as T) ?? null, null);
+}
+
+export function cacheGoals(userId: string, goals: object): Promise<void> {
+  return withStore(STORES.goals, 'readwrite', store => {
+    store.put({ ...goals, user_id: userId });
+  }, undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Outbox
+// ---------------------------------------------------------------------------
+
+// Outbox writes throw instead of falling back: a change that can't be queued would otherwise be lost
+
+export function getOutbox(userId: string): Promise<OutboxEntry[]> {
+  return withStore(STORES.outbox, 'readonly', async store =>
+    ((await byUser(store, userId)) as unknown as OutboxEntry[]).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0)), []);
+}
+
+/**
+ * Queue a change, folding it into earlier pending changes to the same record:
+ * an update to a queued insert edits the insert, and deleting a queued insert cancels both
+ */
+export function enqueueMutation(entry: Omit<OutboxEntry, 'seq' | 'created_at' | 'attempts'>): Promise<void> {
+  return runInStore(STORES.outbox, 'readwrite', async store => {
+    const pending = ((await byUser(store, entry.user_id)) as unknown as OutboxEntry[])
+      .filter(existing => existing.record_id === entry.record_id);
+    const queuedInsert = pending.find(existing => existing.operation === 'insert');
+
+    if (queuedInsert && entry.operation === 'update') {
+      store.put({ ...queuedInsert, payload: { ...queuedInsert.payload, ...entry.payload } });
+      return;
+    }
+
+    if (entry.operation === 'delete') {
+      pending.forEach(existing => store.delete(existing.seq!));
+      if (queuedInsert) return; // never reached the server
+    }
+
+    store.add({ ...entry, created_at: new Date().toISOString(), attempts: 0 });
+  });
+}
+
+export function removeMutation(seq: number): Promise<void> {
+  return runInStore(STORES.outbox, 'readwrite', store => {
+    store.delete(seq);
+  });
+}
+
+export function markMutationFailed(entry: OutboxEntry, error: string): Promise<void> {
+  return runInStore(STORES.outbox, 'readwrite', store => {
+    store.put({ ...entry, attempts: entry.attempts + 1, last_error: error });
+  });
+}
+
+/**
+ * Overlay queued changes on server or cached rows so pending edits stay visible;
+ * `belongs` keeps queued inserts to the rows the caller is showing (e.g. one day)
+ */
+export function applyOutbox<T extends { id: string }>(
+  rows: T[],
+  entries: OutboxEntry[],
+  belongs: (row: T) => boolean
+): Array<T & { pending_sync?: boolean }> {
+  let result: Array<T & { pending_sync?: boolean }> = [...rows];
+  for (const entry of entries) {
+    if (entry.operation === 'insert') {
+      const row = { ...entry.payload, id: entry.record_id, pending_sync: true } as unknown as T & { pending_sync: boolean };
+      if (belongs(row) && !result.some(existing => existing.id === row.id)) {
+        result = [row, ...result.filter(existing => existing.id !== row.id)];
+      } else {
+        result = result.map(existing => (existing.id === row.id ? { ...existing, pending_sync: true } : existing));
+      }
+    } else if (entry.operation === 'update') {
+      result = result.map(existing =>
+        existing.id === entry.record_id ? { ...existing, ...entry.payload, pending_sync: true } : existing
+      );
+    } else {
+      result = result.filter(existing => existing.id !== entry.record_id);
+    }
+  }
+  return result;
+}
+
+/**
+ * True when a request failed because the device is offline rather than being rejected
+ */
+export function isNetworkError(error: { message?: string } | null | undefined): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(error?.message || '');
+}
@@ -0,0 +1,52 @@
+/**
+ * Helpers for reviewing a multi-food photo analysis before logging it
+ * Each detected item carries nutrition for its own estimated portion
+ */
+
+import type { DetectedFoodItem } from '@/lib/geminiAI';
+import type { MacroTotals } from '@/lib/recipeCalculations';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Re-weight a detected item, scaling its nutrition in proportion to the new grams
+ * The estimate text is replaced since "1 cup" no longer describes the portion
+ */
+export function rescaleDetectedItem(item: DetectedFoodItem, grams: number): DetectedFoodItem {
+  const ratio = item.portionSize.grams > 0 ? grams / item.portionSize.grams : 0;
+  if (ratio <= 0 || ratio === 1) return item;
+
+  const scale = (amount: number | undefined) => amount != null ? round1(amount * ratio) : undefined;
+
+  return {
+    ...item,
+    nutrition: {
+      calories: Math.round(item.nutrition.calories * ratio),
+      carbs: round1(item.nutrition.carbs * ratio),
+      proteins: round1(item.nutrition.proteins * ratio),
+      fats: round1(item.nutrition.fats * ratio),
+      fiber: scale(item.nutrition.fiber),
+      sugar: scale(item.nutrition.sugar),
+      sodium: scale(item.nutrition.sodium)
+    },
+    portionSize: {
+      estimated: `${round1(grams)}g`,
+      grams: round1(grams)
+    }
+  };
+}
+
+/**
+ * Combined macros for every item on the plate
+ */
+export function sumDetectedItems(items: DetectedFoodItem[]): MacroTotals {
+  return items.reduce(
+    (totals, item) => ({
+      calories: totals.calories + Math.round(item.nutrition.calories),
+      carbs: round1(totals.carbs + item.nutrition.carbs),
+      fats: round1(totals.fats + item.nutrition.fats),
+      proteins: round1(totals.proteins + item.nutrition.proteins)
+    }),
+    { calories: 0, carbs: 0, fats: 0, proteins: 0 }
+  );
+}
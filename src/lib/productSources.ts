@@ -0,0 +1,214 @@
+/**
+ * Pluggable product sources for barcode lookups
+ * Sources return Open Food Facts-format products, normalised to per-100g food_items values
+ */
+
+import { barcodeVariants } from '@/lib/barcodeDecoder';
+import type { Per100gMicronutrients } from '@/lib/recipeCalculations';
+import type { AllergenTag } from '@/lib/dietaryRestrictions';
+
+// Subset of the Open Food Facts product schema that we read
+export interface OpenFoodFactsProduct {
+  code: string;
+  product_name?: string;
+  generic_name?: string;
+  brands?: string;
+  serving_size?: string; // free text, e.g. "1 bar (40 g)"
+  serving_quantity?: number | string; // grams (or ml) per serving
+  nutriments?: Record<string, number | string | undefined>;
+  allergens_tags?: string[]; // e.g. ['en:milk', 'en:gluten']
+}
+
+export interface ImportedProduct extends Per100gMicronutrients {
+  barcode: string;
+  name: string;
+  brand: string | null;
+  calories_per_100g: number;
+  carbs_per_100g: number;
+  fats_per_100g: number;
+  proteins_per_100g: number;
+  serving_size_g: number | null;
+  serving_description: string | null;
+  allergens: AllergenTag[];
+  source: string;
+}
+
+export interface ProductSource {
+  id: string;
+  name: string;
+  lookup: (barcode: string) => Promise<OpenFoodFactsProduct | null>;
+}
+
+const KJ_PER_KCAL = 4.184;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const readNumber = (nutriments: OpenFoodFactsProduct['nutriments'], key: string): number | null => {
+  const value = nutriments?.[key];
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+// Open Food Facts allergen taxonomy -> our allergen tags
+const OFF_ALLERGENS: Record<string, AllergenTag[]> = {
+  'en:milk': ['dairy', 'lactose'],
+  'en:eggs': ['egg'],
+  'en:gluten': ['gluten'],
+  'en:nuts': ['tree_nuts'],
+  'en:peanuts': ['peanuts'],
+  'en:soybeans': ['soy'],
+  'en:fish': ['fish'],
+  'en:crustaceans': ['shellfish'],
+  'en:molluscs': ['shellfish']
+};
+
+const readAllergens = (tags: string[] | undefined): AllergenTag[] =>
+  [...new Set((tags ?? []).flatMap(tag => OFF_ALLERGENS[tag] ?? []))];
+
+// Open Food Facts stores sodium, vitamin C, calcium and iron in grams per 100g
+const gramsToMg = (value: number | null) => (value === null ? null : round1(value * 1000));
+
+/**
+ * Convert an Open Food Facts product into food_items-ready per-100g values
+ * Returns null when the product has no usable energy/macro data
+ */
+export function normalizeOpenFoodFactsProduct(
+  product: OpenFoodFactsProduct,
+  sourceId: string
+): ImportedProduct | null {
+  const nutriments = product.nutriments || {};
+
+  const kcal = readNumber(nutriments, 'energy-kcal_100g');
+  const kj = readNumber(nutriments, 'energy-kj_100g') ?? readNumber(nutriments, 'energy_100g');
+  const calories = kcal ?? (kj !== null ? kj / KJ_PER_KCAL : null);
+  if (calories === null) return null;
+
+  const name = (product.product_name || product.generic_name || '').trim();
+  if (!name) return null;
+
+  const servingQuantity = typeof product.serving_quantity === 'string'
+    ? parseFloat(product.serving_quantity)
+    : product.serving_quantity;
+
+  return {
+    barcode: product.code,
+    name,
+    brand: product.brands?.split(',')[0].trim() || null,
+    calories_per_100g: Math.round(calories),
+    carbs_per_100g: round1(readNumber(nutriments, 'carbohydrates_100g') ?? 0),
+    fats_per_100g: round1(readNumber(nutriments, 'fat_100g') ?? 0),
+    proteins_per_100g: round1(readNumber(nutriments, 'proteins_100g') ?? 0),
+    fiber_per_100g: readNumber(nutriments, 'fiber_100g'),
+    sugar_per_100g: readNumber(nutriments, 'sugars_100g'),
+    sodium_per_100g: gramsToMg(readNumber(nutriments, 'sodium_100g')),
+    vitamin_c_per_100g: gramsToMg(readNumber(nutriments, 'vitamin-c_100g')),
+    calcium_per_100g: gramsToMg(readNumber(nutriments, 'calcium_100g')),
+    iron_per_100g: gramsToMg(readNumber(nutriments, 'iron_100g')),
+    serving_size_g: servingQuantity && servingQuantity > 0 ? servingQuantity : null,
+    serving_description: product.serving_size?.trim() || null,
+    allergens: readAllergens(product.allergens_tags),
+    source: sourceId
+  };
+}
+
+/**
+ * Offline source backed by an Open Food Facts-format dump shipped in /public
+ * The dump is fetched once and indexed by barcode
+ */
+export function createLocalDumpSource(url: string = '/data/openfoodfacts-products.json'): ProductSource {
+  let index: Promise<Map<string, OpenFoodFactsProduct>> | null = null;
+
+  const loadIndex = () => {
+    if (!index) {
+      index = fetch(url)
+        .then(response => {
+          if (!response.ok) throw new Error(`Product dump unavailable (${response.status})`);
+          return response.json();
+        })
+        .then((dump: { products?: OpenFoodFactsProduct[] } | OpenFoodFactsProduct[]) => {
+          const products = Array.isArray(dump) ? dump : dump.products || [];
+          return new Map(products.map(product => [product.code, product]));
+        })
+        .catch(error => {
+          // Allow a retry on the next lookup
+          index = null;
+          throw error;
+        });
+    }
+    return index;
+  };
+
+  return {
+    id: 'local_off_dump',
+    name: 'Offline product database',
+    lookup: async (barcode) => {
+      const products = await loadIndex();
+      for (const code of barcodeVariants(barcode)) {
+        const product = products.get(code);
+        if (product) return product;
+      }
+      return null;
+    }
+  };
+}
+
+/**
+ * Online source using the public Open Food Facts API
+ */
+export function createOpenFoodFactsApiSource(
+  baseUrl: string = 'https://world.openfoodfacts.org'
+): ProductSource {
+  return {
+    id: 'open_food_facts_api',
+    name: 'Open Food Facts',
+    lookup: async (barcode) => {
+      if (typeof navigator !== 'undefined' && !navigator.onLine) return null;
+
+      const response = await fetch(
+        `${baseUrl}/api/v2/product/${barcode}.json?fields=code,product_name,generic_name,brands,serving_size,serving_quantity,nutriments,allergens_tags`
+      );
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Open Food Facts lookup failed (${response.status})`);
+
+      const data = await response.json();
+      return data?.status === 1 && data.product ? { ...data.product, code: data.product.code || barcode } : null;
+    }
+  };
+}
+
+// Offline dump first, then the live API when online
+export const DEFAULT_PRODUCT_SOURCES: ProductSource[] = [
+  createLocalDumpSource(),
+  createOpenFoodFactsApiSource()
+];
+
+/**
+ * Try each source in order; a failing source is skipped rather than aborting the lookup
+ * A hit without allergen data keeps going so a later source can fill in the allergens,
+ * since an empty list would otherwise read as "allergen-free"
+ */
+export async function lookupProduct(
+  barcode: string,
+  sources: ProductSource[] = DEFAULT_PRODUCT_SOURCES
+): Promise<ImportedProduct | null> {
+  let found: ImportedProduct | null = null;
+
+  for (const source of sources) {
+    try {
+      const product = await source.lookup(barcode);
+      if (!product) continue;
+
+      if (found) {
+        if (product.allergens_tags) return { ...found, allergens: readAllergens(product.allergens_tags) };
+        continue;
+      }
+
+      found = normalizeOpenFoodFactsProduct(product, source.id);
+      if (found && product.allergens_tags) return found;
+    } catch (error) {
+      console.warn(`Product source ${source.id} failed:`, error);
+    }
+  }
+
+  return found;
+}
@@ -0,0 +1,57 @@
+/**
+ * TanStack Query keys for the shared data cache
+ * Keys start with the table and user so one user's data can be invalidated as a group
+ */
+
+import type { QueryClient } from '@tanstack/react-query';
+
+export const queryKeys = {
+  mealLogs: (userId: string) => ['meal_logs', userId] as const,
+  mealLogsForDay: (userId: string, date: string, mealType?: string) =>
+    ['meal_logs', userId, date, mealType ?? 'all'] as const,
+  // Meals between two instants (around workouts) rather than on a day, so kept off the day-list root
+  mealLogRanges: (userId: string) => ['meal_logs_range', userId] as const,
+  mealLogRange: (userId: string, start: string, end: string) => ['meal_logs_range', userId, start, end] as const,
+
+  dailySummaries: (userId: string) => ['daily_summary', userId] as const,
+  dailySummary: (userId: string, date: string) => ['daily_summary', userId, date] as const,
+  // Ranges hold arrays, so they live under their own root rather than beside single days
+  summaryRanges: (userId: string) => ['daily_summary_range', userId] as const,
+  summaryRange: (userId: string, startDate: string, endDate: string) =>
+    ['daily_summary_range', userId, startDate, endDate] as const,
+
+  weeklySummaries: (userId: string) => ['weekly_summary', userId] as const,
+  weeklySummary: (userId: string, endDate: string) => ['weekly_summary', userId, endDate] as const,
+
+  nutritionGoals: (userId: string) => ['nutrition_goals', userId] as const,
+  goalHistory: (userId: string) => ['nutrition_goals', userId, 'history'] as const,
+  // Goals in effect on a past day; the plain nutritionGoals key holds today's
+  goalsOnDates: (userId: string) => ['nutrition_goals', userId, 'on'] as const,
+  goalsOn: (userId: string, date: string) => ['nutrition_goals', userId, 'on', date] as const,
+
+  weighIns: (userId: string) => ['weigh_ins', userId] as const,
+
+  medications: (userId: string) => ['medications', userId] as const,
+  medicationDoses: (userId: string) => ['medication_doses', userId] as const,
+  medicationDoseRange: (userId: string, startDate: string, endDate: string) =>
+    ['medication_doses', userId, startDate, endDate] as const,
+
+  activity: (userId: string) => ['activity', userId] as const,
+  activityWeeks: (userId: string) => ['activity', userId, 'week'] as const,
+  activityWeek: (userId: string, endDate: string) => ['activity', userId, 'week', endDate] as const,
+  activityDays: (userId: string) => ['activity', userId, 'day'] as const,
+  activityDay: (userId: string, date: string) => ['activity', userId, 'day', date] as const,
+  devices: (userId: string) => ['activity', userId, 'devices'] as const,
+  activityGoals: (userId: string) => ['activity', userId, 'goals'] as const
+};
+
+/**
+ * Meal changes feed the daily summary trigger, which feeds the weekly view
+ */
+export function invalidateNutritionTotals(queryClient: QueryClient, userId: string) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.dailySummaries(userId) }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.summaryRanges(userId) }),
+    queryClient.invalidateQueries({ queryKey: queryKeys.weeklySummaries(userId) })
+  ]);
+}
@@ -0,0 +1,178 @@
+/**
+ * Portion and recipe nutrition math
+ * Shared by FoodSearch (single foods) and the recipe builder (multi-item meals)
+ */
+
+import { MICRONUTRIENT_KEYS, type MicronutrientKey, type Micronutrients } from '@/lib/nutritionCalculations';
+
+export interface Per100gNutrition {
+  calories_per_100g: number;
+  carbs_per_100g: number;
+  fats_per_100g: number;
+  proteins_per_100g: number;
+}
+
+export type Per100gMicronutrients = Partial<Record<`${MicronutrientKey}_per_100g`, number | null>>;
+
+export interface MacroTotals {
+  calories: number;
+  carbs: number; // in grams
+  fats: number; // in grams
+  proteins: number; // in grams
+}
+
+// Micronutrients for the ingredient amount; unset when the food doesn't know them
+export interface RecipeIngredientInput extends MacroTotals, Micronutrients {
+  food_item_id?: string | null;
+  food_name: string;
+  grams: number;
+}
+
+export interface RecipeNutrition {
+  total_grams: number;
+  totals: MacroTotals;
+  per_serving: MacroTotals;
+  grams_per_serving: number;
+}
+
+const roundMacro = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Scale per-100g food values to a portion in grams
+ * Calories are whole numbers, macros keep one decimal place
+ */
+export function calculatePortionNutrition(food: Per100gNutrition, grams: number): MacroTotals {
+  const multiplier = grams / 100;
+  return {
+    calories: Math.round(food.calories_per_100g * multiplier),
+    carbs: roundMacro(food.carbs_per_100g * multiplier),
+    fats: roundMacro(food.fats_per_100g * multiplier),
+    proteins: roundMacro(food.proteins_per_100g * multiplier)
+  };
+}
+
+/**
+ * Scale the per-100g micronutrients a food knows about; unknown values stay unset
+ */
+export function calculatePortionMicronutrients(food: Per100gMicronutrients, grams: number): Micronutrients {
+  const multiplier = grams / 100;
+  const result: Micronutrients = {};
+
+  for (const key of MICRONUTRIENT_KEYS) {
+    const per100g = food[`${key}_per_100g`];
+    if (per100g !== null && per100g !== undefined) {
+      result[key] = roundMacro(per100g * multiplier);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build a recipe ingredient from a food item and an amount in grams
+ */
+export function buildRecipeIngredient(
+  food: Per100gNutrition & Per100gMicronutrients & { id?: string; name: string },
+  grams: number
+): RecipeIngredientInput {
+  return {
+    food_item_id: food.id ?? null,
+    food_name: food.name,
+    grams,
+    ...calculatePortionNutrition(food, grams),
+    ...calculatePortionMicronutrients(food, grams)
+  };
+}
+
+/**
+ * Sum the micronutrients of a set of ingredients
+ * A value is left unset only when no ingredient knows it
+ */
+export function totalMicronutrients(ingredients: RecipeIngredientInput[]): Micronutrients {
+  const result: Micronutrients = {};
+
+  for (const key of MICRONUTRIENT_KEYS) {
+    const known = ingredients.filter(ingredient => ingredient[key] !== null && ingredient[key] !== undefined);
+    if (known.length > 0) {
+      result[key] = roundMacro(known.reduce((sum, ingredient) => sum + ingredient[key]!, 0));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sum ingredients and divide by servings
+ */
+export function calculateRecipeNutrition(
+  ingredients: RecipeIngredientInput[],
+  servings: number
+): RecipeNutrition {
+  const totals = ingredients.reduce(
+    (acc, ingredient) => ({
+      calories: acc.calories + ingredient.calories,
+      carbs: acc.carbs + ingredient.carbs,
+      fats: acc.fats + ingredient.fats,
+      proteins: acc.proteins + ingredient.proteins
+    }),
+    { calories: 0, carbs: 0, fats: 0, proteins: 0 }
+  );
+  const total_grams = ingredients.reduce((sum, ingredient) => sum + ingredient.grams, 0);
+  const divisor = servings > 0 ? servings : 1;
+
+  return {
+    total_grams,
+    totals: {
+      calories: Math.round(totals.calories),
+      carbs: roundMacro(totals.carbs),
+      fats: roundMacro(totals.fats),
+      proteins: roundMacro(totals.proteins)
+    },
+    per_serving: {
+      calories: Math.round(totals.calories / divisor),
+      carbs: roundMacro(totals.carbs / divisor),
+      fats: roundMacro(totals.fats / divisor),
+      proteins: roundMacro(totals.proteins / divisor)
+    },
+    grams_per_serving: Math.round(total_grams / divisor)
+  };
+}
+
+/**
+ * Scale a per-serving macro set to any number of servings (e.g. 1.5)
+ */
+export function scaleServings(perServing: MacroTotals, servings: number): MacroTotals {
+  return {
+    calories: Math.round(perServing.calories * servings),
+    carbs: roundMacro(perServing.carbs * servings),
+    fats: roundMacro(perServing.fats * servings),
+    proteins: roundMacro(perServing.proteins * servings)
+  };
+}
+
+/**
+ * Scale each ingredient to the fraction of the recipe that was eaten
+ * Used for the ingredient snapshot stored on a grouped meal log
+ */
+export function scaleIngredients(
+  ingredients: RecipeIngredientInput[],
+  servingsEaten: number,
+  recipeServings: number
+): RecipeIngredientInput[] {
+  const fraction = recipeServings > 0 ? servingsEaten / recipeServings : 0;
+  return ingredients.map(ingredient => {
+    const scaled: RecipeIngredientInput = {
+      ...ingredient,
+      grams: Math.round(ingredient.grams * fraction),
+      calories: Math.round(ingredient.calories * fraction),
+      carbs: roundMacro(ingredient.carbs * fraction),
+      fats: roundMacro(ingredient.fats * fraction),
+      proteins: roundMacro(ingredient.proteins * fraction)
+    };
+    for (const key of MICRONUTRIENT_KEYS) {
+      const value = ingredient[key];
+      if (value !== null && value !== undefined) scaled[key] = roundMacro(value * fraction);
+    }
+    return scaled;
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Serving units and household measures
+ * Converts "1 medium", "2 tbsp" or "1 serving" into grams for nutrition math
+ */
+
+export interface ServingUnit {
+  name: string; // "cup", "medium", "slice"...
+  grams: number; // gram equivalent of one unit
+}
+
+export interface PortionUnit {
+  quantity: number;
+  unit: string | null; // null = grams
+}
+
+export const GRAM_UNIT: ServingUnit = { name: 'g', grams: 1 };
+
+// Size words read as "1 medium" rather than "1 medium(s)"
+const SIZE_UNITS = new Set(['small', 'medium', 'large']);
+
+// Spellings the AI (or a user) may use, mapped to the unit names stored on foods
+const UNIT_ALIASES: Record<string, string> = {
+  g: 'g', gram: 'g', grams: 'g', gr: 'g',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml',
+  cup: 'cup', cups: 'cup',
+  tbsp: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  tsp: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  slice: 'slice', slices: 'slice',
+  piece: 'piece', pieces: 'piece', pc: 'piece', pcs: 'piece',
+  serving: 'serving', servings: 'serving', portion: 'serving', portions: 'serving',
+  bowl: 'bowl', bowls: 'bowl',
+  plate: 'plate', plates: 'plate',
+  fillet: 'fillet', fillets: 'fillet',
+  breast: 'breast', breasts: 'breast',
+  spear: 'spear', spears: 'spear',
+  small: 'small', medium: 'medium', large: 'large'
+};
+
+// Written-out quantities and fractions the AI tends to use
+const WORD_QUANTITIES: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, half: 0.5, quarter: 0.25
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Units available for a food: grams, its own household measures and a package serving
+ */
+export function getFoodUnits(food: {
+  units?: ServingUnit[] | null;
+  serving_size_g?: number | null;
+}): ServingUnit[] {
+  const units: ServingUnit[] = [GRAM_UNIT];
+
+  (food.units || []).forEach(unit => {
+    if (unit?.name && unit.grams > 0 && !units.some(u => u.name === unit.name)) {
+      units.push(unit);
+    }
+  });
+
+  if (food.serving_size_g && food.serving_size_g > 0 && !units.some(u => u.name === 'serving')) {
+    units.push({ name: 'serving', grams: food.serving_size_g });
+  }
+
+  return units;
+}
+
+/**
+ * Grams for a quantity of a unit (unknown units count as grams)
+ */
+export function portionToGrams(quantity: number, unitName: string | null, units: ServingUnit[]): number {
+  const unit = units.find(u => u.name === unitName) || GRAM_UNIT;
+  return round1(quantity * unit.grams);
+}
+
+/**
+ * Human-readable portion, e.g. "1 medium", "2 cups", "150g"
+ */
+export function formatPortion(quantity: number, unitName: string | null | undefined): string {
+  if (!unitName || unitName === 'g') return `${round1(quantity)}g`;
+  if (unitName === 'ml') return `${round1(quantity)}ml`;
+
+  const plural = quantity !== 1 && !SIZE_UNITS.has(unitName) && !unitName.endsWith('s');
+  return `${round1(quantity)} ${unitName}${plural ? 's' : ''}`;
+}
+
+const parseQuantity = (token: string): number | null => {
+  if (token in WORD_QUANTITIES) return WORD_QUANTITIES[token];
+
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+
+  const value = parseFloat(token);
+  return isNaN(value) ? null : value;
+};
+
+/**
+ * Map a free-text portion estimate ("1 medium apple", "2 slices", "200g rice")
+ * onto a quantity and unit. Returns null when no unit can be recognised.
+ * When `units` is given, only those unit names (plus grams) are accepted.
+ */
+export function parseEstimatedPortion(estimated: string, units?: ServingUnit[]): PortionUnit | null {
+  const tokens = estimated
+    .toLowerCase()
+    .replace(/(\d)(g|ml|oz)\b/g, '$1 $2') // "200g" -> "200 g"
+    .replace(/[(),]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const quantity = parseQuantity(tokens[i]);
+    if (quantity === null || quantity <= 0) continue;
+
+    // "1 medium", "1 cup", but also "1 medium-sized" or "half a cup"
+    for (const candidate of tokens.slice(i + 1, i + 3)) {
+      const unit = UNIT_ALIASES[candidate.replace(/-sized$/, '')];
+      if (!unit) continue;
+      if (unit === 'g') return { quantity, unit: null };
+      if (units && !units.some(u => u.name === unit)) continue;
+      return { quantity, unit };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map an AI portion estimate onto a food's units, falling back to any recognised unit
+ * so "2 slices" is kept even when the food has no slice definition
+ */
+export function mapEstimatedPortion(estimated: string | undefined, units?: ServingUnit[]): PortionUnit | null {
+  if (!estimated) return null;
+  return (units && parseEstimatedPortion(estimated, units)) || parseEstimatedPortion(estimated);
+}
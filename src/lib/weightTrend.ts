@@ -0,0 +1,112 @@
+/**
+ * Weight trend helpers
+ * Scale readings swing by a kilo or more with water and food, so progress is read from an
+ * exponentially smoothed trend rather than the raw numbers.
+ */
+
+import { addDays, toDateKey } from '@/lib/dateUtils';
+
+export interface WeighInPoint {
+  weight_kg: number;
+  measured_at: string;
+}
+
+export interface WeightTrendPoint {
+  date: string;
+  weight: number | null; // that day's average weigh-in; null on days without one
+  trend: number;
+}
+
+// Share of each new reading that moves the trend; ~10% is the classic Hacker's Diet value
+export const TREND_SMOOTHING = 0.1;
+
+// Rate of change is read from the trend over this many days
+export const RATE_WINDOW_DAYS = 28;
+
+// Slower than this per week counts as holding steady, so no goal date is projected
+export const MIN_PROJECTION_RATE_KG = 0.05;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * One point per calendar day from the first weigh-in to `endDate`
+ * Several readings on one day are averaged; days without a reading carry the trend forward.
+ */
+export function smoothWeights(
+  weighIns: WeighInPoint[],
+  timeZone: string,
+  endDate: string,
+  smoothing: number = TREND_SMOOTHING
+): WeightTrendPoint[] {
+  if (weighIns.length === 0) return [];
+
+  const byDay = new Map<string, number[]>();
+  weighIns.forEach(weighIn => {
+    const date = toDateKey(weighIn.measured_at, timeZone);
+    byDay.set(date, [...(byDay.get(date) || []), weighIn.weight_kg]);
+  });
+
+  const firstDate = Array.from(byDay.keys()).sort()[0];
+  const points: WeightTrendPoint[] = [];
+  let trend: number | null = null;
+
+  for (let date = firstDate; date <= endDate; date = addDays(date, 1)) {
+    const readings = byDay.get(date);
+    const weight = readings ? readings.reduce((sum, value) => sum + value, 0) / readings.length : null;
+
+    if (weight !== null) {
+      trend = trend === null ? weight : trend + smoothing * (weight - trend);
+    }
+    points.push({ date, weight: weight === null ? null : round2(weight), trend: round2(trend!) });
+  }
+
+  return points;
+}
+
+/**
+ * Least-squares slope of the trend over the last `windowDays`, in kg per week
+ */
+export function weeklyRateOfChange(points: WeightTrendPoint[], windowDays: number = RATE_WINDOW_DAYS): number {
+  const window = points.slice(-windowDays);
+  if (window.length < 2) return 0;
+
+  const meanX = (window.length - 1) / 2;
+  const meanY = window.reduce((sum, point) => sum + point.trend, 0) / window.length;
+  const covariance = window.reduce((sum, point, x) => sum + (x - meanX) * (point.trend - meanY), 0);
+  const variance = window.reduce((sum, _, x) => sum + (x - meanX) ** 2, 0);
+
+  return round2((covariance / variance) * 7);
+}
+
+/**
+ * Date the trend reaches the target at the current rate, or null when it is not heading there
+ */
+export function projectGoalDate(
+  trendWeight: number,
+  targetWeight: number,
+  ratePerWeek: number,
+  fromDate: string
+): string | null {
+  const remaining = targetWeight - trendWeight;
+  if (Math.abs(remaining) < 0.1) return fromDate;
+  if (Math.abs(ratePerWeek) < MIN_PROJECTION_RATE_KG || Math.sign(remaining) !== Math.sign(ratePerWeek)) {
+    return null;
+  }
+
+  const days = Math.ceil((remaining / ratePerWeek) * 7);
+  // Beyond two years the projection says more about noise than progress
+  return days > 730 ? null : addDays(fromDate, days);
+}
+
+/**
+ * Goals are calculated from profile.weight; once the trend has moved this far from it
+ * they are worth recalculating (1 kg, or 1.5% of body weight for heavier users)
+ */
+export function recalculationThreshold(weight: number): number {
+  return Math.max(1, round2(weight * 0.015));
+}
+
+export function shouldRecalculateGoals(trendWeight: number, goalsWeight: number | null | undefined): boolean {
+  if (!goalsWeight) return false;
+  return Math.abs(trendWeight - goalsWeight) >= recalculationThreshold(goalsWeight);
+}
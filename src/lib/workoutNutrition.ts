@@ -0,0 +1,224 @@
+/**
+ * Workout nutrition calculations
+ * Matches each exercise session with the meals logged in a window before and after it,
+ * derives carb and protein timing targets from the gym macro templates and scores how well
+ * the workout was fueled.
+ */
+
+import { determineGoalType, MACRO_TEMPLATES } from '@/lib/nutritionCalculations';
+import type { ActivityData, ExerciseSession } from '@/hooks/useActivityData';
+import type { MealLog } from '@/hooks/useMealLogs';
+
+export interface WorkoutWindows {
+  pre_minutes: number;
+  post_minutes: number;
+}
+
+export const DEFAULT_WORKOUT_WINDOWS: WorkoutWindows = { pre_minutes: 120, post_minutes: 120 };
+
+// Matches the check constraint in database-workout-nutrition-schema.sql
+export const WORKOUT_WINDOW_LIMITS = { min: 30, max: 240 };
+
+export type WorkoutGoalType = 'bulk' | 'cut' | 'maintain';
+
+export type FuelingMeal = Pick<MealLog, 'id' | 'food_name' | 'meal_type' | 'calories' | 'carbs' | 'proteins' | 'logged_at'>;
+
+export interface MacroTarget {
+  carbs: number; // grams
+  proteins: number; // grams
+}
+
+export interface WorkoutTargets {
+  goal_type: WorkoutGoalType;
+  pre: MacroTarget;
+  post: MacroTarget;
+}
+
+export interface WindowIntake extends MacroTarget {
+  calories: number;
+  meals: FuelingMeal[];
+}
+
+export type FuelingRating = 'fueled' | 'partial' | 'underfueled';
+
+export interface WorkoutFueling {
+  key: string;
+  session: ExerciseSession;
+  start: Date;
+  end: Date;
+  pre: WindowIntake;
+  post: WindowIntake;
+  targets: WorkoutTargets;
+  score: number; // 0-100
+  rating: FuelingRating;
+  post_window_open: boolean; // the score can still go up
+  post_window_ends: Date;
+}
+
+// Share of the day's template carbs and protein each window should cover
+const WINDOW_SHARES: Record<'pre' | 'post', MacroTarget> = {
+  pre: { carbs: 0.2, proteins: 0.1 },
+  post: { carbs: 0.25, proteins: 0.15 }
+};
+
+// Light sessions burn little glycogen, hard ones need more carbs around them
+const INTENSITY_CARB_FACTOR: Record<ExerciseSession['exercise_intensity'], number> = {
+  light: 0.5,
+  moderate: 1,
+  vigorous: 1.25
+};
+
+// Post-workout protein matters most for recovery, so it carries the most weight
+const SCORE_WEIGHTS = {
+  pre: { carbs: 0.25, proteins: 0.15 },
+  post: { carbs: 0.25, proteins: 0.35 }
+};
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Clamp a window length to what the database accepts
+ */
+export function clampWindowMinutes(minutes: number): number {
+  if (!Number.isFinite(minutes)) return DEFAULT_WORKOUT_WINDOWS.pre_minutes;
+  return Math.min(WORKOUT_WINDOW_LIMITS.max, Math.max(WORKOUT_WINDOW_LIMITS.min, Math.round(minutes)));
+}
+
+/**
+ * Bulk, cut or maintain from the profile's current and target weight
+ */
+export function workoutGoalType(weight: number | null, targetWeight: number | null): WorkoutGoalType {
+  if (!weight || !targetWeight) return 'maintain';
+  return determineGoalType(weight, targetWeight, 'gym') as WorkoutGoalType;
+}
+
+/**
+ * Pre- and post-workout carb and protein targets for one session
+ * The day's calories are split with the gym template for the goal, and each window gets a
+ * fixed share of the resulting grams; carbs are then scaled by the session's intensity.
+ */
+export function calculateWorkoutTargets(
+  dailyCalories: number,
+  goalType: WorkoutGoalType,
+  intensity: ExerciseSession['exercise_intensity'] = 'moderate'
+): WorkoutTargets {
+  const split = (MACRO_TEMPLATES.gym[goalType] ?? MACRO_TEMPLATES.gym.maintain).macro_split;
+  const dailyCarbs = (dailyCalories * split.carbs / 100) / 4;
+  const dailyProteins = (dailyCalories * split.protein / 100) / 4;
+  const carbFactor = INTENSITY_CARB_FACTOR[intensity] ?? 1;
+
+  const windowTarget = (shares: MacroTarget): MacroTarget => ({
+    carbs: Math.round(dailyCarbs * shares.carbs * carbFactor),
+    proteins: Math.round(dailyProteins * shares.proteins)
+  });
+
+  return {
+    goal_type: goalType,
+    pre: windowTarget(WINDOW_SHARES.pre),
+    post: windowTarget(WINDOW_SHARES.post)
+  };
+}
+
+/**
+ * Every session of the given days with usable start and end times
+ */
+export function collectSessions(days: Pick<ActivityData, 'exercise_sessions'>[]): ExerciseSession[] {
+  return days
+    .flatMap(day => day.exercise_sessions ?? [])
+    .filter(session => {
+      const start = new Date(session.start_time).getTime();
+      const end = new Date(session.end_time).getTime();
+      return Number.isFinite(start) && Number.isFinite(end) && end >= start;
+    });
+}
+
+/**
+ * The span of time whose meals can fall in any session's windows, or null without sessions
+ */
+export function mealSpan(sessions: ExerciseSession[], windows: WorkoutWindows): { start: string; end: string } | null {
+  if (sessions.length === 0) return null;
+
+  const starts = sessions.map(session => new Date(session.start_time).getTime());
+  const ends = sessions.map(session => new Date(session.end_time).getTime());
+
+  return {
+    start: new Date(Math.min(...starts) - windows.pre_minutes * MINUTE_MS).toISOString(),
+    end: new Date(Math.max(...ends) + windows.post_minutes * MINUTE_MS).toISOString()
+  };
+}
+
+const sumIntake = (meals: FuelingMeal[]): WindowIntake => ({
+  calories: meals.reduce((sum, meal) => sum + (meal.calories || 0), 0),
+  carbs: meals.reduce((sum, meal) => sum + (meal.carbs || 0), 0),
+  proteins: meals.reduce((sum, meal) => sum + (meal.proteins || 0), 0),
+  meals
+});
+
+// How much of a target was reached, capped at 1 so overeating one macro can't hide another
+const reached = (actual: number, target: number) => (target > 0 ? Math.min(actual / target, 1) : 1);
+
+/**
+ * 0-100 from the share of each window target that was reached
+ */
+export function scoreFueling(pre: MacroTarget, post: MacroTarget, targets: WorkoutTargets): number {
+  const score =
+    SCORE_WEIGHTS.pre.carbs * reached(pre.carbs, targets.pre.carbs) +
+    SCORE_WEIGHTS.pre.proteins * reached(pre.proteins, targets.pre.proteins) +
+    SCORE_WEIGHTS.post.carbs * reached(post.carbs, targets.post.carbs) +
+    SCORE_WEIGHTS.post.proteins * reached(post.proteins, targets.post.proteins);
+
+  return Math.round(score * 100);
+}
+
+export function rateFueling(score: number): FuelingRating {
+  if (score >= 80) return 'fueled';
+  if (score >= 50) return 'partial';
+  return 'underfueled';
+}
+
+/**
+ * Match meals to each session and score it, newest workout first
+ * A meal logged during the session counts towards the pre-workout window, since it fuels
+ * the work still to come.
+ */
+export function analyzeWorkouts(
+  sessions: ExerciseSession[],
+  meals: FuelingMeal[],
+  options: {
+    dailyCalories: number;
+    goalType: WorkoutGoalType;
+    windows?: WorkoutWindows;
+    now?: Date;
+  }
+): WorkoutFueling[] {
+  const { dailyCalories, goalType, windows = DEFAULT_WORKOUT_WINDOWS, now = new Date() } = options;
+  const timedMeals = meals.map(meal => ({ meal, at: new Date(meal.logged_at).getTime() }));
+
+  return sessions
+    .map(session => {
+      const start = new Date(session.start_time);
+      const end = new Date(session.end_time);
+      const preStart = start.getTime() - windows.pre_minutes * MINUTE_MS;
+      const postEnd = end.getTime() + windows.post_minutes * MINUTE_MS;
+
+      const pre = sumIntake(timedMeals.filter(({ at }) => at >= preStart && at <= end.getTime()).map(({ meal }) => meal));
+      const post = sumIntake(timedMeals.filter(({ at }) => at > end.getTime() && at <= postEnd).map(({ meal }) => meal));
+      const targets = calculateWorkoutTargets(dailyCalories, goalType, session.exercise_intensity);
+      const score = scoreFueling(pre, post, targets);
+
+      return {
+        key: session.id ?? `${session.start_time}|${session.exercise_type}`,
+        session,
+        start,
+        end,
+        pre,
+        post,
+        targets,
+        score,
+        rating: rateFueling(score),
+        post_window_open: now.getTime() < postEnd,
+        post_window_ends: new Date(postEnd)
+      };
+    })
+    .sort((a, b) => b.start.getTime() - a.start.getTime());
+}
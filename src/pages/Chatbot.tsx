@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useRef, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,9 +12,19 @@ import { useToast } from "@/hooks/use-toast";
 import { useProfile } from "@/contexts/ProfileContext";
 import { useNutritionGoals } from "@/hooks/useNutritionGoals";
 import { useDailySummary } from "@/hooks/useDailySummary";
+import { useTimeZone } from "@/hooks/useTimeZone";
 import { useActivityData } from "@/hooks/useActivityData";
-import { useMealLogs } from "@/hooks/useMealLogs";
-import geminiAI, { ChatResponse, FoodAnalysisResult } from "@/lib/geminiAI";
+import { useMealLogs, type NewMealLog } from "@/hooks/useMealLogs";
+import { useChatThreads, type ChatMessage } from "@/hooks/useChatThreads";
+import geminiAI, { AIStreamHandlers, ChatResponse, FoodAnalysisResult } from "@/lib/geminiAI";
+import { sumDetectedItems } from "@/lib/plateAnalysis";
+import { AIServiceError, describeAIError, readPartialField } from "@/lib/aiStructuredOutput";
+import type { AIChatMessage } from "@/lib/aiProviders";
+import { formatDistanceToNow } from "date-fns";
+import { todayKey, zonedTime } from "@/lib/dateUtils";
+import { describeToolCall, isWriteTool, type AssistantToolCall, type StoredToolCall } from "@/lib/assistantTools";
+import PlateReview from "@/components/PlateReview";
+import ToolConfirmationCard from "@/components/ToolConfirmationCard";
 import { 
   Send, 
   Bot, 
@@ -26,14 +36,16 @@ import {
   Upload,
   Loader2,
   AlertCircle,
-  CheckCircle,
   TrendingUp,
   Utensils,
-  Target
+  Target,
+  Plus,
+  Trash2,
+  Square
 } from "lucide-react";
 
 interface Message {
-  id: number;
+  id: string;
   type: 'bot' | 'user';
   message: string;
   timestamp: string;
@@ -41,6 +53,7 @@ interface Message {
   foodAnalysis?: FoodAnalysisResult;
   imageUrl?: string;
   actionType?: string;
+  toolCall?: StoredToolCall;
 }
 
 const smartQuestions = {
@@ -67,186 +80,301 @@ const smartQuestions = {
   ]
 };
 
+const getUserGreeting = (userType: string) => {
+  switch (userType) {
+    case 'diabetes':
+      return {
+        message: "Hello! I'm your AI Diabetes Nutrition Assistant. I'm here to help you manage your blood sugar levels through smart food choices. How can I assist you today?",
+        suggestions: ["Check my blood sugar impact", "Low-carb meal ideas", "Analyze my food photo"]
+      };
+    case 'gym':
+      return {
+        message: "Hey there! I'm your AI Fitness Nutrition Coach. Ready to optimize your nutrition for peak performance? Let's fuel those gains!",
+        suggestions: ["Pre-workout nutrition", "High-protein meals", "Analyze my meal photo"]
+      };
+    default:
+      return {
+        message: "Hi! I'm your AI Nutrition Assistant. I'm here to help you make healthier food choices and reach your wellness goals. What would you like to know?",
+        suggestions: ["Healthy meal ideas", "Nutrition advice", "Analyze food photo"]
+      };
+  }
+};
+
+// Earlier turns sent back to the model with each question
+const HISTORY_TURNS = 10;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const toChatHistory = (messages: ChatMessage[]): AIChatMessage[] =>
+  messages
+    .filter(message => message.action_type !== 'error')
+    .slice(-HISTORY_TURNS)
+    .map(message => ({ role: message.role === 'bot' ? 'assistant' : 'user', content: message.content }));
+
 export default function Chatbot() {
-  const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   const [imageDialogOpen, setImageDialogOpen] = useState(false);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [analyzingImage, setAnalyzingImage] = useState(false);
   const [mealType, setMealType] = useState<'breakfast' | 'lunch' | 'dinner' | 'snack'>('lunch');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const { toast } = useToast();
   const { profile } = useProfile();
-  const { goals } = useNutritionGoals();
-  const { summary } = useDailySummary(new Date().toISOString().split('T')[0]);
+  const { goals, updateGoals } = useNutritionGoals();
+  const timeZone = useTimeZone();
+  const today = todayKey(timeZone);
+  const { summary, getSummaryForDate } = useDailySummary(today);
   const { todayActivity } = useActivityData();
-  const { addMeal } = useMealLogs();
-
-  // Initialize with AI greeting
-  useEffect(() => {
-    if (messages.length === 0) {
-      const userType = profile?.user_type || 'general';
-      const greeting = getUserGreeting(userType);
-      
-      setMessages([{
-        id: 1,
-        type: "bot",
+  const { meals: todaysMeals, addMeal, addMeals, updateMeal, deleteMeal } = useMealLogs();
+  const {
+    threads,
+    activeThreadId,
+    messages: threadMessages,
+    loading: threadsLoading,
+    messagesLoading,
+    selectThread,
+    deleteThread,
+    addMessage,
+    updateToolCall
+  } = useChatThreads();
+
+  // The greeting is not stored; it always opens the conversation
+  const messages = useMemo<Message[]>(() => {
+    const greeting = getUserGreeting(profile?.user_type || 'general');
+    return [
+      {
+        id: 'greeting',
+        type: 'bot',
         message: greeting.message,
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-        suggestions: greeting.suggestions
-      }]);
-    }
-  }, [messages.length, profile?.user_type]);
+        timestamp: formatTime(threadMessages[0]?.created_at || new Date().toISOString()),
+        suggestions: threadMessages.length === 0 ? greeting.suggestions : undefined
+      },
+      ...threadMessages.map(message => ({
+        id: message.id,
+        type: message.role,
+        message: message.content,
+        timestamp: formatTime(message.created_at),
+        suggestions: message.suggestions ?? undefined,
+        foodAnalysis: message.food_analysis ?? undefined,
+        imageUrl: message.image_url ?? undefined,
+        actionType: message.action_type ?? undefined,
+        toolCall: message.tool_call ?? undefined
+      }))
+    ];
+  }, [threadMessages, profile?.user_type]);
+
+  const nutritionData = {
+    daily_calories: goals?.daily_calories,
+    daily_carbs: goals?.daily_carbs,
+    daily_proteins: goals?.daily_proteins,
+    daily_fats: goals?.daily_fats,
+    consumed_calories: summary?.total_calories,
+    consumed_carbs: summary?.total_carbs,
+    consumed_proteins: summary?.total_proteins,
+    consumed_fats: summary?.total_fats,
+    progress_percentage: goals?.daily_calories ? (summary?.total_calories || 0) / goals.daily_calories * 100 : 0
+  };
 
-  const getUserGreeting = (userType: string) => {
-    switch (userType) {
-      case 'diabetes':
-        return {
-          message: "Hello! I'm your AI Diabetes Nutrition Assistant. I'm here to help you manage your blood sugar levels through smart food choices. How can I assist you today?",
-          suggestions: ["Check my blood sugar impact", "Low-carb meal ideas", "Analyze my food photo"]
-        };
-      case 'gym':
+  const activityData = {
+    steps: todayActivity?.steps,
+    active_minutes: todayActivity?.active_minutes,
+    calories_burned: todayActivity?.calories_burned,
+    exercise_sessions: todayActivity?.exercise_sessions
+  };
+
+  // Read-only tools run straight away and answer in the chat
+  const runReadTool = async (call: AssistantToolCall, stream: AIStreamHandlers): Promise<ChatResponse> => {
+    switch (call.name) {
+      case 'get_daily_summary': {
+        const { date } = call.arguments;
+        const daySummary = date === today ? summary : await getSummaryForDate(date);
+        if (!daySummary || daySummary.meals_logged === 0) {
+          return { message: `Nothing was logged on ${date}.`, suggestions: ["Log a meal", "How am I doing today?"] };
+        }
+        const target = (value?: number, unit = '') => (value ? ` / ${Math.round(value)}${unit}` : '');
         return {
-          message: "Hey there! I'm your AI Fitness Nutrition Coach. Ready to optimize your nutrition for peak performance? Let's fuel those gains!",
-          suggestions: ["Pre-workout nutrition", "High-protein meals", "Analyze my meal photo"]
+          message: `Here's ${date}:\n\n• Calories: ${Math.round(daySummary.total_calories)}${target(goals?.daily_calories)}\n• Carbs: ${Math.round(daySummary.total_carbs)}g${target(goals?.daily_carbs, 'g')}\n• Protein: ${Math.round(daySummary.total_proteins)}g${target(goals?.daily_proteins, 'g')}\n• Fat: ${Math.round(daySummary.total_fats)}g${target(goals?.daily_fats, 'g')}\n• Meals logged: ${daySummary.meals_logged}`,
+          suggestions: ["How am I doing today?", "Suggest healthy dinner ideas"]
         };
+      }
+      case 'suggest_meals':
+        return geminiAI.getMealSuggestions(profile, call.arguments.meal_type, undefined, stream);
+      case 'analyze_progress':
+        return geminiAI.analyzeProgress(profile, nutritionData, activityData, call.arguments.timeframe, stream);
       default:
-        return {
-          message: "Hi! I'm your AI Nutrition Assistant. I'm here to help you make healthier food choices and reach your wellness goals. What would you like to know?",
-          suggestions: ["Healthy meal ideas", "Nutrition advice", "Analyze food photo"]
-        };
+        throw new Error(`${call.name} needs confirmation`);
     }
   };
 
-  const sendMessage = async (customMessage?: string, isImageAnalysis = false) => {
+  const sendMessage = async (customMessage?: string) => {
     const messageText = customMessage || inputMessage;
-    if (!messageText.trim() && !isImageAnalysis) return;
+    if (!messageText.trim()) return;
 
-    const userMessage: Message = {
-      id: messages.length + 1,
-      type: "user",
-      message: messageText,
-      timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
-    };
+    // Prior turns, captured before this question is added
+    const history = toChatHistory(threadMessages);
 
-    setMessages(prev => [...prev, userMessage]);
     if (!customMessage) setInputMessage("");
     setIsTyping(true);
 
-    try {
-      let response: ChatResponse;
-
-      // Check if it's a meal suggestion request
-      if (messageText.toLowerCase().includes('meal') && 
-          (messageText.toLowerCase().includes('breakfast') || 
-           messageText.toLowerCase().includes('lunch') || 
-           messageText.toLowerCase().includes('dinner') || 
-           messageText.toLowerCase().includes('snack'))) {
-        
-        const mealTypeMatch = messageText.toLowerCase();
-        let detectedMealType: 'breakfast' | 'lunch' | 'dinner' | 'snack' = 'lunch';
-        
-        if (mealTypeMatch.includes('breakfast')) detectedMealType = 'breakfast';
-        else if (mealTypeMatch.includes('lunch')) detectedMealType = 'lunch';
-        else if (mealTypeMatch.includes('dinner')) detectedMealType = 'dinner';
-        else if (mealTypeMatch.includes('snack')) detectedMealType = 'snack';
-
-        response = await geminiAI.getMealSuggestions(profile, detectedMealType);
+    const userMessage = await addMessage({ role: 'user', content: messageText });
+    const threadId = userMessage?.thread_id ?? activeThreadId;
+
+    // Show the reply's message as it streams in; Stop aborts the request
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let partialReply = '';
+    const stream: AIStreamHandlers = {
+      signal: controller.signal,
+      onText: (text) => {
+        const preview = readPartialField(text, 'message');
+        if (preview) {
+          partialReply = preview;
+          setStreamingText(preview);
+        }
       }
-      // Check if it's a progress analysis request
-      else if (messageText.toLowerCase().includes('progress') || 
-               messageText.toLowerCase().includes('analysis') || 
-               messageText.toLowerCase().includes('how am i doing')) {
-        
-        const nutritionData = {
-          daily_calories: goals?.daily_calories,
-          daily_carbs: goals?.daily_carbs,
-          daily_proteins: goals?.daily_proteins,
-          daily_fats: goals?.daily_fats,
-          consumed_calories: summary?.total_calories,
-          consumed_carbs: summary?.total_carbs,
-          consumed_proteins: summary?.total_proteins,
-          consumed_fats: summary?.total_fats,
-          progress_percentage: goals?.daily_calories ? (summary?.total_calories || 0) / goals.daily_calories * 100 : 0
-        };
-
-        const activityData = {
-          steps: todayActivity?.steps,
-          active_minutes: todayActivity?.active_minutes,
-          calories_burned: todayActivity?.calories_burned,
-          exercise_sessions: todayActivity?.exercise_sessions
-        };
+    };
 
-        response = await geminiAI.analyzeProgress(profile, nutritionData, activityData);
+    try {
+      // The model picks the intent: plain advice or one of the assistant tools
+      const turn = await geminiAI.planAssistantTurn(profile, messageText, {
+        today,
+        nutritionData,
+        activityData,
+        meals: todaysMeals.map(meal => ({
+          id: meal.id,
+          food_name: meal.food_name,
+          meal_type: meal.meal_type,
+          portion_size: meal.portion_size,
+          calories: meal.calories
+        }))
+      }, history, stream);
+
+      if (turn.toolCall && isWriteTool(turn.toolCall.name)) {
+        // Writes wait for the user to confirm the card
+        await addMessage({
+          role: 'bot',
+          content: turn.message,
+          suggestions: turn.suggestions,
+          tool_call: { ...turn.toolCall, status: 'pending' },
+          action_type: 'tool_call'
+        }, threadId);
+      } else if (turn.toolCall) {
+        setStreamingText(null);
+        partialReply = '';
+        const response = await runReadTool(turn.toolCall, stream);
+        await addMessage({
+          role: 'bot',
+          content: response.message,
+          suggestions: response.suggestions,
+          action_type: response.actionType ?? 'tool_result'
+        }, threadId);
+      } else {
+        await addMessage({
+          role: 'bot',
+          content: turn.message,
+          suggestions: turn.suggestions,
+          action_type: 'nutrition_advice'
+        }, threadId);
       }
-      // Default nutrition advice
-      else {
-        const nutritionData = {
-          daily_calories: goals?.daily_calories,
-          daily_carbs: goals?.daily_carbs,
-          daily_proteins: goals?.daily_proteins,
-          daily_fats: goals?.daily_fats,
-          consumed_calories: summary?.total_calories,
-          consumed_carbs: summary?.total_carbs,
-          consumed_proteins: summary?.total_proteins,
-          consumed_fats: summary?.total_fats
-        };
-
-        const activityData = {
-          steps: todayActivity?.steps,
-          active_minutes: todayActivity?.active_minutes,
-          calories_burned: todayActivity?.calories_burned
-        };
-
-        response = await geminiAI.getNutritionAdvice(profile, messageText, nutritionData, activityData);
+    } catch (error) {
+      if (error instanceof AIServiceError && error.kind === 'aborted') {
+        // Keep whatever arrived before Stop was pressed
+        if (partialReply) {
+          await addMessage({ role: 'bot', content: partialReply, action_type: 'stopped' }, threadId);
+        }
+        return;
       }
 
-      const botMessage: Message = {
-        id: messages.length + 2,
-        type: "bot",
-        message: response.message,
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-        suggestions: response.suggestions,
-        actionType: response.actionType
-      };
-
-      setMessages(prev => [...prev, botMessage]);
-    } catch (error) {
       console.error('AI response error:', error);
 
       // Provide more detailed feedback when model/method is unavailable
       const errMsg = error instanceof Error ? error.message : String(error);
       let userFacing = "I'm sorry, I'm having trouble connecting to my AI brain right now. Please try again in a moment.";
 
-      if (errMsg.toLowerCase().includes('model/method not available') || errMsg.toLowerCase().includes('model/method not available')) {
+      if (error instanceof AIServiceError && (error.kind === 'invalid_json' || error.kind === 'invalid_shape')) {
+        userFacing = "I couldn't put together a complete answer - my reply came back in the wrong format twice. Please try asking again.";
+      } else if (error instanceof AIServiceError && error.kind === 'not_configured') {
+        userFacing = "The AI assistant isn't set up yet. Please add an API key or server URL for your AI provider.";
+      } else if (errMsg.toLowerCase().includes('model/method not available')) {
         userFacing = "The AI model requested is not available. We're trying fallback models — please try again in a moment.";
-      } else if (errMsg.toLowerCase().includes('gemini api') || errMsg.toLowerCase().includes('model')) {
-        userFacing = "There was an issue with the AI service. Please check your Gemini API key or try again later.";
+      } else if (errMsg.toLowerCase().includes('api error') || errMsg.toLowerCase().includes('api key') || errMsg.toLowerCase().includes('model')) {
+        userFacing = "There was an issue with the AI service. Please check your AI provider settings (API key or server URL) or try again later.";
       }
 
-      const errorMessage: Message = {
-        id: messages.length + 2,
-        type: "bot",
-        message: userFacing,
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-        suggestions: ["Try again", "Ask different question", "Get meal suggestions"]
-      };
-
-      setMessages(prev => [...prev, errorMessage]);
+      await addMessage({
+        role: 'bot',
+        content: userFacing,
+        suggestions: ["Try again", "Ask different question", "Get meal suggestions"],
+        action_type: 'error' // kept in the thread but not sent back as context
+      }, threadId);
 
       toast({
-        title: "AI Assistant Error",
-        description: errMsg,
+        ...describeAIError(error),
         variant: "destructive"
       });
     } finally {
+      abortControllerRef.current = null;
+      setStreamingText(null);
       setIsTyping(false);
     }
   };
 
+  const stopResponse = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Apply a confirmed write; the hooks toast success or failure themselves
+  const applyToolCall = async (call: AssistantToolCall): Promise<string | null> => {
+    switch (call.name) {
+      case 'log_meal': {
+        const { date, ...meal } = call.arguments;
+        const success = await addMeal({
+          ...meal,
+          // Past days are logged at midday so they land inside that day
+          logged_at: date && date !== today ? zonedTime(date, 12, 0, timeZone).toISOString() : undefined
+        });
+        return success ? `Logged ${meal.food_name} to your ${meal.meal_type}${date && date !== today ? ` on ${date}` : ''}.` : null;
+      }
+      case 'update_meal_log':
+        return (await updateMeal(call.arguments.meal_id, call.arguments.changes)) ? 'Your meal has been updated.' : null;
+      case 'delete_meal_log':
+        return (await deleteMeal(call.arguments.meal_id)) ? 'That meal has been removed from your log.' : null;
+      case 'update_nutrition_goals': {
+        // Goals are saved as a whole row, so unchanged targets carry over
+        const success = await updateGoals({
+          daily_calories: call.arguments.daily_calories ?? goals?.daily_calories,
+          daily_carbs: call.arguments.daily_carbs ?? goals?.daily_carbs,
+          daily_proteins: call.arguments.daily_proteins ?? goals?.daily_proteins,
+          daily_fats: call.arguments.daily_fats ?? goals?.daily_fats
+        });
+        return success ? 'Your daily targets have been updated.' : null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  const confirmToolCall = async (messageId: string, toolCall: StoredToolCall) => {
+    const result = await applyToolCall(toolCall);
+    await updateToolCall(messageId, { ...toolCall, status: result ? 'confirmed' : 'failed' });
+    if (result) {
+      await addMessage({
+        role: 'bot',
+        content: `Done! ${result}`,
+        suggestions: ["How am I doing today?", "Undo that", "Get meal suggestions"]
+      });
+    }
+  };
+
+  const cancelToolCall = async (messageId: string, toolCall: StoredToolCall) => {
+    await updateToolCall(messageId, { ...toolCall, status: 'cancelled' });
+  };
+
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -289,46 +417,44 @@ export default function Chatbot() {
     setAnalyzingImage(true);
     setImageDialogOpen(false);
 
-    // Add user message with image
-    const userMessage: Message = {
-      id: messages.length + 1,
-      type: "user",
-      message: "Please analyze this food image",
-      timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-      imageUrl: imagePreview || undefined
-    };
-
-    setMessages(prev => [...prev, userMessage]);
     setIsTyping(true);
 
-    try {
-      const analysis = await geminiAI.analyzeFoodImage(selectedImage);
-      
-      const botMessage: Message = {
-        id: messages.length + 2,
-        type: "bot",
-        message: `I can see ${analysis.foodName} in your image! Here's the nutritional breakdown:\n\n🍽️ **${analysis.foodName}**\n📊 **Estimated Portion:** ${analysis.portionSize.estimated} (${analysis.portionSize.grams}g)\n\n**Nutrition per serving:**\n• Calories: ${Math.round(analysis.nutrition.calories)}\n• Carbs: ${Math.round(analysis.nutrition.carbs)}g\n• Protein: ${Math.round(analysis.nutrition.proteins)}g\n• Fat: ${Math.round(analysis.nutrition.fats)}g\n\n**AI Suggestions:**\n${analysis.suggestions.map(s => `• ${s}`).join('\n')}\n\nWould you like me to log this meal for you?`,
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-        suggestions: ["Log this meal", "Get cooking tips", "Ask about nutrition"],
-        foodAnalysis: analysis,
-        actionType: 'food_analysis'
-      };
+    // Add user message with image
+    const userMessage = await addMessage({
+      role: 'user',
+      content: "Please analyze this food image",
+      image_url: imagePreview || undefined
+    });
+    const threadId = userMessage?.thread_id ?? activeThreadId;
 
-      setMessages(prev => [...prev, botMessage]);
+    try {
+      const analysis = await geminiAI.analyzeFoodImage(selectedImage, profile);
+      const totals = sumDetectedItems(analysis.items);
+      const itemLines = analysis.items
+        .map(item => `🍽️ **${item.foodName}** - ${item.portionSize.estimated} (${item.portionSize.grams}g), ${Math.round(item.nutrition.calories)} cal`)
+        .join('\n');
+
+      await addMessage({
+        role: 'bot',
+        content: `I can see ${analysis.items.length === 1 ? analysis.items[0].foodName : `${analysis.items.length} foods`} in your image! Here's the nutritional breakdown:\n\n${itemLines}\n\n**Nutrition for the plate:**\n• Calories: ${Math.round(totals.calories)}\n• Carbs: ${Math.round(totals.carbs)}g\n• Protein: ${Math.round(totals.proteins)}g\n• Fat: ${Math.round(totals.fats)}g\n\n**AI Suggestions:**\n${analysis.suggestions.map(s => `• ${s}`).join('\n')}\n\nReview the items below - fix names, weights or remove anything I got wrong - then log the plate.`,
+        suggestions: ["Get cooking tips", "Ask about nutrition"],
+        food_analysis: analysis,
+        action_type: 'food_analysis'
+      }, threadId);
     } catch (error) {
       console.error('Food analysis error:', error);
-      const errorMessage: Message = {
-        id: messages.length + 2,
-        type: "bot",
-        message: "I'm having trouble analyzing this image. This could be due to image quality or temporary connectivity issues. Please try again with a clear, well-lit photo of your food.",
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-        suggestions: ["Try another photo", "Enter food manually", "Ask nutrition question"]
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      const incomplete = error instanceof AIServiceError && (error.kind === 'invalid_json' || error.kind === 'invalid_shape');
+      await addMessage({
+        role: 'bot',
+        content: incomplete
+          ? "I couldn't read every detail from this photo - some nutrition values came back missing or malformed, so I didn't guess them. Please try again with a clearer photo, or enter the food manually."
+          : "I'm having trouble analyzing this image. This could be due to image quality or temporary connectivity issues. Please try again with a clear, well-lit photo of your food.",
+        suggestions: ["Try another photo", "Enter food manually", "Ask nutrition question"],
+        action_type: 'error'
+      }, threadId);
       
       toast({
-        title: "Image Analysis Failed",
-        description: error instanceof Error ? error.message : "Please try again",
+        ...describeAIError(error),
         variant: "destructive"
       });
     } finally {
@@ -339,45 +465,19 @@ export default function Chatbot() {
     }
   };
 
-  const logAnalyzedFood = async (analysis: FoodAnalysisResult) => {
-    if (!analysis) return;
-
-    try {
-      await addMeal({
-        meal_type: analysis.mealType || 'lunch',
-        food_name: analysis.foodName,
-        portion_size: analysis.portionSize.grams,
-        calories: analysis.nutrition.calories,
-        carbs: analysis.nutrition.carbs,
-        fats: analysis.nutrition.fats,
-        proteins: analysis.nutrition.proteins,
-        logged_at: new Date().toISOString()
-      });
-
-      toast({
-        title: "Meal Logged Successfully!",
-        description: `${analysis.foodName} has been added to your food log`,
-        variant: "default"
-      });
+  const logPlate = async (meals: NewMealLog[]): Promise<boolean> => {
+    const success = await addMeals(meals);
+    if (!success) return false;
 
-      // Add confirmation message
-      const botMessage: Message = {
-        id: messages.length + 1,
-        type: "bot",
-        message: `Perfect! I've logged "${analysis.foodName}" to your ${analysis.mealType || 'lunch'} for today. Your nutrition tracking is up to date! 🎉`,
-        timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-        suggestions: ["View my progress", "Analyze another food", "Get meal suggestions"]
-      };
+    const names = meals.map(meal => meal.food_name).join(', ');
 
-      setMessages(prev => [...prev, botMessage]);
-    } catch (error) {
-      console.error('Failed to log meal:', error);
-      toast({
-        title: "Failed to Log Meal",
-        description: "Please try again or add the meal manually in Food Log",
-        variant: "destructive"
-      });
-    }
+    // Add confirmation message
+    await addMessage({
+      role: 'bot',
+      content: `Perfect! I've logged ${names} to your ${meals[0].meal_type} for today. Your nutrition tracking is up to date! 🎉`,
+      suggestions: ["View my progress", "Analyze another food", "Get meal suggestions"]
+    });
+    return true;
   };
 
   const handleQuickQuestion = (question: string) => {
@@ -386,7 +486,7 @@ export default function Chatbot() {
 
   const userType = profile?.user_type || 'general';
   const questions = smartQuestions[userType as keyof typeof smartQuestions];
-  const apiConfigured = geminiAI.isConfigured();
+  const apiConfigured = geminiAI.isConfigured() && !geminiAI.isDemoMode();
 
   return (
     <div className="p-6 h-[calc(100vh-2rem)] flex flex-col">
@@ -437,15 +537,82 @@ export default function Chatbot() {
           <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 flex items-center gap-2">
             <AlertCircle className="h-4 w-4 text-yellow-500" />
             <span className="text-yellow-200 text-sm">
-              AI features are in demo mode. Add VITE_GEMINI_API_KEY to environment for full functionality.
+              {geminiAI.isDemoMode()
+                ? 'AI features are in demo mode with sample answers. Add VITE_GEMINI_API_KEY, or set VITE_AI_PROVIDER=openai with VITE_OPENAI_BASE_URL, for full functionality.'
+                : `${geminiAI.getProviderName()} is not configured. Check your AI provider environment variables.`}
             </span>
           </div>
         </div>
       )}
 
       <div className="flex-1 grid grid-cols-1 lg:grid-cols-4 gap-6 min-h-0">
+        <div className="lg:col-span-1 flex flex-col gap-6 min-h-0">
+        {/* Conversations Sidebar */}
+        <Card className="fitness-card">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center justify-between text-base text-white">
+              <span className="flex items-center gap-2">
+                <MessageCircle className="h-4 w-4 text-fitness-primary" />
+                Conversations
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => selectThread(null)}
+                disabled={isTyping || analyzingImage}
+                className="h-7 px-2 text-fitness-light hover:bg-fitness-muted/20"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                New
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {threadsLoading ? (
+              <div className="flex items-center gap-2 text-xs text-fitness-muted">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Loading conversations...
+              </div>
+            ) : threads.length === 0 ? (
+              <p className="text-xs text-fitness-muted">Your conversations will appear here.</p>
+            ) : (
+              <ScrollArea className="max-h-48">
+                <div className="space-y-1">
+                  {threads.map(thread => (
+                    <div
+                      key={thread.id}
+                      className={`group flex items-center gap-1 rounded-md ${thread.id === activeThreadId ? 'bg-fitness-muted/30' : 'hover:bg-fitness-muted/20'}`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => selectThread(thread.id)}
+                        disabled={isTyping || analyzingImage}
+                        className="flex-1 min-w-0 text-left px-2 py-1.5"
+                      >
+                        <p className="text-sm text-white truncate">{thread.title}</p>
+                        <p className="text-xs text-fitness-muted">
+                          {formatDistanceToNow(new Date(thread.updated_at), { addSuffix: true })}
+                        </p>
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteThread(thread.id)}
+                        disabled={isTyping || analyzingImage}
+                        className="h-6 w-6 opacity-0 group-hover:opacity-100 text-fitness-muted hover:text-red-400"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Smart Questions Sidebar */}
-        <Card className="lg:col-span-1 fitness-card">
+        <Card className="fitness-card">
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-base text-white">
               <Sparkles className="h-4 w-4 text-fitness-primary" />
@@ -498,6 +665,7 @@ export default function Chatbot() {
             </div>
           </CardContent>
         </Card>
+        </div>
 
         {/* Chat Area */}
         <Card className="lg:col-span-3 fitness-card flex flex-col">
@@ -516,6 +684,12 @@ export default function Chatbot() {
           {/* Messages */}
           <ScrollArea className="flex-1 p-4">
             <div className="space-y-4">
+              {messagesLoading && (
+                <div className="flex items-center gap-2 text-xs text-fitness-muted">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Loading conversation...
+                </div>
+              )}
               {messages.map((message) => (
                 <div
                   key={message.id}
@@ -552,19 +726,29 @@ export default function Chatbot() {
                     </div>
                     <span className="text-xs text-fitness-muted mt-1 px-1">
                       {message.timestamp}
+                      {message.actionType === 'stopped' && ' · stopped'}
                     </span>
 
                     {/* Action Buttons */}
                     {message.foodAnalysis && (
-                      <div className="mt-2">
-                        <Button
-                          size="sm"
-                          onClick={() => logAnalyzedFood(message.foodAnalysis!)}
-                          className="fitness-button text-xs"
-                        >
-                          <CheckCircle className="h-3 w-3 mr-1" />
-                          Log This Meal
-                        </Button>
+                      <div className="mt-2 w-full p-3 rounded-lg bg-fitness-dark/50 border border-fitness-muted/20 text-white">
+                        <PlateReview
+                          analysis={message.foodAnalysis}
+                          defaultMealType={mealType}
+                          onLogPlate={logPlate}
+                        />
+                      </div>
+                    )}
+
+                    {message.toolCall && isWriteTool(message.toolCall.name) && (
+                      <div className="mt-2 w-full p-3 rounded-lg bg-fitness-dark/50 border border-fitness-muted/20 text-white">
+                        <ToolConfirmationCard
+                          toolCall={message.toolCall}
+                          summary={describeToolCall(message.toolCall, todaysMeals)}
+                          onConfirm={() => confirmToolCall(message.id, message.toolCall)}
+                          onCancel={() => cancelToolCall(message.id, message.toolCall)}
+                          disabled={isTyping}
+                        />
                       </div>
                     )}
 
@@ -588,8 +772,27 @@ export default function Chatbot() {
                 </div>
               ))}
 
+              {/* Streaming Reply */}
+              {streamingText && (
+                <div className="flex gap-3">
+                  <Avatar className="w-8 h-8 flex-shrink-0">
+                    <AvatarFallback className="bg-fitness-muted">
+                      <Bot className="h-4 w-4" />
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex flex-col max-w-[80%]">
+                    <div className="p-3 rounded-2xl bg-fitness-dark border border-fitness-muted/20 text-white">
+                      <p className="text-sm whitespace-pre-line">
+                        {streamingText}
+                        <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-fitness-primary animate-pulse" />
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* Typing Indicator */}
-              {(isTyping || analyzingImage) && (
+              {(isTyping || analyzingImage) && !streamingText && (
                 <div className="flex gap-3">
                   <Avatar className="w-8 h-8 flex-shrink-0">
                     <AvatarFallback className="bg-fitness-muted">
@@ -620,13 +823,24 @@ export default function Chatbot() {
                 className="flex-1 fitness-input"
                 disabled={isTyping || analyzingImage}
               />
-              <Button 
-                onClick={() => sendMessage()} 
-                disabled={!inputMessage.trim() || isTyping || analyzingImage}
-                className="fitness-button px-4"
-              >
-                <Send className="h-4 w-4" />
-              </Button>
+              {isTyping && !analyzingImage ? (
+                <Button
+                  onClick={stopResponse}
+                  variant="outline"
+                  className="px-4 border-fitness-muted/40 text-fitness-light hover:bg-fitness-muted/20"
+                >
+                  <Square className="h-4 w-4 mr-1 fill-current" />
+                  Stop
+                </Button>
+              ) : (
+                <Button 
+                  onClick={() => sendMessage()} 
+                  disabled={!inputMessage.trim() || isTyping || analyzingImage}
+                  className="fitness-button px-4"
+                >
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
             </div>
             <div className="flex items-center justify-between mt-2 text-xs text-fitness-muted">
               <span>
@@ -635,7 +849,7 @@ export default function Chatbot() {
               {apiConfigured && (
                 <span className="flex items-center gap-1">
                   <div className="w-1 h-1 bg-green-500 rounded-full" />
-                  Powered by Gemini AI
+                  Powered by {geminiAI.getProviderName()}
                 </span>
               )}
             </div>
@@ -15,13 +15,18 @@ import {
   CheckCircle,
   XCircle,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  Leaf
 } from "lucide-react";
-import { useNutritionGoals } from "@/hooks/useNutritionGoals";
+import { useDayTargets } from "@/hooks/useDayTargets";
 import { useDailySummary } from "@/hooks/useDailySummary";
 import { useWeeklySummary } from "@/hooks/useWeeklySummary";
 import { useProfile } from "@/contexts/ProfileContext";
 import { useEffect, useMemo } from "react";
+import { evaluateMicronutrients, MICRONUTRIENT_INFO } from "@/lib/nutritionCalculations";
+import { formatDateKey } from "@/lib/dateUtils";
+import GlucoseInsights from "@/components/GlucoseInsights";
+import WorkoutFueling from "@/components/WorkoutFueling";
 
 type RiskLevel = "good" | "warning" | "danger";
 
@@ -55,7 +60,7 @@ const foodSuggestions = {
 
 export default function Dashboard() {
   // Fetch real data from hooks
-  const { goals, loading: goalsLoading, error: goalsError, refetch: refetchGoals } = useNutritionGoals();
+  const { goals, baseGoals, dayType, loading: goalsLoading, error: goalsError, refetch: refetchGoals } = useDayTargets();
   const { summary, loading: summaryLoading, error: summaryError, refetch: refetchSummary } = useDailySummary();
   const { weeklyData, loading: weeklyLoading, error: weeklyError, analytics } = useWeeklySummary();
   const { profile } = useProfile();
@@ -116,6 +121,16 @@ export default function Dashboard() {
     return "danger";
   }, [nutritionData]);
 
+  // Compare today's micronutrients against the user type's targets
+  const micronutrientStatus = useMemo(() => evaluateMicronutrients({
+    fiber: summary?.total_fiber,
+    sugar: summary?.total_sugar,
+    sodium: summary?.total_sodium,
+    vitamin_c: summary?.total_vitamin_c,
+    calcium: summary?.total_calcium,
+    iron: summary?.total_iron
+  }, profile?.user_type), [summary, profile?.user_type]);
+
   // Get user-specific food suggestions
   const userFoodSuggestions = useMemo(() => {
     const userType = profile?.user_type || 'general';
@@ -179,6 +194,11 @@ export default function Dashboard() {
             <Badge variant="outline" className="text-primary">
               {new Date().toLocaleDateString()}
             </Badge>
+            {dayType && (
+              <Badge variant="secondary">
+                {dayType === 'training' ? 'Training day' : 'Rest day'}
+              </Badge>
+            )}
           </div>
         </div>
       </div>
@@ -317,11 +337,12 @@ export default function Dashboard() {
             ) : weeklyData && weeklyData.length > 0 ? (
               <div className="h-48 flex items-end justify-between gap-2 px-4">
                 {weeklyData.map((dayData, index) => {
-                  const completionPercentage = dayData.total_calories > 0 && goals?.daily_calories 
-                    ? Math.min((dayData.total_calories / goals.daily_calories) * 100, 100)
+                  // Cycled days balance out over the week, so each is measured against the plain goal
+                  const completionPercentage = dayData.total_calories > 0 && baseGoals?.daily_calories 
+                    ? Math.min((dayData.total_calories / baseGoals.daily_calories) * 100, 100)
                     : 0;
                   
-                  const dayName = new Date(dayData.date).toLocaleDateString('en-US', { weekday: 'short' });
+                  const dayName = formatDateKey(dayData.date, { weekday: 'short' });
                   
                   return (
                     <div key={dayData.date} className="flex flex-col items-center gap-2">
@@ -411,6 +432,54 @@ export default function Dashboard() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Glucose vs. glycemic load for the diabetes profile */}
+      {profile?.user_type === 'diabetes' && <GlucoseInsights />}
+
+      {/* Pre- and post-workout nutrition for the gym profile */}
+      {profile?.user_type === 'gym' && <WorkoutFueling compact />}
+
+      {/* Micronutrients */}
+      <Card className="gradient-card border border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Leaf className="h-5 w-5 text-green-500" />
+            Micronutrients
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {micronutrientStatus.map(({ key, current, target, percentage, status }) => {
+                const info = MICRONUTRIENT_INFO[key];
+                return (
+                  <div key={key} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">{info.label}</span>
+                      <Badge
+                        variant={status === 'over' ? 'destructive' : 'secondary'}
+                        className="text-xs capitalize"
+                      >
+                        {status}
+                      </Badge>
+                    </div>
+                    <Progress value={Math.min(percentage, 100)} className="h-2" />
+                    <p className="text-xs text-muted-foreground">
+                      {Math.round(current * 10) / 10}{info.unit} {info.limit === 'maximum' ? 'of max' : 'of'} {target}{info.unit}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { useState, useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -7,6 +8,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { 
   Coffee, 
   UtensilsCrossed, 
@@ -21,15 +23,31 @@ import {
   Calendar,
   BarChart3,
   Info,
-  X
+  X,
+  Sparkles,
+  Loader2,
+  ChevronLeft,
+  ChevronRight
 } from "lucide-react";
-import { useMealLogs, type MealLog } from "@/hooks/useMealLogs";
+import { useMealLogs, type MealLog, type NewMealLog } from "@/hooks/useMealLogs";
 import { useDailySummary } from "@/hooks/useDailySummary";
-import { useNutritionGoals } from "@/hooks/useNutritionGoals";
+import { useDayTargets } from "@/hooks/useDayTargets";
 import { useToast } from "@/hooks/use-toast";
-import FoodSearch from "@/components/FoodSearch";
+import { useTimeZone } from "@/hooks/useTimeZone";
+import { useProfile } from "@/contexts/ProfileContext";
+import type { PortionUnit } from "@/lib/servingUnits";
+import { addDays, formatDateKey, todayKey, zonedTime } from "@/lib/dateUtils";
+import geminiAI, { type FoodAnalysisResult } from "@/lib/geminiAI";
+import { describeAIError } from "@/lib/aiStructuredOutput";
+import FoodSearch, { type FoodItem, type NutritionData } from "@/components/FoodSearch";
 import ImageUpload from "@/components/ImageUpload";
 import MealCard from "@/components/MealCard";
+import RecipeBuilder from "@/components/RecipeBuilder";
+import GlucoseJournal from "@/components/GlucoseJournal";
+import BarcodeScanner from "@/components/BarcodeScanner";
+import PlateReview from "@/components/PlateReview";
+import LogCalendar from "@/components/LogCalendar";
+import DayTimeline from "@/components/DayTimeline";
 
 type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
 
@@ -40,14 +58,55 @@ const MEAL_TYPES: { value: MealType; label: string; icon: React.ReactNode; }[] =
   { value: 'snack', label: 'Snacks', icon: <Utensils className="h-5 w-5" /> }
 ];
 
+// Meals backfilled on a past day get a typical time for their slot, on the user's clock
+const BACKFILL_TIMES: Record<MealType, [hours: number, minutes: number]> = {
+  breakfast: [8, 0],
+  lunch: [12, 30],
+  snack: [15, 30],
+  dinner: [19, 0]
+};
+
+const DATE_PARAM = /^\d{4}-\d{2}-\d{2}$/;
+
 export default function FoodLog() {
   // State management
   const [selectedMeal, setSelectedMeal] = useState<MealType>('breakfast');
   const [uploadedImageUrl, setUploadedImageUrl] = useState<string | null>(null);
   const [showFoodEntry, setShowFoodEntry] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [selectedPhoto, setSelectedPhoto] = useState<File | null>(null);
+  const [plateAnalysis, setPlateAnalysis] = useState<FoodAnalysisResult | null>(null);
+  const [analyzingPlate, setAnalyzingPlate] = useState(false);
+  const [scannedFood, setScannedFood] = useState<FoodItem | null>(null);
+  const [calendarOpen, setCalendarOpen] = useState(false);
 
   const { toast } = useToast();
+  const { profile } = useProfile();
+  const timeZone = useTimeZone();
+
+  // The day being viewed lives in the URL (?date=yyyy-MM-dd) so it survives reloads and can be linked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const today = todayKey(timeZone);
+  const dateParam = searchParams.get('date');
+  const selectedDate = dateParam && DATE_PARAM.test(dateParam) && dateParam < today ? dateParam : today;
+  const isToday = selectedDate === today;
+  const dayLabel = isToday
+    ? 'Today'
+    : selectedDate === addDays(today, -1)
+      ? 'Yesterday'
+      : formatDateKey(selectedDate, { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const selectDate = useCallback((date: string) => {
+    setSearchParams(date >= today ? {} : { date }, { replace: true });
+    setCalendarOpen(false);
+  }, [today, setSearchParams]);
+
+  // Today's meals are stamped with the current time; past days get their slot's usual time
+  const loggedAtFor = useCallback((mealType: MealType) => {
+    if (isToday) return undefined;
+    const [hours, minutes] = BACKFILL_TIMES[mealType];
+    return zonedTime(selectedDate, hours, minutes, timeZone).toISOString();
+  }, [isToday, selectedDate, timeZone]);
 
   // Hooks for data fetching
   const { 
@@ -55,25 +114,28 @@ export default function FoodLog() {
     loading: mealsLoading, 
     error: mealsError, 
     addMeal, 
+    addMeals,
     updateMeal, 
     deleteMeal, 
     getMealsByType,
     getTodaysTotals,
     refetch: refetchMeals 
-  } = useMealLogs();
+  } = useMealLogs(selectedDate);
 
   const { 
     summary, 
     loading: summaryLoading, 
     error: summaryError,
     refetch: refetchSummary 
-  } = useDailySummary();
+  } = useDailySummary(selectedDate);
 
+  // Carb cycling shifts the targets between training and rest days
   const { 
     goals, 
+    dayType,
     loading: goalsLoading, 
     error: goalsError 
-  } = useNutritionGoals();
+  } = useDayTargets(selectedDate);
 
   // Combine loading states
   const isLoading = mealsLoading || summaryLoading || goalsLoading;
@@ -143,19 +205,20 @@ export default function FoodLog() {
   const handleFoodSelected = useCallback(async (
     foodName: string,
     portionSize: number,
-    nutrition: { calories: number; carbs: number; fats: number; proteins: number },
-    mealType: string
+    nutrition: NutritionData,
+    mealType: string,
+    portion?: PortionUnit
   ) => {
     try {
       await addMeal({
         meal_type: mealType as MealType,
         food_name: foodName,
         portion_size: portionSize,
-        calories: nutrition.calories,
-        carbs: nutrition.carbs,
-        fats: nutrition.fats,
-        proteins: nutrition.proteins,
-        image_url: uploadedImageUrl || undefined
+        unit: portion?.unit ?? null,
+        unit_quantity: portion?.unit ? portion.quantity : null,
+        ...nutrition,
+        image_url: uploadedImageUrl || undefined,
+        logged_at: loggedAtFor(mealType as MealType)
       });
 
       // Clear uploaded image after successful meal log
@@ -165,7 +228,7 @@ export default function FoodLog() {
       // Show success toast with nutrition info
       toast({
         title: "Food Logged Successfully! 🎉",
-        description: `Added ${foodName} (${nutrition.calories} cal) to ${mealType}`,
+        description: `Added ${foodName} (${nutrition.calories} cal) to ${mealType}${isToday ? '' : ` on ${dayLabel}`}`,
       });
 
     } catch (error) {
@@ -177,16 +240,73 @@ export default function FoodLog() {
       });
       throw error;
     }
-  }, [addMeal, uploadedImageUrl, toast]);
+  }, [addMeal, uploadedImageUrl, loggedAtFor, isToday, dayLabel, toast]);
+
+  // Handle a saved recipe logged as one grouped meal entry
+  const handleRecipeLogged = useCallback(async (meal: NewMealLog) => {
+    const success = await addMeal({
+      ...meal,
+      image_url: uploadedImageUrl || undefined,
+      logged_at: meal.logged_at || loggedAtFor(meal.meal_type)
+    });
+
+    if (success) {
+      setUploadedImageUrl(null);
+      setShowFoodEntry(false);
+    }
+  }, [addMeal, uploadedImageUrl, loggedAtFor]);
+
+  // Detect every food in the selected photo for review before logging
+  const handleAnalyzePlate = useCallback(async () => {
+    if (!selectedPhoto) return;
+
+    setAnalyzingPlate(true);
+    try {
+      setPlateAnalysis(await geminiAI.analyzeFoodImage(selectedPhoto, profile));
+    } catch (error) {
+      console.error('Plate analysis error:', error);
+      toast({
+        ...describeAIError(error),
+        variant: "destructive"
+      });
+    } finally {
+      setAnalyzingPlate(false);
+    }
+  }, [selectedPhoto, profile, toast]);
+
+  // Handle the reviewed plate logged as one entry per food, sharing the photo
+  const handlePlateLogged = useCallback(async (plateMeals: NewMealLog[]) => {
+    const success = await addMeals(plateMeals.map(meal => ({
+      ...meal,
+      image_url: uploadedImageUrl || undefined,
+      logged_at: meal.logged_at || loggedAtFor(meal.meal_type)
+    })));
+
+    if (success) {
+      setUploadedImageUrl(null);
+      setSelectedPhoto(null);
+      setPlateAnalysis(null);
+      setShowFoodEntry(false);
+    }
+    return success;
+  }, [addMeals, uploadedImageUrl, loggedAtFor]);
 
   // Handle image upload
   const handleImageUploaded = useCallback((imageUrl: string) => {
     setUploadedImageUrl(imageUrl);
   }, []);
 
+  // Handle image selection - a new photo replaces any previous plate analysis
+  const handlePhotoSelected = useCallback((file: File) => {
+    setSelectedPhoto(file);
+    setPlateAnalysis(null);
+  }, []);
+
   // Handle image removal
   const handleImageRemoved = useCallback(() => {
     setUploadedImageUrl(null);
+    setSelectedPhoto(null);
+    setPlateAnalysis(null);
   }, []);
 
   // Refresh all data
@@ -277,10 +397,56 @@ export default function FoodLog() {
             <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
-          <Badge variant="outline" className="border-fitness-primary text-fitness-primary flex items-center gap-2">
-            <Calendar className="h-3 w-3" />
-            {new Date().toLocaleDateString()}
-          </Badge>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => selectDate(addDays(selectedDate, -1))}
+              className="h-9 w-9 border-fitness-muted text-fitness-light hover:bg-fitness-muted/20"
+              aria-label="Previous day"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-9 min-w-[9rem] border-fitness-primary text-fitness-primary hover:bg-fitness-primary/10"
+                >
+                  <Calendar className="h-4 w-4 mr-2" />
+                  {dayLabel}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <LogCalendar
+                  selectedDate={selectedDate}
+                  today={today}
+                  onSelect={selectDate}
+                />
+              </PopoverContent>
+            </Popover>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => selectDate(addDays(selectedDate, 1))}
+              disabled={isToday}
+              className="h-9 w-9 border-fitness-muted text-fitness-light hover:bg-fitness-muted/20"
+              aria-label="Next day"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            {!isToday && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => selectDate(today)}
+                className="text-fitness-light hover:bg-fitness-muted/20"
+              >
+                Today
+              </Button>
+            )}
+          </div>
         </div>
       </div>
 
@@ -291,7 +457,12 @@ export default function FoodLog() {
             <CardTitle className="flex items-center justify-between text-white">
               <div className="flex items-center gap-2">
                 <Target className="h-5 w-5 text-fitness-primary" />
-                Today's Progress
+                {isToday ? "Today's Progress" : `Progress · ${dayLabel}`}
+                {dayType && (
+                  <Badge variant="secondary" className="text-xs">
+                    {dayType === 'training' ? 'Training day' : 'Rest day'}
+                  </Badge>
+                )}
               </div>
               <Badge 
                 variant="outline" 
@@ -430,6 +601,7 @@ export default function FoodLog() {
               <FoodSearch
                 onFoodSelected={handleFoodSelected}
                 selectedMealType={selectedMeal}
+                presetFood={scannedFood}
                 disabled={isLoading}
               />
 
@@ -437,11 +609,69 @@ export default function FoodLog() {
               <ImageUpload
                 onImageUploaded={handleImageUploaded}
                 onImageRemoved={handleImageRemoved}
+                onFileSelected={handlePhotoSelected}
                 disabled={isLoading}
                 existingImageUrl={uploadedImageUrl || undefined}
               />
             </div>
 
+            {/* Multi-food detection - review each item on the plate, then log them together */}
+            {selectedPhoto && geminiAI.isConfigured() && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Sparkles className="h-5 w-5" />
+                      Detect Foods in Photo
+                    </div>
+                    {!plateAnalysis && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleAnalyzePlate}
+                        disabled={isLoading || analyzingPlate}
+                      >
+                        {analyzingPlate && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        {analyzingPlate ? 'Analyzing...' : 'Analyze Plate'}
+                      </Button>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {plateAnalysis ? (
+                    <PlateReview
+                      analysis={plateAnalysis}
+                      defaultMealType={selectedMeal}
+                      onLogPlate={handlePlateLogged}
+                      disabled={isLoading}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Let the AI find each food on your plate with its own portion, then correct anything before logging.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Packaged foods by barcode - the imported product opens in the food search */}
+            <div className="mt-6">
+              <BarcodeScanner
+                onProductFound={setScannedFood}
+                imageFile={selectedPhoto}
+                disabled={isLoading}
+              />
+            </div>
+
+            {/* Recipes - multi-ingredient meals logged as one entry */}
+            <div className="mt-6">
+              <RecipeBuilder
+                onLogRecipe={handleRecipeLogged}
+                selectedMealType={selectedMeal}
+                disabled={isLoading}
+              />
+            </div>
+
             {/* Helpful Tips */}
             <Alert className="mt-6 border-fitness-primary/20 bg-fitness-primary/5">
               <Info className="h-4 w-4 text-fitness-primary" />
@@ -459,7 +689,7 @@ export default function FoodLog() {
         <CardHeader className="pb-3">
           <CardTitle className="flex items-center gap-2 text-white">
             <BarChart3 className="h-5 w-5 text-fitness-primary" />
-            Today's Meals
+            {isToday ? "Today's Meals" : `Meals · ${dayLabel}`}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -589,6 +819,14 @@ export default function FoodLog() {
         </CardContent>
       </Card>
 
+      {/* Meals and medication doses in time order */}
+      <DayTimeline meals={meals} date={selectedDate} disabled={isLoading} />
+
+      {/* Glucose readings sit next to the meals they follow */}
+      {profile?.user_type === 'diabetes' && (
+        <GlucoseJournal meals={meals} disabled={isLoading} />
+      )}
+
       {/* Daily Summary */}
       <Card className="fitness-card border-fitness-muted/20">
         <CardHeader>
@@ -654,7 +892,7 @@ export default function FoodLog() {
               <div className="space-y-3">
                 <h3 className="text-sm font-semibold text-white flex items-center gap-2">
                   <Target className="h-4 w-4 text-fitness-primary" />
-                  Today's Insights
+                  {isToday ? "Today's Insights" : `Insights · ${dayLabel}`}
                 </h3>
                 
                 <div className="space-y-2">
@@ -0,0 +1,306 @@
+import { useMemo, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from "@/components/ui/chart";
+import {
+  AlertTriangle,
+  CalendarRange,
+  CalendarDays,
+  Flame,
+  Loader2,
+  PieChart,
+  Target,
+  TrendingDown,
+  TrendingUp
+} from "lucide-react";
+import { useNutritionAnalytics } from "@/hooks/useNutritionAnalytics";
+import { useTimeZone } from "@/hooks/useTimeZone";
+import { addDays, dateKeyToLocalDate, formatDateKey, localDateToKey, todayKey } from "@/lib/dateUtils";
+import { CALORIE_TOLERANCE, MACRO_TOLERANCE, ROLLING_WINDOW_DAYS } from "@/lib/nutritionAnalytics";
+
+type RangePreset = '30d' | '90d' | 'month' | 'custom';
+
+// Changes smaller than this per week read as flat
+const STABLE_SLOPE_KCAL = 50;
+
+const caloriesConfig = {
+  calories: { label: "Calories", color: "hsl(25 95% 53%)" },
+  rolling_calories: { label: `${ROLLING_WINDOW_DAYS}-day average`, color: "hsl(var(--fitness-primary))" },
+  goal_calories: { label: "Goal", color: "hsl(var(--muted-foreground))" }
+} satisfies ChartConfig;
+
+const macroConfig = {
+  carbs: { label: "Carbs %", color: "hsl(38 92% 50%)" },
+  proteins: { label: "Protein %", color: "hsl(217 91% 60%)" },
+  fats: { label: "Fat %", color: "hsl(48 96% 53%)" }
+} satisfies ChartConfig;
+
+const dayGroupConfig = {
+  weekday: { label: "Weekdays", color: "hsl(var(--fitness-primary))" },
+  weekend: { label: "Weekends", color: "hsl(25 95% 53%)" }
+} satisfies ChartConfig;
+
+const shortDate = (dateKey: string) => formatDateKey(dateKey, { month: 'short', day: 'numeric' });
+
+export default function Insights() {
+  const timeZone = useTimeZone();
+  const today = todayKey(timeZone);
+
+  const [preset, setPreset] = useState<RangePreset>('30d');
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+
+  const { startDate, endDate } = useMemo(() => {
+    switch (preset) {
+      case '90d':
+        return { startDate: addDays(today, -89), endDate: today };
+      case 'month':
+        return { startDate: `${today.slice(0, 7)}-01`, endDate: today };
+      case 'custom':
+        if (customRange?.from) {
+          const from = localDateToKey(customRange.from);
+          return { startDate: from, endDate: customRange.to ? localDateToKey(customRange.to) : from };
+        }
+        return { startDate: addDays(today, -29), endDate: today };
+      default:
+        return { startDate: addDays(today, -29), endDate: today };
+    }
+  }, [preset, customRange, today]);
+
+  const { analytics, loading, error } = useNutritionAnalytics(startDate, endDate);
+
+  const dayGroups = useMemo(() => {
+    if (!analytics) return [];
+    return [
+      { nutrient: 'Calories', weekday: analytics.weekday.avg_calories, weekend: analytics.weekend.avg_calories },
+      { nutrient: 'Carbs (g)', weekday: analytics.weekday.avg_carbs, weekend: analytics.weekend.avg_carbs },
+      { nutrient: 'Protein (g)', weekday: analytics.weekday.avg_proteins, weekend: analytics.weekend.avg_proteins },
+      { nutrient: 'Fat (g)', weekday: analytics.weekday.avg_fats, weekend: analytics.weekend.avg_fats }
+    ];
+  }, [analytics]);
+
+  const slope = analytics?.calories_slope_per_week ?? 0;
+  const weekendDifference = analytics && analytics.weekday.days_logged > 0 && analytics.weekend.days_logged > 0
+    ? analytics.weekend.avg_calories - analytics.weekday.avg_calories
+    : null;
+
+  const rangeLabel = `${formatDateKey(startDate, { month: 'short', day: 'numeric', year: 'numeric' })} – ${formatDateKey(endDate, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Insights</h1>
+          <p className="text-muted-foreground">{rangeLabel}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Tabs value={preset} onValueChange={(value) => setPreset(value as RangePreset)}>
+            <TabsList>
+              <TabsTrigger value="30d">30 days</TabsTrigger>
+              <TabsTrigger value="90d">90 days</TabsTrigger>
+              <TabsTrigger value="month">This month</TabsTrigger>
+              <TabsTrigger value="custom">Custom</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          {preset === 'custom' && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <CalendarRange className="h-4 w-4 mr-2" />
+                  Pick range
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="range"
+                  selected={customRange}
+                  onSelect={setCustomRange}
+                  numberOfMonths={2}
+                  defaultMonth={dateKeyToLocalDate(addDays(today, -31))}
+                  disabled={{ after: dateKeyToLocalDate(today) }}
+                  toDate={dateKeyToLocalDate(today)}
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading || !analytics ? (
+        <div className="h-64 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading insights...</span>
+        </div>
+      ) : analytics.days_logged === 0 ? (
+        <div className="h-64 flex items-center justify-center text-muted-foreground text-center">
+          <div>
+            <TrendingUp className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>No meals logged in this range</p>
+            <p className="text-xs">Pick a longer range or log meals in the Food Log</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <Card className="gradient-card border border-border">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Average Calories</CardTitle>
+                <Flame className="h-4 w-4 text-orange-500" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{analytics.averages.avg_calories}</div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  kcal per logged day · {analytics.days_logged} of {analytics.days.length} days logged
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="gradient-card border border-border">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Calorie Trend</CardTitle>
+                {slope < 0 ? <TrendingDown className="h-4 w-4 text-blue-500" /> : <TrendingUp className="h-4 w-4 text-orange-500" />}
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">
+                  {Math.abs(slope) < STABLE_SLOPE_KCAL ? 'Stable' : `${slope > 0 ? '+' : ''}${slope}`}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">kcal/day change per week</p>
+              </CardContent>
+            </Card>
+
+            <Card className="gradient-card border border-border">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Goal Adherence</CardTitle>
+                <Target className="h-4 w-4 text-green-500" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{analytics.adherence.calorie_adherence_pct}%</div>
+                <Progress value={analytics.adherence.calorie_adherence_pct} className="mt-2" />
+                <p className="text-xs text-muted-foreground mt-1">
+                  of {analytics.adherence.days_judged} days within ±{CALORIE_TOLERANCE * 100}% of the calorie goal
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="gradient-card border border-border">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Macro Adherence</CardTitle>
+                <PieChart className="h-4 w-4 text-blue-500" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{analytics.adherence.macro_adherence_pct}%</div>
+                <Progress value={analytics.adherence.macro_adherence_pct} className="mt-2" />
+                <p className="text-xs text-muted-foreground mt-1">
+                  of days with every macro within ±{MACRO_TOLERANCE * 100}% of target
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Calories with rolling average */}
+          <Card className="gradient-card border border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5" />
+                Calories and {ROLLING_WINDOW_DAYS}-Day Average
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={caloriesConfig} className="h-72 w-full aspect-auto">
+                <LineChart data={analytics.rolling} margin={{ left: 4, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} width={48} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => shortDate(String(value))} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="calories" stroke="var(--color-calories)" strokeWidth={0} dot={{ r: 2 }} connectNulls={false} />
+                  <Line dataKey="rolling_calories" stroke="var(--color-rolling_calories)" strokeWidth={2} dot={false} connectNulls />
+                  <Line dataKey="goal_calories" stroke="var(--color-goal_calories)" strokeDasharray="4 4" dot={false} type="stepAfter" />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Macro distribution over time */}
+            <Card className="gradient-card border border-border">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <PieChart className="h-5 w-5" />
+                  Macro Split by Week
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={macroConfig} className="h-64 w-full aspect-auto">
+                  <AreaChart data={analytics.macro_distribution} margin={{ left: 4, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="week_start" tickFormatter={shortDate} tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={36} domain={[0, 100]} unit="%" />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => `Week of ${shortDate(String(value))}`} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Area dataKey="carbs" stackId="macros" stroke="var(--color-carbs)" fill="var(--color-carbs)" fillOpacity={0.6} />
+                    <Area dataKey="proteins" stackId="macros" stroke="var(--color-proteins)" fill="var(--color-proteins)" fillOpacity={0.6} />
+                    <Area dataKey="fats" stackId="macros" stroke="var(--color-fats)" fill="var(--color-fats)" fillOpacity={0.6} />
+                  </AreaChart>
+                </ChartContainer>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Whole range: {analytics.overall_macro_share.carbs}% carbs · {analytics.overall_macro_share.proteins}% protein · {analytics.overall_macro_share.fats}% fat
+                </p>
+              </CardContent>
+            </Card>
+
+            {/* Weekday vs weekend */}
+            <Card className="gradient-card border border-border">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarDays className="h-5 w-5" />
+                  Weekdays vs Weekends
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={dayGroupConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={dayGroups} margin={{ left: 4, right: 12 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="nutrient" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="weekday" fill="var(--color-weekday)" radius={4} />
+                    <Bar dataKey="weekend" fill="var(--color-weekend)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {weekendDifference === null
+                    ? 'Log both weekdays and weekends to compare them.'
+                    : `Weekends average ${Math.abs(weekendDifference)} kcal ${weekendDifference >= 0 ? 'more' : 'less'} than weekdays.`}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
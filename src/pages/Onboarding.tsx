@@ -5,11 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useProfile } from "@/contexts/ProfileContext";
 import { useAuth } from "@/contexts/AuthContext";
+import DietaryRestrictionsPicker from "@/components/DietaryRestrictionsPicker";
 import { 
   Heart, 
   Dumbbell, 
@@ -36,7 +36,8 @@ interface OnboardingData {
   workout_frequency?: string;
   diabetes_type?: string;
   medication?: string;
-  dietary_restrictions?: string;
+  dietary_restrictions: string[];
+  custom_dietary_tags: string[];
   specific_goals?: string;
 }
 
@@ -88,7 +89,9 @@ export default function Onboarding() {
   const [currentStep, setCurrentStep] = useState(0);
   const [onboardingData, setOnboardingData] = useState<OnboardingData>({
     user_type: '',
-    primary_goal: ''
+    primary_goal: '',
+    dietary_restrictions: [],
+    custom_dietary_tags: []
   });
   const [calculatedGoals, setCalculatedGoals] = useState<NutritionGoals | null>(null);
   const [loading, setLoading] = useState(false);
@@ -113,7 +116,7 @@ export default function Onboarding() {
     }
   }, [profile, navigate, refreshProfile]);
 
-  const updateOnboardingData = (field: keyof OnboardingData, value: string) => {
+  const updateOnboardingData = (field: Exclude<keyof OnboardingData, 'dietary_restrictions' | 'custom_dietary_tags'>, value: string) => {
     setOnboardingData(prev => ({
       ...prev,
       [field]: value
@@ -190,7 +193,10 @@ export default function Onboarding() {
     try {
       // Update profile with onboarding data
       const profileUpdateSuccess = await updateProfile({
-        user_type: onboardingData.user_type as 'diabetes' | 'gym' | 'general'
+        user_type: onboardingData.user_type as 'diabetes' | 'gym' | 'general',
+        dietary_restrictions: onboardingData.dietary_restrictions,
+        custom_dietary_tags: onboardingData.custom_dietary_tags,
+        medication: onboardingData.medication?.trim() || null
       });
 
       // Save nutrition goals even if profile update fails
@@ -479,15 +485,16 @@ export default function Onboarding() {
                   </div>
                 )}
 
-                <div className="space-y-2">
-                  <Label htmlFor="dietary_restrictions" className="text-white">Dietary Restrictions/Preferences (optional)</Label>
-                  <Textarea
-                    id="dietary_restrictions"
-                    placeholder="e.g., Vegetarian, no nuts, low sodium..."
-                    value={onboardingData.dietary_restrictions || ''}
-                    onChange={(e) => updateOnboardingData('dietary_restrictions', e.target.value)}
-                    className="fitness-input min-h-20"
+                <div className="space-y-3">
+                  <Label className="text-white">Dietary Restrictions/Allergies (optional)</Label>
+                  <DietaryRestrictionsPicker
+                    restrictions={onboardingData.dietary_restrictions}
+                    customTags={onboardingData.custom_dietary_tags}
+                    onChange={(dietary_restrictions, custom_dietary_tags) =>
+                      setOnboardingData(prev => ({ ...prev, dietary_restrictions, custom_dietary_tags }))
+                    }
                   />
+                  <p className="text-xs text-fitness-muted">We'll flag foods that conflict and keep AI suggestions within them</p>
                 </div>
               </div>
             )}
@@ -12,6 +12,16 @@ import { useToast } from "@/hooks/use-toast";
 import { useProfile, UserProfile } from "@/contexts/ProfileContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { useNutritionGoals } from "@/hooks/useNutritionGoals";
+import { useGoalRecalculation } from "@/hooks/useGoalRecalculation";
+import { useWeighIns } from "@/hooks/useWeighIns";
+import { formatDateKey, getDeviceTimeZone, listTimeZones } from "@/lib/dateUtils";
+import WeightTracker from "@/components/WeightTracker";
+import AdaptiveTdeeCard from "@/components/AdaptiveTdeeCard";
+import GoalTimeline from "@/components/GoalTimeline";
+import MacroCyclingCard from "@/components/MacroCyclingCard";
+import DietaryRestrictionsPicker from "@/components/DietaryRestrictionsPicker";
+import MedicationSchedule from "@/components/MedicationSchedule";
+import { DIETARY_RESTRICTIONS, isDietaryRestriction } from "@/lib/dietaryRestrictions";
 import { 
   User, 
   Edit3, 
@@ -45,6 +55,8 @@ const userTypeOptions = [
   { value: "general", label: "General Health", icon: Users, color: "bg-green-500" }
 ];
 
+const timeZoneOptions = listTimeZones();
+
 export default function Profile() {
   const [isSaving, setIsSaving] = useState(false);
   const [editedProfile, setEditedProfile] = useState<Partial<UserProfile>>({});
@@ -52,9 +64,11 @@ export default function Profile() {
   const [isRecalculatingGoals, setIsRecalculatingGoals] = useState(false);
   
   const { toast } = useToast();
-  const { profile, loading, updateProfile, refreshProfile, isProfileComplete, calculateUserNutritionGoals, saveNutritionGoals } = useProfile();
+  const { profile, loading, updateProfile, refreshProfile, isProfileComplete } = useProfile();
+  const { recalculateGoals } = useGoalRecalculation();
   const { user } = useAuth();
   const { goals: nutritionGoals, loading: goalsLoading, error: goalsError, refetch: refetchGoals } = useNutritionGoals();
+  const { addWeighIn } = useWeighIns();
 
   const handleSave = async () => {
     try {
@@ -62,6 +76,12 @@ export default function Profile() {
       const success = await updateProfile(editedProfile);
       
       if (success) {
+        // Keep a record of weight edits in the weigh-in history
+        if (editedProfile.weight && editedProfile.weight !== profile?.weight) {
+          await addWeighIn({ weight_kg: editedProfile.weight, notes: 'From profile' });
+        }
+
+
         // Check if nutrition-relevant fields changed (weight, height, age, user_type)
         const nutritionRelevantFields = ['weight', 'height', 'age', 'user_type', 'target_weight'];
         const changedNutritionFields = nutritionRelevantFields.some(field => 
@@ -71,9 +91,7 @@ export default function Profile() {
         if (changedNutritionFields && profile && profile.age && profile.gender && profile.height && profile.weight && profile.target_weight && profile.user_type) {
           setIsRecalculatingGoals(true);
           try {
-            const newGoals = calculateUserNutritionGoals('maintain');
-            if (newGoals) {
-              await saveNutritionGoals(newGoals);
+            if (await recalculateGoals(editedProfile)) {
               await refetchGoals(); // Refresh nutrition goals display
               toast({
                 title: "Profile & Goals Updated",
@@ -176,6 +194,10 @@ export default function Profile() {
   const currentBMI = profile.weight && profile.height ? calculateBMI(profile.weight, profile.height) : null;
   const bmiCategory = currentBMI ? getBMICategory(currentBMI) : null;
   const userType = getUserTypeDisplay(profile.user_type);
+  const dietaryLabels = [
+    ...(profile.dietary_restrictions ?? []).filter(isDietaryRestriction).map(key => DIETARY_RESTRICTIONS[key].label),
+    ...(profile.custom_dietary_tags ?? [])
+  ];
 
   return (
     <div className="container mx-auto p-6 max-w-4xl space-y-6">
@@ -268,6 +290,26 @@ export default function Profile() {
                       </SelectContent>
                     </Select>
                   </div>
+
+                  <div className="space-y-2 md:col-span-2">
+                    <Label htmlFor="timezone" className="text-white">Timezone</Label>
+                    <Select
+                      value={editedProfile.timezone || getDeviceTimeZone()}
+                      onValueChange={(value) => handleInputChange('timezone', value)}
+                    >
+                      <SelectTrigger id="timezone" className="fitness-input">
+                        <SelectValue placeholder="Select timezone" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {timeZoneOptions.map(zone => (
+                          <SelectItem key={zone} value={zone}>
+                            {zone.replace(/_/g, ' ')}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-fitness-muted">Decides which day late-night meals count towards</p>
+                  </div>
                 </div>
               </div>
 
@@ -325,6 +367,30 @@ export default function Profile() {
                 </div>
               </div>
 
+              {/* Diet & Health */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold text-white">Diet & Health</h3>
+
+                <DietaryRestrictionsPicker
+                  restrictions={editedProfile.dietary_restrictions ?? []}
+                  customTags={editedProfile.custom_dietary_tags ?? []}
+                  onChange={(dietary_restrictions, custom_dietary_tags) =>
+                    setEditedProfile(prev => ({ ...prev, dietary_restrictions, custom_dietary_tags }))
+                  }
+                />
+
+                <div className="space-y-2">
+                  <Label htmlFor="medication" className="text-white">Current Medication</Label>
+                  <Input
+                    id="medication"
+                    value={editedProfile.medication || ''}
+                    onChange={(e) => handleInputChange('medication', e.target.value)}
+                    className="fitness-input"
+                    placeholder="e.g. Metformin, Insulin"
+                  />
+                </div>
+              </div>
+
               {/* Action Buttons */}
               <div className="flex justify-end space-x-4 pt-4">
                 <Button 
@@ -414,6 +480,26 @@ export default function Profile() {
                 </Badge>
               </div>
             </div>
+
+            <div>
+              <p className="text-fitness-light text-sm">Dietary Restrictions</p>
+              {dietaryLabels.length > 0 ? (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {dietaryLabels.map(label => (
+                    <Badge key={label} variant="secondary" className="text-xs">{label}</Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="font-semibold text-white">-</p>
+              )}
+            </div>
+
+            {profile.medication && (
+              <div>
+                <p className="text-fitness-light text-sm">Medication</p>
+                <p className="font-semibold text-white">{profile.medication}</p>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -509,6 +595,12 @@ export default function Profile() {
         </Card>
       </div>
 
+      {/* Weight History */}
+      <WeightTracker />
+
+      {/* Formula vs measured expenditure */}
+      {isProfileComplete && <AdaptiveTdeeCard />}
+
       {/* Nutrition Goals Section */}
       {profile && isProfileComplete && (
         <Card className="fitness-card">
@@ -596,9 +688,7 @@ export default function Profile() {
                     if (profile && profile.age && profile.gender && profile.height && profile.weight && profile.target_weight && profile.user_type) {
                       setIsRecalculatingGoals(true);
                       try {
-                        const goals = calculateUserNutritionGoals('maintain');
-                        if (goals) {
-                          await saveNutritionGoals(goals);
+                        if (await recalculateGoals()) {
                           await refetchGoals();
                         }
                       } catch (error) {
@@ -635,7 +725,7 @@ export default function Profile() {
             {nutritionGoals && (
               <div className="mt-4 pt-4 border-t border-fitness-muted/20">
                 <p className="text-xs text-fitness-muted text-center">
-                  Goals calculated on {new Date(nutritionGoals.calculation_date).toLocaleDateString()}
+                  Goals calculated on {formatDateKey(nutritionGoals.calculation_date, { year: 'numeric', month: 'numeric', day: 'numeric' })}
                   {profile?.user_type && (
                     <> • Optimized for {profile.user_type === 'diabetes' ? 'Diabetes Management' : profile.user_type === 'gym' ? 'Fitness Goals' : 'General Health'}</>
                   )}
@@ -645,6 +735,15 @@ export default function Profile() {
           </CardContent>
         </Card>
       )}
+
+      {/* Goal versions and scheduled changes */}
+      {profile && isProfileComplete && <GoalTimeline />}
+
+      {/* Training-day and rest-day targets */}
+      {profile && isProfileComplete && <MacroCyclingCard />}
+
+      {/* Medication schedule and reminders */}
+      <MedicationSchedule />
     </div>
   );
 }
\ No newline at end of file
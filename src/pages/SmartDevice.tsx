@@ -10,10 +10,14 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useActivityData } from "@/hooks/useActivityData";
+import { useTimeZone } from "@/hooks/useTimeZone";
 import { useProfile } from "@/contexts/ProfileContext";
 import { googleFitAPI } from "@/lib/googleFitIntegration";
 import { appleHealthAPI } from "@/lib/appleHealthSimulation";
+import { todayKey } from "@/lib/dateUtils";
 import { calculateNutritionGoalsWithActivity } from "@/lib/nutritionCalculations";
+import WorkoutFueling from "@/components/WorkoutFueling";
+import AppleHealthImportDialog from "@/components/AppleHealthImportDialog";
 import { 
   Heart, 
   Footprints, 
@@ -29,12 +33,14 @@ import {
   Target,
   BarChart3,
   Flame,
-  XCircle
+  XCircle,
+  Upload
 } from "lucide-react";
 
 export default function SmartDevice() {
   const [isConnecting, setIsConnecting] = useState<string | null>(null);
   const [connectDialogOpen, setConnectDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [exerciseDialogOpen, setExerciseDialogOpen] = useState(false);
   const [newExercise, setNewExercise] = useState({
     type: '',
@@ -61,6 +67,7 @@ export default function SmartDevice() {
     addExerciseSession,
     updateGoals
   } = useActivityData();
+  const timeZone = useTimeZone();
 
   // Connect to a smart device
   const handleConnectDevice = async (deviceType: 'google_fit' | 'apple_health') => {
@@ -87,7 +94,7 @@ export default function SmartDevice() {
       } else if (deviceType === 'apple_health') {
         const success = await appleHealthAPI.connect();
         if (success) {
-          await connectDevice(deviceType, 'Apple Health (Simulated)');
+          await connectDevice(deviceType, 'Apple Health (Demo)');
           await handleSyncData(deviceType);
         } else {
           throw new Error('Failed to connect to Apple Health');
@@ -109,18 +116,24 @@ export default function SmartDevice() {
 
   // Sync data from connected devices
   const handleSyncData = async (deviceType: 'google_fit' | 'apple_health' | 'fitbit' | 'garmin' | 'samsung_health') => {
+    // Outside the demo, Apple Health data only arrives through an export import
+    if (deviceType === 'apple_health' && !appleHealthAPI.isHealthConnected()) {
+      setImportDialogOpen(true);
+      return;
+    }
+
     try {
       const today = new Date();
       
       if (deviceType === 'google_fit' && googleFitAPI.isAuthenticated()) {
         const data = await googleFitAPI.fetchFitnessData(today, today);
         if (data) {
-          await updateActivity(today.toISOString().split('T')[0], data);
+          await updateActivity(todayKey(timeZone), data);
         }
       } else if (deviceType === 'apple_health' && appleHealthAPI.isHealthConnected()) {
         const data = await appleHealthAPI.fetchHealthData(today);
         if (data) {
-          await updateActivity(today.toISOString().split('T')[0], data);
+          await updateActivity(todayKey(timeZone), data);
         }
       }
       // For other device types, we'll use the existing syncDeviceData
@@ -143,7 +156,7 @@ export default function SmartDevice() {
         return;
       }
 
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayKey(timeZone);
       const now = new Date();
       const startTime = new Date(now.getTime() - parseInt(newExercise.duration) * 60000);
 
@@ -313,6 +326,22 @@ export default function SmartDevice() {
                     </div>
                   </Button>
 
+                  <Button
+                    onClick={() => {
+                      setConnectDialogOpen(false);
+                      setImportDialogOpen(true);
+                    }}
+                    className="w-full justify-start h-auto p-4 bg-fitness-dark border border-fitness-muted/20 hover:bg-fitness-muted/20 text-white"
+                  >
+                    <div className="flex items-center gap-3">
+                      <Upload className="w-6 h-6 text-red-500" />
+                      <div className="text-left">
+                        <div className="font-semibold">Apple Health Export</div>
+                        <div className="text-sm text-fitness-light">Import export.zip from the iPhone Health app</div>
+                      </div>
+                    </div>
+                  </Button>
+
                   <Button
                     onClick={() => handleConnectDevice('apple_health')}
                     disabled={isConnecting === 'apple_health'}
@@ -321,8 +350,8 @@ export default function SmartDevice() {
                     <div className="flex items-center gap-3">
                       <Heart className="w-6 h-6 text-red-500" />
                       <div className="text-left">
-                        <div className="font-semibold">Apple Health (Simulated)</div>
-                        <div className="text-sm text-fitness-light">Connect iOS health data</div>
+                        <div className="font-semibold">Apple Health Demo</div>
+                        <div className="text-sm text-fitness-light">Simulated data for trying the app</div>
                       </div>
                       {isConnecting === 'apple_health' && (
                         <Loader2 className="w-4 h-4 animate-spin ml-auto" />
@@ -339,6 +368,8 @@ export default function SmartDevice() {
             </DialogContent>
           </Dialog>
 
+          <AppleHealthImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
+
           <Dialog open={exerciseDialogOpen} onOpenChange={setExerciseDialogOpen}>
             <DialogTrigger asChild>
               <Button variant="outline" className="border-fitness-muted text-fitness-light hover:bg-fitness-muted/20">
@@ -549,6 +580,9 @@ export default function SmartDevice() {
         </Card>
       )}
 
+      {/* Meals around each workout */}
+      <WorkoutFueling />
+
       {/* Device Management and Insights */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Connected Devices */}